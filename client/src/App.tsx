@@ -6,22 +6,11 @@ import CharacterSelectScreen from './components/CharacterSelectScreen';
 import CharacterCreateScreen from './components/CharacterCreateScreen';
 import InGameScreen from './components/InGameScreen';
 
-import { EquipmentSlot, ItemStats } from './types.js';
+import { EquipmentSlot, ItemStats, DamageBreakdown, DamageType, SkillDefinition, AttributeName, CharacterClass, EncounterData, Item, GroundLootItem, Stash, VendorInventory } from './types.js';
 
 
 
 
-interface CharacterClass {
-    name: string;
-    description: string;
-    baseStats: {
-        strength: number;
-        dexterity: number;
-        vitality: number;
-        energy: number;
-    };
-}
-
 interface CharacterSummary {
     id: string;
     name: string;
@@ -35,11 +24,21 @@ type ViewState = 'login' | 'mainMenu' | 'createCharacter' | 'selectCharacter' |
 
 // --- Local Game Data (Simulating import from gameData.ts) ---
 const characterClasses: Map<string, CharacterClass> = new Map([
-    ['warrior', { name: 'Warrior', description: 'Master of weapons and close combat', baseStats: { strength: 30, dexterity: 20, vitality: 25, energy: 10 } }],
-    ['rogue', { name: 'Rogue', description: 'Master of ranged combat and traps', baseStats: { strength: 20, dexterity: 30, vitality: 20, energy: 15 } }],
-    ['sorcerer', { name: 'Sorcerer', description: 'Master of elemental magic', baseStats: { strength: 15, dexterity: 15, vitality: 20, energy: 35 } }],
-    ['monk', { name: 'Monk', description: 'Master of martial arts and holy magic', baseStats: { strength: 25, dexterity: 25, vitality: 20, energy: 15 } }],
-    ['barbarian', { name: 'Barbarian', description: 'Master of melee combat and battle cries', baseStats: { strength: 40, dexterity: 20, vitality: 25, energy: 0 } }],
+    ['warrior', { name: 'Warrior', description: 'Master of weapons and close combat', baseStats: { strength: 30, dexterity: 20, vitality: 25, energy: 10 },
+        primaryAttribute: 'strength', allowedWeaponTypes: ['sword', 'axe', 'mace', 'polearm', 'dagger'], hpPerLevel: 3, manaPerLevel: 1,
+        mechanic: { type: 'fortitude', name: 'Fortitude', description: 'Takes 15% less physical damage.' } }],
+    ['rogue', { name: 'Rogue', description: 'Master of ranged combat and traps', baseStats: { strength: 20, dexterity: 30, vitality: 20, energy: 15 },
+        primaryAttribute: 'dexterity', allowedWeaponTypes: ['bow', 'dagger', 'sword'], hpPerLevel: 2, manaPerLevel: 1,
+        mechanic: { type: 'critical', name: 'Precision', description: 'Weapon hits can be critical for 1.5x damage; every point of dexterity adds 0.25% critical chance.' } }],
+    ['sorcerer', { name: 'Sorcerer', description: 'Master of elemental magic', baseStats: { strength: 15, dexterity: 15, vitality: 20, energy: 35 },
+        primaryAttribute: 'energy', allowedWeaponTypes: ['staff', 'wand', 'dagger'], hpPerLevel: 1, manaPerLevel: 3,
+        mechanic: { type: 'manaShield', name: 'Mana Shield', description: '30% of the damage taken from attacks is paid with mana while mana lasts.' } }],
+    ['monk', { name: 'Monk', description: 'Master of martial arts and holy magic', baseStats: { strength: 25, dexterity: 25, vitality: 20, energy: 15 },
+        primaryAttribute: 'dexterity', allowedWeaponTypes: ['staff', 'mace', 'scepter'], hpPerLevel: 2, manaPerLevel: 2,
+        mechanic: { type: 'combo', name: 'Combo', description: 'Every hit builds a combo stack (up to 3) that adds 10% weapon damage; a miss breaks the combo.' } }],
+    ['barbarian', { name: 'Barbarian', description: 'Master of melee combat and battle cries', baseStats: { strength: 40, dexterity: 20, vitality: 25, energy: 0 },
+        primaryAttribute: 'strength', allowedWeaponTypes: ['axe', 'mace', 'sword', 'polearm'], hpPerLevel: 4, manaPerLevel: 0,
+        mechanic: { type: 'rage', name: 'Rage', description: 'Every hit taken builds a rage stack (up to 10) that adds 5% weapon damage until the fight ends.' } }],
 ]);
 
 
@@ -200,6 +199,24 @@ function connectWebSocket(
 }
 // --- End WebSocket Logic ---
 
+// --- Combat Log Helpers ---
+const MAX_COMBAT_LOG_ENTRIES = 50;
+
+// Formats a damage breakdown as "12 (8 physical, 4 fire)", listing only non-zero damage types
+// Lists the drops of a kill; those the auto-pickup filter left behind are marked as lying on the ground
+function formatLootMessage(loot: Item[], groundLoot?: GroundLootItem[]): string {
+    const groundIds = new Set((groundLoot ?? []).map(item => item.id));
+    return `Loot: ${loot.map(item => `${item.name}${(item.quantity ?? 1) > 1 ? ` (x${item.quantity})` : ''}${groundIds.has(item.id) ? ' (on the ground)' : ''}`).join(', ')}`;
+}
+
+function formatDamageBreakdown(total: number, breakdown?: DamageBreakdown): string {
+    if (!breakdown) return `${total}`;
+    const parts = (Object.keys(breakdown) as DamageType[])
+        .filter(type => breakdown[type] > 0)
+        .map(type => `${breakdown[type]} ${type}`);
+    return parts.length > 1 ? `${total} (${parts.join(', ')})` : parts.length === 1 ? parts[0]! : `${total}`;
+}
+
 
 function App() {
     // --- State Management ---
@@ -210,15 +227,25 @@ function App() {
     const [selectedCharacterData, setSelectedCharacterData] = useState<any | null>(null); // Keep 'any' for now
     const [currentZoneData, setCurrentZoneData] = useState<any | null>(null); // This might become redundant if InGameScreen uses zoneStatuses directly
     const [zoneStatuses, setZoneStatuses] = useState<any[]>([]);
-    const [currentEncounter, setCurrentEncounter] = useState<any | null>(null);
+    const [currentEncounter, setCurrentEncounter] = useState<EncounterData | null>(null);
+    const [skillTree, setSkillTree] = useState<SkillDefinition[]>([]); // Skills of the selected character's class
+    const [isResting, setIsResting] = useState(false); // Auto-rest is holding back the next encounter
+    const [sharedStash, setSharedStash] = useState<Stash | null>(null); // The account's shared stash, sent when the stash is used
+    const [vendorInventory, setVendorInventory] = useState<VendorInventory | null>(null); // The open vendor's wares
+    const [skillCooldownEnds, setSkillCooldownEnds] = useState<Record<string, number>>({}); // Skill ID -> time it is ready again
     const [wsStatus, setWsStatus] = useState<{ text: string; isConnected: boolean }>({ text: 'Idle', isConnected: false });
     const [serverMessages, setServerMessages] = useState<string[]>([]);
+    const [combatLog, setCombatLog] = useState<string[]>([]);
     const browserWsRef = useRef<WebSocket | null>(null); // Ref for browser WebSocket
 
     // --- WebSocket Message Handling ---
     // Ref to hold the latest version of the message handler callback
     const handleServerMessageRef = useRef<(message: any) => void>(() => {});
 
+    const addCombatLogEntry = (entry: string) => {
+        setCombatLog(prev => [...prev, entry].slice(-MAX_COMBAT_LOG_ENTRIES));
+    };
+
     const handleServerMessage = useCallback((message: any) => {
         console.log('Message received in App:', message);
         setServerMessages(prev => [...prev, `Server: ${JSON.stringify(message)}`]);
@@ -310,6 +337,7 @@ function App() {
                  setSelectedCharacterData(message.payload.characterData);
                  setCurrentZoneData(message.payload.zoneData);
                  setCurrentEncounter(null);
+                 setIsResting(false);
                  console.log(message.payload.message);
                  break;
             case 'travel_fail':
@@ -318,18 +346,73 @@ function App() {
             // --- NEW: Handle specific attack updates ---
             case 'player_attack_update':
                  console.log('Player attack update:', message.payload);
-                 // Update monster health
+                 if (message.payload.skill) {
+                     const { skillId, name, cooldownMs, healed } = message.payload.skill;
+                     setSkillCooldownEnds(prev => ({ ...prev, [skillId]: Date.now() + cooldownMs }));
+                     if (message.payload.hit) {
+                         addCombatLogEntry(`${name} ${message.payload.critical ? 'critically hits' : 'hits'} for ${formatDamageBreakdown(message.payload.playerDamageDealt, message.payload.damageBreakdown)}.`);
+                     } else if (!healed) {
+                         addCombatLogEntry(`${name} misses.`);
+                     }
+                     if (healed) addCombatLogEntry(`${name} heals you for ${healed}.`);
+                 } else if (message.payload.isPoisonTick) {
+                     addCombatLogEntry(`Poison deals ${message.payload.playerDamageDealt} damage.`);
+                 } else if (message.payload.hit === false) {
+                     addCombatLogEntry('You miss.');
+                 } else {
+                     addCombatLogEntry(`You ${message.payload.critical ? 'critically hit' : 'hit'} for ${formatDamageBreakdown(message.payload.playerDamageDealt, message.payload.damageBreakdown)}.`);
+                 }
+                 // Life/mana steal heals the player on hit; skills spend mana
+                 if (message.payload.characterUpdate) {
+                     const { currentHp, currentMana } = message.payload.characterUpdate;
+                     setSelectedCharacterData((prev: any) => prev ? { ...prev, currentHp, currentMana } : null);
+                     if (message.payload.lifeStolen) addCombatLogEntry(`You steal ${message.payload.lifeStolen} life.`);
+                     if (message.payload.manaStolen) addCombatLogEntry(`You steal ${message.payload.manaStolen} mana.`);
+                 }
+                 // Area-of-effect skills also hit the rest of the pack
+                 for (const splash of message.payload.splashHits ?? []) {
+                     addCombatLogEntry(splash.hit ? `${message.payload.skill?.name ?? 'The skill'} also hits for ${splash.damage}.` : `${message.payload.skill?.name ?? 'The skill'} misses another monster.`);
+                 }
+                 // Update monster health (and the class resource built by the attack)
                  if (message.payload.monsterUpdate) {
-                     setCurrentEncounter((prev: any) => prev ? { ...prev, currentHp: message.payload.monsterUpdate.currentHp } : null);
+                     const hpUpdates = new Map<string, number>([[message.payload.monsterId, message.payload.monsterUpdate.currentHp]]);
+                     for (const splash of message.payload.splashHits ?? []) hpUpdates.set(splash.monsterId, splash.currentHp);
+                     setCurrentEncounter((prev: EncounterData | null) => prev ? {
+                         ...prev,
+                         monsters: prev.monsters.map(monster => ({ ...monster, currentHp: hpUpdates.get(monster.id) ?? monster.currentHp })),
+                         classResource: message.payload.classResource ?? prev.classResource
+                     } : null);
                  }
                  // Optional: Update player resource if attack cost something (e.g., energy)
                  // if (message.payload.playerUpdate) { ... }
                  break;
             case 'monster_attack_update':
                  console.log('Monster attack update:', message.payload);
-                 // Update player health
+                 if (message.payload.isPoisonTick) {
+                     addCombatLogEntry(`You take ${message.payload.monsterDamageTaken} poison damage.`);
+                 } else if (message.payload.hit === false) {
+                     addCombatLogEntry('The monster misses you.');
+                 } else if (message.payload.blocked) {
+                     addCombatLogEntry('You block the attack.');
+                 } else {
+                     addCombatLogEntry(`You are hit for ${formatDamageBreakdown(message.payload.monsterDamageTaken, message.payload.damageBreakdown)}.`);
+                 }
+                 if (message.payload.shieldAbsorbed) addCombatLogEntry(`Your shield absorbs ${message.payload.shieldAbsorbed} damage.`);
+                 if (message.payload.manaAbsorbed) addCombatLogEntry(`Your mana absorbs ${message.payload.manaAbsorbed} damage.`);
+                 if (message.payload.monsterHealed) addCombatLogEntry(`The monster drains ${message.payload.monsterHealed} life.`);
+                 // Update player health (and mana spent by a mana shield)
                  if (message.payload.characterUpdate) {
-                     setSelectedCharacterData((prev: any) => prev ? { ...prev, currentHp: message.payload.characterUpdate.currentHp } : null);
+                     const { currentHp, currentMana } = message.payload.characterUpdate;
+                     setSelectedCharacterData((prev: any) => prev ? { ...prev, currentHp, currentMana: currentMana ?? prev.currentMana } : null);
+                 }
+                 if (message.payload.classResource || message.payload.monsterUpdate) {
+                     setCurrentEncounter((prev: EncounterData | null) => prev ? {
+                         ...prev,
+                         monsters: prev.monsters.map(monster => monster.id === message.payload.monsterId && message.payload.monsterUpdate
+                             ? { ...monster, currentHp: message.payload.monsterUpdate.currentHp }
+                             : monster),
+                         classResource: message.payload.classResource ?? prev.classResource
+                     } : null);
                  }
                  break;
             case 'player_death':
@@ -339,6 +422,7 @@ function App() {
                          ...prev,
                          currentHp: message.payload.characterUpdate.currentHp,
                          currentZoneId: message.payload.characterUpdate.currentZoneId,
+                         statusEffects: [],
                          level: message.payload.characterUpdate.level ?? prev.level,
                          experience: message.payload.characterUpdate.experience ?? prev.experience,
                           xpToNextLevel: message.payload.characterUpdate.xpToNextLevel ?? prev.xpToNextLevel,
@@ -348,10 +432,42 @@ function App() {
                       setCurrentZoneData(respawnZoneData || null); // Update currentZoneData for consistency, though InGameScreen might not use it directly anymore
                   }
                   setCurrentEncounter(null);
+                  setIsResting(false);
                  break;
             case 'encounter_start':
                  console.log('Encounter started:', message.payload);
-                 setCurrentEncounter(message.payload.monster);
+                 setIsResting(false);
+                 setCurrentEncounter({
+                     monsters: message.payload.monsters,
+                     targetId: message.payload.targetId ?? null,
+                     hitRateVsPlayer: message.payload.monsterHitChance,
+                     classResource: message.payload.classResource
+                 });
+                 for (const monster of message.payload.monsters) {
+                     if (monster.rarity && monster.rarity !== 'normal') {
+                         const modifierNames = (monster.modifiers ?? []).map((modifier: any) => modifier.name).join(', ');
+                         addCombatLogEntry(`A ${monster.rarity} ${monster.name} appears${modifierNames ? ` (${modifierNames})` : ''}!`);
+                     }
+                 }
+                 if (message.payload.monsters.length > 1) {
+                     addCombatLogEntry(`A pack of ${message.payload.monsters.length} monsters attacks!`);
+                 }
+                 // Refresh displayed combat stats with the values used for this encounter
+                 if (message.payload.combatStats) {
+                     const stats = message.payload.combatStats;
+                     setSelectedCharacterData((prev: any) => prev ? {
+                         ...prev,
+                         combatStats: {
+                             ...prev.combatStats,
+                             damageRange: `${stats.minDamage}-${stats.maxDamage}`,
+                             attackRating: stats.attackRating,
+                             defense: stats.defense,
+                             blockChance: Math.round(stats.blockChance * 100),
+                             attackSpeed: `${stats.attackSpeed}ms`,
+                             hitRateVsCurrent: message.payload.playerHitChance,
+                         }
+                     } : null);
+                 }
                  break;
             case 'encounter_end':
                  console.log('Encounter ended:', message.payload);
@@ -369,10 +485,74 @@ function App() {
                   setCurrentEncounter(null);
                   if (message.payload.loot && Array.isArray(message.payload.loot) && message.payload.loot.length > 0) {
                       console.log("Received Loot:", message.payload.loot);
-                      const lootMessage = `Loot: ${message.payload.loot.map((item: any) => `${item.name}${item.quantity > 1 ? ` (x${item.quantity})` : ''}`).join(', ')}`;
+                      const lootMessage = formatLootMessage(message.payload.loot, message.payload.characterUpdate?.groundLoot);
                       setServerMessages(prev => [...prev, lootMessage]);
                   }
                   break;
+            case 'monster_defeated': // Part of the pack fell, the rest fights on
+                 console.log('Monsters defeated:', message.payload);
+                 if (message.payload.characterUpdate) {
+                     const update = message.payload.characterUpdate;
+                     setSelectedCharacterData((prev: any) => prev ? { ...prev, ...update, inventory: update.inventory ?? prev.inventory ?? [] } : null);
+                 }
+                 setCurrentEncounter((prev: EncounterData | null) => prev ? {
+                     ...prev,
+                     monsters: prev.monsters.filter(monster => !message.payload.monsterIds.includes(monster.id)),
+                     targetId: message.payload.targetId ?? null
+                 } : null);
+                 if (message.payload.message) addCombatLogEntry(message.payload.message);
+                 if (message.payload.loot && message.payload.loot.length > 0) {
+                     const lootMessage = formatLootMessage(message.payload.loot, message.payload.characterUpdate?.groundLoot);
+                     setServerMessages(prev => [...prev, lootMessage]);
+                 }
+                 break;
+            case 'status_effects_update': // Buffs/debuffs applied, expired or ticked
+                 if (message.payload.player) {
+                     const player = message.payload.player;
+                     if (player.tick?.damage) addCombatLogEntry(`You take ${formatDamageBreakdown(player.tick.damage, player.tick.damageBreakdown)} from your afflictions.`);
+                     if (player.tick?.healed) addCombatLogEntry(`You regenerate ${player.tick.healed} HP.`);
+                     setSelectedCharacterData((prev: any) => prev ? {
+                         ...prev,
+                         statusEffects: player.effects,
+                         currentHp: player.currentHp ?? prev.currentHp,
+                         combatStats: prev.combatStats ? { ...prev.combatStats, attackSpeed: `${player.attackSpeed}ms` } : prev.combatStats
+                     } : null);
+                 }
+                 if (message.payload.monsters) {
+                     const updates = new Map<string, any>(message.payload.monsters.map((update: any) => [update.monsterId, update]));
+                     for (const update of message.payload.monsters) {
+                         if (update.tick?.damage) addCombatLogEntry(`Your effects deal ${formatDamageBreakdown(update.tick.damage, update.tick.damageBreakdown)}.`);
+                     }
+                     setCurrentEncounter((prev: EncounterData | null) => prev ? {
+                         ...prev,
+                         monsters: prev.monsters.map(monster => {
+                             const update = updates.get(monster.id);
+                             return update ? { ...monster, statusEffects: update.effects, currentHp: update.currentHp ?? monster.currentHp } : monster;
+                         })
+                     } : null);
+                 }
+                 break;
+            case 'target_update': // A new target was chosen
+                 setCurrentEncounter((prev: EncounterData | null) => prev ? { ...prev, targetId: message.payload.targetId, hitRateVsPlayer: message.payload.monsterHitChance } : null);
+                 setSelectedCharacterData((prev: any) => prev?.combatStats ? { ...prev, combatStats: { ...prev.combatStats, hitRateVsCurrent: message.payload.playerHitChance } } : prev);
+                 break;
+            case 'resource_update': // Server regeneration tick (HP/mana)
+                 setSelectedCharacterData((prev: any) => prev ? { ...prev, ...message.payload } : null);
+                 break;
+            case 'rest_update': // Auto-rest started or finished between encounters
+                 setIsResting(message.payload.resting);
+                 addCombatLogEntry(message.payload.message);
+                 break;
+            case 'auto_potion_used': // An auto-potion rule drank a potion during combat
+                 setSelectedCharacterData(message.payload.character);
+                 addCombatLogEntry(message.payload.message);
+                 break;
+            case 'shared_stash_update': // The account's shared stash was opened or changed
+                 setSharedStash(message.payload);
+                 break;
+            case 'vendor_inventory': // A vendor was opened, or its stock changed or restocked
+                 setVendorInventory(message.payload);
+                 break;
             case 'character_update': // General character updates (e.g., equip/unequip)
                  console.log('Character update received:', message.payload);
                  setSelectedCharacterData(message.payload);
@@ -382,6 +562,8 @@ function App() {
                  setSelectedCharacterData(message.payload.characterData);
                  setCurrentZoneData(message.payload.currentZoneData); // Keep setting this for now, might be useful
                  setZoneStatuses(message.payload.zoneStatuses || []); // Store the new zoneStatuses array
+                 setSkillTree(message.payload.skillTree || []);
+                 setSkillCooldownEnds({});
                  setCurrentEncounter(null);
                  console.log(message.payload.message);
                 setCurrentView('in_game'); // Change view after server confirmation
@@ -563,6 +745,8 @@ function App() {
          setCurrentZoneData(null);
          setZoneStatuses([]); // Clear zone statuses on logout
          setCurrentEncounter(null);
+         setSharedStash(null); // Belongs to the account
+         setVendorInventory(null);
          setCurrentView('login'); // Go back to login screen
         // Optionally disconnect WS or send logout message
     };
@@ -613,8 +797,16 @@ function App() {
         sendToServer('sell_item', { itemId }, browserWsRef);
     };
 
+    const handleMoveItem = (itemId: string, x: number, y: number) => {
+        sendToServer('move_item', { itemId, x, y }, browserWsRef);
+    };
+
     const handleLootGroundItem = (itemId: string) => {
-        sendToServer('loot_ground_item', { itemId }, browserWsRef);
+        sendToServer('pick_up_item', { itemId }, browserWsRef);
+    };
+
+    const handlePickUpAllGroundLoot = () => {
+        sendToServer('pick_up_all', {}, browserWsRef);
     };
 
     const handleAssignPotionSlot = (slotNumber: 1 | 2, itemBaseId: string | null) => {
@@ -625,6 +817,26 @@ function App() {
         sendToServer('use_potion_slot', { slotNumber }, browserWsRef);
     };
 
+    const handleAllocateAttributes = (allocation: Partial<Record<AttributeName, number>>) => {
+        sendToServer('allocate_attributes', allocation, browserWsRef);
+    };
+
+    const handleRespecAttributes = () => {
+        sendToServer('respec_attributes', {}, browserWsRef);
+    };
+
+    const handleLearnSkill = (skillId: string) => {
+        sendToServer('learn_skill', { skillId }, browserWsRef);
+    };
+
+    const handleSetSkillHotkey = (slotNumber: number, skillId: string | null) => {
+        sendToServer('set_skill_hotkey', { slotNumber, skillId }, browserWsRef);
+    };
+
+    const handleUseSkill = (skillId: string) => {
+        sendToServer('use_skill', { skillId }, browserWsRef);
+    };
+
     // --- Handler for Auto-Equip ---
     const handleAutoEquipBestStat = (stat: keyof ItemStats) => {
         console.log(`App: Requesting auto-equip for stat: ${stat}`);
@@ -693,15 +905,28 @@ function App() {
                              zone={currentZoneData} // Pass current zone data (now ZoneWithStatus type)
                              zoneStatuses={zoneStatuses} // Pass the new zoneStatuses array
                              encounter={currentEncounter}
+                             isResting={isResting}
+                             combatLog={combatLog}
                              onTravel={handleTravel}
                             onLogout={handleLogout}
                              onEquipItem={handleEquipItem}
                              onUnequipItem={handleUnequipItem}
                              onSellItem={handleSellItem} // Pass the sell handler
+                             onMoveItem={handleMoveItem}
                              onLootGroundItem={handleLootGroundItem} // Pass the ground loot handler
+                             onPickUpAllGroundLoot={handlePickUpAllGroundLoot}
                              onAssignPotionSlot={handleAssignPotionSlot} // Pass the assign potion handler
                               onUsePotionSlot={handleUsePotionSlot} // Pass the use potion handler
                               onAutoEquipBestStat={handleAutoEquipBestStat} // Pass the new handler
+                              onAllocateAttributes={handleAllocateAttributes}
+                              onRespecAttributes={handleRespecAttributes}
+                              skillTree={skillTree}
+                              skillCooldownEnds={skillCooldownEnds}
+                              onLearnSkill={handleLearnSkill}
+                              onSetSkillHotkey={handleSetSkillHotkey}
+                              onUseSkill={handleUseSkill}
+                              sharedStash={sharedStash}
+                              vendorInventory={vendorInventory}
                               onReturnToCharacterSelect={handleReturnToCharacterSelect} // Pass the return handler
                               // Pass sendToServer function so InGameScreen can send messages directly
                               sendWsMessage={(type: string, payload: any) => sendToServer(type, payload, browserWsRef)}
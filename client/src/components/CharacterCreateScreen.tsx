@@ -65,6 +65,12 @@ const CharacterCreateScreen: React.FC<CharacterCreateScreenProps> = ({
                                 <p>Vitality: {charClass.baseStats.vitality}</p>
                                 <p>Energy: {charClass.baseStats.energy}</p>
                             </div>
+                            <div className="class-mechanics">
+                                <p>Primary: {charClass.primaryAttribute}</p>
+                                <p>Weapons: {charClass.allowedWeaponTypes.join(', ')}</p>
+                                <p>Per level: +{charClass.hpPerLevel} HP, +{charClass.manaPerLevel} Mana</p>
+                                <p>{charClass.mechanic.name}: {charClass.mechanic.description}</p>
+                            </div>
                         </div>
                     ))}
                 </div>
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import InventoryPanel from './InventoryPanel';
+import StashPanel from './StashPanel';
+import VendorPanel from './VendorPanel';
 import OptionsScreen from './OptionsScreen';
 import {
     EquipmentSlot,
@@ -9,7 +11,12 @@ import {
     ZoneStatus,
     ZoneWithStatus,
     CharacterDataForClient,
-    EncounterData
+    EncounterData,
+    SkillDefinition,
+    AttributeName,
+    ActiveStatusEffect,
+    Stash,
+    VendorInventory
 } from '../types.js';
 
 interface InGameScreenProps {
@@ -17,15 +24,28 @@ interface InGameScreenProps {
     zone: ZoneWithStatus | null;
     zoneStatuses: ZoneWithStatus[];
     encounter: EncounterData | null;
+    isResting: boolean; // Auto-rest is holding back the next encounter
+    combatLog: string[];
     onTravel: (targetZoneId: string) => void;
     onLogout: () => void;
     onEquipItem: (itemId: string) => void;
     onUnequipItem: (slot: EquipmentSlot) => void;
     onSellItem: (itemId: string) => void;
+    onMoveItem: (itemId: string, x: number, y: number) => void;
     onLootGroundItem: (itemId: string) => void;
+    onPickUpAllGroundLoot: () => void;
     onAssignPotionSlot: (slotNumber: 1 | 2, itemBaseId: string | null) => void;
     onUsePotionSlot: (slotNumber: 1 | 2) => void;
     onAutoEquipBestStat: (stat: keyof ItemStats) => void;
+    onAllocateAttributes: (allocation: Partial<Record<AttributeName, number>>) => void;
+    onRespecAttributes: () => void;
+    skillTree: SkillDefinition[];
+    skillCooldownEnds: Record<string, number>; // Skill ID -> time it is ready again
+    onLearnSkill: (skillId: string) => void;
+    onSetSkillHotkey: (slotNumber: number, skillId: string | null) => void;
+    onUseSkill: (skillId: string) => void;
+    sharedStash: Stash | null; // The account's shared stash, loaded when the stash is opened
+    vendorInventory: VendorInventory | null; // The open vendor's wares, loaded when a vendor is visited
     onReturnToCharacterSelect: () => void; // Prop for returning
     sendWsMessage: (type: string, payload: any) => Promise<any>; // Prop for sending messages
     // Removed onCharacterDataLoaded prop
@@ -52,11 +72,21 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ current, max, label, classNam
 };
 
 const POTION_COOLDOWN_DURATION = 5000;
+const SKILL_HOTKEY_SLOTS = [1, 2, 3];
+const ATTRIBUTES: { key: AttributeName; label: string }[] = [
+    { key: 'strength', label: 'Strength' },
+    { key: 'dexterity', label: 'Dexterity' },
+    { key: 'vitality', label: 'Vitality' },
+    { key: 'energy', label: 'Energy' }
+];
+const RESPEC_GOLD_PER_LEVEL = 100; // Mirrors the server's respec price (gold per character level)
 
 const InGameScreen: React.FC<InGameScreenProps> = ({
-    character, zone, zoneStatuses, encounter, onTravel, onLogout,
-    onEquipItem, onUnequipItem, onSellItem, onAssignPotionSlot,
-    onUsePotionSlot, onLootGroundItem, onAutoEquipBestStat,
+    character, zone, zoneStatuses, encounter, isResting, combatLog, onTravel, onLogout,
+    onEquipItem, onUnequipItem, onSellItem, onMoveItem, onAssignPotionSlot,
+    onUsePotionSlot, onLootGroundItem, onPickUpAllGroundLoot, onAutoEquipBestStat,
+    onAllocateAttributes, onRespecAttributes,
+    skillTree, skillCooldownEnds, onLearnSkill, onSetSkillHotkey, onUseSkill, sharedStash, vendorInventory,
     onReturnToCharacterSelect, // Destructure new props
     sendWsMessage // Destructure new props
     // Removed onCharacterDataLoaded from destructuring
@@ -64,6 +94,8 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
     const [centerTab, setCenterTab] = useState<'combat-log' | 'chat'>('combat-log');
     const [rightTab, setRightTab] = useState<'stats' | 'skills' | 'quests' | 'mercenaries'>('stats');
     const [isInventoryModalOpen, setIsInventoryModalOpen] = useState(false);
+    const [isStashModalOpen, setIsStashModalOpen] = useState(false);
+    const [isVendorModalOpen, setIsVendorModalOpen] = useState(false);
     const [isOptionsModalOpen, setIsOptionsModalOpen] = useState(false); // State for options modal
     const [potionCooldownEnd, setPotionCooldownEnd] = useState<{ [key in 1 | 2]?: number | null }>({ 1: null, 2: null });
     const [now, setNow] = useState(Date.now());
@@ -125,7 +157,7 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
                         else if (!isConnected) { listItemClass += ' inaccessible'; isDisabled = true; title = `${zone.name} (Not directly accessible)`; }
                         else { title = `Travel to ${zone.name}`; }
                     } else { listItemClass += ' locked'; isDisabled = true; showLockIcon = true; title = `${zone.name} (Requires Level ${zone.requiredLevel})`; progressText = `Lvl ${zone.requiredLevel} Req.`; }
-                    const levelText = zone.id !== 'town' ? `(Lvl ${zone.requiredLevel})` : '';
+                    const levelText = zone.monsterLevel ? `(Lvl ${zone.monsterLevel.min}-${zone.monsterLevel.max})` : zone.id !== 'town' ? `(Lvl ${zone.requiredLevel})` : '';
                     return (
                         <li key={zone.id} className={listItemClass}>
                             <button className={buttonClass} data-zone-id={zone.id} disabled={isDisabled} onClick={() => !isDisabled && onTravel(zone.id)} title={title}>
@@ -143,26 +175,60 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
             </ul>
         );
      };
+    // Buffs and debuffs with their remaining time (effects already past their expiry are hidden until the server removes them)
+    const renderStatusEffects = (effects?: ActiveStatusEffect[]) => {
+        const active = (effects ?? []).filter(effect => effect.expiresAt > now);
+        if (active.length === 0) return null;
+        return (
+            <ul className="status-effects">
+                {active.map(effect => (
+                    <li key={effect.effectId} className={`status-effect status-${effect.kind}`} title={effect.absorbRemaining !== undefined ? `Absorbs ${effect.absorbRemaining} more damage` : undefined}>
+                        {effect.name}{effect.stacks > 1 ? ` x${effect.stacks}` : ''} ({Math.ceil((effect.expiresAt - now) / 1000)}s)
+                    </li>
+                ))}
+            </ul>
+        );
+    };
     const renderCombatArea = () => {
         if (encounter) {
-            const monsterHpPercent = Math.max(0, Math.min(100, encounter.maxHp > 0 ? (encounter.currentHp / encounter.maxHp) * 100 : 0));
             return (
                 <>
-                    <h4>Encounter!</h4>
-                    <div className="monster-info">
-                        <p>{encounter.name} (Lvl {encounter.level})</p>
-                        <ProgressBar current={encounter.currentHp} max={encounter.maxHp} className="small-progress" fillClassName="monster-hp" />
-                    </div>
+                    <h4>{encounter.monsters.length > 1 ? `Pack of ${encounter.monsters.length}!` : 'Encounter!'}</h4>
+                    {encounter.monsters.map(monster => (
+                        <div
+                            key={monster.id}
+                            className={`monster-info${monster.id === encounter.targetId ? ' monster-target' : ''}`}
+                            title={monster.id === encounter.targetId ? 'Current target' : 'Click to target'}
+                            onClick={() => monster.id !== encounter.targetId && sendWsMessage('set_target', { monsterId: monster.id })}
+                        >
+                            <p className={`monster-name rarity-${monster.rarity ?? 'normal'}`}>
+                                {monster.name} (Lvl {monster.level})
+                                {monster.rarity && monster.rarity !== 'normal' && <span className="monster-rarity"> {monster.rarity}</span>}
+                            </p>
+                            {monster.modifiers && monster.modifiers.length > 0 && (
+                                <ul className="monster-modifiers">
+                                    {monster.modifiers.map(modifier => (
+                                        <li key={modifier.id} title={modifier.description}>{modifier.name}</li>
+                                    ))}
+                                </ul>
+                            )}
+                            <ProgressBar current={monster.currentHp} max={monster.maxHp} className="small-progress" fillClassName="monster-hp" />
+                            {renderStatusEffects(monster.statusEffects)}
+                        </div>
+                    ))}
                     <div className="combat-stats">
                         <p>Your Hit Rate: <span>{character?.combatStats?.hitRateVsCurrent ?? '0.0'}%</span></p>
                         <p>Monster Hit Rate: <span>{encounter?.hitRateVsPlayer ?? '0.0'}%</span></p>
+                        {encounter.classResource && (
+                            <p>{encounter.classResource.name}: <span>{encounter.classResource.stacks}/{encounter.classResource.maxStacks}</span></p>
+                        )}
                     </div>
                 </>
             );
         } else {
             return (
                 <>
-                    <h4>{zone?.id !== 'town' ? 'Exploring...' : 'Welcome!'}</h4>
+                    <h4>{zone?.id === 'town' ? 'Welcome!' : isResting ? 'Resting...' : 'Exploring...'}</h4>
                     <div className="combat-stats">
                         <p>Your Hit Rate: <span>N/A</span></p>
                         <p>Monster Hit Rate: <span>N/A</span></p>
@@ -173,17 +239,38 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
         }
      };
     const renderStatsTab = () => {
+        const derived = character?.derivedStats;
+        // Fractional bonuses (e.g., 0.05) are shown as percentages
+        const formatPercent = (value?: number) => `${Math.round((value ?? 0) * 100)}%`;
+        const availablePoints = character?.availableAttributePoints ?? 0;
+        const allocatedPoints = ATTRIBUTES.reduce((sum, { key }) => sum + (character?.allocatedAttributes?.[key] ?? 0), 0);
+        const respecCost = RESPEC_GOLD_PER_LEVEL * characterLevel;
+        const isInTown = character?.currentZoneId === 'town';
+        const canRespec = isInTown && allocatedPoints > 0 && (character?.gold ?? 0) >= respecCost;
         return (
             <>
                 <div className="panel-section">
                     <h4>Attributes</h4>
                     <div className="stat-list">
-                        <p><span>Strength:</span> <span>{character?.stats?.strength ?? '??'}</span></p>
-                        <p><span>Dexterity:</span> <span>{character?.stats?.dexterity ?? '??'}</span></p>
-                        <p><span>Vitality:</span> <span>{character?.stats?.vitality ?? '??'}</span></p>
-                        <p><span>Energy:</span> <span>{character?.stats?.energy ?? '??'}</span></p>
-                        <p><span>Available Points:</span> <span>{character?.availableAttributePoints ?? 0}</span></p>
+                        {ATTRIBUTES.map(({ key, label }) => (
+                            <p key={key}>
+                                <span>{label}:</span>
+                                <span>
+                                    {character?.stats?.[key] ?? '??'}
+                                    {availablePoints > 0 && (
+                                        <button className="attribute-add-button" title={`Add a point to ${label}`} onClick={() => onAllocateAttributes({ [key]: 1 })}>+</button>
+                                    )}
+                                </span>
+                            </p>
+                        ))}
+                        <p><span>Available Points:</span> <span>{availablePoints}</span></p>
                     </div>
+                    {isInTown && (
+                        <button className="attribute-respec-button" disabled={!canRespec} onClick={onRespecAttributes}
+                            title={allocatedPoints === 0 ? 'No allocated points to reset' : `The trainer resets ${allocatedPoints} allocated points for ${respecCost} gold`}>
+                            Trainer: Reset Attributes ({respecCost} gold)
+                        </button>
+                    )}
                 </div>
                 <div className="panel-section">
                     <h4>Combat</h4>
@@ -191,7 +278,28 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
                         <p><span>Damage:</span> <span>{character?.combatStats?.damageRange ?? '1-2'}</span></p>
                         <p><span>Attack Rating:</span> <span>{character?.combatStats?.attackRating ?? '??'}</span></p>
                         <p><span>Defense:</span> <span>{character?.combatStats?.defense ?? '??'}</span></p>
+                        <p><span>Block Chance:</span> <span>{character?.combatStats?.blockChance ?? 0}%</span></p>
                         <p><span>Attack Speed:</span> <span>{character?.combatStats?.attackSpeed ?? 'Normal'}</span></p>
+                        <p><span>Increased Attack Speed:</span> <span>{formatPercent(derived?.increasedAttackSpeed)}</span></p>
+                        <p><span>Faster Hit Recovery:</span> <span>{formatPercent(derived?.fasterHitRecovery)}</span></p>
+                        <p><span>Life Steal:</span> <span>{formatPercent(derived?.lifeStealPercent)}</span></p>
+                        <p><span>Mana Steal:</span> <span>{formatPercent(derived?.manaStealPercent)}</span></p>
+                    </div>
+                </div>
+                <div className="panel-section">
+                    <h4>Resistances</h4>
+                    <div className="stat-list">
+                        <p><span>Fire:</span> <span>{derived?.fireRes ?? 0}%</span></p>
+                        <p><span>Cold:</span> <span>{derived?.coldRes ?? 0}%</span></p>
+                        <p><span>Lightning:</span> <span>{derived?.lightningRes ?? 0}%</span></p>
+                        <p><span>Poison:</span> <span>{derived?.poisonRes ?? 0}%</span></p>
+                    </div>
+                </div>
+                <div className="panel-section">
+                    <h4>Find</h4>
+                    <div className="stat-list">
+                        <p><span>Magic Find:</span> <span>{derived?.magicFind ?? 0}%</span></p>
+                        <p><span>Gold Find:</span> <span>{derived?.goldFind ?? 0}%</span></p>
                     </div>
                 </div>
                 <div className="panel-section">
@@ -204,10 +312,68 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
             </>
         );
      };
+    const renderSkillsTab = () => {
+        if (skillTree.length === 0) return <p>No skills available.</p>;
+        const learnedSkills = character?.skills ?? {};
+        const skillPoints = character?.skillPoints ?? 0;
+        const skillHotkeys = character?.skillHotkeys ?? [];
+        // Why a skill cannot be learned (or ranked up) right now, if anything
+        const getLearnBlocker = (skill: SkillDefinition): string | null => {
+            const rank = learnedSkills[skill.id] ?? 0;
+            if (rank >= skill.maxRank) return 'Max rank';
+            if (characterLevel < skill.requiredLevel) return `Requires level ${skill.requiredLevel}`;
+            const missingPrerequisite = skill.prerequisites?.find(id => !learnedSkills[id]);
+            if (missingPrerequisite) return `Requires ${skillTree.find(s => s.id === missingPrerequisite)?.name ?? missingPrerequisite}`;
+            if (skillPoints < 1) return 'No skill points';
+            return null;
+        };
+        return (
+            <>
+                <div className="panel-section">
+                    <div className="stat-list">
+                        <p><span>Skill Points:</span> <span>{skillPoints}</span></p>
+                    </div>
+                </div>
+                {(['active', 'passive'] as const).map(type => (
+                    <div className="panel-section" key={type}>
+                        <h4>{type === 'active' ? 'Active Skills' : 'Passive Skills'}</h4>
+                        {skillTree.filter(skill => skill.type === type).map(skill => {
+                            const rank = learnedSkills[skill.id] ?? 0;
+                            const learnBlocker = getLearnBlocker(skill);
+                            return (
+                                <div key={skill.id} className="skill-entry">
+                                    <div className="stat-list">
+                                        <p><span>{skill.name}</span> <span>{rank} / {skill.maxRank}</span></p>
+                                    </div>
+                                    <p className="skill-description">{skill.description}</p>
+                                    {skill.type === 'active' && (
+                                        <p className="skill-description">Mana: {skill.manaCost ?? 0} | Cooldown: {((skill.cooldownMs ?? 0) / 1000).toFixed(1)}s</p>
+                                    )}
+                                    <div className="skill-actions">
+                                        <button className="skill-learn-button" disabled={learnBlocker !== null} title={learnBlocker ?? `Spend a skill point on ${skill.name}`} onClick={() => onLearnSkill(skill.id)}>
+                                            {rank > 0 ? 'Rank Up' : 'Learn'}
+                                        </button>
+                                        {skill.type === 'active' && rank > 0 && SKILL_HOTKEY_SLOTS.map(slotNumber => {
+                                            const isAssigned = skillHotkeys[slotNumber - 1] === skill.id;
+                                            return (
+                                                <button key={slotNumber} className={`skill-hotkey-button ${isAssigned ? 'active' : ''}`} title={isAssigned ? `Remove from slot ${slotNumber}` : `Assign to slot ${slotNumber}`} onClick={() => onSetSkillHotkey(slotNumber, isAssigned ? null : skill.id)}>
+                                                    S{slotNumber}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
+            </>
+        );
+     };
     const renderRightPanelContent = () => {
         switch (rightTab) {
             case 'stats': return renderStatsTab();
-            case 'skills': return <p>Skills not implemented yet.</p>;
+            case 'skills': return renderSkillsTab();
             case 'quests': return <p>Quests not implemented yet.</p>;
             case 'mercenaries': return <p>Mercenaries not implemented yet.</p>;
             default: return null;
@@ -235,6 +401,7 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
                     <ProgressBar current={currentHp} max={maxHp} className="health-bar" />
                     <ProgressBar current={currentMana} max={maxMana} className="resource-bar" label={`${currentMana} / ${maxMana}`} />
                     <ProgressBar current={currentLevelXp} max={xpToNextLevelBracket} label={`Level ${characterLevel} - ${currentLevelXp} / ${xpToNextLevelBracket} XP`} className="xp-bar" />
+                    {renderStatusEffects(character?.statusEffects)}
                 </div>
             </header>
 
@@ -243,7 +410,7 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
                 <section id="center-panel">
                     <div id="combat-area">{renderCombatArea()}</div>
                     <div id="message-tabs"> <button className={`tab-button ${centerTab === 'combat-log' ? 'active' : ''}`} onClick={() => setCenterTab('combat-log')}>Combat</button> <button className={`tab-button ${centerTab === 'chat' ? 'active' : ''}`} onClick={() => setCenterTab('chat')}>Chat</button> </div>
-                    <div id="message-content"> <div id="combat-log-content" className={`tab-content ${centerTab === 'combat-log' ? 'active' : ''}`}> <p>Welcome!</p><p>Connecting to server...</p><p>Connected to server.</p> </div> <div id="chat-content" className={`tab-content ${centerTab === 'chat' ? 'active' : ''}`}> <p>Chat system not implemented yet.</p> </div> </div>
+                    <div id="message-content"> <div id="combat-log-content" className={`tab-content ${centerTab === 'combat-log' ? 'active' : ''}`}> {combatLog.length === 0 ? <p>Welcome!</p> : combatLog.map((entry, index) => <p key={index}>{entry}</p>)} </div> <div id="chat-content" className={`tab-content ${centerTab === 'chat' ? 'active' : ''}`}> <p>Chat system not implemented yet.</p> </div> </div>
                     <div id="action-bar">
                         <div className="action-bar-potions">
                             {[1, 2].map(slotNumberUntyped => {
@@ -265,13 +432,45 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
                                 );
                             })}
                         </div>
-                        <div className="action-bar-skills"> <button className="action-button skill-button" title="Skill 1 (Not Implemented)">S1</button> <button className="action-button skill-button" title="Skill 2 (Not Implemented)">S2</button> <button className="action-button skill-button" title="Skill 3 (Not Implemented)">S3</button> </div>
+                        <div className="action-bar-skills">
+                            {SKILL_HOTKEY_SLOTS.map(slotNumber => {
+                                const skillId = character?.skillHotkeys?.[slotNumber - 1] ?? null;
+                                const skill = skillId ? skillTree.find(s => s.id === skillId) : undefined;
+                                const cooldownEndTime = skill ? skillCooldownEnds[skill.id] : undefined;
+                                const remainingCooldown = typeof cooldownEndTime === 'number' ? Math.max(0, cooldownEndTime - now) : 0;
+                                const isOnCooldown = remainingCooldown > 0;
+                                const cooldownPercent = isOnCooldown && skill?.cooldownMs ? (remainingCooldown / skill.cooldownMs) * 100 : 0;
+                                const hasMana = currentMana >= (skill?.manaCost ?? 0);
+                                const isDisabled = !skill || !encounter || isOnCooldown || !hasMana;
+                                const title = !skill ? `Skill ${slotNumber} (Assign in the Skills tab)`
+                                    : isOnCooldown ? `${skill.name} - Cooldown (${(remainingCooldown / 1000).toFixed(1)}s)`
+                                    : !hasMana ? `${skill.name} - Not enough mana`
+                                    : !encounter ? `${skill.name} - Only usable in combat`
+                                    : `Use ${skill.name} (${skill.manaCost ?? 0} mana)`;
+                                return (
+                                    <button key={`skill-${slotNumber}`} className={`action-button skill-button ${isOnCooldown ? 'on-cooldown' : ''}`} onClick={() => skill && onUseSkill(skill.id)} disabled={isDisabled} title={title}>
+                                        {isOnCooldown && (<div className="cooldown-overlay" style={{ height: `${cooldownPercent}%` }}></div>)}
+                                        <span className="button-content">{skill ? getItemShorthand(skill.name) : `S${slotNumber}`}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
                     </div>
                 </section>
                 <aside id="right-panel">
                     {/* --- Removed old settings button, moved to header --- */}
-                    <div id="right-panel-tabs"> <button className="tab-button inventory-button" onClick={() => setIsInventoryModalOpen(true)}>Inventory</button> </div>
-                    <div id="right-panel-content"> {renderStatsTab()} </div>
+                    <div id="right-panel-tabs">
+                        <button className={`tab-button ${rightTab === 'stats' ? 'active' : ''}`} onClick={() => setRightTab('stats')}>Stats</button>
+                        <button className={`tab-button ${rightTab === 'skills' ? 'active' : ''}`} onClick={() => setRightTab('skills')}>Skills</button>
+                        <button className="tab-button inventory-button" onClick={() => setIsInventoryModalOpen(true)}>Inventory</button>
+                        {character?.currentZoneId === 'town' && (
+                            <button className="tab-button inventory-button" onClick={() => { sendWsMessage('get_stash', {}); setIsStashModalOpen(true); }}>Stash</button>
+                        )}
+                        {character?.currentZoneId === 'town' && (
+                            <button className="tab-button inventory-button" onClick={() => { sendWsMessage('get_vendor_inventory', {}); setIsVendorModalOpen(true); }}>Vendors</button>
+                        )}
+                    </div>
+                    <div id="right-panel-content"> {renderRightPanelContent()} </div>
                 </aside>
             </main>
 
@@ -285,7 +484,9 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
                             onEquipItem={onEquipItem}
                             onUnequipItem={onUnequipItem}
                             onSellItem={onSellItem}
+                            onMoveItem={onMoveItem}
                             onLootGroundItem={onLootGroundItem}
+                            onPickUpAllGroundLoot={onPickUpAllGroundLoot}
                             onAssignPotionSlot={onAssignPotionSlot}
                             onAutoEquipBestStat={handleAutoEquipBestStat}
                         />
@@ -293,6 +494,26 @@ const InGameScreen: React.FC<InGameScreenProps> = ({
                 </div>
             )}
 
+            {/* --- Stash Modal (town only) --- */}
+            {isStashModalOpen && character?.currentZoneId === 'town' && (
+                <div className="modal-overlay" onClick={() => setIsStashModalOpen(false)}>
+                    <div className="modal-content inventory-modal" onClick={e => e.stopPropagation()}>
+                        <button className="modal-close-button" onClick={() => setIsStashModalOpen(false)}>&times;</button>
+                        <StashPanel character={character} sharedStash={sharedStash} sendWsMessage={sendWsMessage} />
+                    </div>
+                </div>
+            )}
+
+            {/* --- Vendor Modal (town only) --- */}
+            {isVendorModalOpen && character?.currentZoneId === 'town' && (
+                <div className="modal-overlay" onClick={() => setIsVendorModalOpen(false)}>
+                    <div className="modal-content inventory-modal" onClick={e => e.stopPropagation()}>
+                        <button className="modal-close-button" onClick={() => setIsVendorModalOpen(false)}>&times;</button>
+                        <VendorPanel character={character} vendorInventory={vendorInventory} onSellItem={onSellItem} sendWsMessage={sendWsMessage} />
+                    </div>
+                </div>
+            )}
+
             {/* --- Render the new OptionsScreen component --- */}
             <OptionsScreen
                 isOpen={isOptionsModalOpen}
@@ -7,13 +7,16 @@ import {
     EquipmentSlots,
     CharacterDataForClient
 } from '../types.js';
+import { INVENTORY_COLUMNS, INVENTORY_ROWS, getItemSize } from '../inventoryGrid.js';
 
 interface InventoryPanelProps {
     character: CharacterDataForClient | null;
     onEquipItem: (itemId: string) => void;
     onUnequipItem: (slot: EquipmentSlot) => void;
     onSellItem: (itemId: string) => void;
+    onMoveItem: (itemId: string, x: number, y: number) => void;
     onLootGroundItem: (itemId: string) => void;
+    onPickUpAllGroundLoot: () => void;
     onAssignPotionSlot: (slotNumber: 1 | 2, itemBaseId: string | null) => void;
     onAutoEquipBestStat: (stat: keyof ItemStats) => void;
 }
@@ -23,7 +26,9 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
     onEquipItem,
     onUnequipItem,
     onSellItem,
+    onMoveItem,
     onLootGroundItem,
+    onPickUpAllGroundLoot,
     onAssignPotionSlot,
     onAutoEquipBestStat
 }) => {
@@ -32,6 +37,7 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
     const [hoveredAutoEquipStat, setHoveredAutoEquipStat] = useState<keyof ItemStats | null>(null);
     const [autoEquipTooltipContent, setAutoEquipTooltipContent] = useState<string>('');
     const [autoEquipTooltipPosition, setAutoEquipTooltipPosition] = useState({ x: 0, y: 0 });
+    const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
 
 
     if (!character) {
@@ -149,15 +155,49 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
     };
 
     // --- Render Functions ---
+    const renderInventoryItem = (item: Item, style: React.CSSProperties) => (
+        <div
+            key={item.id}
+            className={`inventory-grid-item ${getRarityClass(item.rarity)}`}
+            draggable
+            onDragStart={(e) => {
+                e.dataTransfer.setData('text/plain', item.id);
+                setDraggedItemId(item.id);
+                setHoveredItem(null);
+            }}
+            onDragEnd={() => setDraggedItemId(null)}
+            onMouseEnter={(e) => handleItemMouseEnter(item, e)}
+            onMouseLeave={handleItemMouseLeave}
+            onClick={() => item.equipmentSlot && onEquipItem(item.id)}
+            onContextMenu={(e) => {
+                e.preventDefault();
+                setHoveredItem(null);
+                onSellItem(item.id);
+            }}
+            style={{ ...style, cursor: 'pointer', opacity: draggedItemId === item.id ? 0.5 : 1 }}
+        >
+            {getItemShorthand(item.baseName || item.name)}
+            {item.quantity && item.quantity > 1 && (
+                <span className="item-quantity">{item.quantity}</span>
+            )}
+        </div>
+    );
+
     const renderInventoryGrid = () => {
-        const gridSize = 150;
-        const gridItems: (Item | null)[] = Array(gridSize).fill(null);
         const itemsToDisplay = character?.inventory.filter(item => item.baseId !== 'gold_coins') || [];
-        itemsToDisplay.forEach((item, index) => {
-            if (index < gridSize) { gridItems[index] = item; }
-        });
+        const placedItems = itemsToDisplay.filter(item => item.gridPosition);
+        // Items that did not fit when the grid was introduced; drag them onto a free spot
+        const unplacedItems = itemsToDisplay.filter(item => !item.gridPosition);
         const goldAmount = character?.gold ?? 0;
 
+        // Dropping a dragged item on a cell moves its top-left corner there; the server checks the fit
+        const handleCellDrop = (e: React.DragEvent, x: number, y: number) => {
+            e.preventDefault();
+            const itemId = e.dataTransfer.getData('text/plain') || draggedItemId;
+            setDraggedItemId(null);
+            if (itemId) onMoveItem(itemId, x, y);
+        };
+
         return (
             <div className="inventory-grid-container">
                 <div className="inventory-header">
@@ -165,38 +205,53 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
                     <div className="gold-display">Gold: {goldAmount}</div>
                 </div>
                 <div className="inventory-grid">
-                    {gridItems.map((item, index) => (
-                        <div
-                            key={item ? item.id : `empty-${index}`}
-                            className={`inventory-grid-item ${item ? getRarityClass(item.rarity) : ''}`}
-                            onMouseEnter={(e) => item && handleItemMouseEnter(item, e)}
-                            onMouseLeave={handleItemMouseLeave}
-                            onClick={() => item && item.equipmentSlot && onEquipItem(item.id)}
-                            onContextMenu={(e) => {
-                                if (item) {
-                                    e.preventDefault();
-                                    setHoveredItem(null);
-                                    onSellItem(item.id);
-                                }
-                            }}
-                            style={{ cursor: item ? 'pointer' : 'default' }}
-                        >
-                            {item ? getItemShorthand(item.baseName || item.name) : ''}
-                            {item && item.quantity && item.quantity > 1 && (
-                                <span className="item-quantity">{item.quantity}</span>
-                            )}
-                        </div>
-                    ))}
+                    {/* Empty cells form the background and act as drop targets */}
+                    {Array.from({ length: INVENTORY_COLUMNS * INVENTORY_ROWS }, (_, index) => {
+                        const x = index % INVENTORY_COLUMNS;
+                        const y = Math.floor(index / INVENTORY_COLUMNS);
+                        return (
+                            <div
+                                key={`cell-${x}-${y}`}
+                                className="inventory-grid-cell"
+                                style={{ gridColumn: x + 1, gridRow: y + 1 }}
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={(e) => handleCellDrop(e, x, y)}
+                            />
+                        );
+                    })}
+                    {placedItems.map(item => {
+                        const size = getItemSize(item);
+                        const position = item.gridPosition!;
+                        return renderInventoryItem(item, {
+                            gridColumn: `${position.x + 1} / span ${size.width}`,
+                            gridRow: `${position.y + 1} / span ${size.height}`,
+                            // Let drops through to the cells below while dragging
+                            pointerEvents: draggedItemId ? 'none' : 'auto'
+                        });
+                    })}
                 </div>
+                {unplacedItems.length > 0 && (
+                    <div className="inventory-unplaced">
+                        <h5>Did not fit ({unplacedItems.length}) - drag onto the grid, sell or equip</h5>
+                        <div className="inventory-unplaced-items">
+                            {unplacedItems.map(item => renderInventoryItem(item, {}))}
+                        </div>
+                    </div>
+                )}
             </div>
         );
      };
 
     const renderGroundLoot = () => {
-        const groundItems = character?.groundLoot ?? [];
+        // Expired items are hidden; the server removes them on the next loot change
+        const now = Date.now();
+        const groundItems = (character?.groundLoot ?? []).filter(item => item.expiresAt > now);
         return (
             <div className="ground-loot-container">
-                <h4>Ground Loot (Last 10)</h4>
+                <div className="ground-loot-header">
+                    <h4>Ground Loot</h4>
+                    <button onClick={onPickUpAllGroundLoot} disabled={groundItems.length === 0}>Pick Up All</button>
+                </div>
                 <ul className="ground-loot-list">
                     {groundItems.length === 0 && <li className="ground-loot-empty">Nothing on the ground.</li>}
                     {groundItems.map(item => (
@@ -206,9 +261,10 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
                             onMouseEnter={(e) => handleItemMouseEnter(item, e)}
                             onMouseLeave={handleItemMouseLeave}
                             onClick={() => onLootGroundItem(item.id)}
-                            title={`Click to loot ${item.name}`}
+                            title={`Click to pick up ${item.name}`}
                         >
                             {item.name} {item.quantity && item.quantity > 1 ? `(${item.quantity})` : ''}
+                            <span className="ground-loot-expiry">{Math.ceil((item.expiresAt - now) / 60000)}m</span>
                         </li>
                     ))}
                 </ul>
@@ -226,6 +282,7 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
                         const item = Object.prototype.hasOwnProperty.call(character.equipment, slot)
                             ? character.equipment[slot]
                             : undefined;
+                        const isInactive = !!item && (character.inactiveEquipmentSlots ?? []).includes(slot);
                         return (
                             <li
                                 key={slot}
@@ -233,9 +290,10 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
                                 onMouseLeave={handleItemMouseLeave}
                                 onClick={() => item && onUnequipItem(slot)}
                                 style={{ cursor: item ? 'pointer' : 'default' }}
-                                title={item ? `Unequip ${item.name}` : 'Slot empty'}
+                                title={item ? `Unequip ${item.name}${isInactive ? ' (gives no stats)' : ''}` : 'Slot empty'}
                             >
                                 <strong>{slot}:</strong> {item ? <span style={{ color: getRarityColor(item.rarity) }}>{item.name}</span> : '(Empty)'}
+                                {isInactive && <span className="equipment-inactive"> (inactive)</span>}
                             </li>
                         );
                     })}
@@ -302,16 +360,28 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
             }
         }
 
+        // Only the level can be checked here: the displayed attributes include gear, requirements do not
+        const requirements = itemToShow.requirements ?? {};
+        const requirementElements = (['level', 'strength', 'dexterity'] as const)
+            .filter(key => (requirements[key] ?? 0) > (key === 'level' ? 1 : 0))
+            .map(key => {
+                const unmet = key === 'level' && character.level < (requirements.level ?? 1);
+                return <li key={key} style={{ color: unmet ? 'salmon' : '#fff' }}>{key}: {requirements[key]}</li>;
+            });
+
         const rarityColor = getRarityColor(itemToShow.rarity);
 
         return (
             <div className="item-tooltip" style={{ position: 'fixed', left: itemTooltipPosition.x, top: itemTooltipPosition.y, border: `2px solid ${rarityColor}`, background: '#333', color: rarityColor, padding: '10px', borderRadius: '4px', zIndex: 1000, minWidth: '200px', pointerEvents: 'none' }}>
                 <h5 style={{ color: rarityColor, margin: '0 0 5px 0', borderBottom: `1px solid ${rarityColor}` }}>{itemToShow.name}</h5>
-                <p style={{ color: '#fff', margin: '5px 0' }}><em>{itemToShow.type}{itemToShow.equipmentSlot ? ` (${itemToShow.equipmentSlot})` : ''}</em></p>
+                <p style={{ color: '#fff', margin: '5px 0' }}><em>{itemToShow.type}{itemToShow.equipmentSlot ? ` (${itemToShow.equipmentSlot})` : ''}{itemToShow.twoHanded ? ', two-handed' : ''}</em></p>
                 <p style={{ color: '#fff', margin: '5px 0' }}>{itemToShow.description}</p>
                 {itemToShow.stats && Object.keys(itemToShow.stats).length > 0 && (
                     <> <hr style={{ borderColor: rarityColor, opacity: 0.5 }}/> <h6 style={{ color: '#fff', margin: '5px 0' }}>Stats:</h6> <ul style={{ color: '#fff', listStyle: 'none', paddingLeft: '10px', margin: '5px 0' }}> {Object.entries(itemToShow.stats).map(([stat, value]) => ( <li key={stat} style={{ color: '#68c7ff' }}>{stat}: +{value}</li> ))} </ul> </>
                 )}
+                {requirementElements.length > 0 && (
+                    <> <hr style={{ borderColor: rarityColor, opacity: 0.5 }}/> <h6 style={{ color: '#fff', margin: '5px 0' }}>Requires:</h6> <ul style={{ listStyle: 'none', paddingLeft: '10px', margin: '5px 0' }}>{requirementElements}</ul> </>
+                )}
                 {isInventoryItem && isEquippable && (
                     <> <hr style={{ borderColor: rarityColor, opacity: 0.5 }}/> <h6 style={{ color: '#fff', margin: '5px 0' }}>Comparison vs Equipped:</h6> {comparisonElements.length > 0 ? ( <ul style={{ listStyle: 'none', paddingLeft: '10px', margin: '5px 0' }}>{comparisonElements}</ul> ) : ( <p style={{ color: '#aaa', margin: '5px 0' }}>(No stat changes or slot empty)</p> )} </>
                 )}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { CharacterDataForClient } from '../types';
+import { CharacterDataForClient, AutoPotionRule, TargetPriority, AutoPickupFilter, Item, ItemQuality } from '../types';
 
 interface OptionsScreenProps {
     isOpen: boolean;
@@ -12,6 +12,23 @@ interface OptionsScreenProps {
 
 type ActiveTab = 'options' | 'saveLoad';
 
+// Choices for the auto-rest option (percent of max HP, 0 = off)
+const AUTO_REST_THRESHOLDS = [0, 25, 50, 75, 90];
+const TARGET_PRIORITIES: { value: TargetPriority; label: string }[] = [
+    { value: 'lowest_hp', label: 'Lowest HP first' },
+    { value: 'highest_threat', label: 'Most dangerous first' }
+];
+const MAX_AUTO_POTION_RULES = 4; // Matches the server limit
+const ITEM_QUALITIES: ItemQuality[] = ['Gray', 'White', 'Green', 'Blue', 'Purple', 'Red'];
+const PICKUP_ITEM_TYPES: { value: Item['type']; label: string }[] = [
+    { value: 'weapon', label: 'Weapons' },
+    { value: 'armor', label: 'Armor' },
+    { value: 'potion', label: 'Potions' },
+    { value: 'misc', label: 'Misc' }
+];
+// Shown until the character data includes a filter (mirrors the server default)
+const DEFAULT_AUTO_PICKUP_FILTER: AutoPickupFilter = { enabled: true, minQuality: 'White', types: ['weapon', 'armor', 'potion', 'misc'], baseIds: [], gold: true };
+
 const OptionsScreen: React.FC<OptionsScreenProps> = ({
     isOpen,
     onClose,
@@ -85,11 +102,176 @@ const OptionsScreen: React.FC<OptionsScreenProps> = ({
         );
     };
 
+    // --- Handlers for Game Options ---
+    const handleAutoRestChange = async (thresholdPercent: number) => {
+        if (!character) return;
+        const result = await sendWsMessage('set_auto_rest_threshold', { thresholdPercent });
+        showStatus(result.success
+            ? (thresholdPercent > 0 ? `Auto-rest below ${thresholdPercent}% HP` : 'Auto-rest off')
+            : `Failed to change auto-rest: ${result.message || 'Unknown error'}`);
+    };
+
+    const handleTargetPriorityChange = async (priority: TargetPriority) => {
+        if (!character) return;
+        const result = await sendWsMessage('set_target_priority', { priority });
+        showStatus(result.success ? 'Target priority saved' : `Failed to change target priority: ${result.message || 'Unknown error'}`);
+    };
+
+    // Rules are always sent as a complete list, in evaluation order
+    const saveAutoPotionRules = async (rules: AutoPotionRule[]) => {
+        if (!character) return;
+        const result = await sendWsMessage('set_auto_potion_rules', { rules });
+        showStatus(result.success ? 'Auto-potion rules saved' : `Failed to save auto-potion rules: ${result.message || 'Unknown error'}`);
+    };
+
+    const autoPotionRules = character?.autoPotionRules ?? [];
+
+    const handleAutoPotionRuleChange = (index: number, changes: Partial<AutoPotionRule>) => {
+        saveAutoPotionRules(autoPotionRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+    };
+
+    const renderAutoPotionRules = () => (
+        <div className="auto-potion-rules">
+            <h4>Auto-Potion</h4>
+            {autoPotionRules.length === 0 && <p className="option-hint">No rules. Potions are only drunk from the quick slots.</p>}
+            {autoPotionRules.map((rule, index) => (
+                <div className="option-row auto-potion-rule" key={`${index}-${rule.potionSlot}-${rule.resource}-${rule.thresholdPercent}`}>
+                    <span>Drink slot</span>
+                    <select value={rule.potionSlot} onChange={e => handleAutoPotionRuleChange(index, { potionSlot: Number(e.target.value) as 1 | 2 })}>
+                        <option value={1}>1</option>
+                        <option value={2}>2</option>
+                    </select>
+                    <span>when</span>
+                    <select value={rule.resource} onChange={e => handleAutoPotionRuleChange(index, { resource: e.target.value as AutoPotionRule['resource'] })}>
+                        <option value="hp">HP</option>
+                        <option value="mana">Mana</option>
+                    </select>
+                    <span>is below</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={99}
+                        defaultValue={rule.thresholdPercent}
+                        onBlur={e => {
+                            const thresholdPercent = Math.round(Number(e.target.value));
+                            if (thresholdPercent !== rule.thresholdPercent) handleAutoPotionRuleChange(index, { thresholdPercent });
+                        }}
+                    />
+                    <span>%</span>
+                    <button onClick={() => saveAutoPotionRules(autoPotionRules.filter((_, i) => i !== index))}>Remove</button>
+                </div>
+            ))}
+            <button
+                disabled={!character || autoPotionRules.length >= MAX_AUTO_POTION_RULES}
+                onClick={() => saveAutoPotionRules([...autoPotionRules, { potionSlot: 1, resource: 'hp', thresholdPercent: 35 }])}
+            >
+                Add Rule
+            </button>
+            <p className="option-hint">Rules are checked in order after every monster attack; all potions share one cooldown.</p>
+        </div>
+    );
+
+    // The filter is always sent complete
+    const autoPickupFilter = character?.autoPickupFilter ?? DEFAULT_AUTO_PICKUP_FILTER;
+
+    const saveAutoPickupFilter = async (changes: Partial<AutoPickupFilter>) => {
+        if (!character) return;
+        const result = await sendWsMessage('set_auto_pickup_filter', { filter: { ...autoPickupFilter, ...changes } });
+        showStatus(result.success ? 'Auto-pickup filter saved' : `Failed to save auto-pickup filter: ${result.message || 'Unknown error'}`);
+    };
+
+    const renderAutoPickupFilter = () => (
+        <div className="auto-pickup-filter">
+            <h4>Auto-Pickup</h4>
+            <div className="option-row">
+                <label>
+                    <input type="checkbox" checked={autoPickupFilter.enabled} disabled={!character} onChange={e => saveAutoPickupFilter({ enabled: e.target.checked })} />
+                    Pick up drops automatically
+                </label>
+                <label>
+                    <input type="checkbox" checked={autoPickupFilter.gold} disabled={!character || !autoPickupFilter.enabled} onChange={e => saveAutoPickupFilter({ gold: e.target.checked })} />
+                    Gold
+                </label>
+            </div>
+            <div className="option-row">
+                {PICKUP_ITEM_TYPES.map(({ value, label }) => (
+                    <label key={value}>
+                        <input
+                            type="checkbox"
+                            checked={autoPickupFilter.types.includes(value)}
+                            disabled={!character || !autoPickupFilter.enabled}
+                            onChange={e => saveAutoPickupFilter({ types: e.target.checked ? [...autoPickupFilter.types, value] : autoPickupFilter.types.filter(type => type !== value) })}
+                        />
+                        {label}
+                    </label>
+                ))}
+            </div>
+            <div className="option-row">
+                <label htmlFor="auto-pickup-quality">Weapons and armor of at least</label>
+                <select
+                    id="auto-pickup-quality"
+                    value={autoPickupFilter.minQuality}
+                    disabled={!character || !autoPickupFilter.enabled}
+                    onChange={e => saveAutoPickupFilter({ minQuality: e.target.value as ItemQuality })}
+                >
+                    {ITEM_QUALITIES.map(quality => (
+                        <option key={quality} value={quality}>{quality}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="option-row">
+                <label htmlFor="auto-pickup-base-ids">Always pick up</label>
+                <input
+                    id="auto-pickup-base-ids"
+                    type="text"
+                    placeholder="Item IDs, e.g. minor_health_potion"
+                    key={autoPickupFilter.baseIds.join(',')}
+                    defaultValue={autoPickupFilter.baseIds.join(', ')}
+                    disabled={!character || !autoPickupFilter.enabled}
+                    onBlur={e => {
+                        const baseIds = e.target.value.split(',').map(baseId => baseId.trim()).filter(baseId => baseId.length > 0);
+                        if (baseIds.join(',') !== autoPickupFilter.baseIds.join(',')) saveAutoPickupFilter({ baseIds });
+                    }}
+                />
+            </div>
+            <p className="option-hint">Everything else stays on the ground for 5 minutes; pick it up from the inventory.</p>
+        </div>
+    );
+
     const renderOptionsTab = () => {
         return (
             <div className="options-content">
                 <h4>Game Options</h4>
-                <p>Options settings (e.g., sound, graphics) not implemented yet.</p>
+                <div className="option-row">
+                    <label htmlFor="auto-rest-threshold">Auto-rest when HP is below</label>
+                    <select
+                        id="auto-rest-threshold"
+                        value={character?.autoRestThresholdPercent ?? 0}
+                        disabled={!character}
+                        onChange={e => handleAutoRestChange(Number(e.target.value))}
+                    >
+                        {AUTO_REST_THRESHOLDS.map(percent => (
+                            <option key={percent} value={percent}>{percent > 0 ? `${percent}%` : 'Off'}</option>
+                        ))}
+                    </select>
+                </div>
+                <p className="option-hint">Below this HP the character stops hunting after a fight and rests until fully healed.</p>
+                <div className="option-row">
+                    <label htmlFor="target-priority">Attack pack members</label>
+                    <select
+                        id="target-priority"
+                        value={character?.targetPriority ?? 'lowest_hp'}
+                        disabled={!character}
+                        onChange={e => handleTargetPriorityChange(e.target.value as TargetPriority)}
+                    >
+                        {TARGET_PRIORITIES.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                <p className="option-hint">Picks the next target when the current one dies. Click a monster in combat to target it yourself.</p>
+                {renderAutoPotionRules()}
+                {renderAutoPickupFilter()}
                 {/* Add actual options controls here later */}
             </div>
         );
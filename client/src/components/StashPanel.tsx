@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { CharacterDataForClient, Item, Stash, StashKind } from '../types.js';
+import { STASH_COLUMNS, STASH_ROWS, getItemSize } from '../inventoryGrid.js';
+
+interface StashPanelProps {
+    character: CharacterDataForClient | null;
+    sharedStash: Stash | null;
+    sendWsMessage: (type: string, payload: any) => Promise<any>;
+}
+
+// The item being dragged and where it came from
+interface DraggedItem {
+    source: 'inventory' | 'stash';
+    itemId: string;
+    tab: number; // Stash tab the item was dragged from
+}
+
+const getRarityClass = (rarity?: string): string => rarity && rarity !== 'common' ? `rarity-${rarity}` : 'rarity-common';
+const getItemShorthand = (name: string): string => name.trim().substring(0, 2).toUpperCase() || '??';
+
+/**
+ * The town stash: the character's personal stash and the account's shared stash.
+ * Click an inventory item to store it and a stash item to take it; drag items to pick a cell,
+ * and hover over another tab while dragging to move an item there.
+ */
+const StashPanel: React.FC<StashPanelProps> = ({ character, sharedStash, sendWsMessage }) => {
+    const [kind, setKind] = useState<StashKind>('personal');
+    const [tab, setTab] = useState(0);
+    const [goldAmount, setGoldAmount] = useState('');
+    const [draggedItem, setDraggedItem] = useState<DraggedItem | null>(null);
+
+    if (!character) {
+        return <p>Loading character data...</p>;
+    }
+
+    const stash = kind === 'personal' ? character.stash : sharedStash;
+    if (!stash) {
+        return <p>Opening the stash...</p>;
+    }
+    const tabItems = stash.tabs[tab] ?? [];
+    const inventoryItems = character.inventory.filter(item => item.baseId !== 'gold_coins');
+
+    const selectKind = (newKind: StashKind) => {
+        setKind(newKind);
+        setTab(0);
+    };
+
+    const handleCellDrop = (e: React.DragEvent, x: number, y: number) => {
+        e.preventDefault();
+        if (!draggedItem) return;
+        if (draggedItem.source === 'inventory') {
+            sendWsMessage('stash_deposit', { stash: kind, tab, itemId: draggedItem.itemId, x, y });
+        } else {
+            sendWsMessage('stash_move', { stash: kind, itemId: draggedItem.itemId, fromTab: draggedItem.tab, toTab: tab, x, y });
+        }
+        setDraggedItem(null);
+    };
+
+    const handleInventoryDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        if (draggedItem?.source === 'stash') {
+            sendWsMessage('stash_withdraw', { stash: kind, tab: draggedItem.tab, itemId: draggedItem.itemId });
+        }
+        setDraggedItem(null);
+    };
+
+    const handleGold = (type: 'stash_deposit' | 'stash_withdraw') => {
+        const gold = parseInt(goldAmount, 10);
+        if (!Number.isInteger(gold) || gold < 1) return;
+        sendWsMessage(type, { stash: kind, gold });
+        setGoldAmount('');
+    };
+
+    const renderStashGrid = () => (
+        <div className="inventory-grid stash-grid">
+            {Array.from({ length: STASH_COLUMNS * STASH_ROWS }, (_, index) => {
+                const x = index % STASH_COLUMNS;
+                const y = Math.floor(index / STASH_COLUMNS);
+                return (
+                    <div
+                        key={`cell-${x}-${y}`}
+                        className="inventory-grid-cell"
+                        style={{ gridColumn: x + 1, gridRow: y + 1 }}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={(e) => handleCellDrop(e, x, y)}
+                    />
+                );
+            })}
+            {tabItems.filter(item => item.gridPosition).map(item => {
+                const size = getItemSize(item);
+                const position = item.gridPosition!;
+                return (
+                    <div
+                        key={item.id}
+                        className={`inventory-grid-item ${getRarityClass(item.rarity)}`}
+                        draggable
+                        onDragStart={() => setDraggedItem({ source: 'stash', itemId: item.id, tab })}
+                        onDragEnd={() => setDraggedItem(null)}
+                        onClick={() => sendWsMessage('stash_withdraw', { stash: kind, tab, itemId: item.id })}
+                        title={`${item.name} - click to take`}
+                        style={{
+                            gridColumn: `${position.x + 1} / span ${size.width}`,
+                            gridRow: `${position.y + 1} / span ${size.height}`,
+                            cursor: 'pointer',
+                            // Let drops through to the cells below while dragging
+                            pointerEvents: draggedItem ? 'none' : 'auto'
+                        }}
+                    >
+                        {getItemShorthand(item.baseName || item.name)}
+                        {item.quantity && item.quantity > 1 && <span className="item-quantity">{item.quantity}</span>}
+                    </div>
+                );
+            })}
+        </div>
+    );
+
+    return (
+        <div className="stash-panel">
+            <div className="stash-main-area">
+                <div className="stash-tabs">
+                    <button className={`tab-button ${kind === 'personal' ? 'active' : ''}`} onClick={() => selectKind('personal')}>Personal</button>
+                    <button className={`tab-button ${kind === 'shared' ? 'active' : ''}`} onClick={() => selectKind('shared')}>Shared</button>
+                    <span className="stash-tab-separator" />
+                    {stash.tabs.map((_, index) => (
+                        <button
+                            key={index}
+                            className={`tab-button ${tab === index ? 'active' : ''}`}
+                            onClick={() => setTab(index)}
+                            onDragEnter={() => setTab(index)}
+                        >
+                            {index + 1}
+                        </button>
+                    ))}
+                </div>
+                {renderStashGrid()}
+                <div className="stash-gold">
+                    <span>Stash gold: {stash.gold}</span>
+                    <input type="number" min={1} value={goldAmount} placeholder="Amount" onChange={(e) => setGoldAmount(e.target.value)} />
+                    <button className="button-secondary" onClick={() => handleGold('stash_deposit')}>Deposit</button>
+                    <button className="button-secondary" onClick={() => handleGold('stash_withdraw')}>Withdraw</button>
+                </div>
+            </div>
+            <div className="stash-inventory" onDragOver={(e) => e.preventDefault()} onDrop={handleInventoryDrop}>
+                <div className="inventory-header">
+                    <h4>Inventory</h4>
+                    <div className="gold-display">Gold: {character.gold ?? 0}</div>
+                </div>
+                <ul className="stash-inventory-list">
+                    {inventoryItems.length === 0 && <li className="ground-loot-empty">Your inventory is empty.</li>}
+                    {inventoryItems.map(item => (
+                        <li
+                            key={item.id}
+                            draggable
+                            onDragStart={() => setDraggedItem({ source: 'inventory', itemId: item.id, tab })}
+                            onDragEnd={() => setDraggedItem(null)}
+                            onClick={() => sendWsMessage('stash_deposit', { stash: kind, tab, itemId: item.id })}
+                            title={`Click to store ${item.name}`}
+                        >
+                            {item.name} {item.quantity && item.quantity > 1 ? `(${item.quantity})` : ''}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+export default StashPanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { CharacterDataForClient, VendorInventory } from '../types.js';
+
+interface VendorPanelProps {
+    character: CharacterDataForClient | null;
+    vendorInventory: VendorInventory | null;
+    onSellItem: (itemId: string) => void;
+    sendWsMessage: (type: string, payload: any) => Promise<any>;
+}
+
+/**
+ * The town vendors: buy from the selected vendor's stock, sell inventory items and buy back recent sales.
+ * Click an item to buy, sell or buy it back.
+ */
+const VendorPanel: React.FC<VendorPanelProps> = ({ character, vendorInventory, onSellItem, sendWsMessage }) => {
+    if (!character) {
+        return <p>Loading character data...</p>;
+    }
+    if (!vendorInventory) {
+        return <p>Finding the vendors...</p>;
+    }
+
+    const gold = character.gold ?? 0;
+    const inventoryItems = character.inventory.filter(item => item.baseId !== 'gold_coins');
+    const buyback = character.buyback ?? [];
+    const minutesToRestock = Math.max(0, Math.ceil((vendorInventory.restocksAt - Date.now()) / 60000));
+
+    return (
+        <div className="stash-panel vendor-panel">
+            <div className="stash-main-area vendor-main-area">
+                <div className="stash-tabs">
+                    {vendorInventory.vendors.map(vendor => (
+                        <button
+                            key={vendor.id}
+                            className={`tab-button ${vendorInventory.vendorId === vendor.id ? 'active' : ''}`}
+                            onClick={() => sendWsMessage('get_vendor_inventory', { vendorId: vendor.id })}
+                        >
+                            {vendor.name}
+                        </button>
+                    ))}
+                </div>
+                <p className="vendor-description">{vendorInventory.description}</p>
+                <ul className="stash-inventory-list">
+                    {vendorInventory.items.length === 0 && <li className="ground-loot-empty">Sold out.</li>}
+                    {vendorInventory.items.map(item => (
+                        <li
+                            key={item.id}
+                            className={gold < item.price ? 'vendor-unaffordable' : ''}
+                            onClick={() => sendWsMessage('buy_item', { vendorId: vendorInventory.vendorId, itemId: item.id })}
+                            title={`Buy ${item.name} for ${item.price} gold`}
+                        >
+                            <span>{item.name}</span>
+                            <span className="vendor-price">{item.price} gold</span>
+                        </li>
+                    ))}
+                </ul>
+                <div className="stash-gold">New wares in {minutesToRestock} min</div>
+            </div>
+            <div className="stash-inventory">
+                <div className="inventory-header">
+                    <h4>Sell</h4>
+                    <div className="gold-display">Gold: {gold}</div>
+                </div>
+                <ul className="stash-inventory-list">
+                    {inventoryItems.length === 0 && <li className="ground-loot-empty">Your inventory is empty.</li>}
+                    {inventoryItems.map(item => (
+                        <li key={item.id} onClick={() => onSellItem(item.id)} title={`Sell ${item.name}`}>
+                            {item.name} {item.quantity && item.quantity > 1 ? `(${item.quantity})` : ''}
+                        </li>
+                    ))}
+                </ul>
+                <h4>Buy Back</h4>
+                <ul className="stash-inventory-list">
+                    {buyback.length === 0 && <li className="ground-loot-empty">Nothing sold recently.</li>}
+                    {buyback.map(item => (
+                        <li
+                            key={item.id}
+                            className={gold < item.buybackPrice ? 'vendor-unaffordable' : ''}
+                            onClick={() => sendWsMessage('buyback_item', { itemId: item.id })}
+                            title={`Buy back ${item.name} for ${item.buybackPrice} gold`}
+                        >
+                            <span>{item.name}</span>
+                            <span className="vendor-price">{item.buybackPrice} gold</span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+export default VendorPanel;
@@ -0,0 +1,26 @@
+import { EquipmentSlot, Item } from './types.js';
+
+// Mirrors the server's grid sizes and item footprints (server/src/inventoryGrid.ts)
+export const INVENTORY_COLUMNS = 10;
+export const INVENTORY_ROWS = 8;
+export const STASH_COLUMNS = 10;
+export const STASH_ROWS = 10;
+
+const SLOT_SIZES: Record<EquipmentSlot, { width: number; height: number }> = {
+    head: { width: 2, height: 2 },
+    chest: { width: 2, height: 3 },
+    waist: { width: 2, height: 1 },
+    hands: { width: 2, height: 2 },
+    feet: { width: 2, height: 2 },
+    mainHand: { width: 1, height: 3 },
+    offHand: { width: 2, height: 2 },
+    amulet: { width: 1, height: 1 },
+    ring1: { width: 1, height: 1 },
+    ring2: { width: 1, height: 1 }
+};
+
+export const getItemSize = (item: Item): { width: number; height: number } => {
+    if (!item.equipmentSlot) return { width: 1, height: 1 };
+    if (item.twoHanded) return { width: 2, height: 4 };
+    return SLOT_SIZES[item.equipmentSlot];
+};
@@ -30,14 +30,90 @@ export interface Item {
     stats?: Partial<ItemStats>;
     quantity?: number;
     rarity?: 'common' | 'magic' | 'rare' | 'unique' | 'legendary';
+    quality?: ItemQuality;
     baseName?: string; // Add baseName back for client-side display logic
+    weaponType?: WeaponType;
+    twoHanded?: boolean;
+    requirements?: ItemRequirements;
+    gridPosition?: GridPosition; // Top-left inventory cell; missing on equipped and unplaced items
 }
 
+// Needed to equip an item; strength and dexterity count without gear bonuses
+export interface ItemRequirements {
+    level?: number;
+    strength?: number;
+    dexterity?: number;
+}
+
+// --- Inventory Grid ---
+export interface GridPosition {
+    x: number;
+    y: number;
+}
+
+export type ItemQuality = 'Gray' | 'White' | 'Green' | 'Blue' | 'Purple' | 'Red';
+
+// --- Stash ---
+export type StashKind = 'personal' | 'shared';
+
+// Town storage: personal per character, shared per account
+export interface Stash {
+    tabs: Item[][]; // Items carry their gridPosition within the tab
+    gold: number;
+}
+
+// --- Vendors ---
+// An item for sale with its price
+export type VendorOffer = Item & { price: number };
+
+// A town vendor's wares, sent when the vendor is opened or its stock changes
+export interface VendorInventory {
+    vendorId: string;
+    name: string;
+    description: string;
+    items: VendorOffer[];
+    restocksAt: number; // Epoch milliseconds (server clock)
+    vendors: { id: string; name: string }[]; // Every vendor in town
+}
+
+// A sold item that can be bought back for what it was sold for
+export interface BuybackItem extends Item {
+    buybackPrice: number;
+}
+
+// --- Ground Loot ---
+// A dropped item waiting on the ground
+export interface GroundLootItem extends Item {
+    expiresAt: number; // Epoch milliseconds (server clock)
+}
+
+// Decides which drops are picked up automatically; everything else stays on the ground
+export interface AutoPickupFilter {
+    enabled: boolean;
+    minQuality: ItemQuality; // Weapons and armor below this quality stay on the ground
+    types: Item['type'][];
+    baseIds: string[]; // Always picked up
+    gold: boolean;
+}
+
+export type WeaponType = 'dagger' | 'sword' | 'axe' | 'mace' | 'bow' | 'staff' | 'wand' | 'scepter' | 'polearm';
+
 // --- Equipment Slots (Needed by components) ---
 export type EquipmentSlots = {
     [key in EquipmentSlot]?: Item; // Optional because a slot might be empty
 };
 
+// --- Attributes ---
+export type AttributeName = 'strength' | 'dexterity' | 'vitality' | 'energy';
+
+// --- Auto-Potion ---
+// Drinks the potion in a quick slot when a resource falls below a percent of its max during combat
+export interface AutoPotionRule {
+    potionSlot: 1 | 2;
+    resource: 'hp' | 'mana';
+    thresholdPercent: number; // Whole percent of max HP/mana (1-99)
+}
+
 // --- Character Data (Simplified for client components if full Character type isn't needed) ---
 export interface CharacterDataForClient {
     id: string;
@@ -51,15 +127,59 @@ export interface CharacterDataForClient {
     currentMana?: number; // Added mana
     maxMana?: number; // Added mana
     availableAttributePoints?: number;
+    allocatedAttributes?: Record<AttributeName, number>; // Points spent per attribute (refunded by a respec)
+    autoRestThresholdPercent?: number; // Stop hunting below this percent of max HP and rest until full (0 = off)
+    autoPotionRules?: AutoPotionRule[]; // Checked in order after every monster attack
+    targetPriority?: TargetPriority; // Picks the next pack member to attack
+    statusEffects?: ActiveStatusEffect[]; // Active buffs and debuffs
     currentZoneId: string;
     stats: ItemStats; // Use ItemStats here as it covers base stats + more
     inventory: Item[];
     equipment: EquipmentSlots;
-    groundLoot: Item[];
+    groundLoot: GroundLootItem[];
+    autoPickupFilter?: AutoPickupFilter;
+    stash?: Stash; // Personal stash
+    buyback?: BuybackItem[]; // Recently sold items, newest first
     gold: number;
     potionSlot1?: string;
     potionSlot2?: string;
     combatStats?: any; // Keep any for now if structure is complex/variable
+    derivedStats?: DerivedStats;
+    inactiveEquipmentSlots?: EquipmentSlot[]; // Equipped items that give no stats (unmet requirements or beside a two-handed weapon)
+    skills?: Record<string, number>; // Learned skill ID -> rank
+    skillPoints?: number;
+    skillHotkeys?: (string | null)[]; // Skill ID per action bar slot
+}
+
+// --- Skills (Used by the Skills tab and action bar) ---
+export interface SkillDefinition {
+    id: string;
+    name: string;
+    description: string;
+    classId: string;
+    type: 'active' | 'passive';
+    maxRank: number;
+    requiredLevel: number;
+    prerequisites?: string[];
+    manaCost?: number;
+    cooldownMs?: number;
+}
+
+// Full derived-stat sheet sent by the server (final values including equipment bonuses)
+export interface DerivedStats {
+    maxHp: number;
+    maxMana: number;
+    attackRating: number;
+    fireRes: number;
+    coldRes: number;
+    lightningRes: number;
+    poisonRes: number;
+    increasedAttackSpeed: number;
+    fasterHitRecovery: number;
+    magicFind: number;
+    goldFind: number;
+    lifeStealPercent: number;
+    manaStealPercent: number;
 }
 
 // --- Zone Status (Needed by InGameScreen) ---
@@ -70,23 +190,73 @@ export interface ZoneWithStatus {
     description?: string;
     requiredLevel: number;
     connectedZoneIds: string[];
-    monsterIds: string[];
+    monsterLevel?: { min: number; max: number }; // Level range of the zone's monsters
+    monsterSpawns: { monsterId: string; weight: number }[];
     status: ZoneStatus;
 }
 
 // --- Encounter Data (Needed by InGameScreen) ---
-export interface EncounterData {
+// --- Monster Variants ---
+export type MonsterRarity = 'normal' | 'champion' | 'elite' | 'boss';
+
+export interface MonsterModifierInfo {
     id: string;
+    name: string; // e.g. "Extra Fast", "Fire Enchanted"
+    description: string;
+}
+
+export interface EncounterMonster {
+    id: string; // Instance ID within the pack
     name: string;
     level: number;
     currentHp: number;
     maxHp: number;
-    hitRateVsPlayer?: number;
+    rarity?: MonsterRarity;
+    modifiers?: MonsterModifierInfo[];
+    statusEffects?: ActiveStatusEffect[]; // Debuffs applied by the player's skills
+}
+
+// --- Status Effects ---
+// A timed buff or debuff on the character or a monster (stun, chill, burn, shields, ...)
+export interface ActiveStatusEffect {
+    effectId: string;
+    name: string;
+    kind: 'buff' | 'debuff';
+    stacks: number;
+    expiresAt: number; // Epoch milliseconds (server clock)
+    absorbRemaining?: number; // Damage a shield can still absorb
+}
+
+export interface EncounterData {
+    monsters: EncounterMonster[]; // The living pack members
+    targetId: string | null; // The monster the player is attacking
+    hitRateVsPlayer?: number; // Of the current target
+    classResource?: ClassResourceState; // Rage/combo stacks in this fight
 }
 
+// How the next target is picked when the current one dies
+export type TargetPriority = 'lowest_hp' | 'highest_threat';
+
+// --- Combat Damage (Used in attack updates) ---
+export type DamageType = 'physical' | 'fire' | 'cold' | 'lightning' | 'poison';
+export type DamageBreakdown = Record<DamageType, number>;
+
 // --- Character Class (Used in Character Creation) ---
 export interface CharacterClass {
     name: string;
     description: string;
     baseStats: ItemStats; // Use the more general ItemStats which includes base stats
+    primaryAttribute: AttributeName; // Scales weapon damage
+    allowedWeaponTypes: WeaponType[];
+    hpPerLevel: number;
+    manaPerLevel: number;
+    mechanic: { type: string; name: string; description: string }; // Unique class resource or passive
+}
+
+// --- Class Resource (stacks of rage/combo during a fight) ---
+export interface ClassResourceState {
+    type: string;
+    name: string;
+    stacks: number;
+    maxStacks: number;
 }
@@ -0,0 +1,329 @@
+import {
+    Character,
+    Monster,
+    Encounter,
+    SkillDefinition,
+    SplashHit,
+    StatusTickOutcome,
+    CombatState,
+    PlayerAttackAction,
+    SkillAction,
+    MonsterAttackAction,
+    PoisonTickAction,
+    StatusTickAction,
+    DefeatRewards
+} from './types.js';
+import { MAX_PLAYER_RESISTANCE } from './gameData.js';
+import { calculateCharacterStats } from './utils.js';
+import {
+    calculateCombatStats,
+    resolvePlayerAttack,
+    resolveMonsterAttack,
+    resolveSkillAttack,
+    calculateSkillHeal,
+    calculateLifeAndManaSteal,
+    calculateHitRecoveryDelay,
+    calculateXpReward,
+    calculateMonsterLifeSteal,
+    calculateClassResourceDamageBonus,
+    updateClassResourceOnAttack,
+    updateClassResourceOnDamageTaken,
+    calculateManaShieldAbsorb,
+    selectTarget,
+    MAX_MONSTER_RESISTANCE
+} from './combatCalculator.js';
+import {
+    rollStatusEffects,
+    applyStatusEffect,
+    removeExpiredStatusEffects,
+    getStatusEffectModifiers,
+    absorbDamageWithStatusEffects,
+    collectStatusEffectTicks
+} from './statusEffects.js';
+import { generateMonsterLoot } from './monsterVariants.js';
+import { Rng } from './rng.js';
+
+// Every action of a fight, resolved the same way for the live server (CombatService) and the
+// simulation engine (CombatEngine). The actions change the CombatState in place; saving the
+// character, timing the actions and reporting them to the client are up to the caller.
+
+// --- Targeting ---
+
+/**
+ * Returns the monster the player is attacking: the chosen target while it is alive,
+ * otherwise a new one picked by the character's target priority.
+ * NOTE: Modifies the encounter's targetId.
+ * @param encounter The running encounter.
+ * @param character The attacking character.
+ * @returns The target monster, or undefined if the pack is empty.
+ */
+export function resolveTarget(encounter: Encounter, character: Character): Monster | undefined {
+    const current = encounter.monsters.find(member => member.id === encounter.targetId);
+    if (current) {
+        return current;
+    }
+    const target = selectTarget(encounter.monsters, character.targetPriority);
+    encounter.targetId = target?.id ?? null;
+    return target;
+}
+
+// --- Player Actions ---
+
+/**
+ * The player's regular attack against the current target: damage, class resource, and life and
+ * mana steal from the physical damage dealt. A stunned player skips the swing.
+ * @param state The fight (the target's HP, the character's HP and mana and the class resource change).
+ * @param rng Random source for the attack rolls.
+ * @param now Current time in epoch milliseconds.
+ */
+export function performPlayerAttackAction(state: CombatState, rng: Rng, now: number = Date.now()): PlayerAttackAction {
+    const { character, encounter, classResource } = state;
+    const target = resolveTarget(encounter, character);
+    if (!target) return { skipped: 'no_target' };
+    if (getStatusEffectModifiers(character.statusEffects, now).preventsAttacks) return { skipped: 'stunned' };
+
+    // Use equipment-adjusted stats for combat resolution
+    const effectiveCharacter = calculateCharacterStats(character, now);
+    const combatStats = calculateCombatStats(effectiveCharacter, now);
+    const resourceDamageBonus = calculateClassResourceDamageBonus(effectiveCharacter, classResource);
+    const outcome = resolvePlayerAttack(effectiveCharacter, combatStats, target, rng, resourceDamageBonus);
+    updateClassResourceOnAttack(classResource, outcome.hit);
+    target.currentHp -= outcome.damage;
+
+    const { life: lifeStolen, mana: manaStolen } = calculateLifeAndManaSteal(outcome.damageBreakdown.physical, combatStats);
+    if (lifeStolen > 0 || manaStolen > 0) {
+        character.currentHp = Math.min(effectiveCharacter.maxHp, (character.currentHp ?? 0) + lifeStolen);
+        character.currentMana = Math.min(effectiveCharacter.maxMana, (character.currentMana ?? 0) + manaStolen);
+    }
+    return { target, outcome, lifeStolen, manaStolen };
+}
+
+/**
+ * Returns why the character cannot use a skill right now, or null if it can.
+ * @param character The character as stored.
+ * @param skill The skill definition, if it exists.
+ * @param readyAt Time (ms) at which the skill's cooldown ends.
+ * @param now Current time in epoch milliseconds.
+ */
+export function getSkillUseError(character: Character, skill: SkillDefinition | undefined, readyAt: number, now: number = Date.now()): string | null {
+    const rank = skill ? character.skills[skill.id] ?? 0 : 0;
+    if (!skill || rank < 1 || skill.type !== 'active') {
+        return 'Skill not learned.';
+    }
+    if ((character.currentMana ?? 0) < (skill.manaCost ?? 0)) {
+        return `Not enough mana for ${skill.name}.`;
+    }
+    if (readyAt > now) {
+        return `${skill.name} is on cooldown (${Math.ceil((readyAt - now) / 1000)}s).`;
+    }
+    return null;
+}
+
+/**
+ * An active skill against the current target, or the whole pack for area-of-effect skills:
+ * spends the mana cost, resolves damage and healing, and applies buffs to the character and
+ * debuffs to every monster it hit. Check getSkillUseError first; cooldowns are kept by the caller.
+ * @param state The fight (HP of the monsters hit, the character's HP, mana and effects and the class resource change).
+ * @param skill An active skill the character has learned.
+ * @param rng Random source for the attack rolls and effect chances.
+ * @param now Current time in epoch milliseconds.
+ */
+export function performSkillAction(state: CombatState, skill: SkillDefinition, rng: Rng, now: number = Date.now()): SkillAction {
+    const { character, encounter, classResource } = state;
+    const target = resolveTarget(encounter, character);
+    if (!target) return { skipped: 'no_target' };
+    if (getStatusEffectModifiers(character.statusEffects, now).preventsAttacks) return { skipped: 'stunned' };
+
+    const rank = character.skills[skill.id] ?? 0;
+    const effectiveCharacter = calculateCharacterStats(character, now);
+    const combatStats = calculateCombatStats(effectiveCharacter, now);
+    const resourceDamageBonus = calculateClassResourceDamageBonus(effectiveCharacter, classResource);
+    const outcome = resolveSkillAttack(effectiveCharacter, combatStats, target, skill, rank, rng, resourceDamageBonus);
+    // Area-of-effect skills roll separately against every other pack member
+    const splashTargets = skill.effect?.areaOfEffect ? encounter.monsters.filter(monster => monster !== target) : [];
+    const splashOutcomes = splashTargets.map(monster => resolveSkillAttack(effectiveCharacter, combatStats, monster, skill, rank, rng, resourceDamageBonus));
+    const healed = calculateSkillHeal(skill, rank, effectiveCharacter.maxHp, character.currentHp ?? 0);
+
+    character.currentMana = (character.currentMana ?? 0) - (skill.manaCost ?? 0);
+    character.currentHp = (character.currentHp ?? 0) + healed;
+    // Buffs on the character, debuffs on every monster the skill hit
+    const selfEffects = rollStatusEffects(skill.effect?.statusEffects, 'self', rng);
+    selfEffects.forEach(effectId => applyStatusEffect(character.statusEffects, effectId, now));
+    // Only weapon strikes can miss, so only they build or break a combo
+    if (skill.effect?.weaponDamagePercent !== undefined) {
+        updateClassResourceOnAttack(classResource, outcome.hit);
+    }
+
+    target.currentHp -= outcome.damage;
+    const splashHits: SplashHit[] = splashTargets.map((monster, index) => {
+        const splash = splashOutcomes[index];
+        monster.currentHp -= splash?.damage ?? 0;
+        return { monsterId: monster.id, damage: splash?.damage ?? 0, hit: splash?.hit ?? false, currentHp: monster.currentHp };
+    });
+    const monstersHit = [target, ...splashTargets].filter((monster, index) =>
+        monster.currentHp > 0 && (index === 0 ? outcome.hit : splashOutcomes[index - 1]?.hit));
+    const debuffedMonsters = monstersHit.filter(monster => {
+        const enemyEffects = rollStatusEffects(skill.effect?.statusEffects, 'enemy', rng);
+        enemyEffects.forEach(effectId => applyStatusEffect(monster.statusEffects ??= [], effectId, now));
+        return enemyEffects.length > 0;
+    });
+
+    return {
+        target,
+        outcome,
+        splashHits,
+        healed,
+        selfEffects,
+        debuffedMonsters,
+        defeated: [target, ...splashTargets].filter(monster => monster.currentHp <= 0)
+    };
+}
+
+// --- Monster Actions ---
+
+/**
+ * One pack member's attack against the player. Shield effects absorb the damage first, then a
+ * mana shield pays part of the rest with mana; the remainder is taken from HP. Hits that get
+ * through may apply the monster's on-hit effects, and a vampiric monster heals from the damage.
+ * @param state The fight (the character's HP, mana and effects, the attacker's HP and the class resource change).
+ * @param monsterId Instance ID of the attacking pack member.
+ * @param rng Random source for the attack rolls and effect chances.
+ * @param now Current time in epoch milliseconds.
+ */
+export function performMonsterAttackAction(state: CombatState, monsterId: string, rng: Rng, now: number = Date.now()): MonsterAttackAction {
+    const { character, encounter, classResource } = state;
+    const attacker = encounter.monsters.find(member => member.id === monsterId);
+    if (!attacker) return { skipped: 'defeated' };
+    if (getStatusEffectModifiers(attacker.statusEffects, now).preventsAttacks) return { skipped: 'stunned', attacker };
+
+    // Hit chance, block, defense and resistance mitigation use equipment-adjusted stats
+    const effectiveCharacter = calculateCharacterStats(character, now);
+    const combatStats = calculateCombatStats(effectiveCharacter, now);
+    const outcome = resolveMonsterAttack(attacker, effectiveCharacter, combatStats, rng);
+    const shieldAbsorbed = absorbDamageWithStatusEffects(character.statusEffects, outcome.damage, now);
+    const manaAbsorbed = calculateManaShieldAbsorb(outcome.damage - shieldAbsorbed, combatStats, character.currentMana ?? 0);
+    const damage = outcome.damage - shieldAbsorbed - manaAbsorbed;
+    character.currentMana = (character.currentMana ?? 0) - manaAbsorbed;
+    character.currentHp = (character.currentHp ?? 0) - damage;
+    updateClassResourceOnDamageTaken(classResource, outcome.damage);
+
+    const action = { attacker, outcome, damage, shieldAbsorbed, manaAbsorbed, onHitEffects: [] as string[], monsterHealed: 0, hitRecoveryDelay: 0 };
+    if (character.currentHp <= 0) {
+        return { ...action, playerDefeated: true };
+    }
+
+    const onHitEffects = outcome.hit && !outcome.blocked ? rollStatusEffects(attacker.onHitStatusEffects, 'enemy', rng) : [];
+    onHitEffects.forEach(effectId => applyStatusEffect(character.statusEffects, effectId, now, attacker.id));
+    const monsterHealed = calculateMonsterLifeSteal(attacker, damage);
+    attacker.currentHp += monsterHealed;
+    return {
+        ...action,
+        onHitEffects,
+        monsterHealed,
+        // Faster hit recovery pushes back the monster's next swing after a damaging hit
+        hitRecoveryDelay: calculateHitRecoveryDelay(attacker, damage, combatStats),
+        playerDefeated: false
+    };
+}
+
+// --- Damage Over Time ---
+
+/**
+ * One tick of a poison on a pack member or the player. Poison on the player outlives the monster that applied it.
+ * @param state The fight (the poisoned side's HP changes).
+ * @param target Who is poisoned.
+ * @param damage The poison damage for this tick.
+ * @param monsterId The poisoned monster, or the monster that poisoned the player.
+ */
+export function performPoisonTickAction(state: CombatState, target: 'monster' | 'player', damage: number, monsterId: string): PoisonTickAction {
+    const { character, encounter } = state;
+    const damageBreakdown = { physical: 0, fire: 0, cold: 0, lightning: 0, poison: damage };
+    const monster = encounter.monsters.find(member => member.id === monsterId);
+
+    if (target === 'monster') {
+        if (!monster) return { skipped: 'defeated' };
+        monster.currentHp -= damage;
+        return { monster, damageBreakdown, defeated: monster.currentHp <= 0 };
+    }
+    character.currentHp = (character.currentHp ?? 0) - damage;
+    return { monster, damageBreakdown, defeated: character.currentHp <= 0 };
+}
+
+/**
+ * Expires the status effects of the player and the pack and applies their due ticks (burn, bleed, ...).
+ * If the ticks kill the player, the pack is left as it is.
+ * @param state The fight (effects and HP of the player and the pack change).
+ * @param now Current time in epoch milliseconds.
+ */
+export function performStatusTickAction(state: CombatState, now: number = Date.now()): StatusTickAction {
+    const { character, encounter } = state;
+    const monsterTicks = new Map<string, StatusTickOutcome>();
+
+    // --- Player ---
+    const playerExpired = removeExpiredStatusEffects(character.statusEffects, now);
+    const effectiveCharacter = calculateCharacterStats(character, now);
+    const playerTick = collectStatusEffectTicks(character.statusEffects, calculateCombatStats(effectiveCharacter, now).resistances, MAX_PLAYER_RESISTANCE, now);
+    const playerChanged = playerExpired.length > 0 || playerTick !== undefined;
+    if (playerTick) {
+        character.currentHp = Math.min(effectiveCharacter.maxHp ?? Infinity, (character.currentHp ?? 0) - playerTick.damage + playerTick.healed);
+        if (character.currentHp <= 0) {
+            // Named after the monster that applied the killing effect, if it is known
+            const killingEffect = character.statusEffects.find(effect => effect.nextTickAt !== undefined && effect.kind === 'debuff');
+            const source = encounter.monsters.find(member => member.id === killingEffect?.sourceId);
+            const killerName = source?.name ?? killingEffect?.name ?? 'a status effect';
+            return { playerChanged, playerTick, playerDefeated: true, killerName, changedMonsters: [], monsterTicks, defeated: [] };
+        }
+    }
+
+    // --- Monsters ---
+    const changedMonsters = encounter.monsters.filter(monster => {
+        const expired = removeExpiredStatusEffects(monster.statusEffects ??= [], now);
+        const tick = collectStatusEffectTicks(monster.statusEffects, monster.resistances ?? {}, MAX_MONSTER_RESISTANCE, now);
+        if (tick) {
+            monster.currentHp = Math.min(monster.maxHp, monster.currentHp - tick.damage + tick.healed);
+            monsterTicks.set(monster.id, tick);
+        }
+        return expired.length > 0 || tick !== undefined;
+    });
+
+    return {
+        playerChanged,
+        playerTick,
+        playerDefeated: false,
+        changedMonsters,
+        monsterTicks,
+        defeated: encounter.monsters.filter(monster => monster.currentHp <= 0)
+    };
+}
+
+// --- Defeats ---
+
+/**
+ * Removes defeated pack members from the encounter and picks the player's next target among the rest.
+ * @param encounter The running encounter (modified).
+ * @param character The victorious character.
+ * @param defeated The defeated monster instances.
+ * @returns True if the whole pack is defeated.
+ */
+export function removeDefeatedMonsters(encounter: Encounter, character: Character, defeated: Monster[]): boolean {
+    encounter.monsters = encounter.monsters.filter(member => !defeated.includes(member));
+    if (encounter.monsters.length === 0) {
+        return true;
+    }
+    resolveTarget(encounter, character);
+    return false;
+}
+
+/**
+ * Rolls the rewards of defeated pack members: XP for the character's level, and each monster's
+ * own loot plus the extra (boss) loot of its rarity.
+ * @param defeated The defeated monster instances.
+ * @param characterLevel The level of the victorious character before any level up.
+ * @param rng Random source for the loot.
+ */
+export function rollDefeatRewards(defeated: Monster[], characterLevel: number, rng: Rng): DefeatRewards {
+    return {
+        xp: defeated.reduce((sum, monster) => sum + calculateXpReward(monster, characterLevel), 0),
+        loot: defeated.flatMap(monster => generateMonsterLoot(monster, rng))
+    };
+}
@@ -0,0 +1,569 @@
+import {
+    Character,
+    Monster,
+    Item,
+    EquipmentSlot,
+    CombatStats,
+    PlayerAttackOutcome,
+    MonsterAttackOutcome,
+    AddedDamage,
+    Resistances,
+    DamageBreakdown,
+    PoisonApplication,
+    DerivedStats,
+    SkillDefinition,
+    ClassMechanic,
+    ClassResourceState,
+    TargetPriority
+} from './types.js';
+import { items as itemDefinitions } from './lootData.js';
+import { MAX_PLAYER_RESISTANCE, characterClasses } from './gameData.js';
+import { calculateCharacterStats, getWeaponType } from './utils.js';
+import { getStatusEffectModifiers } from './statusEffects.js';
+import { getActiveEquipment } from './equipRules.js';
+import { Rng, defaultRng } from './rng.js';
+
+// --- Combat Tuning Constants ---
+export const DEFAULT_PLAYER_ATTACK_SPEED = 2000; // Default ms between player attacks if no weapon
+export const MIN_ATTACK_SPEED = 500; // Minimum attack speed in ms
+const UNARMED_DAMAGE = { min: 1, max: 2 };
+const MIN_HIT_CHANCE = 0.05;
+const MAX_HIT_CHANCE = 0.95;
+const HIT_CHANCE_PER_LEVEL = 0.025; // Hit chance shift per level of difference
+const MAX_BLOCK_CHANCE = 0.75;
+const MAX_DAMAGE_REDUCTION = 0.75;
+const MAX_CRIT_CHANCE = 0.5;
+export const MAX_MONSTER_RESISTANCE = 100; // Monsters may be immune
+export const POISON_TICK_MS = 1000; // Poison duration is expressed in seconds, one tick per second
+export const NEXT_ENCOUNTER_DELAY_MS = 1500; // Pause between a kill and finding the next monster
+
+// --- Equipment Helpers ---
+
+/**
+ * Returns the equipped items of a character as an array, without items whose requirements are not met.
+ */
+function getEquippedItems(character: Character): Item[] {
+    const equipped: Item[] = [];
+    const activeEquipment = getActiveEquipment(character);
+    for (const slotKey in activeEquipment) {
+        const item = activeEquipment[slotKey as EquipmentSlot];
+        if (item) equipped.push(item);
+    }
+    return equipped;
+}
+
+/**
+ * Gets the defense bonus percent of a single item. It only scales that item's own defense,
+ * so it is not part of the character's derived-stat sheet.
+ */
+function getItemDefenseBonusPercent(item: Item): number {
+    let bonus = item.stats?.defenseBonusPercent ?? 0;
+    item.prefixes?.forEach(affix => { bonus += affix.defenseBonusPercent ?? 0; });
+    item.suffixes?.forEach(affix => { bonus += affix.defenseBonusPercent ?? 0; });
+    return bonus;
+}
+
+/**
+ * Returns the character's derived-stat sheet, computing it if the character has not been
+ * through calculateCharacterStats yet.
+ */
+function getDerivedStats(character: Character): DerivedStats {
+    return character.derivedStats ?? calculateCharacterStats(character).derivedStats!;
+}
+
+/**
+ * Reads a base combat property from an item instance, falling back to its base definition
+ * (items generated before combat properties were copied onto instances may lack them).
+ */
+function getItemProperty<K extends 'damage' | 'defense' | 'blockChance' | 'attackSpeed'>(item: Item, key: K): Item[K] {
+    return item[key] ?? (itemDefinitions.get(item.baseId)?.[key] as Item[K]);
+}
+
+// --- Derived Combat Stats ---
+
+/**
+ * Calculates the player's attack speed from the main hand weapon, increased attack speed bonuses
+ * and status effects that slow or hasten attacks.
+ * @param character The character, with equipment.
+ * @param now Current time in epoch milliseconds (for the status effects).
+ * @returns Time in milliseconds between attacks.
+ */
+export function calculatePlayerAttackSpeed(character: Character, now: number = Date.now()): number {
+    const mainHand = getActiveEquipment(character).mainHand;
+    const baseSpeed = (mainHand && getItemProperty(mainHand, 'attackSpeed')) || DEFAULT_PLAYER_ATTACK_SPEED;
+    const totalIncreasedAttackSpeed = getDerivedStats(character).increasedAttackSpeed;
+    const statusMultiplier = getStatusEffectModifiers(character.statusEffects, now).attackSpeedMultiplier;
+
+    return Math.max(MIN_ATTACK_SPEED, Math.round(baseSpeed / (1 + totalIncreasedAttackSpeed) * statusMultiplier));
+}
+
+/**
+ * Calculates a monster's current attack speed, slowed or hastened by its status effects.
+ * @param monster The monster instance.
+ * @param now Current time in epoch milliseconds (for the status effects).
+ * @returns Time in milliseconds between attacks.
+ */
+export function calculateMonsterAttackSpeed(monster: Monster, now: number = Date.now()): number {
+    return Math.round(monster.attackSpeed * getStatusEffectModifiers(monster.statusEffects, now).attackSpeedMultiplier);
+}
+
+/**
+ * Calculates the character's derived combat stats from attributes and equipment.
+ * Expects the character's stats to already include equipment bonuses (see calculateCharacterStats).
+ * @param character The character with final stats and equipment.
+ * @param now Current time in epoch milliseconds (for the status effects).
+ * @returns The derived CombatStats.
+ */
+export function calculateCombatStats(character: Character, now: number = Date.now()): CombatStats {
+    const dexterity = character.stats?.dexterity ?? 0;
+    const derived = getDerivedStats(character);
+    const characterClass = characterClasses.get(character.class);
+    const mechanic = characterClass?.mechanic;
+
+    // Weapon damage (unarmed if no main hand weapon)
+    const mainHand = getActiveEquipment(character).mainHand;
+    const weaponDamage = (mainHand && getItemProperty(mainHand, 'damage')) || UNARMED_DAMAGE;
+    const weaponType = mainHand && getWeaponType(mainHand);
+    const weaponDamageBonus = (weaponType && characterClass?.weaponMastery?.[weaponType]) || 0;
+
+    // Defense: each item's defense is scaled by its own defense bonus, plus a small dexterity bonus
+    let defense = 0;
+    for (const item of getEquippedItems(character)) {
+        const itemDefense = getItemProperty(item, 'defense') ?? 0;
+        defense += itemDefense * (1 + getItemDefenseBonusPercent(item));
+    }
+    defense = Math.floor(defense + dexterity / 4);
+
+    // Block only comes from a shield in the off hand
+    const offHand = getActiveEquipment(character).offHand;
+    const blockChance = Math.min(MAX_BLOCK_CHANCE, (offHand && getItemProperty(offHand, 'blockChance')) || 0);
+
+    return {
+        minDamage: weaponDamage.min,
+        maxDamage: weaponDamage.max,
+        attackRating: derived.attackRating,
+        defense,
+        blockChance,
+        attackSpeed: calculatePlayerAttackSpeed(character, now),
+        addedDamage: sumEquippedAddedDamage(character),
+        resistances: {
+            fireRes: derived.fireRes,
+            coldRes: derived.coldRes,
+            lightningRes: derived.lightningRes,
+            poisonRes: derived.poisonRes
+        },
+        lifeStealPercent: derived.lifeStealPercent,
+        manaStealPercent: derived.manaStealPercent,
+        fasterHitRecovery: derived.fasterHitRecovery,
+        weaponDamageBonus,
+        critChance: mechanic?.type === 'critical' ? Math.min(MAX_CRIT_CHANCE, dexterity * mechanic.critChancePerDexterity) : 0,
+        critMultiplier: mechanic?.type === 'critical' ? mechanic.critMultiplier : 1,
+        physicalDamageReduction: mechanic?.type === 'fortitude' ? mechanic.physicalReductionPercent : 0,
+        manaShieldPercent: mechanic?.type === 'manaShield' ? mechanic.absorbPercent : 0
+    };
+}
+
+/**
+ * Sums elemental added damage from all affixes on equipped items.
+ * Poison damage stacks; the longest duration is kept.
+ */
+function sumEquippedAddedDamage(character: Character): AddedDamage {
+    const total: AddedDamage = {};
+    const addRange = (key: 'fire' | 'cold' | 'lightning', range?: { min: number; max: number }) => {
+        if (!range) return;
+        const current = total[key] ?? { min: 0, max: 0 };
+        total[key] = { min: current.min + range.min, max: current.max + range.max };
+    };
+
+    for (const item of getEquippedItems(character)) {
+        for (const affix of [...(item.prefixes ?? []), ...(item.suffixes ?? [])]) {
+            const added = affix.addedDamage;
+            if (!added) continue;
+            addRange('fire', added.fire);
+            addRange('cold', added.cold);
+            addRange('lightning', added.lightning);
+            if (added.poison) {
+                const current = total.poison ?? { damage: 0, duration: 0 };
+                total.poison = {
+                    damage: current.damage + added.poison.damage,
+                    duration: Math.max(current.duration, added.poison.duration)
+                };
+            }
+        }
+    }
+    return total;
+}
+
+// --- Hit Chance ---
+
+/**
+ * Calculates a hit chance from attack rating versus defense rating, adjusted by level difference.
+ * @returns A chance between MIN_HIT_CHANCE and MAX_HIT_CHANCE.
+ */
+function calculateHitChance(attackRating: number, defenseRating: number, attackerLevel: number, defenderLevel: number): number {
+    const total = attackRating + defenseRating;
+    const baseChance = total > 0 ? attackRating / total : 0.5;
+    const levelAdjusted = baseChance + (attackerLevel - defenderLevel) * HIT_CHANCE_PER_LEVEL;
+    return Math.min(MAX_HIT_CHANCE, Math.max(MIN_HIT_CHANCE, levelAdjusted));
+}
+
+/**
+ * Chance for the player to hit the monster.
+ */
+export function calculatePlayerHitChance(combatStats: CombatStats, characterLevel: number, monster: Monster): number {
+    return calculateHitChance(combatStats.attackRating, (monster.stats?.dexterity ?? 0) * 5, characterLevel, monster.level ?? 1);
+}
+
+/**
+ * Chance for the monster to hit the player (before block).
+ */
+export function calculateMonsterHitChance(monster: Monster, character: Character): number {
+    const monsterLevel = monster.level ?? 1;
+    const monsterAttackRating = (monster.stats?.dexterity ?? 0) * 5 + monsterLevel * 10;
+    const playerDefenseRating = (character.stats?.dexterity ?? 0) * 2;
+    return calculateHitChance(monsterAttackRating, playerDefenseRating, monsterLevel, character.level);
+}
+
+// --- Elemental Damage ---
+
+function emptyDamageBreakdown(): DamageBreakdown {
+    return { physical: 0, fire: 0, cold: 0, lightning: 0, poison: 0 };
+}
+
+/**
+ * Applies a percent resistance to a damage value.
+ */
+function applyResistance(damage: number, resistance: number, maxResistance: number): number {
+    const effective = Math.min(maxResistance, resistance);
+    return Math.max(0, Math.round(damage * (1 - effective / 100)));
+}
+
+/**
+ * Rolls elemental added damage against a set of resistances.
+ * Fire, cold and lightning are written into the breakdown as immediate damage;
+ * poison is returned as a damage-over-time application.
+ * @returns The poison application, if any poison damage gets through.
+ */
+function rollElementalDamage(added: AddedDamage, resistances: Resistances, maxResistance: number, breakdown: DamageBreakdown, rng: Rng): PoisonApplication | undefined {
+    if (added.fire) breakdown.fire = applyResistance(rng.int(added.fire.min, added.fire.max), resistances.fireRes ?? 0, maxResistance);
+    if (added.cold) breakdown.cold = applyResistance(rng.int(added.cold.min, added.cold.max), resistances.coldRes ?? 0, maxResistance);
+    if (added.lightning) breakdown.lightning = applyResistance(rng.int(added.lightning.min, added.lightning.max), resistances.lightningRes ?? 0, maxResistance);
+
+    if (!added.poison || added.poison.duration <= 0) return undefined;
+    const totalPoison = applyResistance(added.poison.damage, resistances.poisonRes ?? 0, maxResistance);
+    if (totalPoison <= 0) return undefined;
+
+    const ticks = Math.max(1, Math.round(added.poison.duration * 1000 / POISON_TICK_MS));
+    return { damagePerTick: Math.max(1, Math.round(totalPoison / ticks)), ticks };
+}
+
+/**
+ * Sums the immediate damage in a breakdown (poison is dealt over time and not included).
+ */
+function sumImmediateDamage(breakdown: DamageBreakdown): number {
+    return breakdown.physical + breakdown.fire + breakdown.cold + breakdown.lightning;
+}
+
+// --- Attack Resolution ---
+
+/**
+ * Rolls weapon damage scaled by the class's primary attribute (the physical part of a normal attack),
+ * increased by weapon mastery and the given class resource bonus.
+ */
+function rollWeaponDamage(character: Character, combatStats: CombatStats, rng: Rng, resourceDamageBonus: number): number {
+    const primaryAttribute = characterClasses.get(character.class)?.primaryAttribute ?? 'strength';
+    const attribute = character.stats?.[primaryAttribute] ?? 0;
+    const roll = rng.int(combatStats.minDamage, combatStats.maxDamage);
+    return (roll * (1 + attribute / 100) + attribute / 10) * (1 + combatStats.weaponDamageBonus + resourceDamageBonus);
+}
+
+/**
+ * Rolls whether a weapon hit is critical. Only classes with a critical chance roll at all,
+ * so other classes consume the same random numbers as before.
+ */
+function rollCritical(combatStats: CombatStats, rng: Rng): boolean {
+    return combatStats.critChance > 0 && rng.next() < combatStats.critChance;
+}
+
+/**
+ * Resolves a single player attack: rolls to hit, then rolls weapon damage scaled by the class's
+ * primary attribute (reduced by a stone skin) plus elemental damage from equipment, reduced by the monster's resistances.
+ * @param character The attacking character (with final stats).
+ * @param combatStats The character's derived combat stats.
+ * @param monster The monster being attacked.
+ * @param rng Random source (seed it for reproducible fights).
+ * @param resourceDamageBonus Increased weapon damage from the class resource (see calculateClassResourceDamageBonus).
+ * @returns Whether the attack hit (and was critical) and the damage dealt.
+ */
+export function resolvePlayerAttack(character: Character, combatStats: CombatStats, monster: Monster, rng: Rng = defaultRng, resourceDamageBonus = 0): PlayerAttackOutcome {
+    const breakdown = emptyDamageBreakdown();
+    if (rng.next() >= calculatePlayerHitChance(combatStats, character.level, monster)) {
+        return { hit: false, damage: 0, damageBreakdown: breakdown };
+    }
+
+    const critical = rollCritical(combatStats, rng);
+    const weaponDamage = rollWeaponDamage(character, combatStats, rng, resourceDamageBonus);
+    breakdown.physical = Math.max(1, Math.floor(weaponDamage * (critical ? combatStats.critMultiplier : 1) * (1 - (monster.physicalDamageReduction ?? 0))));
+
+    const poison = rollElementalDamage(combatStats.addedDamage, monster.resistances ?? {}, MAX_MONSTER_RESISTANCE, breakdown, rng);
+    return { hit: true, critical: critical || undefined, damage: sumImmediateDamage(breakdown), damageBreakdown: breakdown, poison };
+}
+
+/**
+ * Resolves a single monster attack: rolls to hit, rolls block, then mitigates physical damage
+ * by defense and elemental damage by resistances.
+ * @param monster The attacking monster.
+ * @param character The defending character (with final stats).
+ * @param combatStats The character's derived combat stats.
+ * @param rng Random source (seed it for reproducible fights).
+ * @returns Whether the attack hit, whether it was blocked, and the damage taken.
+ */
+export function resolveMonsterAttack(monster: Monster, character: Character, combatStats: CombatStats, rng: Rng = defaultRng): MonsterAttackOutcome {
+    const breakdown = emptyDamageBreakdown();
+    if (rng.next() >= calculateMonsterHitChance(monster, character)) {
+        return { hit: false, blocked: false, damage: 0, damageBreakdown: breakdown };
+    }
+
+    // A block negates the whole attack, including its elemental component
+    if (combatStats.blockChance > 0 && rng.next() < combatStats.blockChance) {
+        return { hit: true, blocked: true, damage: 0, damageBreakdown: breakdown };
+    }
+
+    const baseDamage = monster.baseDamage ?? 1;
+    const rawDamage = rng.int(baseDamage, baseDamage + Math.ceil((monster.stats?.strength ?? 0) / 5));
+
+    // Defense reduces damage with diminishing returns, scaled against monster level; class mechanics reduce it further
+    const monsterLevel = monster.level ?? 1;
+    const reduction = Math.min(MAX_DAMAGE_REDUCTION, combatStats.defense / (combatStats.defense + 50 + monsterLevel * 10));
+    breakdown.physical = Math.max(1, Math.round(rawDamage * (1 - reduction) * (1 - combatStats.physicalDamageReduction)));
+
+    // Elemental damage ignores defense but is reduced by the player's (capped) resistances
+    const poison = rollElementalDamage(monster.elementalDamage ?? {}, combatStats.resistances, MAX_PLAYER_RESISTANCE, breakdown, rng);
+    return { hit: true, blocked: false, damage: sumImmediateDamage(breakdown), damageBreakdown: breakdown, poison };
+}
+
+// --- Skills ---
+
+/**
+ * Multiplier applied to a skill's rank 1 values at the given rank.
+ */
+export function calculateSkillRankMultiplier(skill: SkillDefinition, rank: number): number {
+    return 1 + Math.max(0, rank - 1) * (skill.rankScaling ?? 0);
+}
+
+/**
+ * Scales every damage value of an added damage set (poison duration is kept).
+ */
+export function scaleAddedDamage(added: AddedDamage, factor: number): AddedDamage {
+    const scaleRange = (range?: { min: number; max: number }) =>
+        range ? { min: Math.round(range.min * factor), max: Math.round(range.max * factor) } : undefined;
+    return {
+        fire: scaleRange(added.fire),
+        cold: scaleRange(added.cold),
+        lightning: scaleRange(added.lightning),
+        poison: added.poison ? { damage: Math.round(added.poison.damage * factor), duration: added.poison.duration } : undefined
+    };
+}
+
+/**
+ * Adds two added damage sets together. Poison damage stacks; the longest duration is kept.
+ */
+export function combineAddedDamage(a: AddedDamage, b: AddedDamage): AddedDamage {
+    const addRange = (x?: { min: number; max: number }, y?: { min: number; max: number }) =>
+        x && y ? { min: x.min + y.min, max: x.max + y.max } : x ?? y;
+    return {
+        fire: addRange(a.fire, b.fire),
+        cold: addRange(a.cold, b.cold),
+        lightning: addRange(a.lightning, b.lightning),
+        poison: a.poison && b.poison
+            ? { damage: a.poison.damage + b.poison.damage, duration: Math.max(a.poison.duration, b.poison.duration) }
+            : a.poison ?? b.poison
+    };
+}
+
+/**
+ * Resolves the damage of an active skill against the monster.
+ * Weapon strikes roll to hit like a normal attack and multiply its physical damage; their own
+ * elemental damage is added to the equipment's. Skills without a weapon strike are spells:
+ * they always hit and their elemental damage scales with energy (+1% per point).
+ * A skill with neither (a pure heal) deals no damage.
+ * @param character The attacking character (with final stats).
+ * @param combatStats The character's derived combat stats.
+ * @param monster The monster being attacked.
+ * @param skill The skill used.
+ * @param rank The character's rank in the skill.
+ * @param rng Random source (seed it for reproducible fights).
+ * @param resourceDamageBonus Increased weapon damage from the class resource (weapon strikes only).
+ * @returns Whether the skill hit (and was critical) and the damage dealt.
+ */
+export function resolveSkillAttack(character: Character, combatStats: CombatStats, monster: Monster, skill: SkillDefinition, rank: number, rng: Rng = defaultRng, resourceDamageBonus = 0): PlayerAttackOutcome {
+    const breakdown = emptyDamageBreakdown();
+    const effect = skill.effect ?? {};
+    const multiplier = calculateSkillRankMultiplier(skill, rank);
+    const skillDamage = effect.addedDamage ? scaleAddedDamage(effect.addedDamage, multiplier) : undefined;
+
+    if (effect.weaponDamagePercent !== undefined) {
+        if (rng.next() >= calculatePlayerHitChance(combatStats, character.level, monster)) {
+            return { hit: false, damage: 0, damageBreakdown: breakdown };
+        }
+        const critical = rollCritical(combatStats, rng);
+        const weaponDamage = rollWeaponDamage(character, combatStats, rng, resourceDamageBonus) * effect.weaponDamagePercent * multiplier;
+        breakdown.physical = Math.max(1, Math.floor(weaponDamage * (critical ? combatStats.critMultiplier : 1) * (1 - (monster.physicalDamageReduction ?? 0))));
+        const added = skillDamage ? combineAddedDamage(combatStats.addedDamage, skillDamage) : combatStats.addedDamage;
+        const poison = rollElementalDamage(added, monster.resistances ?? {}, MAX_MONSTER_RESISTANCE, breakdown, rng);
+        return { hit: true, critical: critical || undefined, damage: sumImmediateDamage(breakdown), damageBreakdown: breakdown, poison };
+    }
+
+    if (!skillDamage) {
+        return { hit: false, damage: 0, damageBreakdown: breakdown };
+    }
+    const spellDamage = scaleAddedDamage(skillDamage, 1 + (character.stats?.energy ?? 0) / 100);
+    const poison = rollElementalDamage(spellDamage, monster.resistances ?? {}, MAX_MONSTER_RESISTANCE, breakdown, rng);
+    return { hit: true, damage: sumImmediateDamage(breakdown), damageBreakdown: breakdown, poison };
+}
+
+/**
+ * HP restored by a healing skill, capped at the character's missing HP.
+ * @param skill The skill used.
+ * @param rank The character's rank in the skill.
+ * @param maxHp The character's max HP (with bonuses).
+ * @param currentHp The character's current HP.
+ */
+export function calculateSkillHeal(skill: SkillDefinition, rank: number, maxHp: number, currentHp: number): number {
+    const healPercent = skill.effect?.healPercent ?? 0;
+    if (healPercent <= 0) return 0;
+    const heal = Math.round(maxHp * healPercent * calculateSkillRankMultiplier(skill, rank));
+    return Math.max(0, Math.min(heal, maxHp - currentHp));
+}
+
+// --- Class Mechanics ---
+
+/**
+ * Returns the stacking mechanic (rage or combo) of the character's class, if it has one.
+ */
+function getStackingMechanic(character: Character): Extract<ClassMechanic, { type: 'rage' | 'combo' }> | undefined {
+    const mechanic = characterClasses.get(character.class)?.mechanic;
+    return mechanic?.type === 'rage' || mechanic?.type === 'combo' ? mechanic : undefined;
+}
+
+/**
+ * Creates the fight-long resource of a class with a stacking mechanic, starting without stacks.
+ * @returns The resource, or undefined if the class has no stacking mechanic.
+ */
+export function createClassResource(character: Character): ClassResourceState | undefined {
+    const mechanic = getStackingMechanic(character);
+    return mechanic ? { type: mechanic.type, name: mechanic.name, stacks: 0, maxStacks: mechanic.maxStacks } : undefined;
+}
+
+/**
+ * Increased weapon damage granted by the current stacks of the class resource.
+ */
+export function calculateClassResourceDamageBonus(character: Character, resource?: ClassResourceState): number {
+    const mechanic = getStackingMechanic(character);
+    return mechanic && resource ? resource.stacks * mechanic.damagePerStack : 0;
+}
+
+/**
+ * Updates the class resource after a player attack: combo stacks build on a hit and break on a miss.
+ * NOTE: Modifies the passed resource.
+ */
+export function updateClassResourceOnAttack(resource: ClassResourceState | undefined, hit: boolean): void {
+    if (resource?.type !== 'combo') return;
+    resource.stacks = hit ? Math.min(resource.maxStacks, resource.stacks + 1) : 0;
+}
+
+/**
+ * Updates the class resource after the player took damage from an attack: rage builds a stack.
+ * NOTE: Modifies the passed resource.
+ */
+export function updateClassResourceOnDamageTaken(resource: ClassResourceState | undefined, damage: number): void {
+    if (resource?.type !== 'rage' || damage <= 0) return;
+    resource.stacks = Math.min(resource.maxStacks, resource.stacks + 1);
+}
+
+/**
+ * Part of an attack's damage paid with mana by a mana shield, limited by the mana available.
+ * @returns The absorbed damage (costs 1 mana per point); the rest is taken from HP.
+ */
+export function calculateManaShieldAbsorb(damage: number, combatStats: CombatStats, currentMana: number): number {
+    if (damage <= 0 || combatStats.manaShieldPercent <= 0) return 0;
+    return Math.max(0, Math.min(Math.round(damage * combatStats.manaShieldPercent), Math.floor(currentMana)));
+}
+
+// --- On-Hit Effects ---
+
+/**
+ * Life and mana stolen by a player hit. Steal only applies to physical damage.
+ */
+export function calculateLifeAndManaSteal(physicalDamage: number, combatStats: CombatStats): { life: number; mana: number } {
+    return {
+        life: Math.round(physicalDamage * combatStats.lifeStealPercent),
+        mana: Math.round(physicalDamage * combatStats.manaStealPercent)
+    };
+}
+
+/**
+ * Extra delay before the monster's next swing after it damaged the player (faster hit recovery).
+ * @returns The delay in milliseconds (0 if none).
+ */
+export function calculateHitRecoveryDelay(monster: Monster, damageTaken: number, combatStats: CombatStats): number {
+    if (damageTaken <= 0 || combatStats.fasterHitRecovery <= 0) return 0;
+    return Math.round(monster.attackSpeed * combatStats.fasterHitRecovery);
+}
+
+// --- Targeting ---
+
+/**
+ * Expected damage per second of a monster before the player's mitigation: average physical roll
+ * plus average elemental damage (poison spread over its duration), per attack interval.
+ */
+export function calculateMonsterThreat(monster: Monster): number {
+    const averageRange = (range?: { min: number; max: number }) => range ? (range.min + range.max) / 2 : 0;
+    const elemental = monster.elementalDamage ?? {};
+    const physical = (monster.baseDamage ?? 1) + Math.ceil((monster.stats?.strength ?? 0) / 5) / 2;
+    const damagePerAttack = physical + averageRange(elemental.fire) + averageRange(elemental.cold) + averageRange(elemental.lightning)
+        + (elemental.poison?.damage ?? 0);
+    return damagePerAttack * 1000 / Math.max(1, monster.attackSpeed);
+}
+
+/**
+ * Picks the monster the player attacks next from the living members of a pack.
+ * Ties go to the monster that appeared first in the pack.
+ * @param monsters The living pack members.
+ * @param priority 'lowest_hp' finishes off the most wounded, 'highest_threat' the most dangerous.
+ * @returns The new target, or undefined for an empty pack.
+ */
+export function selectTarget(monsters: Monster[], priority: TargetPriority): Monster | undefined {
+    const score = (monster: Monster) => priority === 'highest_threat' ? -calculateMonsterThreat(monster) : monster.currentHp;
+    return monsters.reduce<Monster | undefined>((best, monster) => !best || score(monster) < score(best) ? monster : best, undefined);
+}
+
+// --- Rewards ---
+
+/**
+ * Calculates the XP reward for defeating a monster, reduced for large level differences.
+ */
+export function calculateXpReward(monster: Monster, characterLevel: number): number {
+    const mLvl = monster.level ?? 1;
+    const pLvl = characterLevel;
+    const baseMonsterXp = 10 + (mLvl * 5);
+    const levelDiff = pLvl - mLvl;
+    let xpMultiplier = 1.0;
+
+    if (levelDiff > 10) {
+        xpMultiplier = Math.max(0.05, 1.0 - (levelDiff - 10) * 0.05);
+    } else if (levelDiff < -10) {
+        xpMultiplier = Math.max(0.05, 1.0 - (Math.abs(levelDiff) - 10) * 0.05);
+    }
+    xpMultiplier = Math.max(0, xpMultiplier);
+    // Champions, elites, bosses and some modifiers are worth more
+    return Math.max(0, Math.floor(baseMonsterXp * xpMultiplier * (monster.xpMultiplier ?? 1)));
+}
+
+/**
+ * HP a vampiric monster heals from the damage it dealt, capped at its missing HP.
+ */
+export function calculateMonsterLifeSteal(monster: Monster, damageDealt: number): number {
+    if (!monster.lifeStealPercent || damageDealt <= 0) return 0;
+    return Math.max(0, Math.min(Math.floor(damageDealt * monster.lifeStealPercent), monster.maxHp - monster.currentHp));
+}
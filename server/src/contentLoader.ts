@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Monster, Zone, CharacterClass, Affix, ItemQuality, SkillDefinition, MonsterRarityDefinition, MonsterModifierDefinition, StatusEffectDefinition, VendorDefinition } from './types.js';
+import { monsters, monsterRarities, monsterModifiers, statusEffects, zones, characterClasses, skills, vendors, lootTables, qualityWeights, levelLootTables, LootTableEntry, LevelLootTable } from './gameData.js';
+import { items, prefixes, suffixes, BaseItemDefinition } from './lootData.js';
+import { validateGameData } from './validation.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// --- Content Types ---
+
+// Format version of the content files. Bump when the file layout changes incompatibly.
+export const CONTENT_FORMAT_VERSION = 1;
+
+// A complete, self-contained set of game content
+export interface GameContent {
+    monsters: Map<string, Monster>;
+    monsterRarities: Map<string, MonsterRarityDefinition>;
+    monsterModifiers: Map<string, MonsterModifierDefinition>;
+    statusEffects: Map<string, StatusEffectDefinition>;
+    zones: Map<string, Zone>;
+    characterClasses: Map<string, CharacterClass>;
+    skills: Map<string, SkillDefinition>;
+    vendors: Map<string, VendorDefinition>;
+    items: Map<string, BaseItemDefinition>;
+    prefixes: Map<string, Affix>;
+    suffixes: Map<string, Affix>;
+    lootTables: Map<string, LootTableEntry[]>;
+    qualityWeights: { quality: ItemQuality; weight: number }[];
+    levelLootTables: LevelLootTable[];
+}
+
+type KeyedCollection = Exclude<keyof GameContent, 'qualityWeights' | 'levelLootTables'>;
+
+export interface ContentLoadResult {
+    success: boolean;
+    message: string;
+    errors?: string[];
+    counts?: Record<keyof GameContent, number>;
+}
+
+// Which collections live in which file. Each file looks like { "version": 1, "<collection>": { "<id>": {...} } }
+const CONTENT_FILES: Record<string, KeyedCollection[]> = {
+    'classes.json': ['characterClasses'],
+    'skills.json': ['skills'],
+    'zones.json': ['zones'],
+    'monsters.json': ['monsters'],
+    'monsterVariants.json': ['monsterRarities', 'monsterModifiers'],
+    'statusEffects.json': ['statusEffects'],
+    'items.json': ['items'],
+    'affixes.json': ['prefixes', 'suffixes'],
+    'loot.json': ['lootTables'],
+    'vendors.json': ['vendors']
+};
+const QUALITY_WEIGHTS_FILE = 'loot.json'; // Also holds the levelLootTables bands
+
+/**
+ * Directory holding the content files. Defaults to server/content, overridable with CONTENT_DIR.
+ */
+export function getContentDirectory(): string {
+    return process.env.CONTENT_DIR ? path.resolve(process.env.CONTENT_DIR) : path.resolve(__dirname, '../content');
+}
+
+// --- Reading ---
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads and parses one content file, checking its format version.
+ */
+function readContentFile(directory: string, fileName: string, errors: string[]): Record<string, unknown> | null {
+    const filePath = path.join(directory, fileName);
+    let data: unknown;
+    try {
+        data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        errors.push(`${fileName}: ${error instanceof Error ? error.message : 'Could not be read.'}`);
+        return null;
+    }
+    if (!isPlainObject(data)) {
+        errors.push(`${fileName}: Must contain a JSON object.`);
+        return null;
+    }
+    if (data.version !== CONTENT_FORMAT_VERSION) {
+        errors.push(`${fileName}.version: Unsupported content version "${data.version}". Expected ${CONTENT_FORMAT_VERSION}.`);
+        return null;
+    }
+    return data;
+}
+
+/**
+ * Reads every content file into a new GameContent. Only the file layout is checked here;
+ * the entries themselves are checked by validateGameData.
+ * @param directory Directory containing the content files.
+ * @returns The parsed content, or the errors that prevented reading it.
+ */
+export function readGameContent(directory: string = getContentDirectory()): { content?: GameContent; errors: string[] } {
+    const errors: string[] = [];
+    const content: GameContent = {
+        monsters: new Map(),
+        monsterRarities: new Map(),
+        monsterModifiers: new Map(),
+        statusEffects: new Map(),
+        zones: new Map(),
+        characterClasses: new Map(),
+        skills: new Map(),
+        vendors: new Map(),
+        items: new Map(),
+        prefixes: new Map(),
+        suffixes: new Map(),
+        lootTables: new Map(),
+        qualityWeights: [],
+        levelLootTables: []
+    };
+
+    for (const [fileName, collections] of Object.entries(CONTENT_FILES)) {
+        const data = readContentFile(directory, fileName, errors);
+        if (!data) continue;
+
+        for (const collection of collections) {
+            const entries = data[collection];
+            if (!isPlainObject(entries)) {
+                errors.push(`${collection}: Missing or not an object keyed by ID (in ${fileName}).`);
+                continue;
+            }
+            const target = content[collection] as Map<string, unknown>;
+            for (const [id, entry] of Object.entries(entries)) {
+                // Monster templates always start at full health
+                target.set(id, collection === 'monsters' && isPlainObject(entry) ? { ...entry, currentHp: entry.maxHp } : entry);
+            }
+        }
+
+        if (fileName === QUALITY_WEIGHTS_FILE) {
+            if (!Array.isArray(data.qualityWeights)) {
+                errors.push(`qualityWeights: Missing or not an array (in ${fileName}).`);
+            } else {
+                content.qualityWeights = data.qualityWeights;
+            }
+            if (!Array.isArray(data.levelLootTables)) {
+                errors.push(`levelLootTables: Missing or not an array (in ${fileName}).`);
+            } else {
+                content.levelLootTables = data.levelLootTables;
+            }
+        }
+    }
+
+    return errors.length > 0 ? { errors } : { content, errors };
+}
+
+// --- Applying ---
+
+function replaceMapContents<V>(target: Map<string, V>, source: Map<string, V>): void {
+    target.clear();
+    source.forEach((value, key) => target.set(key, value));
+}
+
+/**
+ * Swaps the live game data for the given content. Runs synchronously, so no message or
+ * combat tick can observe a half-applied state. Monster instances in live encounters are
+ * copies of the old templates and keep fighting unaffected.
+ */
+function applyGameContent(content: GameContent): void {
+    replaceMapContents(monsters, content.monsters);
+    replaceMapContents(monsterRarities, content.monsterRarities);
+    replaceMapContents(monsterModifiers, content.monsterModifiers);
+    replaceMapContents(statusEffects, content.statusEffects);
+    replaceMapContents(zones, content.zones);
+    replaceMapContents(characterClasses, content.characterClasses);
+    replaceMapContents(skills, content.skills);
+    replaceMapContents(vendors, content.vendors);
+    replaceMapContents(items, content.items);
+    replaceMapContents(prefixes, content.prefixes);
+    replaceMapContents(suffixes, content.suffixes);
+    replaceMapContents(lootTables, content.lootTables);
+    qualityWeights.splice(0, qualityWeights.length, ...content.qualityWeights);
+    levelLootTables.splice(0, levelLootTables.length, ...content.levelLootTables);
+}
+
+function countContent(content: GameContent): Record<keyof GameContent, number> {
+    return {
+        monsters: content.monsters.size,
+        monsterRarities: content.monsterRarities.size,
+        monsterModifiers: content.monsterModifiers.size,
+        statusEffects: content.statusEffects.size,
+        zones: content.zones.size,
+        characterClasses: content.characterClasses.size,
+        skills: content.skills.size,
+        vendors: content.vendors.size,
+        items: content.items.size,
+        prefixes: content.prefixes.size,
+        suffixes: content.suffixes.size,
+        lootTables: content.lootTables.size,
+        qualityWeights: content.qualityWeights.length,
+        levelLootTables: content.levelLootTables.length
+    };
+}
+
+/**
+ * Reads, validates and (only if everything is valid) activates the game content.
+ * On failure the currently active content is left untouched.
+ * @param directory Directory containing the content files.
+ * @returns Whether the content was activated, with the validation errors or entry counts.
+ */
+export function loadGameContent(directory: string = getContentDirectory()): ContentLoadResult {
+    console.log(`ContentLoader: Loading game content from ${directory}`);
+    const { content, errors: readErrors } = readGameContent(directory);
+    if (!content) {
+        readErrors.forEach(error => console.error(`ERROR: ${error}`));
+        return { success: false, message: `Could not read game content (${readErrors.length} errors).`, errors: readErrors };
+    }
+
+    const errors = validateGameData(content);
+    if (errors.length > 0) {
+        return { success: false, message: `Game content is invalid (${errors.length} errors).`, errors };
+    }
+
+    applyGameContent(content);
+    const counts = countContent(content);
+    console.log(`ContentLoader: Activated content with ${counts.monsters} monsters, ${counts.zones} zones, ${counts.items} items.`);
+    return { success: true, message: 'Game content loaded.', counts };
+}
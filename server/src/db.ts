@@ -2,14 +2,7 @@ import { MongoClient, Db, Collection, ObjectId } from 'mongodb';
 import { User, Character } from './types.js';
 
 
-const MONGODB_URI = process.env.MONGODB_URI;
-const DB_NAME = process.env.DB_NAME || 'loot_and_legends';
-
-if (!MONGODB_URI) {
-    console.error('FATAL: MONGODB_URI environment variable is not set. Please check your .env file.');
-    process.exit(1);
-}
-
+let client: MongoClient | null = null;
 let db: Db | null = null;
 
 // --- Abstracted Collection Types ---
@@ -18,17 +11,20 @@ let charactersCollection: Collection<Character>;
 
 
 export async function connectToDatabase() {
+    // Read at connect time so importing this module never requires Mongo settings
+    // (only the 'mongo' storage backend connects)
+    const MONGODB_URI = process.env.MONGODB_URI;
+    const DB_NAME = process.env.DB_NAME || 'loot_and_legends';
+
     // Ensure MONGODB_URI is defined before proceeding
     if (!MONGODB_URI) {
-        // This case is already handled by the check above, but adding for clarity
-        // and potentially satisfying stricter type checking in some scenarios.
-        console.error('FATAL: MONGODB_URI is not defined. Cannot connect to database.');
+        console.error('FATAL: MONGODB_URI environment variable is not set. Please check your .env file or use STORAGE_BACKEND=json.');
         process.exit(1);
     }
 
     try {
         // Attempt MongoDB connection with a timeout
-        const client = new MongoClient(MONGODB_URI, { // Now MONGODB_URI is guaranteed to be a string here
+        client = new MongoClient(MONGODB_URI, { // Now MONGODB_URI is guaranteed to be a string here
             serverSelectionTimeoutMS: 3000 // Wait 3 seconds max for server selection
         });
         await client.connect();
@@ -70,5 +66,15 @@ export async function connectToDatabase() {
     }
 }
 
+/**
+ * Closes the MongoDB connection, e.g. once a one-off job or test run is done.
+ * Does nothing if the database was never connected.
+ */
+export async function closeDatabase(): Promise<void> {
+    await client?.close();
+    client = null;
+    db = null;
+}
+
 // Export collections for use in other modules
 export { usersCollection, charactersCollection, ObjectId }; // Export ObjectId for potential use in repositories
@@ -0,0 +1,116 @@
+import { Character, Item, EquipmentSlot, EquipmentSlots, ItemRequirements } from './types.js';
+import { items as itemDefinitions } from './lootData.js';
+
+const RING_SLOTS: EquipmentSlot[] = ['ring1', 'ring2'];
+
+/**
+ * Whether a weapon needs both hands, falling back to its base definition
+ * (items generated before the flag was copied onto instances may lack it).
+ */
+export function isTwoHanded(item: Item): boolean {
+    return item.twoHanded ?? itemDefinitions.get(item.baseId)?.twoHanded ?? false;
+}
+
+/**
+ * Whether an item can go into a slot. Rings fit either ring slot, whichever one their base declares.
+ */
+export function fitsSlot(item: Item, slot: EquipmentSlot): boolean {
+    if (!item.equipmentSlot) return false;
+    if (RING_SLOTS.includes(item.equipmentSlot)) return RING_SLOTS.includes(slot);
+    return item.equipmentSlot === slot;
+}
+
+// --- Requirements ---
+
+/**
+ * The level, strength and dexterity needed to use an item: the base item's requirements, with the
+ * level raised to the highest levelReq of its affixes. Items without stored requirements (generated
+ * before requirements existed) use their base definition.
+ */
+export function getItemRequirements(item: Item): Required<ItemRequirements> {
+    const base = item.requirements ?? itemDefinitions.get(item.baseId)?.requirements ?? {};
+    const affixLevels = [...(item.prefixes ?? []), ...(item.suffixes ?? [])].map(affix => affix.levelReq ?? 0);
+    return {
+        level: Math.max(base.level ?? 1, ...affixLevels),
+        strength: base.strength ?? 0,
+        dexterity: base.dexterity ?? 0
+    };
+}
+
+/**
+ * Lists the requirements a character does not meet, e.g. ["level 12", "40 strength"].
+ * Checked against the character as stored (own attributes without gear bonuses), so gear can never
+ * unlock other gear.
+ * @param character The character as stored.
+ * @param item The item to check.
+ * @returns The unmet requirements; empty if the item can be used.
+ */
+export function getUnmetRequirements(character: Character, item: Item): string[] {
+    const requirements = getItemRequirements(item);
+    const unmet: string[] = [];
+    if (character.level < requirements.level) unmet.push(`level ${requirements.level}`);
+    if (character.stats.strength < requirements.strength) unmet.push(`${requirements.strength} strength`);
+    if (character.stats.dexterity < requirements.dexterity) unmet.push(`${requirements.dexterity} dexterity`);
+    return unmet;
+}
+
+// --- Equipped Items ---
+
+/**
+ * The equipment slots whose items give no stats: requirements no longer met (e.g. after a respec)
+ * or an off-hand item next to a two-handed weapon (from saves before the two-hand rule).
+ * Characters computed by calculateCharacterStats carry the result, since their stats include gear.
+ * @param character The character as stored, or as computed by calculateCharacterStats.
+ */
+export function getInactiveEquipmentSlots(character: Character): EquipmentSlot[] {
+    if (character.inactiveEquipmentSlots) return character.inactiveEquipmentSlots;
+    const inactive: EquipmentSlot[] = [];
+    for (const slotKey in character.equipment) {
+        const slot = slotKey as EquipmentSlot;
+        const item = character.equipment[slot];
+        if (!item) continue;
+        const blockedByTwoHander = slot === 'offHand' && !!character.equipment.mainHand && isTwoHanded(character.equipment.mainHand);
+        if (blockedByTwoHander || getUnmetRequirements(character, item).length > 0) {
+            inactive.push(slot);
+        }
+    }
+    return inactive;
+}
+
+/**
+ * The character's equipment without the items that give no stats (see getInactiveEquipmentSlots).
+ */
+export function getActiveEquipment(character: Character): EquipmentSlots {
+    const inactive = getInactiveEquipmentSlots(character);
+    const active: EquipmentSlots = {};
+    for (const slotKey in character.equipment) {
+        const slot = slotKey as EquipmentSlot;
+        if (!inactive.includes(slot)) active[slot] = character.equipment[slot];
+    }
+    return active;
+}
+
+// --- Equipping ---
+
+export interface EquipPlan {
+    slot: EquipmentSlot; // Where the item goes
+    displaced: EquipmentSlot[]; // Occupied slots that have to be emptied into the inventory first
+}
+
+/**
+ * Decides where an item is equipped and which equipped items make room for it: a ring takes a free
+ * ring slot (replacing the first ring if both are taken), a two-handed weapon also empties the off hand,
+ * and an off-hand item replaces a two-handed weapon.
+ * @param equipment The character's current equipment.
+ * @param item An equippable item.
+ */
+export function planEquip(equipment: EquipmentSlots, item: Item & { equipmentSlot: EquipmentSlot }): EquipPlan {
+    const slot = RING_SLOTS.includes(item.equipmentSlot)
+        ? RING_SLOTS.find(ringSlot => !equipment[ringSlot]) ?? 'ring1'
+        : item.equipmentSlot;
+
+    const displaced: EquipmentSlot[] = [slot];
+    if (slot === 'mainHand' && isTwoHanded(item)) displaced.push('offHand');
+    if (slot === 'offHand' && equipment.mainHand && isTwoHanded(equipment.mainHand)) displaced.push('mainHand');
+    return { slot, displaced: displaced.filter(displacedSlot => equipment[displacedSlot]) };
+}
@@ -1,15 +1,111 @@
-import { Character, Monster, Zone, CharacterClass } from './types.js';
+import { Character, Monster, Zone, CharacterClass, ItemQuality, SkillDefinition, MonsterRarityDefinition, MonsterModifierDefinition, StatusEffectDefinition, TargetPriority, AutoPickupFilter, Stash, StashKind, VendorDefinition } from './types.js';
 
 // --- Combat Calculation Helpers (Very Basic) ---
-export function calculateMaxHp(stats: Character['stats']): number {
+// The class and level add the class's HP/mana per level; leave them out for the level 1 values
+export function calculateMaxHp(stats: Character['stats'], classId?: string, level = 1): number {
     // Example: Base HP + HP per vitality point
-    return 50 + (stats.vitality * 5);
+    const perLevel = (classId && characterClasses.get(classId)?.hpPerLevel) || 0;
+    return 50 + (stats.vitality * 5) + Math.max(0, level - 1) * perLevel;
+}
+
+// Players cannot exceed this resistance (percent) from gear
+export const MAX_PLAYER_RESISTANCE = 75;
+
+// --- Skill Progression ---
+export const SKILL_POINTS_PER_LEVEL = 1;
+export const SKILL_HOTKEY_SLOTS = 3; // Skill buttons on the action bar
+
+// --- Attribute Progression ---
+export const ATTRIBUTE_KEYS = ['strength', 'dexterity', 'vitality', 'energy'] as const;
+export const ATTRIBUTE_TRAINER_ZONE_ID = 'town'; // Respecs are sold by the trainer in this zone
+export const RESPEC_GOLD_PER_LEVEL = 100; // Respec price = this * character level
+
+/**
+ * Gold needed to reset a character's allocated attribute points.
+ */
+export function calculateRespecCost(level: number): number {
+    return RESPEC_GOLD_PER_LEVEL * level;
 }
 
 // Calculate max mana based on energy
-export function calculateMaxMana(stats: Character['stats']): number {
+export function calculateMaxMana(stats: Character['stats'], classId?: string, level = 1): number {
     // Example: Base Mana + Mana per energy point
-    return 20 + (stats.energy * 2);
+    const perLevel = (classId && characterClasses.get(classId)?.manaPerLevel) || 0;
+    return 20 + (stats.energy * 2) + Math.max(0, level - 1) * perLevel;
+}
+
+// --- Targeting ---
+export const TARGET_PRIORITIES: TargetPriority[] = ['lowest_hp', 'highest_threat'];
+export const DEFAULT_TARGET_PRIORITY: TargetPriority = 'lowest_hp';
+
+// --- Inventory Grid ---
+export const INVENTORY_COLUMNS = 10;
+export const INVENTORY_ROWS = 8;
+
+// --- Stash ---
+export const STASH_ZONE_ID = 'town'; // The stash can only be opened here
+export const STASH_COLUMNS = 10;
+export const STASH_ROWS = 10;
+export const PERSONAL_STASH_TABS = 3;
+export const SHARED_STASH_TABS = 2;
+export const STASH_KINDS: StashKind[] = ['personal', 'shared'];
+
+/**
+ * An empty stash with the given number of tabs.
+ */
+export function createEmptyStash(tabCount: number): Stash {
+    return { tabs: Array.from({ length: tabCount }, () => []), gold: 0 };
+}
+
+// --- Vendors ---
+export const VENDOR_ZONE_ID = 'town'; // Vendors can only be visited here
+export const MAX_BUYBACK_ITEMS = 10; // The oldest sold items are gone for good when more are sold
+export const VENDOR_AFFIX_PRICE_BONUS = 0.5; // Each affix adds this share of the base price
+
+// --- Ground Loot ---
+export const GOLD_BASE_ID = 'gold_coins'; // Picked-up gold coins are added to the character's gold, not the inventory
+export const GROUND_LOOT_EXPIRY_MS = 5 * 60 * 1000;
+export const MAX_GROUND_LOOT_ITEMS = 20; // The oldest items vanish first when more drop
+export const ITEM_QUALITY_ORDER: ItemQuality[] = ['Gray', 'White', 'Green', 'Blue', 'Purple', 'Red']; // Lowest first
+
+/**
+ * The auto-pickup filter of new characters: everything except Gray equipment.
+ */
+export function createDefaultAutoPickupFilter(): AutoPickupFilter {
+    return { enabled: true, minQuality: 'White', types: ['weapon', 'armor', 'potion', 'misc'], baseIds: [], gold: true };
+}
+
+// --- Potions ---
+export const POTION_COOLDOWN_MS = 3000; // Shared by every potion, whether drunk manually or by an auto-potion rule
+export const MAX_AUTO_POTION_RULES = 4;
+
+// --- Regeneration ---
+export const REGEN_TICK_MS = 2000; // How often connected characters regenerate
+const MANA_REGEN_PERCENT_PER_SECOND = 0.01; // Of max mana (including gear)
+const MANA_REGEN_PER_ENERGY_PER_SECOND = 0.05;
+
+/**
+ * Mana regenerated per second, in and out of combat: a share of max mana plus a bonus per energy point.
+ * @param maxMana The character's max mana, including gear.
+ * @param energy The character's energy, including gear.
+ */
+export function calculateManaRegenPerSecond(maxMana: number, energy: number): number {
+    return maxMana * MANA_REGEN_PERCENT_PER_SECOND + energy * MANA_REGEN_PER_ENERGY_PER_SECOND;
+}
+
+const HP_REGEN_PERCENT_PER_SECOND = 0.005; // Of max HP (including gear)
+const HP_REGEN_PER_VITALITY_PER_SECOND = 0.05;
+export const RESTING_REGEN_MULTIPLIER = 3; // HP and mana regenerate this much faster while resting between encounters
+export const MAX_AUTO_REST_THRESHOLD_PERCENT = 90; // Highest HP percent the auto-rest option accepts
+
+/**
+ * HP regenerated per second out of combat: a share of max HP plus a bonus per vitality point.
+ * There is no HP regeneration during an encounter.
+ * @param maxHp The character's max HP, including gear.
+ * @param vitality The character's vitality, including gear.
+ */
+export function calculateHpRegenPerSecond(maxHp: number, vitality: number): number {
+    return maxHp * HP_REGEN_PERCENT_PER_SECOND + vitality * HP_REGEN_PER_VITALITY_PER_SECOND;
 }
 
 /**
@@ -45,101 +141,92 @@ export function xpRequiredForLevel(level: number): number {
     return xpForNext - xpForCurrent;
 }
 
+/**
+ * Applies the growth of a single level up: the class's automatic attribute gains, free attribute
+ * points and skill points. Max HP/mana (including the class's HP/mana per level) are recalculated and fully restored.
+ * NOTE: Modifies the passed character (level must already be increased).
+ * @param character The character that just leveled up.
+ * @returns The automatic attribute gains of this level.
+ */
+export function applyLevelUpGrowth(character: Character): Partial<Character['stats']> {
+    const characterClass = characterClasses.get(character.class);
+    const statIncreases = { ...characterClass?.statsPerLevel };
+    for (const stat of ATTRIBUTE_KEYS) {
+        character.stats[stat] += statIncreases[stat] ?? 0;
+    }
+    character.availableAttributePoints += characterClass?.attributePointsPerLevel ?? 0;
+    character.skillPoints += SKILL_POINTS_PER_LEVEL;
+
+    character.maxHp = calculateMaxHp(character.stats, character.class, character.level);
+    character.maxMana = calculateMaxMana(character.stats, character.class, character.level);
+    character.currentHp = character.maxHp;
+    character.currentMana = character.maxMana;
+    return statIncreases;
+}
+
 
 // --- Game Data ---
-export const monsters: Map<string, Monster> = new Map([
-    // Town Monsters (example)
-    ['rat1', { id: 'rat1', name: 'Giant Rat', level: 1, stats: { strength: 5, dexterity: 8, vitality: 10 }, maxHp: 20, currentHp: 20, baseDamage: 1, attackSpeed: 1500, lootTableId: 'low_level_common' }],
-    ['goblin1', { id: 'goblin1', name: 'Goblin Scout', level: 2, stats: { strength: 8, dexterity: 10, vitality: 15 }, maxHp: 30, currentHp: 30, baseDamage: 2, attackSpeed: 2000, lootTableId: 'low_level_common' }],
-    // Crimson Fen Monsters (example)
-    ['swamp_leech', { id: 'swamp_leech', name: 'Swamp Leech', level: 5, stats: { strength: 6, dexterity: 5, vitality: 25 }, maxHp: 50, currentHp: 50, baseDamage: 3, attackSpeed: 2500, lootTableId: 'mid_level_common' }],
-    ['fen_lurker', { id: 'fen_lurker', name: 'Fen Lurker', level: 6, stats: { strength: 12, dexterity: 8, vitality: 30 }, maxHp: 65, currentHp: 65, baseDamage: 4, attackSpeed: 2200, lootTableId: 'mid_level_common' }],
-]);
+// Content is loaded from the JSON files in server/content by contentLoader.ts (at startup and on hot reload).
+// These Map instances are never replaced, only refilled, so modules can keep importing them directly.
+export const monsters: Map<string, Monster> = new Map();
+
+// Monster rarities (normal, champion, elite, boss) and the random modifiers of non-normal spawns
+export const monsterRarities: Map<string, MonsterRarityDefinition> = new Map();
+export const monsterModifiers: Map<string, MonsterModifierDefinition> = new Map();
+
+// Timed buffs and debuffs (stun, chill, burn, shields, ...), applied by skills and monster modifiers
+export const statusEffects: Map<string, StatusEffectDefinition> = new Map();
 
 // Define connections and monsters for zones
-export const zones: Map<string, Zone> = new Map([
-    ['town', { id: 'town', name: 'Town', description: 'A relatively safe starting area.', requiredLevel: 1, connectedZoneIds: ['crimson_fen', 'stonebound_field', 'whispering_woods'], monsterIds: [] }], // No monsters in town
-    ['whispering_woods', { id: 'whispering_woods', name: 'Whispering Woods', description: 'A quiet forest near the town.', requiredLevel: 1, connectedZoneIds: ['town', 'stonebound_field'], monsterIds: ['rat1'] }], // Connects TO Stonebound
-    ['stonebound_field', { id: 'stonebound_field', name: 'Stonebound Field', description: 'Rocky fields.', requiredLevel: 3, connectedZoneIds: ['town', 'whispering_woods', 'crimson_fen', 'icy_flats'], monsterIds: ['goblin1', 'rat1'] }],
-    ['crimson_fen', { id: 'crimson_fen', name: 'Crimson Fen', description: 'A murky swamp.', requiredLevel: 5, connectedZoneIds: ['town', 'stonebound_field', 'shadow_swamp'], monsterIds: ['swamp_leech', 'fen_lurker'] }],
-    ['shadow_swamp', { id: 'shadow_swamp', name: 'Shadow Swamp', description: 'A darker, more dangerous swamp.', requiredLevel: 8, connectedZoneIds: ['crimson_fen'], monsterIds: ['fen_lurker'] }],
-    ['icy_flats', { id: 'icy_flats', name: 'Icy Flats', description: 'A frozen wasteland.', requiredLevel: 10, connectedZoneIds: ['stonebound_field', 'windswept_highland'], monsterIds: [] }],
-    ['windswept_highland', { id: 'windswept_highland', name: 'Windswept Highland', description: 'High altitude plains.', requiredLevel: 12, connectedZoneIds: ['icy_flats'], monsterIds: [] }],
-]);
-
-export const characterClasses: Map<string, CharacterClass> = new Map([
-    ['warrior', { name: 'Warrior', description: 'Master of weapons and close combat', baseStats: { strength: 30, dexterity: 20, vitality: 25, energy: 10 } }],
-    ['rogue', { name: 'Rogue', description: 'Master of ranged combat and traps', baseStats: { strength: 20, dexterity: 30, vitality: 20, energy: 15 } }],
-    ['sorcerer', { name: 'Sorcerer', description: 'Master of elemental magic', baseStats: { strength: 15, dexterity: 15, vitality: 20, energy: 35 } }],
-    ['monk', { name: 'Monk', description: 'Master of martial arts and holy magic', baseStats: { strength: 25, dexterity: 25, vitality: 20, energy: 15 } }],
-    ['barbarian', { name: 'Barbarian', description: 'Master of melee combat and battle cries', baseStats: { strength: 40, dexterity: 20, vitality: 25, energy: 0 } }],
-]);
-
-import { ItemQuality } from './types.js';
+export const zones: Map<string, Zone> = new Map();
+
+export const characterClasses: Map<string, CharacterClass> = new Map();
+
+// Town NPCs selling items, in content order
+export const vendors: Map<string, VendorDefinition> = new Map();
+
+// Class skill trees, keyed by skill ID (each skill names its class)
+export const skills: Map<string, SkillDefinition> = new Map();
+
+/**
+ * Returns the skill tree of a class, in content order.
+ */
+export function getSkillTree(classId: string): SkillDefinition[] {
+    return Array.from(skills.values()).filter(skill => skill.classId === classId);
+}
 
 // --- Item Quality Weights ---
 // Define the probability distribution for item qualities.
 // Weights don't have to sum to 1, they represent relative chances.
-export const qualityWeights: { quality: ItemQuality; weight: number }[] = [
-    { quality: 'Gray', weight: 25 },
-    { quality: 'White', weight: 40 },
-    { quality: 'Green', weight: 20 },
-    { quality: 'Blue', weight: 10 },
-    { quality: 'Purple', weight: 4 },
-    { quality: 'Red', weight: 1 },
-];
+export const qualityWeights: { quality: ItemQuality; weight: number }[] = [];
 
 // Loot Tables - Define potential drops for monsters
-// Note: baseId now refers to keys in server/src/lootData.ts
-interface LootTableEntry {
+// Note: baseId refers to keys in the items content
+export interface LootTableEntry {
     baseId: string; // ID from baseItems
     chance: number; // Probability (e.g., 0.5 for 50%)
     minQuantity?: number;
     maxQuantity?: number;
 }
 
-export const lootTables: Map<string, LootTableEntry[]> = new Map([
-    // Example: Low-level monsters (rats, goblins)
-    // --- Loot Tables ---
-    // More granular tables, can be combined or assigned based on monster level/type
-    ['junk', [ // Very low chance of anything useful
-        { baseId: 'gold_coins', chance: 0.5, minQuantity: 1, maxQuantity: 5 },
-        { baseId: 'rusty_dagger', chance: 0.02 },
-        { baseId: 'club', chance: 0.02 },
-        { baseId: 'sash', chance: 0.01 },
-    ]],
-    ['low_level_common', [ // Level 1-5 monsters
-        { baseId: 'gold_coins', chance: 0.8, minQuantity: 1, maxQuantity: 10 },
-        { baseId: 'minor_health_potion', chance: 0.3 },
-        { baseId: 'rusty_dagger', chance: 0.08 },
-        { baseId: 'club', chance: 0.08 },
-        { baseId: 'short_sword', chance: 0.05 },
-        { baseId: 'hand_axe', chance: 0.05 },
-        { baseId: 'short_bow', chance: 0.04 },
-        { baseId: 'short_staff', chance: 0.04 },
-        { baseId: 'leather_cap', chance: 0.06 },
-        { baseId: 'quilted_armor', chance: 0.05 },
-        { baseId: 'leather_gloves', chance: 0.05 },
-        { baseId: 'leather_boots', chance: 0.05 },
-        { baseId: 'sash', chance: 0.04 },
-        { baseId: 'buckler', chance: 0.03 },
-    ]],
-    ['mid_level_common', [ // Level 6-10 monsters
-        { baseId: 'gold_coins', chance: 0.9, minQuantity: 5, maxQuantity: 25 },
-        { baseId: 'minor_health_potion', chance: 0.5 }, 
-        // Increased chance for better base types
-        { baseId: 'dagger', chance: 0.08 },
-        { baseId: 'scimitar', chance: 0.06 },
-        { baseId: 'long_sword', chance: 0.04 },
-        { baseId: 'spiked_club', chance: 0.07 },
-        { baseId: 'hand_axe', chance: 0.06 },
-        { baseId: 'short_bow', chance: 0.05 },
-        { baseId: 'short_staff', chance: 0.05 },
-        { baseId: 'skull_cap', chance: 0.07 },
-        { baseId: 'leather_armor', chance: 0.06 },
-        { baseId: 'leather_gloves', chance: 0.06 },
-        { baseId: 'leather_boots', chance: 0.06 },
-        { baseId: 'sash', chance: 0.05 },
-        { baseId: 'buckler', chance: 0.04 },
-    ]],
-]);
+export const lootTables: Map<string, LootTableEntry[]> = new Map();
+
+// Which loot table monsters drop from at each level, sorted by minLevel (loaded from loot.json).
+// Spawned monsters use the last band whose minLevel is at or below their level.
+export interface LevelLootTable {
+    minLevel: number;
+    lootTableId: string;
+}
+
+export const levelLootTables: LevelLootTable[] = [];
+
+/**
+ * Returns the loot table for monsters of the given level, or undefined if no band covers it.
+ */
+export function getLootTableForLevel(level: number): string | undefined {
+    let lootTableId: string | undefined;
+    for (const band of levelLootTables) {
+        if (band.minLevel <= level) lootTableId = band.lootTableId;
+    }
+    return lootTableId;
+}
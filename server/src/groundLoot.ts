@@ -0,0 +1,69 @@
+import { Character, Item, GroundLootItem, AutoPickupFilter, PickUpOutcome } from './types.js';
+import { GOLD_BASE_ID, GROUND_LOOT_EXPIRY_MS, MAX_GROUND_LOOT_ITEMS, ITEM_QUALITY_ORDER } from './gameData.js';
+import { addToInventory } from './inventoryGrid.js';
+
+// --- Dropping ---
+
+/**
+ * Removes the items whose time on the ground has run out.
+ * @param groundLoot The character's ground loot.
+ * @param now Current time in epoch milliseconds.
+ * @returns The items still on the ground.
+ */
+export function removeExpiredGroundLoot(groundLoot: GroundLootItem[], now: number = Date.now()): GroundLootItem[] {
+    return groundLoot.filter(item => item.expiresAt > now);
+}
+
+/**
+ * Drops items on the ground with a fresh expiry time. Expired items are removed, and the oldest
+ * items vanish once more than MAX_GROUND_LOOT_ITEMS lie on the ground.
+ * @param groundLoot The character's ground loot.
+ * @param items The dropped items.
+ * @param now Current time in epoch milliseconds.
+ * @returns The new ground loot, oldest first.
+ */
+export function dropOnGround(groundLoot: GroundLootItem[], items: Item[], now: number = Date.now()): GroundLootItem[] {
+    const dropped = items.map(item => ({ ...item, expiresAt: now + GROUND_LOOT_EXPIRY_MS }));
+    return [...removeExpiredGroundLoot(groundLoot, now), ...dropped].slice(-MAX_GROUND_LOOT_ITEMS);
+}
+
+// --- Picking Up ---
+
+/**
+ * Whether the auto-pickup filter takes a dropped item straight into the inventory.
+ * Listed base IDs are always picked up; gold only follows the gold switch.
+ */
+export function matchesAutoPickupFilter(item: Item, filter: AutoPickupFilter): boolean {
+    if (!filter.enabled) return false;
+    if (item.baseId === GOLD_BASE_ID) return filter.gold;
+    if (filter.baseIds.includes(item.baseId)) return true;
+    if (!filter.types.includes(item.type)) return false;
+    if (item.type === 'weapon' || item.type === 'armor') {
+        return ITEM_QUALITY_ORDER.indexOf(item.quality) >= ITEM_QUALITY_ORDER.indexOf(filter.minQuality);
+    }
+    return true;
+}
+
+/**
+ * Adds items to the character: gold coins to the gold total, potions and misc items onto existing
+ * stacks, everything else into a free spot of the inventory grid. Ground expiry times are dropped.
+ * NOTE: Modifies the passed character (inventory is replaced with a new array).
+ * @param character The character picking the items up.
+ * @param items The items picked up.
+ * @returns The gold picked up and the items that did not fit (unchanged, so they can stay on the ground).
+ */
+export function pickUpItems(character: Character, items: Item[]): PickUpOutcome {
+    const inventory = [...character.inventory];
+    const outcome: PickUpOutcome = { gold: 0, leftOver: [] };
+    for (const groundItem of items) {
+        const { expiresAt, ...item } = groundItem as GroundLootItem;
+        if (item.baseId === GOLD_BASE_ID) {
+            outcome.gold += item.quantity ?? 1;
+        } else if (!addToInventory(inventory, item)) {
+            outcome.leftOver.push(groundItem);
+        }
+    }
+    character.inventory = inventory;
+    character.gold = (character.gold ?? 0) + outcome.gold;
+    return outcome;
+}
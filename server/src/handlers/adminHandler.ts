@@ -0,0 +1,47 @@
+import WebSocket from 'ws';
+import { ContentService } from '../services/contentService.js';
+import { send } from '../websocketUtils.js';
+import { activeConnections } from '../server.js';
+
+// Helper function to check the connection belongs to an admin account
+function isAdminConnection(ws: WebSocket, contentService: ContentService): boolean {
+    const connectionInfo = activeConnections.get(ws);
+    if (!connectionInfo || !contentService.isAdmin(connectionInfo.username)) {
+        send(ws, { type: 'error', payload: 'Not authorized' });
+        return false;
+    }
+    return true;
+}
+
+export class AdminHandler {
+    private contentService: ContentService;
+
+    constructor(contentService: ContentService) {
+        this.contentService = contentService;
+    }
+
+    /**
+     * Handles the 'admin_reload_content' request: reloads and validates the content files,
+     * then swaps them in without interrupting live encounters.
+     */
+    async handleReloadContent(ws: WebSocket, payload: unknown): Promise<void> {
+        if (!isAdminConnection(ws, this.contentService)) return;
+
+        console.log(`Handler: Content reload requested by ${activeConnections.get(ws)?.username}`);
+        const result = this.contentService.reloadContent();
+
+        if (!result.success) {
+            send(ws, { type: 'content_reload_fail', payload: { message: result.message, errors: result.errors ?? [] } });
+            return;
+        }
+
+        send(ws, {
+            type: 'content_reload_success',
+            payload: {
+                message: result.message,
+                counts: result.counts,
+                liveEncounters: result.liveEncounters
+            }
+        });
+    }
+}
@@ -4,7 +4,6 @@ import { broadcast, send } from '../websocketUtils.js';
 import { activeConnections } from '../server.js';
 import { AuthService } from '../services/authService.js';
 import { CharacterService } from '../services/characterService.js';
-import { UserRepository } from '../repositories/userRepository.js';
 import { LoginPayload, RegisterPayload, CharacterSummary, Character } from '../types.js';
 
 // TODO: Instantiate AuthService, likely requires UserRepository
@@ -1,16 +1,19 @@
 import WebSocket from 'ws';
 import { CharacterService } from '../services/characterService.js';
-import { UserRepository } from '../repositories/userRepository.js';
-import { CharacterRepository } from '../repositories/characterRepository.js';
+import { CharacterSessionCache } from '../repositories/characterSessionCache.js';
 import { send } from '../websocketUtils.js';
 import { activeConnections } from '../server.js';
 import {
     validatePayload,
     CreateCharacterPayloadSchema,
     SelectCharacterPayloadSchema,
-    DeleteCharacterPayloadSchema
+    DeleteCharacterPayloadSchema,
+    AllocateAttributesPayloadSchema,
+    RespecAttributesPayloadSchema,
+    SetAutoRestThresholdPayloadSchema,
+    SetTargetPriorityPayloadSchema
 } from '../validation.js';
-import { Character, SelectCharacterResult, IUserRepository, ICharacterRepository } from '../types.js';
+import { Character, SelectCharacterResult, IUserRepository, ICharacterRepository, CharacterServiceResult } from '../types.js';
 
 // Helper function to get user ID (handles dev skip logic internally for now)
 // Returns null if not logged in and not dev skip
@@ -25,21 +28,43 @@ function getUserId(ws: WebSocket, payload: any): string | null {
     return userId;
 }
 
+// Helper function to get the selected character ID and handle errors
+function getCharacterId(ws: WebSocket): string | null {
+    const connectionInfo = activeConnections.get(ws);
+    if (!connectionInfo || !connectionInfo.selectedCharacterId) {
+        send(ws, { type: 'error', payload: 'No character selected' });
+        return null;
+    }
+    return connectionInfo.selectedCharacterId;
+}
+
+// Helper function to handle service result and send response
+function handleServiceResult(ws: WebSocket, result: CharacterServiceResult): void {
+    if (result.success && result.character) {
+        send(ws, { type: 'character_update', payload: result.character });
+    } else {
+        send(ws, { type: 'error', payload: result.message });
+    }
+}
+
 
 export class CharacterHandler {
     private characterService: CharacterService;
     // Inject repositories needed for list updates directly in handler (could be moved to service later)
     private userRepository: IUserRepository;
     private characterRepository: ICharacterRepository;
+    private characterCache: CharacterSessionCache;
 
     constructor(
         characterService: CharacterService,
         userRepository: IUserRepository,
-        characterRepository: ICharacterRepository
+        characterRepository: ICharacterRepository,
+        characterCache: CharacterSessionCache
     ) {
         this.characterService = characterService;
         this.userRepository = userRepository;
         this.characterRepository = characterRepository;
+        this.characterCache = characterCache;
     }
 
     /**
@@ -112,12 +137,22 @@ export class CharacterHandler {
 
 
         try {
+            // Load the character into the session cache, so selection and play run against it
+            // (re-selecting the current character keeps the session this connection already holds)
+            if (activeConnections.get(ws)?.selectedCharacterId !== characterId) {
+                await this.characterCache.startSession(characterId);
+            }
             // Use injected service instance
             const result: SelectCharacterResult = await this.characterService.selectCharacter(userId, characterId);
 
             // Update connection info
             const connectionInfo = activeConnections.get(ws);
             if (connectionInfo) { // Should always exist if userId was determined
+                // Switching characters: save the previous one and drop it from the cache
+                const previousCharacterId = connectionInfo.selectedCharacterId;
+                if (previousCharacterId && previousCharacterId !== characterId) {
+                    await this.characterCache.endSession(previousCharacterId);
+                }
                 connectionInfo.selectedCharacterId = characterId;
                 activeConnections.set(ws, connectionInfo);
                 console.log(`Handler: User ${userId} selected character ${characterId}.`);
@@ -128,7 +163,8 @@ export class CharacterHandler {
                         message: `Character ${result.characterData.name} selected. Welcome to ${result.currentZoneData?.name ?? 'the game'}!`,
                         characterData: result.characterData,
                         currentZoneData: result.currentZoneData,
-                        zoneStatuses: result.zoneStatuses
+                        zoneStatuses: result.zoneStatuses,
+                        skillTree: result.skillTree
                     }
                 });
             } else {
@@ -138,6 +174,9 @@ export class CharacterHandler {
 
         } catch (error: any) {
              console.error("Handler: Select character error:", error);
+             if (activeConnections.get(ws)?.selectedCharacterId !== characterId) {
+                 await this.characterCache.endSession(characterId);
+             }
              send(ws, { type: 'select_character_fail', payload: error.message || 'Server error during character selection' });
         }
     }
@@ -173,6 +212,77 @@ export class CharacterHandler {
         }
     }
 
+    /**
+     * Handles spending attribute points on the selected character.
+     */
+    async handleAllocateAttributes(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, AllocateAttributesPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid allocate_attributes payload' });
+            return;
+        }
+        const { strength, dexterity, vitality, energy } = payload as Partial<Character['stats']>;
+
+        console.log(`Handler: Allocate attributes request for char ${characterId}`);
+        const result = await this.characterService.allocateAttributes(characterId, { strength, dexterity, vitality, energy });
+        handleServiceResult(ws, result);
+    }
+
+    /**
+     * Handles an attribute respec at the town trainer.
+     */
+    async handleRespecAttributes(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, RespecAttributesPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid respec_attributes payload' });
+            return;
+        }
+
+        console.log(`Handler: Respec attributes request for char ${characterId}`);
+        const result = await this.characterService.respecAttributes(characterId);
+        handleServiceResult(ws, result);
+    }
+
+    /**
+     * Handles a change of the auto-rest threshold option.
+     */
+    async handleSetAutoRestThreshold(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, SetAutoRestThresholdPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid set_auto_rest_threshold payload' });
+            return;
+        }
+        const { thresholdPercent } = payload as { thresholdPercent: number };
+
+        console.log(`Handler: Set auto-rest threshold request for char ${characterId}: ${thresholdPercent}%`);
+        const result = await this.characterService.setAutoRestThreshold(characterId, thresholdPercent);
+        handleServiceResult(ws, result);
+    }
+
+    /**
+     * Handles a change of the target priority option (how pack targets are picked automatically).
+     */
+    async handleSetTargetPriority(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, SetTargetPriorityPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid set_target_priority payload' });
+            return;
+        }
+        const { priority } = payload as { priority: string };
+
+        console.log(`Handler: Set target priority request for char ${characterId}: ${priority}`);
+        const result = await this.characterService.setTargetPriority(characterId, priority);
+        handleServiceResult(ws, result);
+    }
+
     /**
      * Fetches and sends the updated character list for a user.
      */
@@ -1,10 +1,15 @@
 import WebSocket from 'ws';
 import { CombatService } from '../services/combatService.js';
+import { RegenerationService } from '../services/regenerationService.js';
+import { InventoryService } from '../services/inventoryService.js';
 import { send } from '../websocketUtils.js';
-import { activeConnections, playerAttackIntervals, monsterAttackIntervals, activeEncounters } from '../server.js';
-import { validatePayload, FindMonsterPayloadSchema } from '../validation.js';
-import { Character, AttackResult, FindMonsterResult } from '../types.js';
+import { activeConnections, playerAttackIntervals, monsterAttackIntervals, activeEncounters, monsterPoisonEffects, playerPoisonEffects, restingConnections } from '../server.js';
+import { validatePayload, FindMonsterPayloadSchema, UseSkillPayloadSchema, SetTargetPayloadSchema } from '../validation.js';
+import { Character, AttackResult, FindMonsterResult, Monster, PoisonApplication } from '../types.js';
 import { randomInt } from '../utils.js';
+import { POISON_TICK_MS, NEXT_ENCOUNTER_DELAY_MS, calculateMonsterAttackSpeed } from '../combatCalculator.js';
+import { REGEN_TICK_MS } from '../gameData.js';
+import { STATUS_TICK_MS } from '../statusEffects.js';
 
 // Helper function to get character ID and handle errors
 function getCharacterId(ws: WebSocket): string | null {
@@ -18,9 +23,23 @@ function getCharacterId(ws: WebSocket): string | null {
 
 export class CombatHandler {
     private combatService: CombatService;
+    // Pending (delayed) starts of monster attack intervals per pack member, so they can be cancelled or replaced
+    private pendingMonsterStarts: Map<WebSocket, Map<string, NodeJS.Timeout>> = new Map();
+    // Status effect tick loop per connection (expiry, burn/bleed ticks) while an encounter runs
+    private statusTickIntervals: Map<WebSocket, NodeJS.Timeout> = new Map();
+    // Attack speeds the running intervals were scheduled with ('player' or a monster instance ID), to reschedule on chill/frenzy
+    private scheduledAttackSpeeds: Map<WebSocket, Map<string, number>> = new Map();
+    // When each pack member's next swing is due (timestamp), so a speed change keeps the progress of the current swing
+    private nextMonsterSwings: Map<WebSocket, Map<string, number>> = new Map();
+    private regenerationService: RegenerationService;
+    private inventoryService: InventoryService;
+    // Connections whose auto-rest option is holding back the next encounter until HP is full
+    private autoResting: Set<WebSocket> = new Set();
 
-    constructor(combatService: CombatService) {
+    constructor(combatService: CombatService, regenerationService: RegenerationService, inventoryService: InventoryService) {
         this.combatService = combatService;
+        this.regenerationService = regenerationService;
+        this.inventoryService = inventoryService;
     }
 
     /**
@@ -38,6 +57,8 @@ export class CombatHandler {
         }
 
         console.log(`Handler: Find monster request for char ${characterId}`);
+        // Looking for a monster ends any rest between encounters
+        this.stopResting(ws);
 
         // --- Check for existing combat state ---
         // Prevent starting a new encounter if already in one or loops are somehow active
@@ -54,34 +75,115 @@ export class CombatHandler {
         // --- Call Service to Find Monster ---
         const findResult = await this.combatService.findMonster(characterId, ws);
 
-        if (!findResult.success || !findResult.monster || findResult.playerAttackSpeed === undefined) {
+        if (!findResult.success || !findResult.monsters || findResult.playerAttackSpeed === undefined) {
             send(ws, { type: 'find_monster_fail', payload: findResult.message });
             return;
         }
 
-        const monsterInstance = findResult.monster;
+        const pack = findResult.monsters;
         const playerAttackSpeed = findResult.playerAttackSpeed;
-        const monsterAttackSpeed = monsterInstance.attackSpeed; // Already validated in service
 
-        console.log(`Handler: Encounter started for char ${characterId} vs ${monsterInstance.name}. Player Speed: ${playerAttackSpeed}ms, Monster Speed: ${monsterAttackSpeed}ms`);
+        console.log(`Handler: Encounter started for char ${characterId} vs ${pack.map(monster => monster.name).join(', ')}. Player Speed: ${playerAttackSpeed}ms, Monster Speeds: ${pack.map(monster => `${monster.attackSpeed}ms`).join(', ')}`);
 
         // --- Send Encounter Start Message ---
-        send(ws, { type: 'encounter_start', payload: { monster: monsterInstance } });
+        send(ws, {
+            type: 'encounter_start',
+            payload: {
+                monsters: pack,
+                targetId: findResult.targetId,
+                playerHitChance: findResult.playerHitChance,
+                monsterHitChance: findResult.monsterHitChance,
+                combatStats: findResult.combatStats,
+                classResource: findResult.classResource
+            }
+        });
 
         // --- Start Combat Intervals ---
-        this.startCombatIntervals(ws, characterId, playerAttackSpeed, monsterAttackSpeed);
+        this.startCombatIntervals(ws, characterId, playerAttackSpeed, pack);
     }
 
     /**
-     * Starts the player and monster attack intervals for a combat encounter.
+     * Handles the 'use_skill' request from a client.
+     * The skill resolves immediately, alongside the running attack intervals.
      */
-    private startCombatIntervals(ws: WebSocket, characterId: string, playerAttackSpeed: number, monsterAttackSpeed: number): void {
+    async handleUseSkill(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, UseSkillPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid use_skill payload' });
+            return;
+        }
+        const { skillId } = payload as { skillId: string };
+
+        console.log(`Handler: Use skill request for char ${characterId}, skill ${skillId}`);
+        const result = await this.combatService.useSkill(ws, characterId, skillId);
+        this.handleAttackResult(ws, result, characterId);
+    }
+
+    /**
+     * Handles the 'set_target' request from a client.
+     * The chosen pack member stays the target until it dies.
+     */
+    async handleSetTarget(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, SetTargetPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid set_target payload' });
+            return;
+        }
+        const { monsterId } = payload as { monsterId: string };
+
+        const result = await this.combatService.setTarget(ws, characterId, monsterId);
+        if (!result.success) {
+            send(ws, { type: 'error', payload: result.message });
+            return;
+        }
+        send(ws, {
+            type: 'target_update',
+            payload: { targetId: result.targetId, playerHitChance: result.playerHitChance, monsterHitChance: result.monsterHitChance }
+        });
+    }
+
+    /**
+     * Starts the player attack interval and one attack interval per pack member for a combat encounter.
+     */
+    private startCombatIntervals(ws: WebSocket, characterId: string, playerAttackSpeed: number, pack: Monster[]): void {
         // Clear any potentially existing intervals first (safety measure)
         this.clearAndStopIntervals(ws);
 
-        console.log(`Handler: Starting combat intervals for char ${characterId}. Player: ${playerAttackSpeed}ms, Monster: ${monsterAttackSpeed}ms`);
+        console.log(`Handler: Starting combat intervals for char ${characterId}. Player: ${playerAttackSpeed}ms, Monsters: ${pack.length}`);
 
         // Player Attack Interval
+        this.schedulePlayerAttacks(ws, characterId, playerAttackSpeed);
+
+        // Monster Attack Intervals (each with its own slight delay, so the pack doesn't swing in unison)
+        for (const monster of pack) {
+            const monsterAttackSpeed = calculateMonsterAttackSpeed(monster);
+            this.scheduleMonsterAttacks(ws, characterId, monster.id, monsterAttackSpeed, randomInt(100, 300) + monsterAttackSpeed);
+        }
+
+        // Status Effect Ticks
+        const statusIntervalId = setInterval(async () => {
+            if (!activeEncounters.has(ws)) {
+                this.clearAndStopIntervals(ws);
+                return;
+            }
+            const result = await this.combatService.tickStatusEffects(ws, characterId);
+            this.handleAttackResult(ws, result, characterId);
+        }, STATUS_TICK_MS);
+        this.statusTickIntervals.set(ws, statusIntervalId);
+    }
+
+    /**
+     * Starts the player attack interval, replacing any running one (used when buffs or debuffs change the attack speed).
+     */
+    private schedulePlayerAttacks(ws: WebSocket, characterId: string, playerAttackSpeed: number): void {
+        const existing = playerAttackIntervals.get(ws);
+        if (existing) {
+            clearInterval(existing);
+        }
         const playerIntervalId = setInterval(async () => {
             // Check if encounter still exists before attacking
             if (!activeEncounters.has(ws)) {
@@ -90,36 +192,180 @@ export class CombatHandler {
                 return;
             }
             const result = await this.combatService.performPlayerAttack(ws, characterId);
-            this.handleAttackResult(ws, result);
+            this.handleAttackResult(ws, result, characterId);
             // If encounter ended, the service call would have cleared state, loops will stop on next check
         }, playerAttackSpeed);
         playerAttackIntervals.set(ws, playerIntervalId); // Store interval ID
+        this.getScheduledAttackSpeeds(ws).set('player', playerAttackSpeed);
+    }
+
+    private getScheduledAttackSpeeds(ws: WebSocket): Map<string, number> {
+        let speeds = this.scheduledAttackSpeeds.get(ws);
+        if (!speeds) {
+            speeds = new Map();
+            this.scheduledAttackSpeeds.set(ws, speeds);
+        }
+        return speeds;
+    }
 
-        // Monster Attack Interval (with slight delay)
-        // Use setTimeout to delay the start of the monster interval slightly
-        const monsterDelay = randomInt(100, 300);
-        setTimeout(() => {
+    /**
+     * Schedules a pack member's next swing after a delay, then resumes its normal attack interval,
+     * replacing any running interval of that monster.
+     * Used for the initial (slightly offset) start and to push back the next swing on hit recovery.
+     * @param delay Milliseconds until the next swing.
+     */
+    private scheduleMonsterAttacks(ws: WebSocket, characterId: string, monsterId: string, monsterAttackSpeed: number, delay: number): void {
+        this.stopMonster(ws, monsterId, false);
+
+        let monsterIntervals = monsterAttackIntervals.get(ws);
+        if (!monsterIntervals) {
+            monsterIntervals = new Map();
+            monsterAttackIntervals.set(ws, monsterIntervals);
+        }
+        let pendingStarts = this.pendingMonsterStarts.get(ws);
+        if (!pendingStarts) {
+            pendingStarts = new Map();
+            this.pendingMonsterStarts.set(ws, pendingStarts);
+        }
+
+        // Use setTimeout for the delayed swing, then start the monster interval
+        const startTimeout = setTimeout(() => {
+            pendingStarts.delete(monsterId);
             // Check if the encounter is still active before starting the monster interval
             if (activeEncounters.has(ws)) {
-                const monsterIntervalId = setInterval(async () => {
-                     // Check if encounter still exists before attacking
-                    if (!activeEncounters.has(ws)) {
-                        console.log(`Handler: Monster interval detected encounter ended for char ${characterId}. Stopping.`);
-                        this.clearAndStopIntervals(ws); // Stop loops if encounter ended unexpectedly
-                        return;
-                    }
-                    const result = await this.combatService.performMonsterAttack(ws, characterId);
-                    this.handleAttackResult(ws, result);
-                     // If encounter ended, the service call would have cleared state, loops will stop on next check
+                const monsterIntervalId = setInterval(() => {
+                    this.getNextMonsterSwings(ws).set(monsterId, Date.now() + monsterAttackSpeed);
+                    void this.performMonsterSwing(ws, characterId, monsterId);
                 }, monsterAttackSpeed);
-                monsterAttackIntervals.set(ws, monsterIntervalId); // Store interval ID
-                console.log(`Handler: Started monster attack interval (${monsterAttackSpeed}ms) after ${monsterDelay}ms delay for char ${characterId}.`);
+                monsterIntervals.set(monsterId, monsterIntervalId); // Store interval ID
+                this.getNextMonsterSwings(ws).set(monsterId, Date.now() + monsterAttackSpeed);
+                console.log(`Handler: Started monster ${monsterId} attack interval (${monsterAttackSpeed}ms) after ${delay}ms delay for char ${characterId}.`);
+                // The swing may reschedule this monster (hit recovery), replacing the interval just started
+                void this.performMonsterSwing(ws, characterId, monsterId);
             } else {
                  console.log(`Handler: Encounter for char ${characterId} ended before monster interval could start.`);
                  // Ensure player interval is also cleared if it somehow wasn't already
                  this.clearAndStopIntervals(ws);
             }
-        }, monsterDelay);
+        }, delay);
+        pendingStarts.set(monsterId, startTimeout);
+        this.getScheduledAttackSpeeds(ws).set(monsterId, monsterAttackSpeed);
+        this.getNextMonsterSwings(ws).set(monsterId, Date.now() + delay);
+    }
+
+    private getNextMonsterSwings(ws: WebSocket): Map<string, number> {
+        let swings = this.nextMonsterSwings.get(ws);
+        if (!swings) {
+            swings = new Map();
+            this.nextMonsterSwings.set(ws, swings);
+        }
+        return swings;
+    }
+
+    /**
+     * Performs one swing of a pack member and processes its result.
+     */
+    private async performMonsterSwing(ws: WebSocket, characterId: string, monsterId: string): Promise<void> {
+        // Check if encounter still exists before attacking
+        if (!activeEncounters.has(ws)) {
+            console.log(`Handler: Monster interval detected encounter ended for char ${characterId}. Stopping.`);
+            this.clearAndStopIntervals(ws); // Stop loops if encounter ended unexpectedly
+            return;
+        }
+        const result = await this.combatService.performMonsterAttack(ws, characterId, monsterId);
+        this.handleAttackResult(ws, result, characterId);
+        if (!result.encounterEnded) {
+            await this.applyAutoPotionRules(ws, characterId);
+        }
+        // If encounter ended, the service call would have cleared state, loops will stop on next check
+    }
+
+    /**
+     * Stops a single pack member's attack interval (and, once it is defeated, the poison ticking on it).
+     */
+    private stopMonster(ws: WebSocket, monsterId: string, defeated: boolean): void {
+        const monsterInterval = monsterAttackIntervals.get(ws)?.get(monsterId);
+        if (monsterInterval) {
+            clearInterval(monsterInterval);
+            monsterAttackIntervals.get(ws)?.delete(monsterId);
+        }
+        const pendingStart = this.pendingMonsterStarts.get(ws)?.get(monsterId);
+        if (pendingStart) {
+            clearTimeout(pendingStart);
+            this.pendingMonsterStarts.get(ws)?.delete(monsterId);
+        }
+        if (defeated) {
+            this.scheduledAttackSpeeds.get(ws)?.delete(monsterId);
+            this.nextMonsterSwings.get(ws)?.delete(monsterId);
+            const poison = monsterPoisonEffects.get(ws)?.get(monsterId);
+            if (poison) {
+                clearInterval(poison.intervalId);
+                monsterPoisonEffects.get(ws)?.delete(monsterId);
+            }
+        }
+    }
+
+    /**
+     * Lets the character's auto-potion rules drink a potion after taking a hit.
+     */
+    private async applyAutoPotionRules(ws: WebSocket, characterId: string): Promise<void> {
+        const result = await this.inventoryService.applyAutoPotionRules(characterId);
+        if (result.success && result.character) {
+            send(ws, { type: 'auto_potion_used', payload: { message: result.message, character: result.character } });
+        }
+    }
+
+    /**
+     * Starts (or refreshes) a poison damage-over-time effect on a pack member or the player.
+     * A new application replaces any poison already ticking on the same target.
+     * @param monsterId The poisoned pack member, or the monster that poisoned the player.
+     */
+    private startPoisonTicks(ws: WebSocket, characterId: string, target: 'monster' | 'player', monsterId: string, poison: PoisonApplication): void {
+        const existing = target === 'monster' ? monsterPoisonEffects.get(ws)?.get(monsterId) : playerPoisonEffects.get(ws);
+        if (existing) {
+            clearInterval(existing.intervalId);
+        }
+
+        let ticksRemaining = poison.ticks;
+        const intervalId = setInterval(async () => {
+            if (!activeEncounters.has(ws)) {
+                this.stopPoisonTicks(ws, target, monsterId, intervalId);
+                return;
+            }
+            ticksRemaining--;
+            if (ticksRemaining <= 0) {
+                this.stopPoisonTicks(ws, target, monsterId, intervalId);
+            }
+            const result = await this.combatService.applyPoisonTick(ws, characterId, target, poison.damagePerTick, monsterId);
+            this.handleAttackResult(ws, result, characterId);
+        }, POISON_TICK_MS);
+
+        const effect = { ...poison, intervalId, monsterId };
+        if (target === 'monster') {
+            let packPoison = monsterPoisonEffects.get(ws);
+            if (!packPoison) {
+                packPoison = new Map();
+                monsterPoisonEffects.set(ws, packPoison);
+            }
+            packPoison.set(monsterId, effect);
+        } else {
+            playerPoisonEffects.set(ws, effect);
+        }
+        console.log(`Handler: Poison applied to ${target === 'monster' ? `monster ${monsterId}` : 'player'} for char ${characterId} (${poison.damagePerTick} x ${poison.ticks} ticks).`);
+    }
+
+    /**
+     * Stops a poison effect, unless it has already been replaced by a newer application.
+     */
+    private stopPoisonTicks(ws: WebSocket, target: 'monster' | 'player', monsterId: string, intervalId: NodeJS.Timeout): void {
+        clearInterval(intervalId);
+        if (target === 'monster') {
+            if (monsterPoisonEffects.get(ws)?.get(monsterId)?.intervalId === intervalId) {
+                monsterPoisonEffects.get(ws)?.delete(monsterId);
+            }
+        } else if (playerPoisonEffects.get(ws)?.intervalId === intervalId) {
+            playerPoisonEffects.delete(ws);
+        }
     }
 
      /**
@@ -132,12 +378,28 @@ export class CombatHandler {
              playerAttackIntervals.delete(ws);
              console.log("Handler: Cleared player attack interval.");
          }
-         const monsterInterval = monsterAttackIntervals.get(ws);
-         if (monsterInterval) {
-             clearInterval(monsterInterval);
+         const monsterIntervals = monsterAttackIntervals.get(ws);
+         if (monsterIntervals) {
+             monsterIntervals.forEach(monsterInterval => clearInterval(monsterInterval));
              monsterAttackIntervals.delete(ws);
-             console.log("Handler: Cleared monster attack interval.");
+             console.log("Handler: Cleared monster attack intervals.");
          }
+         this.pendingMonsterStarts.get(ws)?.forEach(pendingStart => clearTimeout(pendingStart));
+         this.pendingMonsterStarts.delete(ws);
+         monsterPoisonEffects.get(ws)?.forEach(poison => clearInterval(poison.intervalId));
+         monsterPoisonEffects.delete(ws);
+         const playerPoison = playerPoisonEffects.get(ws);
+         if (playerPoison) {
+             clearInterval(playerPoison.intervalId);
+             playerPoisonEffects.delete(ws);
+         }
+         const statusInterval = this.statusTickIntervals.get(ws);
+         if (statusInterval) {
+             clearInterval(statusInterval);
+             this.statusTickIntervals.delete(ws);
+         }
+         this.scheduledAttackSpeeds.delete(ws);
+         this.nextMonsterSwings.delete(ws);
          // Note: Encounter state (activeEncounters) is cleared by the CombatService methods upon death/defeat.
      }
 
@@ -145,7 +407,7 @@ export class CombatHandler {
     /**
      * Processes the result of an attack (player or monster) and sends updates to the client.
      */
-    private handleAttackResult(ws: WebSocket, result: AttackResult): void {
+    private handleAttackResult(ws: WebSocket, result: AttackResult, characterId: string): void {
         if (!result.success && !result.encounterEnded) {
             // Send specific error only if the attack failed but encounter didn't end for other reasons
             send(ws, { type: 'error', payload: result.message || 'Attack failed.' });
@@ -162,6 +424,41 @@ export class CombatHandler {
             send(ws, { type: 'monster_attack_update', payload: result.monsterUpdate });
         }
 
+        // Faster hit recovery: the monster's next swing comes later than its normal interval
+        const attacker = activeEncounters.get(ws)?.monsters.find(monster => monster.id === result.attackerId);
+        if (result.hitRecoveryDelay && !result.encounterEnded && attacker) {
+            const attackSpeed = calculateMonsterAttackSpeed(attacker);
+            this.scheduleMonsterAttacks(ws, characterId, attacker.id, attackSpeed, attackSpeed + result.hitRecoveryDelay);
+        }
+
+        // Buffs and debuffs changed (applied, expired or ticked)
+        if (result.statusEffectUpdate) {
+            send(ws, { type: 'status_effects_update', payload: result.statusEffectUpdate });
+            if (!result.encounterEnded) {
+                this.rescheduleChangedAttackSpeeds(ws, characterId, result);
+            }
+        }
+
+        // Start poison damage-over-time if the attack applied any
+        if (result.poisonApplied && !result.encounterEnded) {
+            this.startPoisonTicks(ws, characterId, result.poisonApplied.target, result.poisonApplied.monsterId, result.poisonApplied.poison);
+        }
+
+        // Part of the pack fell, the rest fights on
+        if (result.defeatedMonsterIds && !result.encounterEnded) {
+            result.defeatedMonsterIds.forEach(monsterId => this.stopMonster(ws, monsterId, true));
+            send(ws, {
+                type: 'monster_defeated',
+                payload: {
+                    monsterIds: result.defeatedMonsterIds,
+                    targetId: result.targetId,
+                    message: result.endReason,
+                    characterUpdate: result.characterUpdate, // Contains XP, level, inventory updates
+                    loot: result.loot || []
+                }
+            });
+        }
+
         // Handle Encounter End (Monster Defeat or Player Death)
         if (result.encounterEnded) {
             console.log(`Handler: Encounter ended. Reason: ${result.endReason}`);
@@ -194,25 +491,100 @@ export class CombatHandler {
     }
 
     /**
-     * Schedules finding the next monster after a short delay.
+     * Restarts the attack intervals whose speed changed with the bearer's status effects (chill, frenzy, ...).
+     * A monster's swing in progress still lands when it was due, but no later than the new attack speed from now.
+     */
+    private rescheduleChangedAttackSpeeds(ws: WebSocket, characterId: string, result: AttackResult): void {
+        const speeds = this.scheduledAttackSpeeds.get(ws);
+        const player = result.statusEffectUpdate?.player;
+        if (player && playerAttackIntervals.has(ws) && speeds?.get('player') !== player.attackSpeed) {
+            console.log(`Handler: Player attack speed changed to ${player.attackSpeed}ms for char ${characterId}.`);
+            this.schedulePlayerAttacks(ws, characterId, player.attackSpeed);
+        }
+        for (const monster of result.statusEffectUpdate?.monsters ?? []) {
+            const defeated = result.defeatedMonsterIds?.includes(monster.monsterId);
+            if (!defeated && speeds?.get(monster.monsterId) !== monster.attackSpeed) {
+                const timeLeft = (this.nextMonsterSwings.get(ws)?.get(monster.monsterId) ?? 0) - Date.now();
+                const delay = Math.min(Math.max(0, timeLeft), monster.attackSpeed);
+                this.scheduleMonsterAttacks(ws, characterId, monster.monsterId, monster.attackSpeed, delay);
+            }
+        }
+    }
+
+    /**
+     * Rests for a short delay after an encounter, then finds the next monster.
+     * The character regenerates faster while resting.
      */
     private scheduleNextMonster(ws: WebSocket): void {
-         setTimeout(() => {
-            const characterId = getCharacterId(ws);
-            if (characterId && activeConnections.has(ws)) { // Check connection still active
-                console.log(`Handler: Automatically finding next monster for char ${characterId}...`);
-                // Ensure no combat state exists before finding next
-                if (!activeEncounters.has(ws) && !playerAttackIntervals.has(ws) && !monsterAttackIntervals.has(ws)) {
-                    this.handleFindMonster(ws, {}); // Re-trigger find monster
-                } else {
-                     console.warn(`Handler: Cannot auto-find next monster for char ${characterId}, combat state still exists.`);
-                     // Attempt to clear state again just in case
-                     this.combatService.clearCombatState(ws);
-                }
-            } else {
-                console.log(`Handler: Connection closed or character deselected before finding next monster.`);
+        this.scheduleRestCheck(ws, NEXT_ENCOUNTER_DELAY_MS);
+    }
+
+    /**
+     * Stops resting between encounters without finding a monster (zone travel, new encounter, disconnect).
+     */
+    stopResting(ws: WebSocket): void {
+        const pendingFind = restingConnections.get(ws);
+        if (pendingFind) {
+            clearTimeout(pendingFind);
+            restingConnections.delete(ws);
+        }
+        this.autoResting.delete(ws);
+    }
+
+    /**
+     * Keeps the connection resting and checks again after the delay whether it can hunt.
+     */
+    private scheduleRestCheck(ws: WebSocket, delay: number): void {
+        const pendingFind = restingConnections.get(ws);
+        if (pendingFind) {
+            clearTimeout(pendingFind);
+        }
+        const timeout = setTimeout(() => {
+            this.finishResting(ws).catch(error => console.error('Handler: Error while resting between encounters:', error));
+        }, delay);
+        restingConnections.set(ws, timeout);
+    }
+
+    /**
+     * Ends the rest and finds the next monster, unless auto-rest wants the character to heal first.
+     */
+    private async finishResting(ws: WebSocket): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId || !activeConnections.has(ws)) { // Check connection still active
+            console.log(`Handler: Connection closed or character deselected before finding next monster.`);
+            this.stopResting(ws);
+            return;
+        }
+
+        // --- Auto-Rest ---
+        const wasAutoResting = this.autoResting.has(ws);
+        const needsRest = await this.regenerationService.needsRest(characterId, wasAutoResting);
+        if (!restingConnections.has(ws)) {
+            return; // Rest was stopped (travel, manual find) while checking
+        }
+        if (needsRest) {
+            if (!wasAutoResting) {
+                console.log(`Handler: Char ${characterId} is below the auto-rest threshold, resting until fully healed.`);
+                this.autoResting.add(ws);
+                send(ws, { type: 'rest_update', payload: { resting: true, message: 'HP is low, resting until fully healed...' } });
             }
-        }, 1500); // Delay before finding next monster
+            this.scheduleRestCheck(ws, REGEN_TICK_MS);
+            return;
+        }
+        this.stopResting(ws);
+        if (wasAutoResting) {
+            send(ws, { type: 'rest_update', payload: { resting: false, message: 'Fully rested, back to hunting.' } });
+        }
+
+        console.log(`Handler: Automatically finding next monster for char ${characterId}...`);
+        // Ensure no combat state exists before finding next
+        if (!activeEncounters.has(ws) && !playerAttackIntervals.has(ws) && !monsterAttackIntervals.has(ws)) {
+            await this.handleFindMonster(ws, {}); // Re-trigger find monster
+        } else {
+            console.warn(`Handler: Cannot auto-find next monster for char ${characterId}, combat state still exists.`);
+            // Attempt to clear state again just in case
+            this.combatService.clearCombatState(ws);
+        }
     }
 
 }
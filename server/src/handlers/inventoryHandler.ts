@@ -9,7 +9,12 @@ import {
     SellItemPayloadSchema,
     AssignPotionSlotPayloadSchema,
     UsePotionSlotPayloadSchema,
-    AutoEquipPayloadSchema
+    AutoEquipPayloadSchema,
+    SetAutoPotionRulesPayloadSchema,
+    MoveItemPayloadSchema,
+    PickUpItemPayloadSchema,
+    PickUpAllPayloadSchema,
+    SetAutoPickupFilterPayloadSchema
 } from '../validation.js';
 import { EquipmentSlot, Character, InventoryServiceResult } from '../types.js';
 
@@ -167,4 +172,78 @@ export class InventoryHandler {
         const result = await this.inventoryService.autoEquipBestStat(characterId, statKey);
         handleServiceResult(ws, result);
     }
+
+    async handleSetAutoPotionRules(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, SetAutoPotionRulesPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid set_auto_potion_rules payload' });
+            return;
+        }
+        const { rules } = payload as { rules: unknown[] };
+
+        console.log(`Handler: Set auto-potion rules request for char ${characterId} (${rules.length} rules)`);
+        const result = await this.inventoryService.setAutoPotionRules(characterId, rules);
+        handleServiceResult(ws, result);
+    }
+
+    async handleMoveItem(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, MoveItemPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid move_item payload' });
+            return;
+        }
+        const { itemId, x, y } = payload as { itemId: string; x: number; y: number };
+
+        console.log(`Handler: Move item request for char ${characterId}, item ${itemId} to (${x}, ${y})`);
+        const result = await this.inventoryService.moveItem(characterId, itemId, { x, y });
+        handleServiceResult(ws, result);
+    }
+
+    async handlePickUpItem(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, PickUpItemPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid pick_up_item payload' });
+            return;
+        }
+        const { itemId } = payload as { itemId: string };
+
+        console.log(`Handler: Pick up item request for char ${characterId}, item ${itemId}`);
+        const result = await this.inventoryService.pickUpItem(characterId, itemId);
+        handleServiceResult(ws, result);
+    }
+
+    async handlePickUpAll(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, PickUpAllPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid pick_up_all payload' });
+            return;
+        }
+
+        console.log(`Handler: Pick up all request for char ${characterId}`);
+        const result = await this.inventoryService.pickUpAll(characterId);
+        handleServiceResult(ws, result);
+    }
+
+    async handleSetAutoPickupFilter(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, SetAutoPickupFilterPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid set_auto_pickup_filter payload' });
+            return;
+        }
+        const { filter } = payload as { filter: unknown };
+
+        console.log(`Handler: Set auto-pickup filter request for char ${characterId}`);
+        const result = await this.inventoryService.setAutoPickupFilter(characterId, filter);
+        handleServiceResult(ws, result);
+    }
 }
@@ -0,0 +1,53 @@
+import WebSocket from 'ws';
+import { RegenerationService } from '../services/regenerationService.js';
+import { send } from '../websocketUtils.js';
+import { activeConnections, activeEncounters, restingConnections } from '../server.js';
+import { REGEN_TICK_MS } from '../gameData.js';
+
+
+export class RegenerationHandler {
+    private regenerationService: RegenerationService;
+    private tickInterval: NodeJS.Timeout | null = null;
+
+    constructor(regenerationService: RegenerationService) {
+        this.regenerationService = regenerationService;
+    }
+
+    /**
+     * Starts the server-wide regeneration tick. Every REGEN_TICK_MS, each connection with a selected
+     * character regenerates and receives a 'resource_update' when its HP or mana changed.
+     * HP only regenerates outside encounters, and faster while resting between them.
+     */
+    start(): void {
+        if (this.tickInterval) return;
+        this.tickInterval = setInterval(() => {
+            activeConnections.forEach((connectionInfo, ws) => {
+                if (connectionInfo.selectedCharacterId) {
+                    this.regenerateConnection(ws, connectionInfo.selectedCharacterId).catch(error =>
+                        console.error(`Handler: Regeneration tick failed for char ${connectionInfo.selectedCharacterId}:`, error));
+                }
+            });
+        }, REGEN_TICK_MS);
+        console.log(`Handler: Regeneration tick started (${REGEN_TICK_MS}ms).`);
+    }
+
+    /**
+     * Stops the regeneration tick (server shutdown).
+     */
+    stop(): void {
+        if (this.tickInterval) {
+            clearInterval(this.tickInterval);
+            this.tickInterval = null;
+        }
+    }
+
+    private async regenerateConnection(ws: WebSocket, characterId: string): Promise<void> {
+        const result = await this.regenerationService.regenerate(characterId, REGEN_TICK_MS, {
+            inCombat: activeEncounters.has(ws),
+            resting: restingConnections.has(ws)
+        });
+        if (result.update && ws.readyState === WebSocket.OPEN) {
+            send(ws, { type: 'resource_update', payload: result.update });
+        }
+    }
+}
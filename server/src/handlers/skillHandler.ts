@@ -0,0 +1,64 @@
+import WebSocket from 'ws';
+import { SkillService } from '../services/skillService.js';
+import { send } from '../websocketUtils.js';
+import { activeConnections } from '../server.js';
+import { validatePayload, LearnSkillPayloadSchema, SetSkillHotkeyPayloadSchema } from '../validation.js';
+import { SkillServiceResult } from '../types.js';
+
+// Helper function to get character ID and handle errors
+function getCharacterId(ws: WebSocket): string | null {
+    const connectionInfo = activeConnections.get(ws);
+    if (!connectionInfo || !connectionInfo.selectedCharacterId) {
+        send(ws, { type: 'error', payload: 'No character selected' });
+        return null;
+    }
+    return connectionInfo.selectedCharacterId;
+}
+
+// Helper function to handle service result and send response
+function handleServiceResult(ws: WebSocket, result: SkillServiceResult): void {
+    if (result.success && result.character) {
+        send(ws, { type: 'character_update', payload: result.character });
+    } else {
+        send(ws, { type: 'error', payload: result.message });
+    }
+}
+
+
+export class SkillHandler {
+    private skillService: SkillService;
+
+    constructor(skillService: SkillService) {
+        this.skillService = skillService;
+    }
+
+    async handleLearnSkill(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, LearnSkillPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid learn_skill payload' });
+            return;
+        }
+        const { skillId } = payload as { skillId: string };
+
+        console.log(`Handler: Learn skill request for char ${characterId}, skill ${skillId}`);
+        const result = await this.skillService.learnSkill(characterId, skillId);
+        handleServiceResult(ws, result);
+    }
+
+    async handleSetSkillHotkey(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, SetSkillHotkeyPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid set_skill_hotkey payload' });
+            return;
+        }
+        const { slotNumber, skillId } = payload as { slotNumber: number; skillId?: string | null };
+
+        console.log(`Handler: Set skill hotkey request for char ${characterId}, slot ${slotNumber}, skill ${skillId ?? 'none'}`);
+        const result = await this.skillService.setSkillHotkey(characterId, slotNumber, skillId ?? null);
+        handleServiceResult(ws, result);
+    }
+}
@@ -0,0 +1,136 @@
+import WebSocket from 'ws';
+import { StashService } from '../services/stashService.js';
+import { send } from '../websocketUtils.js';
+import { activeConnections } from '../server.js';
+import { STASH_KINDS } from '../gameData.js';
+import { validatePayload, GetStashPayloadSchema, StashTransferPayloadSchema, StashMovePayloadSchema } from '../validation.js';
+import { StashKind, StashServiceResult, GridPosition } from '../types.js';
+
+interface StashTransferPayload {
+    stash: string;
+    tab?: number;
+    itemId?: string;
+    gold?: number;
+    x?: number;
+    y?: number;
+}
+
+// Helper function to get character ID and handle errors
+function getCharacterId(ws: WebSocket): string | null {
+    const connectionInfo = activeConnections.get(ws);
+    if (!connectionInfo || !connectionInfo.selectedCharacterId) {
+        send(ws, { type: 'error', payload: 'No character selected' });
+        return null;
+    }
+    return connectionInfo.selectedCharacterId;
+}
+
+// Sends the character (personal stash, inventory, gold) and, if included, the account's shared stash
+function handleServiceResult(ws: WebSocket, result: StashServiceResult): void {
+    if (!result.success) {
+        send(ws, { type: 'error', payload: result.message });
+        return;
+    }
+    if (result.character) {
+        send(ws, { type: 'character_update', payload: result.character });
+    }
+    if (result.sharedStash) {
+        send(ws, { type: 'shared_stash_update', payload: result.sharedStash });
+    }
+}
+
+function isStashKind(value: string): value is StashKind {
+    return (STASH_KINDS as string[]).includes(value);
+}
+
+// The target cell, if the client picked one
+function getPosition(payload: StashTransferPayload): GridPosition | undefined {
+    return payload.x !== undefined && payload.y !== undefined ? { x: payload.x, y: payload.y } : undefined;
+}
+
+export class StashHandler {
+    private stashService: StashService;
+
+    constructor(stashService: StashService) {
+        this.stashService = stashService;
+    }
+
+    async handleGetStash(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, GetStashPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid get_stash payload' });
+            return;
+        }
+
+        const result = await this.stashService.getStash(characterId);
+        handleServiceResult(ws, result);
+    }
+
+    async handleDeposit(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        const transfer = this.parseTransfer(ws, payload, 'stash_deposit');
+        if (!transfer) return;
+
+        console.log(`Handler: Stash deposit request for char ${characterId} (${transfer.stash}): ${transfer.itemId ?? `${transfer.gold} gold`}`);
+        const result = transfer.itemId !== undefined
+            ? await this.stashService.depositItem(characterId, transfer.stash, transfer.tab ?? 0, transfer.itemId, getPosition(transfer))
+            : await this.stashService.depositGold(characterId, transfer.stash, transfer.gold ?? 0);
+        handleServiceResult(ws, result);
+    }
+
+    async handleWithdraw(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        const transfer = this.parseTransfer(ws, payload, 'stash_withdraw');
+        if (!transfer) return;
+
+        console.log(`Handler: Stash withdraw request for char ${characterId} (${transfer.stash}): ${transfer.itemId ?? `${transfer.gold} gold`}`);
+        const result = transfer.itemId !== undefined
+            ? await this.stashService.withdrawItem(characterId, transfer.stash, transfer.tab ?? 0, transfer.itemId, getPosition(transfer))
+            : await this.stashService.withdrawGold(characterId, transfer.stash, transfer.gold ?? 0);
+        handleServiceResult(ws, result);
+    }
+
+    async handleMove(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, StashMovePayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid stash_move payload' });
+            return;
+        }
+        const { stash, itemId, fromTab, toTab, x, y } = payload as { stash: string; itemId: string; fromTab: number; toTab: number; x: number; y: number };
+        if (!isStashKind(stash)) {
+            send(ws, { type: 'error', payload: 'Invalid stash_move payload' });
+            return;
+        }
+
+        console.log(`Handler: Stash move request for char ${characterId} (${stash}): item ${itemId} to tab ${toTab} (${x}, ${y})`);
+        const result = await this.stashService.moveItem(characterId, stash, fromTab, itemId, toTab, { x, y });
+        handleServiceResult(ws, result);
+    }
+
+    /**
+     * Validates a deposit/withdraw payload: a known stash and exactly one of an item (with its tab) or gold.
+     * Sends an error and returns null if invalid.
+     */
+    private parseTransfer(ws: WebSocket, payload: unknown, messageType: string): (StashTransferPayload & { stash: StashKind }) | null {
+        if (!validatePayload(payload, StashTransferPayloadSchema)) {
+            send(ws, { type: 'error', payload: `Invalid ${messageType} payload` });
+            return null;
+        }
+        const transfer = payload as StashTransferPayload;
+        const hasItem = transfer.itemId !== undefined && transfer.tab !== undefined;
+        const hasGold = transfer.gold !== undefined;
+        if (!isStashKind(transfer.stash) || hasItem === hasGold) {
+            send(ws, { type: 'error', payload: `Invalid ${messageType} payload` });
+            return null;
+        }
+        return { ...transfer, stash: transfer.stash };
+    }
+}
@@ -0,0 +1,81 @@
+import WebSocket from 'ws';
+import { VendorService } from '../services/vendorService.js';
+import { send } from '../websocketUtils.js';
+import { activeConnections } from '../server.js';
+import { validatePayload, GetVendorInventoryPayloadSchema, BuyItemPayloadSchema, BuybackItemPayloadSchema } from '../validation.js';
+import { VendorServiceResult } from '../types.js';
+
+// Helper function to get character ID and handle errors
+function getCharacterId(ws: WebSocket): string | null {
+    const connectionInfo = activeConnections.get(ws);
+    if (!connectionInfo || !connectionInfo.selectedCharacterId) {
+        send(ws, { type: 'error', payload: 'No character selected' });
+        return null;
+    }
+    return connectionInfo.selectedCharacterId;
+}
+
+// Sends the character (inventory, gold, buyback list) and, if included, the vendor's wares.
+// A failed purchase can still carry a restocked vendor inventory.
+function handleServiceResult(ws: WebSocket, result: VendorServiceResult): void {
+    if (!result.success) {
+        send(ws, { type: 'error', payload: result.message });
+    } else if (result.character) {
+        send(ws, { type: 'character_update', payload: result.character });
+    }
+    if (result.vendor) {
+        send(ws, { type: 'vendor_inventory', payload: result.vendor });
+    }
+}
+
+export class VendorHandler {
+    private vendorService: VendorService;
+
+    constructor(vendorService: VendorService) {
+        this.vendorService = vendorService;
+    }
+
+    async handleGetVendorInventory(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, GetVendorInventoryPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid get_vendor_inventory payload' });
+            return;
+        }
+        const { vendorId } = payload as { vendorId?: string };
+
+        const result = await this.vendorService.getVendorInventory(characterId, vendorId);
+        handleServiceResult(ws, result);
+    }
+
+    async handleBuyItem(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, BuyItemPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid buy_item payload' });
+            return;
+        }
+        const { vendorId, itemId } = payload as { vendorId: string; itemId: string };
+
+        console.log(`Handler: Buy request for char ${characterId}: item ${itemId} from ${vendorId}`);
+        const result = await this.vendorService.buyItem(characterId, vendorId, itemId);
+        handleServiceResult(ws, result);
+    }
+
+    async handleBuybackItem(ws: WebSocket, payload: unknown): Promise<void> {
+        const characterId = getCharacterId(ws);
+        if (!characterId) return;
+
+        if (!validatePayload(payload, BuybackItemPayloadSchema)) {
+            send(ws, { type: 'error', payload: 'Invalid buyback_item payload' });
+            return;
+        }
+        const { itemId } = payload as { itemId: string };
+
+        console.log(`Handler: Buyback request for char ${characterId}: item ${itemId}`);
+        const result = await this.vendorService.buybackItem(characterId, itemId);
+        handleServiceResult(ws, result);
+    }
+}
@@ -2,6 +2,7 @@ import WebSocket from 'ws';
 import { ZoneService } from '../services/zoneService.js';
 import { CombatService } from '../services/combatService.js';
 import { CombatHandler } from './combatHandler.js';
+import { CharacterSessionCache } from '../repositories/characterSessionCache.js';
 import { send } from '../websocketUtils.js';
 import { activeConnections } from '../server.js';
 import { validatePayload, TravelPayloadSchema } from '../validation.js';
@@ -21,11 +22,13 @@ export class ZoneHandler {
     private zoneService: ZoneService;
     private combatService: CombatService;
     private combatHandler: CombatHandler;
+    private characterCache: CharacterSessionCache;
 
-    constructor(zoneService: ZoneService, combatService: CombatService, combatHandler: CombatHandler) {
+    constructor(zoneService: ZoneService, combatService: CombatService, combatHandler: CombatHandler, characterCache: CharacterSessionCache) {
         this.zoneService = zoneService;
         this.combatService = combatService;
         this.combatHandler = combatHandler;
+        this.characterCache = characterCache;
     }
 
     /**
@@ -51,6 +54,13 @@ export class ZoneHandler {
             return;
         }
 
+        // --- Save Progress on Zone Change ---
+        // Zone changes are natural checkpoints, so write the cached character back right away
+        await this.characterCache.flush(characterId);
+
+        // Resting between encounters belongs to the zone that was left
+        this.combatHandler.stopResting(ws);
+
         // --- Clear Combat State if Necessary ---
         if (travelResult.needsCombatClear) {
             console.log(`Handler: Clearing combat state for char ${characterId} due to zone travel.`);
@@ -0,0 +1,100 @@
+import { Item, EquipmentSlot, GridPosition, ItemSize } from './types.js';
+import { INVENTORY_COLUMNS, INVENTORY_ROWS } from './gameData.js';
+import { isTwoHanded } from './equipRules.js';
+
+// The character's inventory; stash tabs pass their own grid size
+const INVENTORY_GRID: ItemSize = { width: INVENTORY_COLUMNS, height: INVENTORY_ROWS };
+
+// Footprint of equipment by slot; potions, misc items, rings and amulets take a single cell
+const SLOT_SIZES: Record<EquipmentSlot, ItemSize> = {
+    head: { width: 2, height: 2 },
+    chest: { width: 2, height: 3 },
+    waist: { width: 2, height: 1 },
+    hands: { width: 2, height: 2 },
+    feet: { width: 2, height: 2 },
+    mainHand: { width: 1, height: 3 },
+    offHand: { width: 2, height: 2 },
+    amulet: { width: 1, height: 1 },
+    ring1: { width: 1, height: 1 },
+    ring2: { width: 1, height: 1 }
+};
+const TWO_HANDED_SIZE: ItemSize = { width: 2, height: 4 };
+const SINGLE_CELL_SIZE: ItemSize = { width: 1, height: 1 };
+
+/**
+ * The number of inventory cells an item covers.
+ */
+export function getItemSize(item: Item): ItemSize {
+    if (!item.equipmentSlot) return SINGLE_CELL_SIZE;
+    if (isTwoHanded(item)) return TWO_HANDED_SIZE;
+    return SLOT_SIZES[item.equipmentSlot];
+}
+
+// --- Placement ---
+
+/**
+ * Whether an item fits at a position: inside the grid and not overlapping any other placed item.
+ * The item itself is ignored, so it can be checked against its own old cells when moved.
+ * @param inventory The items on the grid (the character's inventory or a stash tab).
+ * @param item The item to place.
+ * @param position The top-left cell.
+ * @param grid The grid size in cells.
+ */
+export function canPlaceItem(inventory: Item[], item: Item, position: GridPosition, grid: ItemSize = INVENTORY_GRID): boolean {
+    const size = getItemSize(item);
+    if (!Number.isInteger(position.x) || !Number.isInteger(position.y) || position.x < 0 || position.y < 0
+        || position.x + size.width > grid.width || position.y + size.height > grid.height) {
+        return false;
+    }
+    return inventory.every(other => {
+        if (other.id === item.id || !other.gridPosition) return true;
+        const otherSize = getItemSize(other);
+        return position.x >= other.gridPosition.x + otherSize.width || other.gridPosition.x >= position.x + size.width
+            || position.y >= other.gridPosition.y + otherSize.height || other.gridPosition.y >= position.y + size.height;
+    });
+}
+
+/**
+ * Finds the first free position for an item, column by column from the top-left.
+ * @returns The position, or undefined if the inventory is full.
+ */
+export function findFreePosition(inventory: Item[], item: Item, grid: ItemSize = INVENTORY_GRID): GridPosition | undefined {
+    for (let x = 0; x < grid.width; x++) {
+        for (let y = 0; y < grid.height; y++) {
+            if (canPlaceItem(inventory, item, { x, y }, grid)) return { x, y };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Adds an item to the inventory: potions and misc items join an existing stack, everything else
+ * needs a free position (the preferred one if it fits, e.g. the cell of an item it is swapped with).
+ * NOTE: Modifies the passed inventory array (a joined stack is replaced with a new item).
+ * @param inventory The items on the grid (the character's inventory or a stash tab).
+ * @param item The item to add.
+ * @param preferred The position to try first.
+ * @param grid The grid size in cells.
+ * @returns False if there is no room for the item.
+ */
+export function addToInventory(inventory: Item[], item: Item, preferred?: GridPosition, grid: ItemSize = INVENTORY_GRID): boolean {
+    const isStackable = (item.type === 'potion' || item.type === 'misc') && (item.quantity ?? 1) > 0;
+    const stackIndex = isStackable ? inventory.findIndex(invItem => invItem.baseId === item.baseId) : -1;
+    const existingItem = inventory[stackIndex];
+    if (existingItem) {
+        inventory[stackIndex] = { ...existingItem, quantity: (existingItem.quantity ?? 0) + (item.quantity ?? 1) };
+        return true;
+    }
+    const position = preferred && canPlaceItem(inventory, item, preferred, grid) ? preferred : findFreePosition(inventory, item, grid);
+    if (!position) return false;
+    inventory.push({ ...item, gridPosition: position });
+    return true;
+}
+
+/**
+ * Returns an item without its inventory position, as stored in an equipment slot.
+ */
+export function withoutGridPosition(item: Item): Item {
+    const { gridPosition, ...rest } = item;
+    return rest;
+}
@@ -0,0 +1,118 @@
+import { Character, Item } from '../types.js';
+import { calculateMaxMana, SKILL_POINTS_PER_LEVEL, SKILL_HOTKEY_SLOTS, DEFAULT_TARGET_PRIORITY, createDefaultAutoPickupFilter, createEmptyStash, PERSONAL_STASH_TABS } from '../gameData.js';
+import { findFreePosition } from '../inventoryGrid.js';
+import { MigrationStep } from './migrationRunner.js';
+
+// --- Character Migrations ---
+// Append a step whenever the stored shape of Character changes. Steps run in order, each exactly once
+// per character (tracked by schemaVersion), and must only depend on the document itself so every
+// save upgrades the same way. Never edit or reorder a step that has shipped.
+
+export const characterMigrations: MigrationStep<Character>[] = [
+    {
+        version: 1,
+        description: 'Fill in stats, mana, inventory, equipment, ground loot and gold missing from early saves',
+        up: character => {
+            const stats = { strength: 0, dexterity: 0, vitality: 0, energy: 0, ...character.stats };
+            const maxMana = character.maxMana ?? calculateMaxMana(stats);
+            return {
+                ...character,
+                stats,
+                experience: character.experience ?? 0,
+                maxMana,
+                currentMana: character.currentMana ?? maxMana,
+                inventory: character.inventory ?? [],
+                equipment: character.equipment ?? {},
+                groundLoot: character.groundLoot ?? [],
+                gold: character.gold ?? 0
+            };
+        }
+    },
+    {
+        version: 2,
+        description: 'Add skills, with the skill points of every level already gained, and empty skill hotkeys',
+        up: character => ({
+            ...character,
+            skills: character.skills ?? {},
+            skillPoints: character.skillPoints ?? ((character.level ?? 1) - 1) * SKILL_POINTS_PER_LEVEL,
+            skillHotkeys: character.skillHotkeys ?? Array<string | null>(SKILL_HOTKEY_SLOTS).fill(null)
+        })
+    },
+    {
+        version: 3,
+        // Stats gained from the old automatic +1 per level stay as they are, so there is nothing to refund
+        description: 'Add attribute points and allocated attributes',
+        up: character => ({
+            ...character,
+            availableAttributePoints: character.availableAttributePoints ?? 0,
+            allocatedAttributes: character.allocatedAttributes ?? { strength: 0, dexterity: 0, vitality: 0, energy: 0 }
+        })
+    },
+    {
+        version: 4,
+        description: 'Add the auto-rest threshold (off)',
+        up: character => ({
+            ...character,
+            autoRestThresholdPercent: character.autoRestThresholdPercent ?? 0
+        })
+    },
+    {
+        version: 5,
+        description: 'Add auto-potion rules (none)',
+        up: character => ({
+            ...character,
+            autoPotionRules: character.autoPotionRules ?? []
+        })
+    },
+    {
+        version: 6,
+        description: 'Add the pack target priority (lowest HP first)',
+        up: character => ({
+            ...character,
+            targetPriority: character.targetPriority ?? DEFAULT_TARGET_PRIORITY
+        })
+    },
+    {
+        version: 7,
+        description: 'Add the list of active status effects (none)',
+        up: character => ({
+            ...character,
+            statusEffects: character.statusEffects ?? []
+        })
+    },
+    {
+        version: 8,
+        description: 'Add the auto-pickup filter (everything but Gray equipment) and expiry times for ground loot',
+        up: character => ({
+            ...character,
+            autoPickupFilter: character.autoPickupFilter ?? createDefaultAutoPickupFilter(),
+            // Nothing was dropped on the ground before this version, so any leftovers expire right away
+            groundLoot: (character.groundLoot ?? []).map(item => ({ ...item, expiresAt: item.expiresAt ?? 0 }))
+        })
+    },
+    {
+        version: 9,
+        description: 'Place inventory items on the inventory grid; items that do not fit stay unplaced until moved in',
+        up: character => {
+            const inventory: Item[] = [];
+            for (const item of character.inventory ?? []) {
+                const gridPosition = findFreePosition(inventory, item);
+                inventory.push(gridPosition ? { ...item, gridPosition } : item);
+            }
+            return { ...character, inventory };
+        }
+    },
+    {
+        version: 10,
+        description: 'Add the empty personal stash',
+        up: character => ({ ...character, stash: character.stash ?? createEmptyStash(PERSONAL_STASH_TABS) })
+    },
+    {
+        version: 11,
+        description: 'Add the vendor stocks and the empty buyback list',
+        up: character => ({ ...character, vendorStocks: character.vendorStocks ?? {}, buyback: character.buyback ?? [] })
+    }
+];
+
+// The schemaVersion of a fully migrated character; new characters are created at this version
+export const CHARACTER_SCHEMA_VERSION = characterMigrations.length;
@@ -0,0 +1,185 @@
+import { Character, User, StorageBackend } from '../types.js';
+import { characterMigrations } from './characterMigrations.js';
+import { userMigrations } from './userMigrations.js';
+
+// --- Migration Types ---
+
+// One upgrade of a stored document from schemaVersion (version - 1) to version.
+// Stored documents may predate any field, hence Partial.
+export interface MigrationStep<T> {
+    version: number;
+    description: string;
+    up(document: Partial<T>): Partial<T>;
+}
+
+export interface MigrationOptions {
+    dryRun?: boolean; // Compute and report the changes without writing anything
+}
+
+export interface DocumentMigrationReport {
+    id: string;
+    fromVersion: number;
+    toVersion: number;
+    changedFields: string[];
+    error?: string;
+}
+
+export interface CollectionMigrationReport {
+    collection: 'characters' | 'users';
+    targetVersion: number;
+    scanned: number;
+    upToDate: number;
+    migrated: number; // In a dry run: would be migrated
+    failed: number;
+    documents: DocumentMigrationReport[]; // Only documents that needed (or failed) a migration
+}
+
+export interface MigrationReport {
+    dryRun: boolean;
+    collections: CollectionMigrationReport[];
+}
+
+interface MigratableDocument {
+    id: string;
+    schemaVersion?: number;
+}
+
+// --- Applying Steps ---
+
+/**
+ * Checks that the steps are numbered 1, 2, 3, ... without gaps, so every document version maps to exactly one path.
+ * @throws Error if the step list is malformed.
+ */
+export function assertStepOrder<T>(collection: string, steps: MigrationStep<T>[]): void {
+    steps.forEach((step, index) => {
+        if (step.version !== index + 1) {
+            throw new Error(`${collection} migration #${index + 1} ("${step.description}") has version ${step.version}, expected ${index + 1}.`);
+        }
+    });
+}
+
+/**
+ * Upgrades a single document to the latest schema version. Pure: the input is not modified.
+ * Documents without schemaVersion are treated as version 0.
+ * @param document The document as stored.
+ * @param steps The ordered migration steps of its collection.
+ * @returns The upgraded document and the versions it went through.
+ * @throws Error if the document was written by a newer schema than this server knows.
+ */
+export function migrateDocument<T extends MigratableDocument>(document: T, steps: MigrationStep<T>[]): { document: T; fromVersion: number; toVersion: number } {
+    const fromVersion = document.schemaVersion ?? 0;
+    const toVersion = steps.length;
+    if (fromVersion > toVersion) {
+        throw new Error(`Schema version ${fromVersion} is newer than the latest known version ${toVersion}.`);
+    }
+
+    let migrated: Partial<T> = structuredClone(document);
+    for (const step of steps.slice(fromVersion)) {
+        migrated = { ...step.up(migrated), schemaVersion: step.version };
+    }
+    return { document: migrated as T, fromVersion, toVersion };
+}
+
+// Top-level fields whose stored value differs after migration
+function getChangedFields<T extends object>(before: T, after: T): string[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(fields).filter(field =>
+        JSON.stringify((before as Record<string, unknown>)[field]) !== JSON.stringify((after as Record<string, unknown>)[field])
+    );
+}
+
+// The changed fields of a migrated document, as an update for updateIfVersion
+function pickFields<T extends object>(migrated: T, changedFields: string[]): Partial<T> {
+    const updates: Partial<T> = {};
+    for (const field of changedFields as (keyof T)[]) {
+        updates[field] = migrated[field];
+    }
+    return updates;
+}
+
+/**
+ * Migrates every document of one collection.
+ * @param write Persists one migrated document; returns false if it could not be written safely.
+ */
+async function migrateCollection<T extends MigratableDocument>(
+    collection: CollectionMigrationReport['collection'],
+    documents: T[],
+    steps: MigrationStep<T>[],
+    dryRun: boolean,
+    write: (original: T, migrated: T, changedFields: string[]) => Promise<boolean>
+): Promise<CollectionMigrationReport> {
+    const report: CollectionMigrationReport = {
+        collection,
+        targetVersion: steps.length,
+        scanned: documents.length,
+        upToDate: 0,
+        migrated: 0,
+        failed: 0,
+        documents: []
+    };
+
+    for (const original of documents) {
+        const fromVersion = original.schemaVersion ?? 0;
+        try {
+            if (fromVersion === steps.length) {
+                report.upToDate++;
+                continue;
+            }
+            const { document: migrated, toVersion } = migrateDocument(original, steps);
+            const changedFields = getChangedFields(original, migrated);
+            if (!dryRun && !await write(original, migrated, changedFields)) {
+                throw new Error('Modified while migrating; run the migration again.');
+            }
+            report.migrated++;
+            report.documents.push({ id: original.id, fromVersion, toVersion, changedFields });
+        } catch (error) {
+            report.failed++;
+            report.documents.push({
+                id: original.id,
+                fromVersion,
+                toVersion: steps.length,
+                changedFields: [],
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+    return report;
+}
+
+// --- Running ---
+
+/**
+ * Upgrades all stored characters and users to the latest schema versions.
+ * Idempotent: documents that are already up to date are skipped, so it is safe to run on every startup.
+ * Only the changed fields are written, with compare-and-swap, so a character or user changed by a running
+ * server while the migration was in progress (e.g. a shared stash deposit) is reported as failed instead of
+ * being overwritten.
+ * @param storage The storage backend to migrate (must be connected).
+ * @param options Dry run: report what would change without writing.
+ * @returns A report per collection.
+ */
+export async function runMigrations(storage: StorageBackend, options: MigrationOptions = {}): Promise<MigrationReport> {
+    const dryRun = options.dryRun ?? false;
+    assertStepOrder('Character', characterMigrations);
+    assertStepOrder('User', userMigrations);
+
+    const characters = await migrateCollection<Character>('characters', await storage.characterRepository.findAll(), characterMigrations, dryRun,
+        (original, migrated, changedFields) =>
+            storage.characterRepository.updateIfVersion(original.id, original.version ?? 0, pickFields(migrated, changedFields)));
+
+    const users = await migrateCollection<User>('users', await storage.userRepository.findAll(), userMigrations, dryRun,
+        (original, migrated, changedFields) =>
+            storage.userRepository.updateIfVersion(original.id, original.version ?? 0, pickFields(migrated, changedFields)));
+
+    return { dryRun, collections: [characters, users] };
+}
+
+/**
+ * One line per collection, e.g. "characters: 12 scanned, 3 migrated to v1, 9 up to date, 0 failed".
+ */
+export function summarizeMigrationReport(report: MigrationReport): string[] {
+    return report.collections.map(collection =>
+        `${collection.collection}: ${collection.scanned} scanned, ${collection.migrated} ${report.dryRun ? 'would be migrated' : 'migrated'} to v${collection.targetVersion}, ` +
+        `${collection.upToDate} up to date, ${collection.failed} failed`
+    );
+}
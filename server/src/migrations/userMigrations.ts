@@ -0,0 +1,22 @@
+import { User } from '../types.js';
+import { createEmptyStash, SHARED_STASH_TABS } from '../gameData.js';
+import { MigrationStep } from './migrationRunner.js';
+
+// --- User Migrations ---
+// Same rules as the character migrations: append only, ordered, deterministic.
+
+export const userMigrations: MigrationStep<User>[] = [
+    {
+        version: 1,
+        description: 'Fill in the character list missing from early accounts',
+        up: user => ({ ...user, characterIds: user.characterIds ?? [] })
+    },
+    {
+        version: 2,
+        description: 'Add the empty shared stash',
+        up: user => ({ ...user, sharedStash: user.sharedStash ?? createEmptyStash(SHARED_STASH_TABS) })
+    }
+];
+
+// The schemaVersion of a fully migrated user; new accounts are created at this version
+export const USER_SCHEMA_VERSION = userMigrations.length;
@@ -0,0 +1,227 @@
+import { Monster, MonsterRarityDefinition, MonsterModifierDefinition, Item, Resistances, Zone } from './types.js';
+import { monsters, monsterRarities, monsterModifiers, getLootTableForLevel } from './gameData.js';
+import { scaleAddedDamage, combineAddedDamage } from './combatCalculator.js';
+import { generateLoot, generateGuaranteedLoot } from './lootGenerator.js';
+import { Rng, defaultRng } from './rng.js';
+
+// Modifiers cannot push a monster's resistance above this (templates themselves may be immune)
+const MAX_MODIFIED_RESISTANCE = 90;
+
+// Compound growth per level between a template's level and the level it spawns at
+const MONSTER_HP_GROWTH_PER_LEVEL = 0.15;
+const MONSTER_DAMAGE_GROWTH_PER_LEVEL = 0.1;
+const MONSTER_STAT_GROWTH_PER_LEVEL = 0.08;
+
+// --- Level Scaling ---
+
+/**
+ * Scales a monster template to another level. HP, damage (including elemental damage) and
+ * attributes grow by a fixed percentage per level, compounded, and shrink the same way below
+ * the template's level. The loot table switches to the one for the new level (see levelLootTables).
+ * XP follows automatically, as the reward is based on the monster's level.
+ * @param template The monster template (it is copied, never mutated).
+ * @param level The level to scale to.
+ * @returns The scaled monster at full HP.
+ */
+export function scaleMonsterToLevel(template: Monster, level: number): Monster {
+    const levelDiff = level - template.level;
+    const growth = (perLevel: number) => Math.pow(1 + perLevel, levelDiff);
+    const hpFactor = growth(MONSTER_HP_GROWTH_PER_LEVEL);
+    const damageFactor = growth(MONSTER_DAMAGE_GROWTH_PER_LEVEL);
+    const statFactor = growth(MONSTER_STAT_GROWTH_PER_LEVEL);
+
+    const maxHp = Math.max(1, Math.round(template.maxHp * hpFactor));
+    return {
+        ...template,
+        level,
+        maxHp,
+        currentHp: maxHp,
+        baseDamage: Math.max(1, Math.round(template.baseDamage * damageFactor)),
+        stats: {
+            strength: Math.round(template.stats.strength * statFactor),
+            dexterity: Math.round(template.stats.dexterity * statFactor),
+            vitality: Math.round(template.stats.vitality * statFactor)
+        },
+        elementalDamage: template.elementalDamage ? scaleAddedDamage(template.elementalDamage, damageFactor) : undefined,
+        lootTableId: getLootTableForLevel(level) ?? template.lootTableId
+    };
+}
+
+/**
+ * Rolls a spawn from a zone's weighted spawn table at a random level within the zone's monster level range.
+ * The result is a plain (normal rarity) monster; createMonsterInstance rolls its rarity.
+ * @param zone The zone to spawn in.
+ * @param rng Random source for the template and level.
+ * @returns The scaled monster, or undefined if the zone has no (valid) spawns.
+ */
+export function rollZoneSpawn(zone: Zone, rng: Rng = defaultRng): Monster | undefined {
+    if (!zone.monsterLevel || zone.monsterSpawns.length === 0) return undefined;
+    const totalWeight = zone.monsterSpawns.reduce((sum, spawn) => sum + spawn.weight, 0);
+    let roll = rng.next() * totalWeight;
+    let picked = zone.monsterSpawns[zone.monsterSpawns.length - 1];
+    for (const spawn of zone.monsterSpawns) {
+        if (roll < spawn.weight) {
+            picked = spawn;
+            break;
+        }
+        roll -= spawn.weight;
+    }
+
+    const template = picked ? monsters.get(picked.monsterId) : undefined;
+    if (!template) return undefined;
+    return scaleMonsterToLevel(template, rng.int(zone.monsterLevel.min, zone.monsterLevel.max));
+}
+
+// --- Rolling ---
+
+// Picks a rarity by its weight; undefined if no rarity content is loaded
+function rollRarity(rng: Rng): MonsterRarityDefinition | undefined {
+    const rarities = Array.from(monsterRarities.values());
+    const totalWeight = rarities.reduce((sum, rarity) => sum + rarity.weight, 0);
+    let roll = rng.next() * totalWeight;
+    for (const rarity of rarities) {
+        if (roll < rarity.weight) return rarity;
+        roll -= rarity.weight;
+    }
+    return monsterRarities.get('normal');
+}
+
+// Picks distinct random modifiers
+function rollModifiers(count: number, rng: Rng): MonsterModifierDefinition[] {
+    const available = Array.from(monsterModifiers.values());
+    const picked: MonsterModifierDefinition[] = [];
+    while (picked.length < count && available.length > 0) {
+        const [modifier] = available.splice(Math.floor(rng.next() * available.length), 1);
+        if (modifier) picked.push(modifier);
+    }
+    return picked;
+}
+
+// --- Spawning ---
+
+/**
+ * Applies a rarity and its modifiers to a monster instance: multiplies HP, damage (including
+ * elemental damage), attack speed and XP, and adds resistances, elemental damage, stone skin,
+ * life steal and on-hit status effects. Multipliers of the rarity and every modifier stack multiplicatively.
+ * @param monster A fresh instance at full HP (it is copied, never mutated).
+ * @param rarity The rolled rarity.
+ * @param modifiers The rolled modifiers.
+ * @returns The scaled monster, carrying its rarity and modifiers for the client.
+ */
+export function applyMonsterVariant(monster: Monster, rarity: MonsterRarityDefinition, modifiers: MonsterModifierDefinition[]): Monster {
+    const product = (key: 'hpMultiplier' | 'damageMultiplier' | 'attackSpeedMultiplier' | 'xpMultiplier') =>
+        modifiers.reduce((total, modifier) => total * (modifier[key] ?? 1), 1);
+    const hpMultiplier = rarity.hpMultiplier * product('hpMultiplier');
+    const damageMultiplier = rarity.damageMultiplier * product('damageMultiplier');
+
+    const resistances: Resistances = { ...monster.resistances };
+    let elementalDamage = monster.elementalDamage ?? {};
+    let physicalDamageReduction = monster.physicalDamageReduction ?? 0;
+    let lifeStealPercent = monster.lifeStealPercent ?? 0;
+    const onHitStatusEffects = [...(monster.onHitStatusEffects ?? [])];
+    for (const modifier of modifiers) {
+        for (const [key, value] of Object.entries(modifier.resistances ?? {}) as [keyof Resistances, number][]) {
+            resistances[key] = Math.max(resistances[key] ?? 0, Math.min(MAX_MODIFIED_RESISTANCE, (resistances[key] ?? 0) + value));
+        }
+        if (modifier.elementalDamage) elementalDamage = combineAddedDamage(elementalDamage, modifier.elementalDamage);
+        physicalDamageReduction = 1 - (1 - physicalDamageReduction) * (1 - (modifier.physicalDamageReduction ?? 0));
+        lifeStealPercent += modifier.lifeStealPercent ?? 0;
+        onHitStatusEffects.push(...(modifier.onHitStatusEffects ?? []));
+    }
+
+    const maxHp = Math.max(1, Math.round(monster.maxHp * hpMultiplier));
+    return {
+        ...monster,
+        maxHp,
+        currentHp: maxHp,
+        baseDamage: Math.round(monster.baseDamage * damageMultiplier),
+        stats: { ...monster.stats, strength: Math.round(monster.stats.strength * damageMultiplier) },
+        attackSpeed: Math.round(monster.attackSpeed * product('attackSpeedMultiplier')),
+        elementalDamage: scaleAddedDamage(elementalDamage, damageMultiplier),
+        resistances,
+        rarity: rarity.id,
+        modifiers: modifiers.map(({ id, name, description }) => ({ id, name, description })),
+        xpMultiplier: (monster.xpMultiplier ?? 1) * rarity.xpMultiplier * product('xpMultiplier'),
+        physicalDamageReduction: physicalDamageReduction || undefined,
+        lifeStealPercent: lifeStealPercent || undefined,
+        onHitStatusEffects: onHitStatusEffects.length > 0 ? onHitStatusEffects : undefined
+    };
+}
+
+/**
+ * Spawns a monster from its template: a fresh instance at full HP with a rolled rarity
+ * (normal, champion, elite or boss) and the random modifiers that rarity brings.
+ * @param template The monster template from the content.
+ * @param rng Random source for the instance ID, rarity and modifiers.
+ */
+export function createMonsterInstance(template: Monster, rng: Rng = defaultRng): Monster {
+    const monsterInstance = instantiate(template, rng);
+    const rarity = rollRarity(rng);
+    if (!rarity || rarity.id === 'normal') {
+        return monsterInstance;
+    }
+    return applyMonsterVariant(monsterInstance, rarity, rollModifiers(rarity.modifierCount, rng));
+}
+
+/**
+ * Spawns an encounter's pack in a zone: one spawn rolled from the zone's spawn table and level range,
+ * repeated for the zone's pack size. Only the leader rolls a rarity; the rest of the pack is normal.
+ * @param zone The zone to spawn in.
+ * @param rng Random source for the spawn, pack size, instance IDs and the leader's rarity.
+ * @returns The pack, leader first, or an empty array if the zone has no (valid) spawns.
+ */
+export function spawnMonsterPack(zone: Zone, rng: Rng = defaultRng): Monster[] {
+    const template = rollZoneSpawn(zone, rng);
+    return template ? createMonsterPack(zone, template, rng) : [];
+}
+
+/**
+ * Builds a pack of a rolled spawn (see rollZoneSpawn) for the zone's pack size.
+ * Only the leader rolls a rarity; the rest of the pack is normal.
+ * @param zone The zone whose pack size applies.
+ * @param template The scaled spawn.
+ * @param rng Random source for the pack size, instance IDs and the leader's rarity.
+ * @returns The pack, leader first.
+ */
+export function createMonsterPack(zone: Zone, template: Monster, rng: Rng = defaultRng): Monster[] {
+    const size = zone.packSize ? rng.int(zone.packSize.min, zone.packSize.max) : 1;
+    const pack = [createMonsterInstance(template, rng)];
+    while (pack.length < size) {
+        pack.push(instantiate(template, rng));
+    }
+    return pack;
+}
+
+// A fresh, normal instance of a template at full HP
+function instantiate(template: Monster, rng: Rng): Monster {
+    return {
+        ...template,
+        id: rng.uuid(), // Unique instance ID
+        currentHp: template.maxHp,
+        stats: { ...template.stats },
+        // Ensure attackSpeed is present, default if necessary
+        attackSpeed: template.attackSpeed || 2000,
+        rarity: 'normal',
+        modifiers: [],
+        statusEffects: []
+    };
+}
+
+// --- Loot ---
+
+/**
+ * Rolls the loot of a defeated monster: its own loot table plus the extra table of its rarity.
+ * Bosses always drop their rarity's guaranteedDrops entries from that table.
+ * @param monster The defeated monster instance.
+ * @param rng Random source (seed it for reproducible drops).
+ */
+export function generateMonsterLoot(monster: Monster, rng: Rng = defaultRng): Item[] {
+    const loot = monster.lootTableId ? generateLoot(monster.lootTableId, rng) : [];
+    const rarity = monster.rarity ? monsterRarities.get(monster.rarity) : undefined;
+    if (rarity?.lootTableId) {
+        loot.push(...(rarity.guaranteedDrops
+            ? generateGuaranteedLoot(rarity.lootTableId, rarity.guaranteedDrops, rng)
+            : generateLoot(rarity.lootTableId, rng)));
+    }
+    return loot;
+}
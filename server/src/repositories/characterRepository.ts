@@ -33,6 +33,19 @@ async function findByUserId(userId: string): Promise<Character[]> {
     }
 }
 
+/**
+ * Finds all characters. Loads the whole collection, so it is meant for maintenance jobs like migrations.
+ * @returns A promise that resolves to an array of all Character objects.
+ */
+async function findAll(): Promise<Character[]> {
+    try {
+        return await charactersCollection.find({}).toArray();
+    } catch (error) {
+        console.error(`Error finding all characters:`, error);
+        throw new Error(`Database error while finding all characters`);
+    }
+}
+
 /**
  * Saves a character to the database.
  * Performs an upsert: inserts if the character ID doesn't exist, updates if it does.
@@ -91,6 +104,30 @@ async function update(id: string, updates: Partial<Character>): Promise<void> {
     }
 }
 
+/**
+ * Updates specific fields of a character only if its version has not changed since it was read,
+ * and increments the version in the same atomic operation.
+ * @param id The ID of the character to update.
+ * @param expectedVersion The version the caller read (records without a version count as 0).
+ * @param updates An object containing the fields to update.
+ * @returns A promise that resolves to true if the update was applied, false on a version conflict.
+ */
+async function updateIfVersion(id: string, expectedVersion: number, updates: Partial<Character>): Promise<boolean> {
+    try {
+        const { id: _id, version: _version, ...fields } = updates;
+        const versionFilter = expectedVersion === 0
+            ? { $or: [{ version: 0 }, { version: { $exists: false } }] }
+            : { version: expectedVersion };
+        const result = await charactersCollection.updateOne(
+            { id: id, ...versionFilter },
+            { $set: { ...fields, version: expectedVersion + 1 } }
+        );
+        return result.matchedCount === 1;
+    } catch (error) {
+        console.error(`Error updating character ${id} at version ${expectedVersion}:`, error);
+        throw new Error(`Database error while updating character ${id}`);
+    }
+}
 
 /**
  * Deletes a character by its unique ID.
@@ -117,7 +154,9 @@ async function deleteById(id: string): Promise<boolean> {
 export const CharacterRepository: ICharacterRepository = {
     findById,
     findByUserId,
+    findAll,
     save,
     update,
+    updateIfVersion,
     deleteById
 };
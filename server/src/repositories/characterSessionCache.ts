@@ -0,0 +1,246 @@
+import { Character, ICharacterRepository } from '../types.js';
+
+// How long changes to a cached character may stay unsaved before they are written back
+export const CHARACTER_FLUSH_DELAY_MS = 5000;
+
+interface CacheEntry {
+    character: Character;
+    dirtyFields: Set<keyof Character>;
+    persistedVersion: number; // Version of the stored record, which the next flush expects
+    sessions: number; // Connections playing the character
+    flushTimer: NodeJS.Timeout | null;
+    flushing: Promise<void>; // Chain of flushes, so writes for one character never overlap
+    sessionEnded: boolean; // Evict as soon as everything is written back
+}
+
+/**
+ * Write-behind cache for the characters currently in play.
+ * While a character has a session (from selection until logout), this cache is the authoritative
+ * copy: reads are served from memory and updates only mark fields as dirty. Dirty fields are written
+ * to the underlying repository at most CHARACTER_FLUSH_DELAY_MS after the first change, and
+ * immediately when flush(), endSession() or flushAll() is called.
+ * Characters without a session pass straight through to the repository.
+ * Write-backs are compare-and-swap against the stored version, so a change made outside the cache
+ * (a migration run, another server process) is never overwritten: the cache reloads the stored record instead.
+ */
+export class CharacterSessionCache implements ICharacterRepository {
+    private repository: ICharacterRepository;
+    private flushDelayMs: number;
+    private entries: Map<string, CacheEntry> = new Map();
+
+    /**
+     * @param repository The persistent character repository.
+     * @param flushDelayMs Maximum delay before dirty fields are written back.
+     */
+    constructor(repository: ICharacterRepository, flushDelayMs: number = CHARACTER_FLUSH_DELAY_MS) {
+        this.repository = repository;
+        this.flushDelayMs = flushDelayMs;
+    }
+
+    // --- Sessions ---
+
+    /**
+     * Opens a session for a character, loading it into the cache unless another connection already plays it.
+     * Every call must be paired with one endSession call.
+     * @returns The cached character, or null if it does not exist.
+     */
+    async startSession(characterId: string): Promise<Character | null> {
+        const existing = this.entries.get(characterId);
+        if (existing) {
+            existing.sessions++;
+            existing.sessionEnded = false;
+            return structuredClone(existing.character);
+        }
+
+        const character = await this.repository.findById(characterId);
+        if (!character) return null;
+        // Another request may have started the session while we were loading
+        const loaded = this.entries.get(characterId);
+        if (loaded) {
+            loaded.sessions++;
+            loaded.sessionEnded = false;
+        } else {
+            this.entries.set(characterId, {
+                character,
+                dirtyFields: new Set(),
+                persistedVersion: character.version ?? 0,
+                sessions: 1,
+                flushTimer: null,
+                flushing: Promise.resolve(),
+                sessionEnded: false
+            });
+            console.log(`CharacterSessionCache: Started session for character ${character.name} (ID: ${characterId})`);
+        }
+        return this.findById(characterId);
+    }
+
+    /**
+     * Closes one session of a character. When the last one ends, writes back any pending changes
+     * and removes the character from the cache. If changes arrive during the final write (e.g. a
+     * last combat tick), the character stays cached until a later flush has saved them.
+     */
+    async endSession(characterId: string): Promise<void> {
+        const entry = this.entries.get(characterId);
+        if (!entry || entry.sessions === 0) return;
+        entry.sessions--;
+        if (entry.sessions > 0) return;
+        entry.sessionEnded = true;
+        await this.flush(characterId);
+    }
+
+    /**
+     * Whether any connection still plays the character.
+     */
+    hasSession(characterId: string): boolean {
+        return (this.entries.get(characterId)?.sessions ?? 0) > 0;
+    }
+
+    // --- Write-back ---
+
+    /**
+     * Immediately writes the character's dirty fields to the repository, if the stored record
+     * is still at the version the cache last wrote or loaded.
+     */
+    async flush(characterId: string): Promise<void> {
+        const entry = this.entries.get(characterId);
+        if (!entry) return;
+        if (entry.flushTimer) {
+            clearTimeout(entry.flushTimer);
+            entry.flushTimer = null;
+        }
+
+        entry.flushing = entry.flushing.then(async () => {
+            if (entry.dirtyFields.size === 0) return;
+            // Take the dirty set first: changes made while writing are tracked for the next flush
+            const fields = Array.from(entry.dirtyFields);
+            entry.dirtyFields.clear();
+            const updates: Partial<Character> = {};
+            // The stored version is advanced by the write itself, not copied from the cache
+            for (const field of fields.filter(field => field !== 'version')) {
+                (updates as Record<string, unknown>)[field] = structuredClone(entry.character[field]);
+            }
+            try {
+                if (await this.repository.updateIfVersion(characterId, entry.persistedVersion, updates)) {
+                    entry.persistedVersion++;
+                } else {
+                    await this.reload(characterId, entry);
+                }
+            } catch (error) {
+                console.error(`CharacterSessionCache: Failed to flush character ${characterId}, will retry.`, error);
+                fields.forEach(field => entry.dirtyFields.add(field));
+                this.scheduleFlush(characterId, entry);
+            }
+        }).then(() => {
+            if (entry.sessionEnded && entry.dirtyFields.size === 0 && this.entries.get(characterId) === entry) {
+                this.entries.delete(characterId);
+                console.log(`CharacterSessionCache: Ended session for character ${characterId}`);
+            }
+        });
+        return entry.flushing;
+    }
+
+    /**
+     * Writes back every cached character (used on graceful shutdown).
+     */
+    async flushAll(): Promise<void> {
+        const characterIds = Array.from(this.entries.keys());
+        console.log(`CharacterSessionCache: Flushing ${characterIds.length} cached characters...`);
+        await Promise.all(characterIds.map(characterId => this.flush(characterId)));
+    }
+
+    /**
+     * Replaces the cached character with the stored record after a write-back conflict.
+     * The unsaved changes are dropped, since the record was changed outside the cache. The cached
+     * version moves past every version handed out so far, so tasks still working on the old copy
+     * get a conflict when they commit.
+     */
+    private async reload(characterId: string, entry: CacheEntry): Promise<void> {
+        const stored = await this.repository.findById(characterId);
+        console.warn(`CharacterSessionCache: Version conflict for character ${characterId} at stored version ${entry.persistedVersion}, reloaded the stored record and dropped unsaved changes.`);
+        if (!stored) {
+            entry.dirtyFields.clear();
+            return;
+        }
+        entry.persistedVersion = stored.version ?? 0;
+        entry.character = { ...stored, version: Math.max(stored.version ?? 0, entry.character.version ?? 0) + 1 };
+        entry.dirtyFields.clear();
+    }
+
+    private scheduleFlush(characterId: string, entry: CacheEntry): void {
+        // Not reset by later changes, so a character in constant combat still saves regularly
+        if (entry.flushTimer) return;
+        entry.flushTimer = setTimeout(() => {
+            entry.flushTimer = null;
+            this.flush(characterId).catch(error => console.error(`CharacterSessionCache: Scheduled flush failed for ${characterId}:`, error));
+        }, this.flushDelayMs);
+    }
+
+    private markDirty(characterId: string, entry: CacheEntry, fields: (keyof Character)[]): void {
+        fields.forEach(field => entry.dirtyFields.add(field));
+        this.scheduleFlush(characterId, entry);
+    }
+
+    // --- ICharacterRepository ---
+
+    async findById(id: string): Promise<Character | null> {
+        const entry = this.entries.get(id);
+        return entry ? structuredClone(entry.character) : this.repository.findById(id);
+    }
+
+    async findByUserId(userId: string): Promise<Character[]> {
+        // Stored records may be behind the cache, so prefer the cached copies
+        const characters = await this.repository.findByUserId(userId);
+        return characters.map(character => {
+            const entry = this.entries.get(character.id);
+            return entry ? structuredClone(entry.character) : character;
+        });
+    }
+
+    async findAll(): Promise<Character[]> {
+        const characters = await this.repository.findAll();
+        return characters.map(character => {
+            const entry = this.entries.get(character.id);
+            return entry ? structuredClone(entry.character) : character;
+        });
+    }
+
+    async save(character: Character): Promise<void> {
+        const entry = this.entries.get(character.id);
+        if (!entry) {
+            return this.repository.save(character);
+        }
+        entry.character = structuredClone(character);
+        this.markDirty(character.id, entry, (Object.keys(character) as (keyof Character)[]).filter(field => field !== 'id'));
+    }
+
+    async update(id: string, updates: Partial<Character>): Promise<void> {
+        const entry = this.entries.get(id);
+        if (!entry) {
+            return this.repository.update(id, updates);
+        }
+        entry.character = { ...entry.character, ...structuredClone(updates), id };
+        this.markDirty(id, entry, (Object.keys(updates) as (keyof Character)[]).filter(field => field !== 'id'));
+    }
+
+    async updateIfVersion(id: string, expectedVersion: number, updates: Partial<Character>): Promise<boolean> {
+        const entry = this.entries.get(id);
+        if (!entry) {
+            return this.repository.updateIfVersion(id, expectedVersion, updates);
+        }
+        // The cached copy is authoritative during a session, so the check happens here;
+        // the new version is written back with the other dirty fields
+        if ((entry.character.version ?? 0) !== expectedVersion) {
+            return false;
+        }
+        entry.character = { ...entry.character, ...structuredClone(updates), id, version: expectedVersion + 1 };
+        this.markDirty(id, entry, [...(Object.keys(updates) as (keyof Character)[]).filter(field => field !== 'id'), 'version']);
+        return true;
+    }
+
+    async deleteById(id: string): Promise<boolean> {
+        const entry = this.entries.get(id);
+        if (entry?.flushTimer) clearTimeout(entry.flushTimer);
+        this.entries.delete(id);
+        return this.repository.deleteById(id);
+    }
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import { User, Character, ICharacterRepository, IUserRepository } from '../types.js';
+import { createInMemoryCharacterRepository, createInMemoryUserRepository } from './memoryRepositories.js';
+
+/**
+ * Writes a file atomically: the data goes to a temporary file in the same directory,
+ * which then replaces the target with a rename. A crash mid-write never leaves a truncated file.
+ */
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, data, 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+}
+
+/**
+ * Loads a JSON array of records (once, at startup). A missing file is treated as an empty collection.
+ */
+function readRecords<T>(filePath: string): T[] {
+    try {
+        const records = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        if (!Array.isArray(records)) {
+            throw new Error(`${filePath} must contain a JSON array.`);
+        }
+        return records as T[];
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            console.log(`JsonFileStore: ${filePath} not found, starting with an empty collection.`);
+            return [];
+        }
+        throw error;
+    }
+}
+
+/**
+ * Keeps a collection file in sync with an in-memory store. Writes are serialized, and a write
+ * always stores the latest state, so concurrent changes cannot overwrite each other out of order.
+ */
+function createFileWriter<T>(filePath: string, records: Map<string, T>): () => Promise<void> {
+    let pendingWrite: Promise<void> = Promise.resolve();
+    return () => {
+        pendingWrite = pendingWrite
+            .catch(() => undefined) // A failed write must not block later ones
+            .then(() => fs.promises.mkdir(path.dirname(filePath), { recursive: true }))
+            .then(() => writeFileAtomic(filePath, JSON.stringify(Array.from(records.values()), null, 2)));
+        return pendingWrite;
+    };
+}
+
+/**
+ * Creates a character repository backed by a JSON file (an array of characters).
+ * All characters are held in memory; every write rewrites the file atomically.
+ * @param filePath Path of the characters file.
+ */
+export function createJsonFileCharacterRepository(filePath: string): ICharacterRepository {
+    const characters = new Map((readRecords<Character>(filePath)).map(character => [character.id, character]));
+    console.log(`JsonFileStore: Loaded ${characters.size} characters from ${filePath}`);
+    return createInMemoryCharacterRepository(characters, createFileWriter(filePath, characters));
+}
+
+/**
+ * Creates a user repository backed by a JSON file (an array of users).
+ * All users are held in memory; every write rewrites the file atomically.
+ * @param filePath Path of the users file.
+ */
+export function createJsonFileUserRepository(filePath: string): IUserRepository {
+    const users = new Map((readRecords<User>(filePath)).map(user => [user.id, user]));
+    console.log(`JsonFileStore: Loaded ${users.size} users from ${filePath}`);
+    return createInMemoryUserRepository(users, createFileWriter(filePath, users));
+}
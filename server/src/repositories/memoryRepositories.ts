@@ -0,0 +1,146 @@
+import { v4 as uuidv4 } from 'uuid';
+import { User, Character, ICharacterRepository, IUserRepository } from '../types.js';
+
+// Called after every successful write, e.g. to persist the records to disk
+export type ChangeListener = () => Promise<void>;
+
+const noChange: ChangeListener = async () => {};
+
+/**
+ * Creates a character repository that keeps all characters in memory.
+ * Records are copied on every read and write, so callers get the same isolation as with a database:
+ * changing a returned object has no effect until it is saved.
+ * @param characters Backing store, keyed by character ID (owned by the repository from now on).
+ * @param onChange Called after each write.
+ * @returns A repository conforming to ICharacterRepository.
+ */
+export function createInMemoryCharacterRepository(characters: Map<string, Character> = new Map(), onChange: ChangeListener = noChange): ICharacterRepository {
+    return {
+        async findById(id: string): Promise<Character | null> {
+            const character = characters.get(id);
+            return character ? structuredClone(character) : null;
+        },
+
+        async findByUserId(userId: string): Promise<Character[]> {
+            return Array.from(characters.values())
+                .filter(character => character.userId === userId)
+                .map(character => structuredClone(character));
+        },
+
+        async findAll(): Promise<Character[]> {
+            return Array.from(characters.values()).map(character => structuredClone(character));
+        },
+
+        async save(character: Character): Promise<void> {
+            if (!characters.has(character.id)) {
+                console.log(`CharacterRepository: Inserted character ${character.name} (ID: ${character.id})`);
+            }
+            characters.set(character.id, structuredClone(character));
+            await onChange();
+        },
+
+        async update(id: string, updates: Partial<Character>): Promise<void> {
+            const character = characters.get(id);
+            if (!character) {
+                console.warn(`CharacterRepository: Update failed, character ${id} not found.`);
+                return;
+            }
+            characters.set(id, { ...character, ...structuredClone(updates), id });
+            await onChange();
+        },
+
+        async updateIfVersion(id: string, expectedVersion: number, updates: Partial<Character>): Promise<boolean> {
+            const character = characters.get(id);
+            if (!character || (character.version ?? 0) !== expectedVersion) {
+                return false;
+            }
+            characters.set(id, { ...character, ...structuredClone(updates), id, version: expectedVersion + 1 });
+            await onChange();
+            return true;
+        },
+
+        async deleteById(id: string): Promise<boolean> {
+            if (!characters.delete(id)) {
+                console.warn(`CharacterRepository: Character ${id} not found for deletion.`);
+                return false;
+            }
+            console.log(`CharacterRepository: Deleted character ${id}`);
+            await onChange();
+            return true;
+        }
+    };
+}
+
+/**
+ * Creates a user repository that keeps all users in memory.
+ * Usernames are unique, like the unique index used with MongoDB.
+ * @param users Backing store, keyed by user ID (owned by the repository from now on).
+ * @param onChange Called after each write.
+ * @returns A repository conforming to IUserRepository.
+ */
+export function createInMemoryUserRepository(users: Map<string, User> = new Map(), onChange: ChangeListener = noChange): IUserRepository {
+    const findByUsername = (username: string): User | undefined =>
+        Array.from(users.values()).find(user => user.username === username);
+
+    return {
+        async findById(id: string): Promise<User | null> {
+            const user = users.get(id);
+            return user ? structuredClone(user) : null;
+        },
+
+        async findByUsername(username: string): Promise<User | null> {
+            const user = findByUsername(username);
+            return user ? structuredClone(user) : null;
+        },
+
+        async findAll(): Promise<User[]> {
+            return Array.from(users.values()).map(user => structuredClone(user));
+        },
+
+        async create(userData: Omit<User, 'id'>): Promise<User | null> {
+            if (findByUsername(userData.username)) {
+                console.error(`Error creating user ${userData.username}: Username already exists.`);
+                return null;
+            }
+            const createdUser: User = { ...structuredClone(userData), id: uuidv4(), characterIds: userData.characterIds ?? [] };
+            users.set(createdUser.id, createdUser);
+            await onChange();
+            console.log(`UserRepository: Created user ${createdUser.username} (ID: ${createdUser.id})`);
+            return structuredClone(createdUser);
+        },
+
+        async save(user: User): Promise<void> {
+            if (!user.id) {
+                throw new Error("Cannot save user without an ID.");
+            }
+            users.set(user.id, structuredClone(user));
+            await onChange();
+        },
+
+        async updateIfVersion(id: string, expectedVersion: number, updates: Partial<User>): Promise<boolean> {
+            const user = users.get(id);
+            if (!user || (user.version ?? 0) !== expectedVersion) {
+                return false;
+            }
+            users.set(id, { ...user, ...structuredClone(updates), id, version: expectedVersion + 1 });
+            await onChange();
+            return true;
+        },
+
+        async updateCharacterList(userId: string, characterId: string, action: 'add' | 'remove'): Promise<boolean> {
+            const user = users.get(userId);
+            if (!user) {
+                console.warn(`UserRepository: User ${userId} not found for character list update.`);
+                return false;
+            }
+            // Same semantics as $addToSet / $pull
+            const characterIds = action === 'add'
+                ? (user.characterIds.includes(characterId) ? user.characterIds : [...user.characterIds, characterId])
+                : user.characterIds.filter(id => id !== characterId);
+            users.set(userId, { ...user, characterIds });
+            await onChange();
+            console.log(`UserRepository: ${action === 'add' ? 'Added' : 'Removed'} character ${characterId} ${action === 'add' ? 'to' : 'from'} user ${userId}`);
+            return true;
+        }
+    };
+}
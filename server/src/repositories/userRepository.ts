@@ -34,6 +34,9 @@ async function findById(id: string): Promise<User | null> {
             username: userDoc.username,
             passwordHash: userDoc.passwordHash,
             characterIds: userDoc.characterIds || [],
+            schemaVersion: userDoc.schemaVersion,
+            sharedStash: userDoc.sharedStash,
+            version: userDoc.version,
         };
         return user;
     } catch (error) {
@@ -65,6 +68,9 @@ async function findByUsername(username: string): Promise<User | null> {
             username: userDoc.username,
             passwordHash: userDoc.passwordHash,
             characterIds: userDoc.characterIds || [],
+            schemaVersion: userDoc.schemaVersion,
+            sharedStash: userDoc.sharedStash,
+            version: userDoc.version,
         };
 
         return user;
@@ -74,6 +80,29 @@ async function findByUsername(username: string): Promise<User | null> {
     }
 }
 
+/**
+ * Finds all users. Loads the whole collection, so it is meant for maintenance jobs like migrations.
+ * @returns A promise that resolves to an array of all User objects.
+ */
+async function findAll(): Promise<User[]> {
+    try {
+        const userDocs = await usersCollection.find({}).toArray();
+        // Map the MongoDB documents (_id) to the User type (id)
+        return userDocs.map(userDoc => ({
+            id: userDoc._id.toString(),
+            username: userDoc.username,
+            passwordHash: userDoc.passwordHash,
+            characterIds: userDoc.characterIds || [],
+            schemaVersion: userDoc.schemaVersion,
+            sharedStash: userDoc.sharedStash,
+            version: userDoc.version,
+        }));
+    } catch (error) {
+        console.error(`Error finding all users:`, error);
+        throw new Error(`Database error while finding all users`);
+    }
+}
+
 /**
  * Creates a new user in the database.
  * @param userData The user data (without ID) to create.
@@ -109,6 +138,9 @@ async function create(userData: Omit<User, 'id'>): Promise<User | null> {
                      username: createdUserDoc.username,
                      passwordHash: createdUserDoc.passwordHash,
                      characterIds: createdUserDoc.characterIds || [],
+                     schemaVersion: createdUserDoc.schemaVersion,
+                     sharedStash: createdUserDoc.sharedStash,
+                     version: createdUserDoc.version,
                  };
                  // No need to delete _id as we constructed the object explicitly
 
@@ -172,6 +204,35 @@ async function save(user: User): Promise<void> {
     }
 }
 
+/**
+ * Updates specific fields of a user only if its version has not changed since it was read,
+ * and increments the version in the same atomic operation.
+ * @param id The ID of the user to update.
+ * @param expectedVersion The version the caller read (records without a version count as 0).
+ * @param updates An object containing the fields to update.
+ * @returns A promise that resolves to true if the update was applied, false on a version conflict.
+ */
+async function updateIfVersion(id: string, expectedVersion: number, updates: Partial<User>): Promise<boolean> {
+    try {
+        if (!ObjectId.isValid(id)) {
+            console.error(`Invalid user ID format for updateIfVersion: ${id}`);
+            return false;
+        }
+        const { id: _id, version: _version, ...fields } = updates;
+        const versionFilter = expectedVersion === 0
+            ? { $or: [{ version: 0 }, { version: { $exists: false } }] }
+            : { version: expectedVersion };
+        const result = await usersCollection.updateOne(
+            { _id: new ObjectId(id), ...versionFilter },
+            { $set: { ...fields, version: expectedVersion + 1 } }
+        );
+        return result.matchedCount === 1;
+    } catch (error) {
+        console.error(`Error updating user ${id} at version ${expectedVersion}:`, error);
+        throw new Error(`Database error while updating user ${id}`);
+    }
+}
+
 /**
  * Adds or removes a character ID from a user's characterIds array.
  * @param userId The ID of the user to update.
@@ -225,7 +286,9 @@ async function updateCharacterList(userId: string, characterId: string, action:
 export const UserRepository: IUserRepository = {
     findById,
     findByUsername,
+    findAll,
     create, // Add create method
     save,
+    updateIfVersion,
     updateCharacterList
 };
@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Random number source used by combat and loot generation.
+ * Inject a seeded instance to make fights and drops reproducible.
+ */
+export interface Rng {
+    /** Returns a float in [0, 1). */
+    next(): number;
+    /** Returns an integer between min (inclusive) and max (inclusive). */
+    int(min: number, max: number): number;
+    /** Returns a unique identifier (UUID v4 format). */
+    uuid(): string;
+}
+
+/**
+ * Builds the integer and UUID helpers on top of a [0, 1) source.
+ */
+function buildRng(next: () => number, uuid: () => string): Rng {
+    return {
+        next,
+        int(min: number, max: number): number {
+            min = Math.ceil(min);
+            max = Math.floor(max);
+            return Math.floor(next() * (max - min + 1)) + min;
+        },
+        uuid
+    };
+}
+
+/**
+ * Hashes a string seed into a 32-bit integer (FNV-1a).
+ */
+function hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic RNG (mulberry32). The same seed always produces the same sequence,
+ * including generated UUIDs.
+ * @param seed A number or string seed.
+ * @returns A seeded Rng.
+ */
+export function createSeededRng(seed: number | string): Rng {
+    let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+    const next = (): number => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    const uuid = (): string => {
+        const hex = Array.from({ length: 32 }, () => Math.floor(next() * 16).toString(16));
+        hex[12] = '4'; // Version 4
+        hex[16] = ((parseInt(hex[16] ?? '0', 16) & 0x3) | 0x8).toString(16); // Variant 10xx
+        const s = hex.join('');
+        return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+    };
+
+    return buildRng(next, uuid);
+}
+
+// Default, non-deterministic RNG used by the live server
+export const defaultRng: Rng = buildRng(Math.random, randomUUID);
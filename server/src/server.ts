@@ -2,32 +2,47 @@ import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import WebSocket, { WebSocketServer } from 'ws';
-import { connectToDatabase } from './db.js';
+import { createStorageBackend } from './storage.js';
+import { CharacterSessionCache } from './repositories/characterSessionCache.js';
 import { safeSend } from './utils.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 import { calculateMaxHp, calculateMaxMana, xpForLevel, zones } from './gameData.js';
-import { CharacterRepository } from './repositories/characterRepository.js';
-import { UserRepository } from './repositories/userRepository.js';
 import { AuthService } from './services/authService.js';
 import { AuthHandler } from './handlers/authHandler.js';
 import { InventoryService } from './services/inventoryService.js';
 import { InventoryHandler } from './handlers/inventoryHandler.js';
 import { CombatService } from './services/combatService.js';
+import { CharacterMutationQueue } from './services/characterMutationQueue.js';
+import { UserMutationQueue } from './services/userMutationQueue.js';
+import { StashService } from './services/stashService.js';
+import { StashHandler } from './handlers/stashHandler.js';
+import { VendorService } from './services/vendorService.js';
+import { VendorHandler } from './handlers/vendorHandler.js';
 import { CombatHandler } from './handlers/combatHandler.js';
 import { ZoneService } from './services/zoneService.js';
 import { ZoneHandler } from './handlers/zoneHandler.js';
 import { CharacterService } from './services/characterService.js';
 import { CharacterHandler } from './handlers/characterHandler.js';
-import { validateGameData } from './validation.js';
+import { SkillService } from './services/skillService.js';
+import { SkillHandler } from './handlers/skillHandler.js';
+import { RegenerationService } from './services/regenerationService.js';
+import { RegenerationHandler } from './handlers/regenerationHandler.js';
+import { ContentService } from './services/contentService.js';
+import { AdminHandler } from './handlers/adminHandler.js';
+import { loadGameContent } from './contentLoader.js';
+import { runMigrations, summarizeMigrationReport } from './migrations/migrationRunner.js';
 import {
     WebSocketMessage,
     ActiveConnectionsMap,
     ActiveEncountersMap,
     PlayerAttackIntervalsMap,
     MonsterAttackIntervalsMap,
+    PoisonEffectsMap,
+    MonsterPoisonEffectsMap,
+    RestingConnectionsMap,
     Monster,
     RateLimitInfo,
     Character
@@ -42,50 +57,86 @@ const RATE_LIMIT_MAX_MESSAGES = 10; // Max 10 messages per window
 // --- In-Memory State Maps ---
 // Store active WebSocket connections and their associated user/character info
 export const activeConnections: ActiveConnectionsMap = new Map(); // Exported
-// Store active combat encounters (player connection -> monster instance)
+// Store active combat encounters (player connection -> monster pack and target)
 export const activeEncounters: ActiveEncountersMap = new Map(); // Export needed? Check usage in other handlers/services
 // Store separate combat loop intervals
 export const playerAttackIntervals: PlayerAttackIntervalsMap = new Map(); // Export needed? Check usage
 export const monsterAttackIntervals: MonsterAttackIntervalsMap = new Map(); // Export needed? Check usage
+// Store active poison damage-over-time effects (poison per pack member / poison on the player)
+export const monsterPoisonEffects: MonsterPoisonEffectsMap = new Map();
+export const playerPoisonEffects: PoisonEffectsMap = new Map();
+// Store connections resting between encounters (faster regeneration until the next monster is found)
+export const restingConnections: RestingConnectionsMap = new Map();
 // Store rate limiting info per connection
 const rateLimitTracker: Map<WebSocket, RateLimitInfo> = new Map();
 
 // --- Instantiate Services and Handlers ---
-// Assuming Repositories are the exported objects with methods
-const authService = new AuthService(UserRepository);
+// The persistence backend is selected by STORAGE_BACKEND (mongo | json | memory)
+const storage = createStorageBackend();
+const { userRepository } = storage;
+// Characters in play are served from a write-behind cache instead of hitting storage on every combat tick
+const characterCache = new CharacterSessionCache(storage.characterRepository);
+const characterRepository = characterCache;
+// Every read-modify-write of a character goes through this queue, so concurrent actions (a potion
+// drink and a loot drop in the same tick) run one after another instead of overwriting each other
+const characterMutationQueue = new CharacterMutationQueue(characterRepository);
+// Same for account-wide data (the shared stash)
+const userMutationQueue = new UserMutationQueue(userRepository);
+const authService = new AuthService(userRepository);
 // Instantiate CharacterService first as AuthHandler depends on it
-const zoneService = new ZoneService(CharacterRepository);
-const characterService = new CharacterService(CharacterRepository, UserRepository, zoneService);
+const zoneService = new ZoneService(characterRepository, characterMutationQueue);
+const characterService = new CharacterService(characterRepository, userRepository, zoneService, characterMutationQueue);
 // Pass both services to AuthHandler
 const authHandler = new AuthHandler(authService, characterService);
-const inventoryService = new InventoryService(CharacterRepository);
+const inventoryService = new InventoryService(characterRepository, characterMutationQueue);
 const inventoryHandler = new InventoryHandler(inventoryService);
+const stashService = new StashService(characterRepository, userRepository, characterMutationQueue, userMutationQueue);
+const stashHandler = new StashHandler(stashService);
+const vendorService = new VendorService(characterRepository, characterMutationQueue);
+const vendorHandler = new VendorHandler(vendorService);
 // Instantiate CombatService, passing the state maps
-const combatService = new CombatService(CharacterRepository, activeEncounters, playerAttackIntervals, monsterAttackIntervals);
-const combatHandler = new CombatHandler(combatService);
+const combatService = new CombatService(characterRepository, characterMutationQueue, activeEncounters, playerAttackIntervals, monsterAttackIntervals, monsterPoisonEffects, playerPoisonEffects);
+const regenerationService = new RegenerationService(characterRepository, characterMutationQueue);
+const combatHandler = new CombatHandler(combatService, regenerationService, inventoryService);
 // ZoneService is already instantiated above
-const zoneHandler = new ZoneHandler(zoneService, combatService, combatHandler);
+const zoneHandler = new ZoneHandler(zoneService, combatService, combatHandler, characterCache);
 // CharacterService is already instantiated above
-const characterHandler = new CharacterHandler(characterService, UserRepository, CharacterRepository);
+const characterHandler = new CharacterHandler(characterService, userRepository, characterRepository, characterCache);
+const skillService = new SkillService(characterRepository, characterMutationQueue);
+const skillHandler = new SkillHandler(skillService);
+const regenerationHandler = new RegenerationHandler(regenerationService);
+// Admin accounts are configured by username, e.g. ADMIN_USERNAMES=alice,bob
+const contentService = new ContentService(activeEncounters, (process.env.ADMIN_USERNAMES ?? '').split(','));
+const adminHandler = new AdminHandler(contentService);
 
 
 // --- Server Startup ---
 async function startServer() {
-    // --- Validate Game Data First ---
-    try {
-        validateGameData(); // Run validation checks
-    } catch (error) {
-        console.error("Game data validation failed. Server cannot start.", error);
+    // --- Load and Validate Game Content First ---
+    const contentResult = loadGameContent();
+    if (!contentResult.success) {
+        console.error(`Game content could not be loaded. Server cannot start. ${contentResult.message}`);
         process.exit(1); // Exit if validation fails
     }
-    // --- End Validation ---
+    // --- End Content Loading ---
 
-    await connectToDatabase(); // Connect to DB only after validation passes
+    await storage.connect(); // Connect to storage only after validation passes
+
+    // --- Upgrade Stored Data ---
+    // Runs before any client connects, so services only ever see characters and users in the latest schema
+    const migrationReport = await runMigrations(storage);
+    summarizeMigrationReport(migrationReport).forEach(line => console.log(`Migrations: ${line}`));
+    for (const collection of migrationReport.collections) {
+        collection.documents
+            .filter(document => document.error)
+            .forEach(document => console.error(`Migrations: Failed to migrate ${collection.collection} ${document.id}: ${document.error}`));
+    }
 
     const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
     const wss = new WebSocketServer({ port: PORT });
 
     console.log(`WebSocket server started on port ${PORT}`);
+    regenerationHandler.start();
 
     wss.on('connection', (ws: WebSocket) => {
         console.log('Client connected');
@@ -179,10 +230,76 @@ async function startServer() {
                          // Use the new InventoryHandler
                         await inventoryHandler.handleAutoEquipBestStat(ws, messageData.payload);
                         break;
+                    case 'set_auto_potion_rules':
+                        await inventoryHandler.handleSetAutoPotionRules(ws, messageData.payload);
+                        break;
+                    case 'move_item':
+                        await inventoryHandler.handleMoveItem(ws, messageData.payload);
+                        break;
+                    case 'get_stash':
+                        await stashHandler.handleGetStash(ws, messageData.payload);
+                        break;
+                    case 'stash_deposit':
+                        await stashHandler.handleDeposit(ws, messageData.payload);
+                        break;
+                    case 'stash_withdraw':
+                        await stashHandler.handleWithdraw(ws, messageData.payload);
+                        break;
+                    case 'stash_move':
+                        await stashHandler.handleMove(ws, messageData.payload);
+                        break;
+                    case 'get_vendor_inventory':
+                        await vendorHandler.handleGetVendorInventory(ws, messageData.payload);
+                        break;
+                    case 'buy_item':
+                        await vendorHandler.handleBuyItem(ws, messageData.payload);
+                        break;
+                    case 'buyback_item':
+                        await vendorHandler.handleBuybackItem(ws, messageData.payload);
+                        break;
+                    case 'pick_up_item':
+                        await inventoryHandler.handlePickUpItem(ws, messageData.payload);
+                        break;
+                    case 'pick_up_all':
+                        await inventoryHandler.handlePickUpAll(ws, messageData.payload);
+                        break;
+                    case 'set_auto_pickup_filter':
+                        await inventoryHandler.handleSetAutoPickupFilter(ws, messageData.payload);
+                        break;
+                    case 'allocate_attributes':
+                        await characterHandler.handleAllocateAttributes(ws, messageData.payload);
+                        break;
+                    case 'respec_attributes':
+                        // Only available from the trainer in town
+                        await characterHandler.handleRespecAttributes(ws, messageData.payload);
+                        break;
+                    case 'set_auto_rest_threshold':
+                        await characterHandler.handleSetAutoRestThreshold(ws, messageData.payload);
+                        break;
+                    case 'learn_skill':
+                        await skillHandler.handleLearnSkill(ws, messageData.payload);
+                        break;
+                    case 'set_skill_hotkey':
+                        await skillHandler.handleSetSkillHotkey(ws, messageData.payload);
+                        break;
+                    case 'use_skill':
+                        // Skills resolve in combat, alongside the attack intervals
+                        await combatHandler.handleUseSkill(ws, messageData.payload);
+                        break;
+                    case 'set_target':
+                        await combatHandler.handleSetTarget(ws, messageData.payload);
+                        break;
+                    case 'set_target_priority':
+                        await characterHandler.handleSetTargetPriority(ws, messageData.payload);
+                        break;
                     case 'delete_character':
                          // Use the new CharacterHandler
                         await characterHandler.handleDeleteCharacter(ws, messageData.payload);
                         break;
+                    case 'admin_reload_content':
+                        // Admin only: hot reload of the content files
+                        await adminHandler.handleReloadContent(ws, messageData.payload);
+                        break;
                     // Removed forceJsonSave, saveCharacterToJson, loadCharacterFromJson handlers
                     // Removed insecure 'saveCharacter' handler
                     default:
@@ -200,10 +317,21 @@ async function startServer() {
             console.log('Client disconnected');
             // Clean up rate limit tracker
             rateLimitTracker.delete(ws);
+            // Remember the selected character before logout clears the connection info
+            const selectedCharacterId = activeConnections.get(ws)?.selectedCharacterId;
             // Use the new AuthHandler for logout logic
             authHandler.handleLogout(ws); // Handles removing from activeConnections
             // Use the CombatService to clear any combat state for this connection
             combatService.clearCombatState(ws);
+            combatHandler.stopResting(ws);
+            // Close this connection's session; the last one writes the character back to storage and drops it from the cache
+            if (selectedCharacterId) {
+                characterCache.endSession(selectedCharacterId).catch(error => console.error(`Failed to save character ${selectedCharacterId} on disconnect:`, error));
+                // Another connection may still play the character, with its regeneration carrying over
+                if (!characterCache.hasSession(selectedCharacterId)) {
+                    regenerationService.endSession(selectedCharacterId);
+                }
+            }
         });
 
         ws.on('error', (error) => {
@@ -214,8 +342,10 @@ async function startServer() {
     });
 
     // Graceful shutdown
-    process.on('SIGINT', () => {
+    process.on('SIGINT', async () => {
         console.log('Server shutting down...');
+        regenerationHandler.stop();
+        await characterCache.flushAll(); // Persist pending character changes before exiting
         wss.close(() => {
             console.log('WebSocket server closed.');
             process.exit(0);
@@ -1,7 +1,8 @@
 import bcrypt from 'bcrypt';
 
-import { UserRepository } from '../repositories/userRepository.js';
 import { User, IUserRepository, AuthServiceResult } from '../types.js';
+import { createEmptyStash, SHARED_STASH_TABS } from '../gameData.js';
+import { USER_SCHEMA_VERSION } from '../migrations/userMigrations.js';
 
 const SALT_ROUNDS = 10;
 
@@ -36,6 +37,8 @@ export class AuthService {
                 username,
                 passwordHash,
                 characterIds: [],
+                sharedStash: createEmptyStash(SHARED_STASH_TABS),
+                schemaVersion: USER_SCHEMA_VERSION,
             };
 
             // Save the user using the repository
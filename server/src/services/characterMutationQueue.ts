@@ -0,0 +1,15 @@
+import { Character, ICharacterRepository } from '../types.js';
+import { MutationQueue } from './mutationQueue.js';
+
+export const CHARACTER_CONFLICT_MESSAGE = 'Character was modified by another action. Please try again.';
+
+/**
+ * Serializes read-modify-write operations per character and commits them with compare-and-swap.
+ * Actions for the same character (potion drinks, loot drops, equips, sales, travel) run one after
+ * another in arrival order, so a stale write can never overwrite newer inventory or gold.
+ */
+export class CharacterMutationQueue extends MutationQueue<Character> {
+    constructor(characterRepository: ICharacterRepository) {
+        super(characterRepository, character => `character ${character.name} (ID: ${character.id})`);
+    }
+}
@@ -1,9 +1,29 @@
 import { v4 as uuidv4 } from 'uuid';
-import { CharacterRepository } from '../repositories/characterRepository.js';
-import { UserRepository } from '../repositories/userRepository.js';
 import { ZoneService } from './zoneService.js';
-import { Character, User, Zone, ICharacterRepository, SelectCharacterResult, IUserRepository, ZoneWithStatus } from '../types.js';
-import { characterClasses, calculateMaxHp, calculateMaxMana, zones, xpForLevel, xpRequiredForLevel } from '../gameData.js';
+import { CharacterMutationQueue, CHARACTER_CONFLICT_MESSAGE } from './characterMutationQueue.js';
+import { Character, User, Zone, ICharacterRepository, SelectCharacterResult, IUserRepository, ZoneWithStatus, CharacterServiceResult } from '../types.js';
+import {
+    characterClasses,
+    calculateMaxHp,
+    calculateMaxMana,
+    zones,
+    xpForLevel,
+    xpRequiredForLevel,
+    getSkillTree,
+    applyLevelUpGrowth,
+    calculateRespecCost,
+    SKILL_HOTKEY_SLOTS,
+    ATTRIBUTE_KEYS,
+    ATTRIBUTE_TRAINER_ZONE_ID,
+    MAX_AUTO_REST_THRESHOLD_PERCENT,
+    TARGET_PRIORITIES,
+    DEFAULT_TARGET_PRIORITY,
+    createDefaultAutoPickupFilter,
+    createEmptyStash,
+    PERSONAL_STASH_TABS
+} from '../gameData.js';
+import { calculateCharacterStats } from '../utils.js';
+import { CHARACTER_SCHEMA_VERSION } from '../migrations/characterMigrations.js';
 
 
 const MAX_CHARACTERS_PER_ACCOUNT = 5;
@@ -14,15 +34,18 @@ export class CharacterService {
     private characterRepository: ICharacterRepository;
     private userRepository: IUserRepository;
     private zoneService: ZoneService; // Inject ZoneService
+    private mutationQueue: CharacterMutationQueue;
 
     constructor(
         characterRepository: ICharacterRepository,
         userRepository: IUserRepository,
-        zoneService: ZoneService // Add ZoneService to constructor
+        zoneService: ZoneService, // Add ZoneService to constructor
+        mutationQueue: CharacterMutationQueue
     ) {
         this.characterRepository = characterRepository;
         this.userRepository = userRepository;
         this.zoneService = zoneService; // Store injected service
+        this.mutationQueue = mutationQueue;
     }
 
     /**
@@ -79,6 +102,21 @@ export class CharacterService {
             gold: 0,
             potionSlot1: undefined,
             potionSlot2: undefined,
+            skills: {},
+            skillPoints: 0,
+            skillHotkeys: Array<string | null>(SKILL_HOTKEY_SLOTS).fill(null),
+            availableAttributePoints: 0,
+            allocatedAttributes: { strength: 0, dexterity: 0, vitality: 0, energy: 0 },
+            autoRestThresholdPercent: 0,
+            autoPotionRules: [],
+            targetPriority: DEFAULT_TARGET_PRIORITY,
+            statusEffects: [],
+            autoPickupFilter: createDefaultAutoPickupFilter(),
+            stash: createEmptyStash(PERSONAL_STASH_TABS),
+            vendorStocks: {},
+            buyback: [],
+            schemaVersion: CHARACTER_SCHEMA_VERSION,
+            version: 0,
         };
 
         try {
@@ -112,80 +150,84 @@ export class CharacterService {
      * @throws Error if user/character not found, character doesn't belong to user, or DB error.
      */
     async selectCharacter(userId: string, characterId: string): Promise<SelectCharacterResult> {
-        const character = await this.characterRepository.findById(characterId); // Use injected repo
-        let user: User | null = null;
-        let usernameForLog = userId;
-
-        if (userId !== 'dev-user-skipped-login') {
-            user = await this.userRepository.findById(userId); // Use injected repo
-            if (!user) {
-                 throw new Error(`User not found (ID: ${userId}) during character selection.`);
-            }
-            usernameForLog = user.username;
-            if (!character || character.userId !== userId || !user.characterIds.includes(characterId)) {
-                throw new Error('Invalid character selected or character does not belong to user');
+        return this.mutationQueue.run(characterId, async () => {
+            const character = await this.characterRepository.findById(characterId); // Use injected repo
+            let user: User | null = null;
+            let usernameForLog = userId;
+
+            if (userId !== 'dev-user-skipped-login') {
+                user = await this.userRepository.findById(userId); // Use injected repo
+                if (!user) {
+                     throw new Error(`User not found (ID: ${userId}) during character selection.`);
+                }
+                usernameForLog = user.username;
+                if (!character || character.userId !== userId || !user.characterIds.includes(characterId)) {
+                    throw new Error('Invalid character selected or character does not belong to user');
+                }
+            } else {
+                 console.warn("CharacterService (DEV MODE): Bypassing user validation for character selection.");
+                 if (!character) {
+                     throw new Error(`Character not found (ID: ${characterId})`);
+                 }
             }
-        } else {
-             console.warn("CharacterService (DEV MODE): Bypassing user validation for character selection.");
-             if (!character) {
-                 throw new Error(`Character not found (ID: ${characterId})`);
-             }
-        }
-
-        if (!character.equipment) {
-            character.equipment = {};
-        }
-
-        let dbUpdateNeeded = false;
-        const updates: Partial<Character> = {};
 
-        if (character.currentZoneId !== 'town') {
-            console.log(`CharacterService: Character ${character.name} was in ${character.currentZoneId}, moving to Town on select.`);
-            character.currentZoneId = 'town';
-            updates.currentZoneId = 'town';
-            dbUpdateNeeded = true;
-        }
+            let dbUpdateNeeded = false;
+            const updates: Partial<Character> = {};
 
-        if (character.currentZoneId === 'town') {
-            const maxHp = calculateMaxHp(character.stats);
-            if (character.currentHp < maxHp) {
-                console.log(`CharacterService: Healing character ${character.name} to full HP (${maxHp}) on select in town.`);
-                character.currentHp = maxHp;
-                updates.currentHp = maxHp;
+            if (character.currentZoneId !== 'town') {
+                console.log(`CharacterService: Character ${character.name} was in ${character.currentZoneId}, moving to Town on select.`);
+                character.currentZoneId = 'town';
+                updates.currentZoneId = 'town';
                 dbUpdateNeeded = true;
             }
-        }
 
-        if (dbUpdateNeeded) {
-            try {
-                await this.characterRepository.update(character.id, updates); // Use injected repo
-            } catch (error) {
-                 console.error(`CharacterService: Failed to update character ${character.id} during selection:`, error);
-                 throw error;
+            if (character.currentZoneId === 'town') {
+                const maxHp = calculateMaxHp(character.stats, character.class, character.level);
+                if (character.currentHp < maxHp) {
+                    console.log(`CharacterService: Healing character ${character.name} to full HP (${maxHp}) on select in town.`);
+                    character.currentHp = maxHp;
+                    updates.currentHp = maxHp;
+                    dbUpdateNeeded = true;
+                }
             }
-        }
 
-        const currentZoneData = zones.get(character.currentZoneId);
-        const zoneStatuses = this.zoneService.getZoneStatuses(character); // Use injected zoneService
-
-        const totalXpForCurrentLevel = xpForLevel(character.level);
-        const totalXpForNextLevel = xpForLevel(character.level + 1);
-        const currentLevelXp = character.experience - totalXpForCurrentLevel;
-        const xpToNextLevelBracket = totalXpForNextLevel - totalXpForCurrentLevel;
+            if (dbUpdateNeeded) {
+                try {
+                    if (!await this.mutationQueue.commit(character, updates)) {
+                        throw new Error(CHARACTER_CONFLICT_MESSAGE);
+                    }
+                } catch (error) {
+                     console.error(`CharacterService: Failed to update character ${character.id} during selection:`, error);
+                     throw error;
+                }
+            }
 
-        const characterDataForPayload = {
-            ...character,
-            currentLevelXp: currentLevelXp,
-            xpToNextLevelBracket: xpToNextLevelBracket
-        };
+            const currentZoneData = zones.get(character.currentZoneId);
+            const zoneStatuses = this.zoneService.getZoneStatuses(character); // Use injected zoneService
+
+            const totalXpForCurrentLevel = xpForLevel(character.level);
+            const totalXpForNextLevel = xpForLevel(character.level + 1);
+            const currentLevelXp = character.experience - totalXpForCurrentLevel;
+            const xpToNextLevelBracket = totalXpForNextLevel - totalXpForCurrentLevel;
+
+            const effectiveCharacter = calculateCharacterStats(character);
+            const characterDataForPayload = {
+                ...character,
+                currentLevelXp: currentLevelXp,
+                xpToNextLevelBracket: xpToNextLevelBracket,
+                derivedStats: effectiveCharacter.derivedStats, // Full stat sheet including equipment bonuses
+                inactiveEquipmentSlots: effectiveCharacter.inactiveEquipmentSlots
+            };
 
-        console.log(`CharacterService: User ${usernameForLog} (ID: ${userId}) selected character ${character.name} (ID: ${characterId}).`);
+            console.log(`CharacterService: User ${usernameForLog} (ID: ${userId}) selected character ${character.name} (ID: ${characterId}).`);
 
-        return {
-            characterData: characterDataForPayload,
-            currentZoneData: currentZoneData,
-            zoneStatuses: zoneStatuses
-         };
+            return {
+                characterData: characterDataForPayload,
+                currentZoneData: currentZoneData,
+                zoneStatuses: zoneStatuses,
+                skillTree: getSkillTree(character.class)
+             };
+        });
      }
 
      /**
@@ -258,6 +300,194 @@ export class CharacterService {
         }
     }
 
+    // --- Attributes ---
+
+    /**
+     * Spends available attribute points on the character's attributes.
+     * @param characterId The ID of the character.
+     * @param allocation Points to add per attribute (whole, non-negative numbers).
+     * @returns CharacterServiceResult with the updated character (including derived stats).
+     */
+    async allocateAttributes(characterId: string, allocation: Partial<Character['stats']>): Promise<CharacterServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+
+                let total = 0;
+                for (const stat of ATTRIBUTE_KEYS) {
+                    const points = allocation[stat] ?? 0;
+                    if (!Number.isInteger(points) || points < 0) {
+                        return { success: false, message: `Invalid number of points for ${stat}` };
+                    }
+                    total += points;
+                }
+                if (total === 0) {
+                    return { success: false, message: 'No attribute points to allocate' };
+                }
+                if (total > character.availableAttributePoints) {
+                    return { success: false, message: `Not enough attribute points (${character.availableAttributePoints} available)` };
+                }
+
+                const stats = { ...character.stats };
+                const allocatedAttributes = { ...character.allocatedAttributes };
+                for (const stat of ATTRIBUTE_KEYS) {
+                    stats[stat] += allocation[stat] ?? 0;
+                    allocatedAttributes[stat] += allocation[stat] ?? 0;
+                }
+                const updates: Partial<Character> = {
+                    stats,
+                    allocatedAttributes,
+                    availableAttributePoints: character.availableAttributePoints - total,
+                    maxHp: calculateMaxHp(stats, character.class, character.level),
+                    maxMana: calculateMaxMana(stats, character.class, character.level)
+                };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`CharacterService: Character ${character.name} allocated ${total} attribute points: ${JSON.stringify(allocation)}.`);
+                return { success: true, message: `Allocated ${total} attribute points.`, character: calculateCharacterStats({ ...character, ...updates }) };
+            } catch (error) {
+                console.error(`Error in CharacterService.allocateAttributes for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred while allocating attributes.' };
+            }
+        });
+    }
+
+    /**
+     * Refunds every allocated attribute point for gold. Only the trainer in town offers respecs.
+     * Automatic class growth from level ups is kept.
+     * @param characterId The ID of the character.
+     * @returns CharacterServiceResult with the updated character (including derived stats).
+     */
+    async respecAttributes(characterId: string): Promise<CharacterServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+                if (character.currentZoneId !== ATTRIBUTE_TRAINER_ZONE_ID) {
+                    return { success: false, message: 'Visit the trainer in town to reset your attributes' };
+                }
+
+                const refunded = ATTRIBUTE_KEYS.reduce((sum, stat) => sum + character.allocatedAttributes[stat], 0);
+                if (refunded === 0) {
+                    return { success: false, message: 'No allocated attribute points to reset' };
+                }
+                const cost = calculateRespecCost(character.level);
+                if (character.gold < cost) {
+                    return { success: false, message: `A respec costs ${cost} gold` };
+                }
+
+                const stats = { ...character.stats };
+                for (const stat of ATTRIBUTE_KEYS) {
+                    stats[stat] -= character.allocatedAttributes[stat];
+                }
+                const maxHp = calculateMaxHp(stats, character.class, character.level);
+                const maxMana = calculateMaxMana(stats, character.class, character.level);
+                const updates: Partial<Character> = {
+                    stats,
+                    allocatedAttributes: { strength: 0, dexterity: 0, vitality: 0, energy: 0 },
+                    availableAttributePoints: character.availableAttributePoints + refunded,
+                    gold: character.gold - cost,
+                    maxHp,
+                    maxMana,
+                    currentHp: Math.min(character.currentHp, maxHp),
+                    currentMana: Math.min(character.currentMana, maxMana)
+                };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`CharacterService: Character ${character.name} reset ${refunded} attribute points for ${cost} gold.`);
+                return { success: true, message: `Reset ${refunded} attribute points for ${cost} gold.`, character: calculateCharacterStats({ ...character, ...updates }) };
+            } catch (error) {
+                console.error(`Error in CharacterService.respecAttributes for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred while resetting attributes.' };
+            }
+        });
+    }
+
+    // --- Options ---
+
+    /**
+     * Sets the HP percent below which the character stops hunting and rests until fully healed.
+     * @param characterId The ID of the character.
+     * @param thresholdPercent Whole percent of max HP, 0 turns auto-rest off.
+     * @returns CharacterServiceResult with the updated character (including derived stats).
+     */
+    async setAutoRestThreshold(characterId: string, thresholdPercent: number): Promise<CharacterServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+                if (!Number.isInteger(thresholdPercent) || thresholdPercent < 0 || thresholdPercent > MAX_AUTO_REST_THRESHOLD_PERCENT) {
+                    return { success: false, message: `Auto-rest threshold must be a whole percent from 0 to ${MAX_AUTO_REST_THRESHOLD_PERCENT}` };
+                }
+
+                const updates: Partial<Character> = { autoRestThresholdPercent: thresholdPercent };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`CharacterService: Character ${character.name} set auto-rest threshold to ${thresholdPercent}%.`);
+                return {
+                    success: true,
+                    message: thresholdPercent > 0 ? `Auto-rest below ${thresholdPercent}% HP.` : 'Auto-rest turned off.',
+                    character: calculateCharacterStats({ ...character, ...updates })
+                };
+            } catch (error) {
+                console.error(`Error in CharacterService.setAutoRestThreshold for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred while setting the auto-rest threshold.' };
+            }
+        });
+    }
+
+    /**
+     * Sets how the character picks a new target from a pack when the current one dies.
+     * A target chosen with set_target overrides this until that monster dies.
+     * @param characterId The ID of the character.
+     * @param priority One of TARGET_PRIORITIES.
+     * @returns CharacterServiceResult with the updated character (including derived stats).
+     */
+    async setTargetPriority(characterId: string, priority: string): Promise<CharacterServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+                const targetPriority = TARGET_PRIORITIES.find(option => option === priority);
+                if (!targetPriority) {
+                    return { success: false, message: `Target priority must be one of: ${TARGET_PRIORITIES.join(', ')}` };
+                }
+
+                const updates: Partial<Character> = { targetPriority };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`CharacterService: Character ${character.name} set target priority to ${targetPriority}.`);
+                return {
+                    success: true,
+                    message: targetPriority === 'lowest_hp' ? 'Targeting the monster with the lowest HP first.' : 'Targeting the most dangerous monster first.',
+                    character: calculateCharacterStats({ ...character, ...updates })
+                };
+            } catch (error) {
+                console.error(`Error in CharacterService.setTargetPriority for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred while setting the target priority.' };
+            }
+        });
+    }
+
+    // --- Experience ---
+
     /**
      * Adds experience to a character, handles level ups, and returns the updated state.
      * NOTE: This function MODIFIES the passed character object directly.
@@ -276,32 +506,18 @@ export class CharacterService {
         console.log(`CharacterService: ${character.name} gained ${xpGained} XP. Total XP: ${character.experience}.`);
 
         let leveledUp = false;
-        let statIncreases: { strength?: number; dexterity?: number; vitality?: number; energy?: number } = {};
+        const statIncreases: Partial<Character['stats']> = {};
 
         while (character.experience >= xpRequiredForLevel(character.level)) {
             leveledUp = true;
             character.level++;
             console.log(`CharacterService: Level Up! ${character.name} reached level ${character.level}.`);
 
-            if (!character.stats) character.stats = { strength: 0, dexterity: 0, vitality: 0, energy: 0 };
-            const increaseAmount = 1;
-            character.stats.strength = (character.stats.strength ?? 0) + increaseAmount;
-            character.stats.dexterity = (character.stats.dexterity ?? 0) + increaseAmount;
-            character.stats.vitality = (character.stats.vitality ?? 0) + increaseAmount;
-            character.stats.energy = (character.stats.energy ?? 0) + increaseAmount;
-
-            statIncreases = {
-                strength: (statIncreases.strength ?? 0) + increaseAmount,
-                dexterity: (statIncreases.dexterity ?? 0) + increaseAmount,
-                vitality: (statIncreases.vitality ?? 0) + increaseAmount,
-                energy: (statIncreases.energy ?? 0) + increaseAmount,
-            };
-            console.log(`CharacterService: Stats increased: +${increaseAmount} to all.`);
-
-            character.maxHp = calculateMaxHp(character.stats);
-            character.maxMana = calculateMaxMana(character.stats);
-            character.currentHp = character.maxHp;
-            character.currentMana = character.maxMana;
+            const levelIncreases = applyLevelUpGrowth(character);
+            for (const [stat, amount] of Object.entries(levelIncreases) as [keyof Character['stats'], number][]) {
+                statIncreases[stat] = (statIncreases[stat] ?? 0) + amount;
+            }
+            console.log(`CharacterService: Class growth ${JSON.stringify(levelIncreases)}, ${character.availableAttributePoints} attribute points available.`);
             console.log(`CharacterService: Max HP/Mana updated to ${character.maxHp}/${character.maxMana}. HP/Mana restored.`);
         }
 
@@ -1,96 +1,91 @@
 import WebSocket from 'ws';
-import { v4 as uuidv4 } from 'uuid';
 import {
     Character,
     Monster,
     ICharacterRepository,
     FindMonsterResult,    
     AttackResult,       
-    Item,
-    EquipmentSlot,
+    Encounter,
     ActiveEncountersMap,
     PlayerAttackIntervalsMap,
     MonsterAttackIntervalsMap,
+    PoisonEffectsMap,
+    MonsterPoisonEffectsMap,
     PlayerAttackUpdatePayload,
-    MonsterAttackUpdatePayload
+    MonsterAttackUpdatePayload,
+    SetTargetResult,
+    ClassResourceState,
+    StatusEffectUpdatePayload,
+    StatusEffectBearerUpdate,
+    StatusTickOutcome,
+    CombatState
 } from '../types.js';
 
-import { zones, monsters, calculateMaxHp, xpForLevel, xpRequiredForLevel } from '../gameData.js';
-import { items as itemDefinitions } from '../lootData.js';
-import { generateLoot as generateLootFromTable } from '../lootGenerator.js';
-import { randomInt, calculateCharacterStats } from '../utils.js';
-
-const DEFAULT_PLAYER_ATTACK_SPEED = 2000; // Default ms between player attacks if no weapon
-const MIN_ATTACK_SPEED = 500; // Minimum attack speed in ms
+import { zones, skills, calculateMaxHp, xpForLevel, xpRequiredForLevel, applyLevelUpGrowth } from '../gameData.js';
+import { spawnMonsterPack } from '../monsterVariants.js';
+import { calculateCharacterStats } from '../utils.js';
+import {
+    calculateCombatStats,
+    calculatePlayerHitChance,
+    calculateMonsterHitChance,
+    createClassResource,
+    calculatePlayerAttackSpeed,
+    calculateMonsterAttackSpeed,
+    selectTarget
+} from '../combatCalculator.js';
+import {
+    performPlayerAttackAction,
+    getSkillUseError,
+    performSkillAction,
+    performMonsterAttackAction,
+    performPoisonTickAction,
+    performStatusTickAction,
+    removeDefeatedMonsters,
+    rollDefeatRewards
+} from '../combatActions.js';
+import { withoutDebuffs } from '../statusEffects.js';
+import { matchesAutoPickupFilter, pickUpItems, dropOnGround } from '../groundLoot.js';
+import { Rng, defaultRng } from '../rng.js';
+import { CharacterMutationQueue, CHARACTER_CONFLICT_MESSAGE } from './characterMutationQueue.js';
 
 
 export class CombatService {
     private characterRepository: ICharacterRepository;
+    private mutationQueue: CharacterMutationQueue;
 
     private activeEncounters: ActiveEncountersMap;
     private playerAttackIntervals: PlayerAttackIntervalsMap;
     private monsterAttackIntervals: MonsterAttackIntervalsMap;
+    private monsterPoisonEffects: MonsterPoisonEffectsMap;
+    private playerPoisonEffects: PoisonEffectsMap;
+    private rng: Rng;
+    // Character ID -> skill ID -> time (ms) at which the skill can be used again
+    private skillCooldowns: Map<string, Map<string, number>> = new Map();
+    // Connection -> stacks of the class resource (rage, combo) in the current fight
+    private classResources: Map<WebSocket, ClassResourceState> = new Map();
 
     constructor(
         characterRepository: ICharacterRepository,
+        mutationQueue: CharacterMutationQueue,
         activeEncounters: ActiveEncountersMap,
         playerAttackIntervals: PlayerAttackIntervalsMap,
-        monsterAttackIntervals: MonsterAttackIntervalsMap
+        monsterAttackIntervals: MonsterAttackIntervalsMap,
+        monsterPoisonEffects: MonsterPoisonEffectsMap,
+        playerPoisonEffects: PoisonEffectsMap,
+        rng: Rng = defaultRng // Inject a seeded Rng to reproduce fights and drops
     ) {
         this.characterRepository = characterRepository;
+        this.mutationQueue = mutationQueue;
         this.activeEncounters = activeEncounters;
         this.playerAttackIntervals = playerAttackIntervals;
         this.monsterAttackIntervals = monsterAttackIntervals;
+        this.monsterPoisonEffects = monsterPoisonEffects;
+        this.playerPoisonEffects = playerPoisonEffects;
+        this.rng = rng;
     }
 
     // --- Helper Functions (moved from combat.ts) ---
 
-    private calculatePlayerAttackSpeed(character: Character): number {
-        let baseSpeed = DEFAULT_PLAYER_ATTACK_SPEED;
-        let totalIncreasedAttackSpeed = 0;
-
-        const mainHand = character.equipment?.mainHand;
-        if (mainHand && mainHand.stats?.attackSpeed) {
-            baseSpeed = mainHand.stats.attackSpeed;
-        }
-
-        for (const slot in character.equipment) {
-            const item = character.equipment[slot as EquipmentSlot];
-            if (item) {
-                totalIncreasedAttackSpeed += item.stats?.increasedAttackSpeed ?? 0;
-                item.prefixes?.forEach(affix => {
-                    totalIncreasedAttackSpeed += affix.statModifiers?.increasedAttackSpeed ?? 0;
-                });
-                item.suffixes?.forEach(affix => {
-                    totalIncreasedAttackSpeed += affix.statModifiers?.increasedAttackSpeed ?? 0;
-                });
-            }
-        }
-
-        let finalSpeed = baseSpeed / (1 + totalIncreasedAttackSpeed);
-        finalSpeed = Math.max(MIN_ATTACK_SPEED, finalSpeed);
-        // console.log(`Attack Speed Calc: Base=${baseSpeed}, IAS=${(totalIncreasedAttackSpeed * 100).toFixed(0)}%, Final=${finalSpeed.toFixed(0)}ms`);
-        return finalSpeed;
-    }
-
-    private calculateXpReward(monster: Monster, characterLevel: number): number {
-        const mLvl = monster.level ?? 1;
-        const pLvl = characterLevel;
-        const baseMonsterXp = 10 + (mLvl * 5);
-        const levelDiff = pLvl - mLvl;
-        let xpMultiplier = 1.0;
-
-        if (levelDiff > 10) {
-            xpMultiplier = Math.max(0.05, 1.0 - (levelDiff - 10) * 0.05);
-        } else if (levelDiff < -10) {
-            xpMultiplier = Math.max(0.05, 1.0 - (Math.abs(levelDiff) - 10) * 0.05);
-        }
-        xpMultiplier = Math.max(0, xpMultiplier);
-        const finalXp = Math.floor(baseMonsterXp * xpMultiplier);
-        // console.log(`XP Calc: pLvl=${pLvl}, mLvl=${mLvl}, baseXP=${baseMonsterXp}, diff=${levelDiff}, mult=${xpMultiplier.toFixed(2)}, finalXP=${finalXp}`);
-        return finalXp;
-    }
-
     // Function to clear combat state for a specific connection (identified by ws, needs adaptation)
     // This might need the WebSocket object or a unique connection ID if ws is removed from service layer
     public clearCombatState(connectionId: any /* WebSocket or unique ID */): void {
@@ -105,13 +100,19 @@ export class CombatService {
                 clearInterval(playerInterval);
                 this.playerAttackIntervals.delete(ws);
             }
-            const monsterInterval = this.monsterAttackIntervals.get(ws);
-            if (monsterInterval) {
-                clearInterval(monsterInterval);
-                this.monsterAttackIntervals.delete(ws);
+            this.monsterAttackIntervals.get(ws)?.forEach(monsterInterval => clearInterval(monsterInterval));
+            this.monsterAttackIntervals.delete(ws);
+            // Poison does not outlive the encounter
+            this.monsterPoisonEffects.get(ws)?.forEach(poison => clearInterval(poison.intervalId));
+            this.monsterPoisonEffects.delete(ws);
+            const playerPoison = this.playerPoisonEffects.get(ws);
+            if (playerPoison) {
+                clearInterval(playerPoison.intervalId);
+                this.playerPoisonEffects.delete(ws);
             }
             this.activeEncounters.delete(ws);
-            console.log("Cleared combat state (intervals and encounter).");
+            this.classResources.delete(ws); // Rage and combo stacks only last for one fight
+            console.log("Cleared combat state (intervals, poison, class resource and encounter).");
         } else {
             console.warn("clearCombatState called with non-WebSocket ID, implementation needed.");
         }
@@ -121,10 +122,10 @@ export class CombatService {
     // --- Service Methods ---
 
     /**
-     * Finds a suitable monster for the character in their current zone.
+     * Spawns a pack of monsters for the character in their current zone and starts the encounter.
      * @param characterId The ID of the character initiating the search.
      * @param connectionId A unique identifier for the connection (e.g., WebSocket object).
-     * @returns FindMonsterResult indicating success/failure and the found monster instance.
+     * @returns FindMonsterResult indicating success/failure, the pack and the first target.
      */
     async findMonster(characterId: string, connectionId: any /* WebSocket or unique ID */): Promise<FindMonsterResult> {
         const character = await this.characterRepository.findById(characterId);
@@ -133,7 +134,7 @@ export class CombatService {
         }
 
         const currentZone = zones.get(character.currentZoneId);
-        if (!currentZone || currentZone.monsterIds.length === 0) {
+        if (!currentZone || currentZone.monsterSpawns.length === 0) {
             return { success: false, message: 'No monsters available in this zone' };
         }
 
@@ -142,309 +143,745 @@ export class CombatService {
              return { success: false, message: 'Already in an encounter' };
         }
 
-        // Find a random monster template
-        const randomMonsterId = currentZone.monsterIds[Math.floor(Math.random() * currentZone.monsterIds.length)];
-        const monsterTemplate = monsters.get(randomMonsterId as string);
+        // Roll a spawn from the zone's spawn table and level range, one instance per pack member.
+        // The pack leader may be a champion, elite or boss.
+        const pack = spawnMonsterPack(currentZone, this.rng);
+        const target = selectTarget(pack, character.targetPriority);
 
-        if (!monsterTemplate) {
-            console.error(`CombatService: Monster template not found for ID: ${randomMonsterId}`);
+        if (!target) {
+            console.error(`CombatService: Could not spawn a monster in zone ${currentZone.id}`);
             return { success: false, message: 'Internal server error: Monster definition missing' };
         }
 
-        // Create a unique instance
-        const monsterInstance: Monster = {
-            ...monsterTemplate,
-            id: uuidv4(), // Unique instance ID
-            currentHp: monsterTemplate.maxHp,
-            stats: { ...monsterTemplate.stats },
-            // Ensure attackSpeed is present, default if necessary
-            attackSpeed: monsterTemplate.attackSpeed || 2000
-        };
-
         // Store the encounter state, keyed by connectionId
-        this.activeEncounters.set(connectionId, monsterInstance);
-        console.log(`CombatService: Character ${character.name} encountered ${monsterInstance.name} (Instance ID: ${monsterInstance.id})`);
+        this.activeEncounters.set(connectionId, { monsters: pack, targetId: target.id });
+        const classResource = createClassResource(character);
+        if (classResource) {
+            this.classResources.set(connectionId, classResource);
+        }
+        const leader = pack[0] ?? target;
+        const variantInfo = leader.rarity !== 'normal'
+            ? ` [${leader.rarity}${leader.modifiers?.length ? `: ${leader.modifiers.map(modifier => modifier.name).join(', ')}` : ''}]`
+            : '';
+        console.log(`CombatService: Character ${character.name} encountered ${pack.length > 1 ? `a pack of ${pack.length} ` : ''}level ${leader.level} ${leader.name}${variantInfo}`);
 
-        // Calculate player attack speed for this encounter
-        const playerAttackSpeed = this.calculatePlayerAttackSpeed(character);
+        // Calculate player combat stats (including attack speed) for this encounter
+        const effectiveCharacter = calculateCharacterStats(character);
+        const combatStats = calculateCombatStats(effectiveCharacter);
 
         return {
             success: true,
-            message: `Encountered ${monsterInstance.name}!`,
-            monster: monsterInstance,
-            playerAttackSpeed: playerAttackSpeed
+            message: pack.length > 1 ? `Encountered a pack of ${pack.length} led by ${leader.name}!` : `Encountered ${leader.name}!`,
+            monsters: pack,
+            targetId: target.id,
+            playerAttackSpeed: combatStats.attackSpeed,
+            playerHitChance: Math.round(calculatePlayerHitChance(combatStats, character.level, target) * 100),
+            monsterHitChance: Math.round(calculateMonsterHitChance(target, effectiveCharacter) * 100),
+            combatStats,
+            classResource
         };
     }
 
     /**
-     * Performs a player's attack against the monster in the current encounter.
+     * Makes a pack member the player's target until it dies (the 'set_target' message).
+     * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
+     * @param characterId The ID of the character.
+     * @param monsterId Instance ID of a living pack member.
+     * @returns SetTargetResult with the new target and the hit chances against it.
+     */
+    async setTarget(connectionId: any, characterId: string, monsterId: string): Promise<SetTargetResult> {
+        // Queued with the fight's actions, which replace the encounter's target and pack once they are saved
+        return this.mutationQueue.run(characterId, async () => {
+            const encounter = this.activeEncounters.get(connectionId);
+            if (!encounter) {
+                return { success: false, message: 'Not in an encounter.' };
+            }
+            const monster = encounter.monsters.find(member => member.id === monsterId);
+            if (!monster) {
+                return { success: false, message: 'That monster is not part of this fight.' };
+            }
+            const character = await this.characterRepository.findById(characterId);
+            if (!character) {
+                return { success: false, message: 'Character not found' };
+            }
+
+            encounter.targetId = monster.id;
+            const effectiveCharacter = calculateCharacterStats(character);
+            const combatStats = calculateCombatStats(effectiveCharacter);
+            return {
+                success: true,
+                message: `Targeting ${monster.name}.`,
+                targetId: monster.id,
+                playerHitChance: Math.round(calculatePlayerHitChance(combatStats, character.level, monster) * 100),
+                monsterHitChance: Math.round(calculateMonsterHitChance(monster, effectiveCharacter) * 100)
+            };
+        });
+    }
+
+    /**
+     * Performs a player's attack against the current target of the encounter.
      * Handles damage, monster death, XP, level ups, and loot.
      * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
      * @param characterId The ID of the attacking character.
      * @returns AttackResult detailing the outcome of the attack.
      */
     async performPlayerAttack(connectionId: any, characterId: string): Promise<AttackResult> {
-        const encounter = this.activeEncounters.get(connectionId);
-        if (!encounter) {
-            return { success: false, message: "Not in an encounter.", encounterEnded: true };
-        }
-
-        let character = await this.characterRepository.findById(characterId);
-        if (!character) {
-            this.clearCombatState(connectionId); // Clear state if character is gone
-            return { success: false, message: "Character not found.", encounterEnded: true };
-        }
-
-        try {
-            // --- Player Attack Calculation ---
-            // TODO: Refine damage calculation (consider weapon damage, stats, etc.)
-            let playerDamage = Math.floor((character.stats?.strength ?? 0) / 5);
-            playerDamage = Math.max(1, playerDamage); // Ensure at least 1 damage
-
-            encounter.currentHp -= playerDamage;
-            console.log(`CombatService: Player Attack - ${character.name} dealt ${playerDamage} damage to ${encounter.name}. ${encounter.name} HP: ${encounter.currentHp}/${encounter.maxHp}`);
-
-            // Update encounter map (important for subsequent monster attacks in the same tick if applicable)
-            this.activeEncounters.set(connectionId, encounter);
+        return this.mutationQueue.run(characterId, async () => {
+            const encounter = this.activeEncounters.get(connectionId);
+            if (!encounter) {
+                return { success: false, message: "Not in an encounter.", encounterEnded: true };
+            }
 
-            const playerAttackPayload: PlayerAttackUpdatePayload = {
-                playerDamageDealt: playerDamage,
-                monsterUpdate: { currentHp: encounter.currentHp }
-            };
+            let character = await this.characterRepository.findById(characterId);
+            if (!character) {
+                this.clearCombatState(connectionId); // Clear state if character is gone
+                return { success: false, message: "Character not found.", encounterEnded: true };
+            }
 
-            // --- Check if Monster is Defeated ---
-            if (encounter.currentHp <= 0) {
-                console.log(`CombatService: Monster Defeated - ${encounter.name} by ${character.name}.`);
-                const defeatedMonster = { ...encounter }; // Copy data before clearing state
-
-                this.clearCombatState(connectionId); // Clear intervals and encounter map entry
-
-                // --- Grant Experience & Check Level Up ---
-                let xpGained = this.calculateXpReward(defeatedMonster, character.level);
-                xpGained = Math.max(0, xpGained);
-                character.experience = (character.experience ?? 0) + xpGained;
-                console.log(`CombatService: XP Gain - ${character.name} gained ${xpGained} XP. Total: ${character.experience}.`);
-
-                let leveledUp = false;
-                let statIncreases = {};
-                const initialLevel = character.level; // Store initial level for comparison
-
-                while (character.experience >= xpForLevel(character.level + 1)) {
-                    leveledUp = true;
-                    character.level++;
-                    console.log(`CombatService: Level Up - ${character.name} to ${character.level}!`);
-
-                    // Apply Stat Increases (Example: +1 to all)
-                    if (!character.stats) character.stats = { strength: 0, dexterity: 0, vitality: 0, energy: 0 };
-                    character.stats.strength = (character.stats.strength ?? 0) + 1;
-                    character.stats.dexterity = (character.stats.dexterity ?? 0) + 1;
-                    character.stats.vitality = (character.stats.vitality ?? 0) + 1;
-                    character.stats.energy = (character.stats.energy ?? 0) + 1;
-                    statIncreases = { strength: 1, dexterity: 1, vitality: 1, energy: 1 }; // Store increases for potential message
-
-                    // Recalculate Max HP/Mana and restore
-                    character.maxHp = calculateMaxHp(character.stats);
-                    character.currentHp = character.maxHp; // Full heal on level up
-                    // character.maxMana = calculateMaxMana(character.stats); // If mana exists
-                    // character.currentMana = character.maxMana;
+            try {
+                const state = this.copyCombatState(connectionId, character, encounter);
+                const action = performPlayerAttackAction(state, this.rng);
+                if (action.skipped === 'no_target') {
+                    return { success: false, message: "Encounter already ended.", encounterEnded: true };
                 }
-
-                // --- Prepare update object for DB ---
-                const updateData: Partial<Character> = { experience: character.experience };
-                if (leveledUp) {
-                    updateData.level = character.level;
-                    updateData.stats = character.stats;
-                    updateData.maxHp = character.maxHp;
-                    updateData.currentHp = character.currentHp;
-                    // updateData.maxMana = character.maxMana; // If mana exists
-                    // updateData.currentMana = character.currentMana;
+                // A stunned player skips the swing; the interval keeps running
+                if (action.skipped === 'stunned') {
+                    return { success: true, message: "You are stunned.", encounterEnded: false };
                 }
 
-                // --- Generate Loot ---
-                let droppedLoot: Item[] = [];
-                if (defeatedMonster.lootTableId) {
-                    // Assuming generateLootFromTable exists and works
-                    droppedLoot = generateLootFromTable(defeatedMonster.lootTableId);
-                    console.log(`CombatService: Loot generated for ${defeatedMonster.name}: ${droppedLoot.length} items.`);
+                // Life and mana steal are saved before the hit lands, so a stale write drops the whole attack
+                const { target, outcome, lifeStolen, manaStolen } = action;
+                if ((lifeStolen > 0 || manaStolen > 0) && !await this.mutationQueue.commit(character, { currentHp: character.currentHp, currentMana: character.currentMana })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE, encounterEnded: false };
                 }
+                this.keepCombatState(connectionId, encounter, state);
 
-                // --- Add Loot to Inventory ---
-                if (droppedLoot.length > 0) {
-                    if (!character.inventory) character.inventory = [];
-                    const currentInventory = [...character.inventory]; // Work with a copy
-
-                    droppedLoot.forEach(newItem => {
-                        const isStackable = (newItem.type === 'potion' || newItem.type === 'misc') && (newItem.quantity ?? 1) > 0;
-                        let existingItemIndex = -1;
-
-                        if (isStackable) {
-                            existingItemIndex = currentInventory.findIndex(invItem => invItem.baseId === newItem.baseId);
-                        }
-
-                        if (isStackable && existingItemIndex !== -1) {
-                            const existingItem = currentInventory[existingItemIndex];
-                            if (existingItem) {
-                                existingItem.quantity = (existingItem.quantity ?? 0) + (newItem.quantity ?? 1);
-                            }
-                        } else {
-                            currentInventory.push(newItem);
-                        }
-                    });
-                    updateData.inventory = currentInventory; // Add updated inventory to DB payload
-                    character.inventory = currentInventory; // Update local character object for return payload
+                if (outcome.hit) {
+                    console.log(`CombatService: Player Attack - ${character.name} dealt ${outcome.damage}${outcome.critical ? ' critical' : ''} damage to ${target.name}. ${target.name} HP: ${target.currentHp}/${target.maxHp}`);
+                } else {
+                    console.log(`CombatService: Player Attack - ${character.name} missed ${target.name}.`);
                 }
 
-                // --- Save Character Updates ---
-                await this.characterRepository.update(character.id, updateData);
-
-                // --- Prepare Character Update Payload for Client ---
-                 const finalTotalXpForCurrentLevel = xpForLevel(character.level);
-                 const finalXpToNextLevelBracket = xpRequiredForLevel(character.level); // Use helper
-                 const finalCurrentLevelXp = character.experience - finalTotalXpForCurrentLevel;
-
-                 const characterUpdatePayload: any = {
-                     experience: character.experience,
-                     currentLevelXp: finalCurrentLevelXp,
-                     xpToNextLevelBracket: finalXpToNextLevelBracket,
-                     inventory: character.inventory ?? [], // Send updated inventory
-                 };
-                 if (leveledUp) {
-                     characterUpdatePayload.level = character.level;
-                     characterUpdatePayload.stats = character.stats;
-                     characterUpdatePayload.maxHp = character.maxHp;
-                     characterUpdatePayload.currentHp = character.currentHp;
-                     // characterUpdatePayload.maxMana = character.maxMana; // If mana exists
-                     // characterUpdatePayload.currentMana = character.currentMana;
-                     characterUpdatePayload.leveledUp = true;
-                     characterUpdatePayload.statIncreases = statIncreases;
-                 }
+                const playerAttackPayload: PlayerAttackUpdatePayload = {
+                    monsterId: target.id,
+                    playerDamageDealt: outcome.damage,
+                    hit: outcome.hit,
+                    critical: outcome.critical,
+                    classResource: state.classResource && { ...state.classResource },
+                    damageBreakdown: outcome.damageBreakdown,
+                    monsterUpdate: { currentHp: target.currentHp }
+                };
+                if (lifeStolen > 0 || manaStolen > 0) {
+                    playerAttackPayload.lifeStolen = lifeStolen;
+                    playerAttackPayload.manaStolen = manaStolen;
+                    playerAttackPayload.characterUpdate = { currentHp: character.currentHp, currentMana: character.currentMana };
+                }
 
+                // --- Check if Monster is Defeated ---
+                if (target.currentHp <= 0) {
+                    return await this.handleMonstersDefeated(connectionId, character, encounter, [target], playerAttackPayload);
+                }
 
+                // Monster survived
                 return {
                     success: true,
-                    message: `Defeated ${defeatedMonster.name}!`,
-                    playerUpdate: playerAttackPayload, // Include the final hit
-                    encounterEnded: true,
-                    endReason: `Defeated ${defeatedMonster.name}! Gained ${xpGained} XP.`,
-                    characterUpdate: characterUpdatePayload,
-                    loot: droppedLoot
+                    message: `Attacked ${target.name}.`,
+                    playerUpdate: playerAttackPayload,
+                    encounterEnded: false,
+                    poisonApplied: outcome.poison ? { target: 'monster', monsterId: target.id, poison: outcome.poison } : undefined
                 };
-            } else {
-                // Monster survived
+            } catch (error) {
+                console.error(`Error during player attack for character ${characterId}:`, error);
+                this.clearCombatState(connectionId); // Clear state on error
+                return { success: false, message: "Internal server error during player attack.", encounterEnded: true };
+            }
+        });
+    }
+
+    /**
+     * Uses an active skill against the current target, or the whole pack for area-of-effect skills.
+     * Spends the skill's mana cost and starts its cooldown, then resolves its damage and healing.
+     * The skill is an extra action: the regular attack intervals keep running.
+     * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
+     * @param characterId The ID of the character using the skill.
+     * @param skillId The skill to use.
+     * @returns AttackResult detailing the outcome of the skill.
+     */
+    async useSkill(connectionId: any, characterId: string, skillId: string): Promise<AttackResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            const encounter = this.activeEncounters.get(connectionId);
+            if (!encounter) {
+                return { success: false, message: "Skills can only be used in combat.", encounterEnded: false };
+            }
+
+            let character = await this.characterRepository.findById(characterId);
+            if (!character) {
+                this.clearCombatState(connectionId);
+                return { success: false, message: "Character not found.", encounterEnded: true };
+            }
+
+            const now = Date.now();
+            const skill = skills.get(skillId);
+            const characterCooldowns = this.skillCooldowns.get(characterId) ?? new Map<string, number>();
+            const error = getSkillUseError(character, skill, characterCooldowns.get(skillId) ?? 0, now);
+            if (error || !skill) {
+                return { success: false, message: error ?? "Skill not learned.", encounterEnded: false };
+            }
+
+            try {
+                const state = this.copyCombatState(connectionId, character, encounter);
+                const action = performSkillAction(state, skill, this.rng, now);
+                if (action.skipped === 'no_target') {
+                    return { success: false, message: "Encounter already ended.", encounterEnded: true };
+                }
+                if (action.skipped === 'stunned') {
+                    return { success: false, message: "You are stunned.", encounterEnded: false };
+                }
+
+                const { target, outcome, splashHits, healed, selfEffects, debuffedMonsters, defeated } = action;
+                const updates: Partial<Character> = { currentHp: character.currentHp, currentMana: character.currentMana };
+                if (selfEffects.length > 0) updates.statusEffects = character.statusEffects;
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE, encounterEnded: false };
+                }
+                this.keepCombatState(connectionId, encounter, state);
+                characterCooldowns.set(skillId, now + (skill.cooldownMs ?? 0));
+                this.skillCooldowns.set(characterId, characterCooldowns);
+
+                const statusEffectUpdate = this.describeStatusEffects(selfEffects.length > 0 ? character : undefined, debuffedMonsters);
+                const rank = character.skills[skillId] ?? 0;
+                console.log(`CombatService: Skill - ${character.name} used ${skill.name} (rank ${rank}): ${outcome.hit ? `${outcome.damage} damage` : 'no damage'}${splashHits.length > 0 ? ` (+${splashHits.reduce((sum, hit) => sum + hit.damage, 0)} to ${splashHits.length} more)` : ''}${healed > 0 ? `, healed ${healed}` : ''}. ${target.name} HP: ${target.currentHp}/${target.maxHp}`);
+
+                const playerAttackPayload: PlayerAttackUpdatePayload = {
+                    monsterId: target.id,
+                    playerDamageDealt: outcome.damage,
+                    skill: { skillId, name: skill.name, cooldownMs: skill.cooldownMs ?? 0, healed: healed || undefined },
+                    hit: outcome.hit,
+                    critical: outcome.critical,
+                    classResource: state.classResource && { ...state.classResource },
+                    damageBreakdown: outcome.damageBreakdown,
+                    characterUpdate: { currentHp: character.currentHp, currentMana: character.currentMana },
+                    monsterUpdate: { currentHp: target.currentHp },
+                    splashHits: splashHits.length > 0 ? splashHits : undefined
+                };
+
+                if (defeated.length > 0) {
+                    const defeatResult = await this.handleMonstersDefeated(connectionId, character, encounter, defeated, playerAttackPayload);
+                    return { ...defeatResult, statusEffectUpdate: defeatResult.statusEffectUpdate ?? statusEffectUpdate };
+                }
+
                 return {
                     success: true,
-                    message: `Attacked ${encounter.name}.`,
+                    message: `Used ${skill.name}.`,
                     playerUpdate: playerAttackPayload,
-                    encounterEnded: false
+                    encounterEnded: false,
+                    poisonApplied: outcome.poison ? { target: 'monster', monsterId: target.id, poison: outcome.poison } : undefined,
+                    statusEffectUpdate
                 };
+            } catch (error) {
+                console.error(`Error during skill ${skillId} for character ${characterId}:`, error);
+                this.clearCombatState(connectionId);
+                return { success: false, message: "Internal server error during skill use.", encounterEnded: true };
             }
-        } catch (error) {
-            console.error(`Error during player attack for character ${characterId}:`, error);
-            this.clearCombatState(connectionId); // Clear state on error
-            return { success: false, message: "Internal server error during player attack.", encounterEnded: true };
-        }
+        });
     }
 
     /**
-     * Performs a monster's attack against the player in the current encounter.
+     * Performs one pack member's attack against the player in the current encounter.
      * Handles damage and player death/respawn.
      * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
      * @param characterId The ID of the character being attacked.
+     * @param monsterId The instance ID of the attacking monster.
      * @returns AttackResult detailing the outcome of the attack.
      */
-    async performMonsterAttack(connectionId: any, characterId: string): Promise<AttackResult> {
-        const encounter = this.activeEncounters.get(connectionId);
-         // If encounter ended between player attack and monster attack (e.g., player won), stop monster attack
-        if (!encounter) {
-            // Don't clear state here, player attack already did
-            return { success: false, message: "Encounter already ended.", encounterEnded: true };
-        }
-
-        let character = await this.characterRepository.findById(characterId);
-        if (!character) {
-            this.clearCombatState(connectionId);
-            return { success: false, message: "Character not found.", encounterEnded: true };
-        }
+    async performMonsterAttack(connectionId: any, characterId: string, monsterId: string): Promise<AttackResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            const encounter = this.activeEncounters.get(connectionId);
+             // If encounter ended between player attack and monster attack (e.g., player won), stop monster attack
+            if (!encounter) {
+                // Don't clear state here, player attack already did
+                return { success: false, message: "Encounter already ended.", encounterEnded: true };
+            }
 
-        try {
-            // --- Monster Attack Calculation ---
-            // TODO: Refine damage calculation (consider monster stats, player defense/stats)
-            let monsterDamage = encounter.baseDamage ?? 1;
-            monsterDamage = Math.max(1, monsterDamage); // Ensure at least 1 damage
+            let character = await this.characterRepository.findById(characterId);
+            if (!character) {
+                this.clearCombatState(connectionId);
+                return { success: false, message: "Character not found.", encounterEnded: true };
+            }
 
-            const newHp = (character.currentHp ?? 0) - monsterDamage;
-            console.log(`CombatService: Monster Attack - ${encounter.name} dealt ${monsterDamage} damage to ${character.name}. ${character.name} HP: ${newHp}/${character.maxHp ?? '??'}`);
+            try {
+                const state = this.copyCombatState(connectionId, character, encounter);
+                const action = performMonsterAttackAction(state, monsterId, this.rng);
+                if (action.skipped === 'defeated') {
+                    // Killed by an earlier action; its interval is being stopped
+                    return { success: true, message: "Monster already defeated.", encounterEnded: false };
+                }
+                if (action.skipped === 'stunned') {
+                    return { success: true, message: `${action.attacker.name} is stunned.`, encounterEnded: false };
+                }
 
-            // --- Check if Player is Defeated ---
-            if (newHp <= 0) {
-                console.log(`CombatService: Player Death - ${character.name} defeated by ${encounter.name}.`);
-                const defeatedByMonsterName = encounter.name;
+                const { attacker, outcome, damage, shieldAbsorbed, manaAbsorbed, onHitEffects, monsterHealed, hitRecoveryDelay } = action;
+                if (!outcome.hit) {
+                    console.log(`CombatService: Monster Attack - ${attacker.name} missed ${character.name}.`);
+                } else if (outcome.blocked) {
+                    console.log(`CombatService: Monster Attack - ${character.name} blocked ${attacker.name}'s attack.`);
+                } else {
+                    console.log(`CombatService: Monster Attack - ${attacker.name} dealt ${damage} damage to ${character.name}${manaAbsorbed > 0 ? ` (${manaAbsorbed} absorbed by mana)` : ''}${shieldAbsorbed > 0 ? ` (${shieldAbsorbed} absorbed by shields)` : ''}. ${character.name} HP: ${character.currentHp}/${character.maxHp ?? '??'}`);
+                }
 
-                this.clearCombatState(connectionId); // Clear intervals and encounter
+                // --- Check if Player is Defeated ---
+                if (action.playerDefeated) {
+                    return await this.handlePlayerDeath(connectionId, character, attacker.name, {
+                        monsterId: attacker.id,
+                        monsterDamageTaken: damage,
+                        hit: true,
+                        blocked: false,
+                        damageBreakdown: outcome.damageBreakdown,
+                        manaAbsorbed: manaAbsorbed || undefined,
+                        shieldAbsorbed: shieldAbsorbed || undefined,
+                        characterUpdate: { currentHp: 0 } // Show final hit
+                    });
+                }
 
-                // --- Player Death Consequences ---
-                const respawnHp = calculateMaxHp(character.stats ?? { strength: 0, dexterity: 0, vitality: 0, energy: 0 });
-                const respawnZoneId = 'town'; // Respawn in town
+                // --- Player Survived ---
+                const statusEffectsChanged = shieldAbsorbed > 0 || onHitEffects.length > 0;
+                const updates: Partial<Character> = { currentHp: character.currentHp, currentMana: character.currentMana };
+                if (statusEffectsChanged) updates.statusEffects = character.statusEffects;
+                if ((outcome.damage > 0 || statusEffectsChanged) && !await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE, encounterEnded: false };
+                }
+                this.keepCombatState(connectionId, encounter, state);
 
-                // Prepare updates for DB
-                const updateData: Partial<Character> = {
-                    currentHp: respawnHp,
-                    currentZoneId: respawnZoneId,
-                    // TODO: Consider XP loss or other penalties?
+                const monsterAttackPayload: MonsterAttackUpdatePayload = {
+                    monsterId: attacker.id,
+                    monsterDamageTaken: damage,
+                    hit: outcome.hit,
+                    blocked: outcome.blocked,
+                    damageBreakdown: outcome.damageBreakdown,
+                    manaAbsorbed: manaAbsorbed || undefined,
+                    shieldAbsorbed: shieldAbsorbed || undefined,
+                    classResource: state.classResource && { ...state.classResource },
+                    monsterHealed: monsterHealed || undefined,
+                    monsterUpdate: monsterHealed > 0 ? { currentHp: attacker.currentHp } : undefined,
+                    characterUpdate: manaAbsorbed > 0 ? { currentHp: character.currentHp, currentMana: character.currentMana } : { currentHp: character.currentHp }
                 };
-                await this.characterRepository.update(character.id, updateData);
 
-                // Update local character object for return payload
-                character.currentHp = respawnHp;
-                character.currentZoneId = respawnZoneId;
+                return {
+                    success: true,
+                    message: `${attacker.name} attacked.`,
+                    monsterUpdate: monsterAttackPayload,
+                    encounterEnded: false,
+                    poisonApplied: outcome.poison ? { target: 'player', monsterId: attacker.id, poison: outcome.poison } : undefined,
+                    attackerId: attacker.id,
+                    hitRecoveryDelay: hitRecoveryDelay || undefined,
+                    statusEffectUpdate: statusEffectsChanged ? this.describeStatusEffects(character, []) : undefined
+                };
+            } catch (error) {
+                console.error(`Error during monster attack for character ${characterId}:`, error);
+                this.clearCombatState(connectionId);
+                return { success: false, message: "Internal server error during monster attack.", encounterEnded: true };
+            }
+        });
+    }
 
-                console.log(`CombatService: Respawn - ${character.name} respawned in ${respawnZoneId} with ${respawnHp} HP.`);
+    /**
+     * Applies one tick of an active poison effect to the monster or the player.
+     * Poison can finish off either side, which ends the encounter like a normal attack would.
+     * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
+     * @param characterId The ID of the character in the encounter.
+     * @param target Who is poisoned.
+     * @param damage The poison damage for this tick.
+     * @param monsterId The poisoned monster, or the monster that poisoned the player.
+     * @returns AttackResult detailing the outcome of the tick.
+     */
+    async applyPoisonTick(connectionId: any, characterId: string, target: 'monster' | 'player', damage: number, monsterId: string): Promise<AttackResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            const encounter = this.activeEncounters.get(connectionId);
+            if (!encounter) {
+                return { success: false, message: "Encounter already ended.", encounterEnded: true };
+            }
 
-                 // Prepare Character Update Payload for Client
-                 const finalTotalXpForCurrentLevel = xpForLevel(character.level);
-                 const finalXpToNextLevelBracket = xpRequiredForLevel(character.level);
-                 const finalCurrentLevelXp = character.experience - finalTotalXpForCurrentLevel;
+            let character = await this.characterRepository.findById(characterId);
+            if (!character) {
+                this.clearCombatState(connectionId);
+                return { success: false, message: "Character not found.", encounterEnded: true };
+            }
 
-                 const characterUpdatePayload = {
-                     currentHp: character.currentHp,
-                     currentZoneId: character.currentZoneId,
-                     // Include other relevant stats that might be displayed on death/respawn
-                     level: character.level,
-                     experience: character.experience,
-                     currentLevelXp: finalCurrentLevelXp,
-                     xpToNextLevelBracket: finalXpToNextLevelBracket,
-                 };
+            try {
+                const state = this.copyCombatState(connectionId, character, encounter);
+                const action = performPoisonTickAction(state, target, damage, monsterId);
+                if (action.skipped === 'defeated') {
+                    return { success: true, message: "Monster already defeated.", encounterEnded: false };
+                }
+                const { monster, damageBreakdown } = action;
+
+                if (target === 'monster' && monster) {
+                    this.keepCombatState(connectionId, encounter, state);
+                    console.log(`CombatService: Poison Tick - ${monster.name} took ${damage} poison damage. HP: ${monster.currentHp}/${monster.maxHp}`);
+
+                    const playerAttackPayload: PlayerAttackUpdatePayload = {
+                        monsterId: monster.id,
+                        playerDamageDealt: damage,
+                        hit: true,
+                        damageBreakdown,
+                        isPoisonTick: true,
+                        monsterUpdate: { currentHp: monster.currentHp }
+                    };
+                    if (action.defeated) {
+                        return await this.handleMonstersDefeated(connectionId, character, encounter, [monster], playerAttackPayload);
+                    }
+                    return { success: true, message: `${monster.name} is poisoned.`, playerUpdate: playerAttackPayload, encounterEnded: false };
+                }
 
-                return {
-                    success: true, // Attack happened, player died
-                    message: `You were defeated by ${defeatedByMonsterName}!`,
-                    monsterUpdate: { monsterDamageTaken: monsterDamage, characterUpdate: { currentHp: 0 } }, // Show final hit
-                    encounterEnded: true,
-                    respawn: true,
-                    endReason: `Defeated by ${defeatedByMonsterName}! Respawning...`,
-                    characterUpdate: characterUpdatePayload
-                };
-            } else {
-                // --- Player Survived ---
-                await this.characterRepository.update(character.id, { currentHp: newHp });
+                const newHp = character.currentHp ?? 0;
+                console.log(`CombatService: Poison Tick - ${character.name} took ${damage} poison damage. HP: ${newHp}/${character.maxHp ?? '??'}`);
 
                 const monsterAttackPayload: MonsterAttackUpdatePayload = {
-                    monsterDamageTaken: monsterDamage,
-                    characterUpdate: { currentHp: newHp }
+                    monsterId,
+                    monsterDamageTaken: damage,
+                    hit: true,
+                    blocked: false,
+                    damageBreakdown,
+                    isPoisonTick: true,
+                    characterUpdate: { currentHp: Math.max(0, newHp) }
                 };
+                if (action.defeated) {
+                    // The poison outlives the monster that applied it
+                    return await this.handlePlayerDeath(connectionId, character, monster?.name ?? 'poison', monsterAttackPayload);
+                }
+                if (!await this.mutationQueue.commit(character, { currentHp: newHp })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE, encounterEnded: false };
+                }
+                return { success: true, message: `You are poisoned.`, monsterUpdate: monsterAttackPayload, encounterEnded: false };
+            } catch (error) {
+                console.error(`Error during poison tick for character ${characterId}:`, error);
+                this.clearCombatState(connectionId);
+                return { success: false, message: "Internal server error during poison tick.", encounterEnded: true };
+            }
+        });
+    }
+
+    // --- Status Effects ---
+
+    /**
+     * Expires the status effects of the player and the pack and applies their due ticks (burn, bleed, ...).
+     * Ticks can finish off either side, which resolves like a normal kill or death.
+     * Called by the combat handler every STATUS_TICK_MS while an encounter is running.
+     * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
+     * @param characterId The ID of the character in the encounter.
+     * @returns AttackResult with the statusEffectUpdate, or without one if nothing changed.
+     */
+    async tickStatusEffects(connectionId: any, characterId: string): Promise<AttackResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            const encounter = this.activeEncounters.get(connectionId);
+            if (!encounter) {
+                return { success: false, message: "Encounter already ended.", encounterEnded: true };
+            }
+
+            let character = await this.characterRepository.findById(characterId);
+            if (!character) {
+                this.clearCombatState(connectionId);
+                return { success: false, message: "Character not found.", encounterEnded: true };
+            }
+
+            try {
+                const state = this.copyCombatState(connectionId, character, encounter);
+                const action = performStatusTickAction(state);
+                const { playerChanged, playerTick, changedMonsters, monsterTicks, defeated } = action;
+
+                // --- Player ---
+                if (action.playerDefeated) {
+                    const deathResult = await this.handlePlayerDeath(connectionId, character, action.killerName ?? 'a status effect');
+                    return { ...deathResult, statusEffectUpdate: { player: { effects: [], attackSpeed: calculatePlayerAttackSpeed(calculateCharacterStats(character)), tick: playerTick, currentHp: 0 } } };
+                }
+                if (playerTick && playerTick.damage > 0) {
+                    console.log(`CombatService: Status Tick - ${character.name} took ${playerTick.damage} damage. HP: ${character.currentHp}/${calculateCharacterStats(character).maxHp ?? '??'}`);
+                }
+                if (playerChanged && !await this.mutationQueue.commit(character, { currentHp: character.currentHp, statusEffects: character.statusEffects })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE, encounterEnded: false };
+                }
+                this.keepCombatState(connectionId, encounter, state);
+
+                // --- Monsters ---
+                for (const monster of changedMonsters) {
+                    const tick = monsterTicks.get(monster.id);
+                    if (tick && tick.damage > 0) {
+                        console.log(`CombatService: Status Tick - ${monster.name} took ${tick.damage} damage. HP: ${monster.currentHp}/${monster.maxHp}`);
+                    }
+                }
 
+                if (!playerChanged && changedMonsters.length === 0) {
+                    return { success: true, message: "No status effect changes.", encounterEnded: false };
+                }
+                const statusEffectUpdate = this.describeStatusEffects(playerChanged ? character : undefined, changedMonsters, playerTick, monsterTicks);
+
+                if (defeated.length > 0) {
+                    const defeatResult = await this.handleMonstersDefeated(connectionId, character, encounter, defeated);
+                    // Clearing the pack drops the player's debuffs; that update supersedes the tick's player entry
+                    return { ...defeatResult, statusEffectUpdate: { ...statusEffectUpdate, player: defeatResult.statusEffectUpdate?.player ?? statusEffectUpdate.player } };
+                }
+                return { success: true, message: "Status effects updated.", encounterEnded: false, statusEffectUpdate };
+            } catch (error) {
+                console.error(`Error during status effect tick for character ${characterId}:`, error);
+                this.clearCombatState(connectionId);
+                return { success: false, message: "Internal server error during status effect tick.", encounterEnded: true };
+            }
+        });
+    }
+
+    /**
+     * Builds the client update for the status effects of the player and/or pack members.
+     * @param character The player, if their effects changed.
+     * @param monsters The pack members whose effects changed.
+     * @param playerTick The player's tick totals, if any.
+     * @param monsterTicks Tick totals by monster instance ID.
+     */
+    private describeStatusEffects(character: Character | undefined, monsters: Monster[], playerTick?: StatusTickOutcome, monsterTicks?: Map<string, StatusTickOutcome>): StatusEffectUpdatePayload {
+        const update: StatusEffectUpdatePayload = {};
+        if (character) {
+            const player: StatusEffectBearerUpdate = { effects: character.statusEffects, attackSpeed: calculatePlayerAttackSpeed(calculateCharacterStats(character)) };
+            if (playerTick) {
+                player.tick = playerTick;
+                player.currentHp = character.currentHp;
+            }
+            update.player = player;
+        }
+        if (monsters.length > 0) {
+            update.monsters = monsters.map(monster => {
+                const tick = monsterTicks?.get(monster.id);
                 return {
-                    success: true,
-                    message: `${encounter.name} attacked.`,
-                    monsterUpdate: monsterAttackPayload,
-                    encounterEnded: false
+                    monsterId: monster.id,
+                    effects: monster.statusEffects ?? [],
+                    attackSpeed: calculateMonsterAttackSpeed(monster),
+                    tick,
+                    currentHp: tick ? monster.currentHp : undefined
                 };
+            });
+        }
+        return update;
+    }
+
+    // --- Encounter Resolution ---
+
+    /**
+     * Copies the encounter and the class resource for one action, so that a failed save leaves the fight as it was.
+     * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
+     * @param character The character as read for this action.
+     * @param encounter The active encounter.
+     */
+    private copyCombatState(connectionId: any, character: Character, encounter: Encounter): CombatState {
+        const classResource = this.classResources.get(connectionId);
+        return { character, encounter: structuredClone(encounter), classResource: classResource && { ...classResource } };
+    }
+
+    /**
+     * Applies the pack, target and class resource of an action to the active encounter once the character is saved.
+     * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
+     * @param encounter The active encounter the state was copied from.
+     * @param state The state after the action.
+     */
+    private keepCombatState(connectionId: any, encounter: Encounter, state: CombatState): void {
+        if (this.activeEncounters.get(connectionId) !== encounter) {
+            return; // The encounter ended while the character was being saved
+        }
+        encounter.monsters = state.encounter.monsters;
+        encounter.targetId = state.encounter.targetId;
+        if (state.classResource) {
+            this.classResources.set(connectionId, state.classResource);
+        }
+    }
+
+    /**
+     * Resolves the defeat of one or more pack members: removes them from the encounter, grants XP (with level ups)
+     * and loot, and saves the character. The encounter ends once the whole pack is defeated.
+     * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
+     * @param character The victorious character (as stored, without equipment bonuses).
+     * @param encounter The active encounter.
+     * @param defeated The defeated monster instances.
+     * @param finalHit The update payload of the killing blow (none for status effect ticks).
+     * @returns AttackResult, ending the encounter if the pack was cleared.
+     */
+    private async handleMonstersDefeated(connectionId: any, character: Character, encounter: Encounter, defeated: Monster[], finalHit?: PlayerAttackUpdatePayload): Promise<AttackResult> {
+        const defeatedNames = defeated.map(monster => monster.name).join(', ');
+        console.log(`CombatService: Monster Defeated - ${defeatedNames} by ${character.name}.`);
+
+        const packCleared = removeDefeatedMonsters(encounter, character, defeated);
+        if (packCleared) {
+            this.clearCombatState(connectionId); // Clear intervals and encounter map entry
+        }
+
+        // --- Grant Experience & Check Level Up ---
+        // Each monster's own loot table plus the extra (boss) table of its rarity
+        const { xp: xpGained, loot: droppedLoot } = rollDefeatRewards(defeated, character.level, this.rng);
+        character.experience = (character.experience ?? 0) + xpGained;
+        console.log(`CombatService: XP Gain - ${character.name} gained ${xpGained} XP. Total: ${character.experience}.`);
+
+        let leveledUp = false;
+        const statIncreases: Partial<Character['stats']> = {};
+
+        while (character.experience >= xpForLevel(character.level + 1)) {
+            leveledUp = true;
+            character.level++;
+            console.log(`CombatService: Level Up - ${character.name} to ${character.level}!`);
+
+            // Class growth, attribute and skill points; full heal on level up
+            const levelIncreases = applyLevelUpGrowth(character);
+            for (const [stat, amount] of Object.entries(levelIncreases) as [keyof Character['stats'], number][]) {
+                statIncreases[stat] = (statIncreases[stat] ?? 0) + amount; // Store increases for potential message
             }
-        } catch (error) {
-            console.error(`Error during monster attack for character ${characterId}:`, error);
-            this.clearCombatState(connectionId);
-            return { success: false, message: "Internal server error during monster attack.", encounterEnded: true };
         }
+
+        // The full restore on level up fills HP and mana up to the maximums including gear
+        const effectiveCharacter = calculateCharacterStats(character);
+        if (leveledUp) {
+            character.currentHp = effectiveCharacter.maxHp;
+            character.currentMana = effectiveCharacter.maxMana;
+        }
+
+        // --- Prepare update object for DB ---
+        const updateData: Partial<Character> = { experience: character.experience };
+        // Debuffs from the fight end with it; buffs run out on their own
+        const clearedDebuffs = packCleared && character.statusEffects.some(effect => effect.kind === 'debuff');
+        if (clearedDebuffs) {
+            character.statusEffects = withoutDebuffs(character.statusEffects);
+            updateData.statusEffects = character.statusEffects;
+        }
+        if (leveledUp) {
+            updateData.level = character.level;
+            updateData.stats = character.stats;
+            updateData.maxHp = character.maxHp;
+            updateData.currentHp = character.currentHp;
+            updateData.maxMana = character.maxMana;
+            updateData.currentMana = character.currentMana;
+            updateData.availableAttributePoints = character.availableAttributePoints;
+            updateData.skillPoints = character.skillPoints;
+        }
+
+        // --- Loot ---
+        console.log(`CombatService: Loot generated for ${defeatedNames}: ${droppedLoot.length} items.`);
+
+        // --- Auto-Pickup ---
+        // Drops matching the character's filter go into the inventory (gold into the gold total), the rest lands on the ground
+        // Drops that no longer fit into a full inventory stay on the ground as well
+        const toPickUp = droppedLoot.filter(item => matchesAutoPickupFilter(item, character.autoPickupFilter));
+        const pickUp = pickUpItems(character, toPickUp);
+        const pickedUp = toPickUp.filter(item => !pickUp.leftOver.includes(item));
+        character.groundLoot = dropOnGround(character.groundLoot, droppedLoot.filter(item => !pickedUp.includes(item)));
+        if (pickedUp.length > 0) {
+            updateData.inventory = character.inventory;
+            updateData.gold = character.gold;
+            console.log(`CombatService: Auto-pickup - ${character.name} picked up ${pickedUp.length} items${pickUp.gold > 0 ? ` (${pickUp.gold} gold)` : ''}${pickUp.leftOver.length > 0 ? `, ${pickUp.leftOver.length} did not fit` : ''}.`);
+        }
+        updateData.groundLoot = character.groundLoot;
+
+        // --- Save Character Updates ---
+        if (!await this.mutationQueue.commit(character, updateData)) {
+            return { success: false, message: CHARACTER_CONFLICT_MESSAGE, encounterEnded: packCleared };
+        }
+
+        // --- Prepare Character Update Payload for Client ---
+        const finalTotalXpForCurrentLevel = xpForLevel(character.level);
+        const finalXpToNextLevelBracket = xpRequiredForLevel(character.level); // Use helper
+        const finalCurrentLevelXp = character.experience - finalTotalXpForCurrentLevel;
+
+        const characterUpdatePayload: any = {
+            experience: character.experience,
+            currentLevelXp: finalCurrentLevelXp,
+            xpToNextLevelBracket: finalXpToNextLevelBracket,
+            inventory: character.inventory, // Send updated inventory
+            gold: character.gold,
+            groundLoot: character.groundLoot,
+        };
+        if (leveledUp) {
+            characterUpdatePayload.level = character.level;
+            // Stats and maximums as displayed, including gear
+            characterUpdatePayload.stats = effectiveCharacter.stats;
+            characterUpdatePayload.derivedStats = effectiveCharacter.derivedStats;
+            characterUpdatePayload.inactiveEquipmentSlots = effectiveCharacter.inactiveEquipmentSlots; // Level requirements may now be met
+            characterUpdatePayload.maxHp = effectiveCharacter.maxHp;
+            characterUpdatePayload.currentHp = character.currentHp;
+            characterUpdatePayload.maxMana = effectiveCharacter.maxMana;
+            characterUpdatePayload.currentMana = character.currentMana;
+            characterUpdatePayload.availableAttributePoints = character.availableAttributePoints;
+            characterUpdatePayload.skillPoints = character.skillPoints;
+            characterUpdatePayload.leveledUp = true;
+            characterUpdatePayload.statIncreases = statIncreases;
+        }
+
+        return {
+            success: true,
+            message: `Defeated ${defeatedNames}!`,
+            playerUpdate: finalHit, // Include the final hit
+            encounterEnded: packCleared,
+            endReason: `Defeated ${defeatedNames}! Gained ${xpGained} XP.`,
+            characterUpdate: characterUpdatePayload,
+            loot: droppedLoot,
+            defeatedMonsterIds: defeated.map(monster => monster.id),
+            targetId: packCleared ? null : encounter.targetId,
+            statusEffectUpdate: clearedDebuffs ? this.describeStatusEffects(character, []) : undefined
+        };
+    }
+
+    /**
+     * Resolves the player's death: clears combat state and respawns the character in town.
+     * @param connectionId Unique identifier for the connection (e.g., WebSocket object).
+     * @param character The defeated character.
+     * @param defeatedByMonsterName The name of the monster that defeated the character.
+     * @param finalHit The update payload of the killing blow (none for status effect ticks).
+     * @returns AttackResult ending the encounter with a respawn.
+     */
+    private async handlePlayerDeath(connectionId: any, character: Character, defeatedByMonsterName: string, finalHit?: MonsterAttackUpdatePayload): Promise<AttackResult> {
+        console.log(`CombatService: Player Death - ${character.name} defeated by ${defeatedByMonsterName}.`);
+
+        this.clearCombatState(connectionId); // Clear intervals and encounter
+
+        // --- Player Death Consequences ---
+        const respawnHp = calculateMaxHp(character.stats, character.class, character.level);
+        const respawnZoneId = 'town'; // Respawn in town
+
+        // Prepare updates for DB
+        const updateData: Partial<Character> = {
+            currentHp: respawnHp,
+            currentZoneId: respawnZoneId,
+            statusEffects: [], // Respawning clears buffs and debuffs
+            // TODO: Consider XP loss or other penalties?
+        };
+        if (!await this.mutationQueue.commit(character, updateData)) {
+            return { success: false, message: CHARACTER_CONFLICT_MESSAGE, encounterEnded: true };
+        }
+
+        // Update local character object for return payload
+        character.currentHp = respawnHp;
+        character.currentZoneId = respawnZoneId;
+        character.statusEffects = [];
+
+        console.log(`CombatService: Respawn - ${character.name} respawned in ${respawnZoneId} with ${respawnHp} HP.`);
+
+        // Prepare Character Update Payload for Client
+        const finalTotalXpForCurrentLevel = xpForLevel(character.level);
+        const finalXpToNextLevelBracket = xpRequiredForLevel(character.level);
+        const finalCurrentLevelXp = character.experience - finalTotalXpForCurrentLevel;
+
+        const characterUpdatePayload = {
+            currentHp: character.currentHp,
+            currentZoneId: character.currentZoneId,
+            statusEffects: character.statusEffects,
+            // Include other relevant stats that might be displayed on death/respawn
+            level: character.level,
+            experience: character.experience,
+            currentLevelXp: finalCurrentLevelXp,
+            xpToNextLevelBracket: finalXpToNextLevelBracket,
+        };
+
+        return {
+            success: true, // Attack happened, player died
+            message: `You were defeated by ${defeatedByMonsterName}!`,
+            monsterUpdate: finalHit,
+            encounterEnded: true,
+            respawn: true,
+            endReason: `Defeated by ${defeatedByMonsterName}! Respawning...`,
+            characterUpdate: characterUpdatePayload
+        };
     }
 
     // TODO: Implement startCombatIntervals (maybe called by handler after findMonster success)
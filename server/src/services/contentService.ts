@@ -0,0 +1,42 @@
+import { ActiveEncountersMap, ContentReloadResult } from '../types.js';
+import { loadGameContent } from '../contentLoader.js';
+
+export class ContentService {
+    private activeEncounters: ActiveEncountersMap;
+    private adminUsernames: Set<string>;
+
+    /**
+     * @param activeEncounters Live encounters, reported (not touched) on reload.
+     * @param adminUsernames Accounts allowed to run admin commands (from ADMIN_USERNAMES), matched exactly
+     * like logins are, so a differently cased account such as "Alice" is not an admin named "alice".
+     */
+    constructor(activeEncounters: ActiveEncountersMap, adminUsernames: string[]) {
+        this.activeEncounters = activeEncounters;
+        this.adminUsernames = new Set(adminUsernames.map(name => name.trim()).filter(name => name.length > 0));
+    }
+
+    /**
+     * Checks whether an account may run admin commands such as content reloads.
+     */
+    isAdmin(username: string): boolean {
+        return this.adminUsernames.has(username);
+    }
+
+    /**
+     * Reloads game content from disk. The new content is validated as a whole and only
+     * activated if it has no errors; otherwise the running content stays in place.
+     * Ongoing encounters keep their monster instances and finish with the stats they started with.
+     * @returns The reload outcome, with validation errors on failure.
+     */
+    reloadContent(): ContentReloadResult {
+        const result = loadGameContent();
+        if (!result.success) {
+            console.warn(`ContentService: Content reload rejected. ${result.message}`);
+            return { success: false, message: result.message, errors: result.errors };
+        }
+
+        const liveEncounters = this.activeEncounters.size;
+        console.log(`ContentService: Content reloaded. ${liveEncounters} live encounters continue with their current monsters.`);
+        return { success: true, message: result.message, counts: result.counts, liveEncounters };
+    }
+}
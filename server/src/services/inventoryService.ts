@@ -1,16 +1,25 @@
-import { Character, Item, EquipmentSlot, ICharacterRepository, InventoryServiceResult } from '../types.js';
-import { calculateCharacterStats } from '../utils.js';
+import { Character, Item, EquipmentSlot, ICharacterRepository, InventoryServiceResult, AutoPotionRule, AutoPickupFilter, GridPosition, BuybackItem } from '../types.js';
+import { calculateCharacterStats, canClassEquipItem, getWeaponType } from '../utils.js';
+import { characterClasses, POTION_COOLDOWN_MS, MAX_AUTO_POTION_RULES, GOLD_BASE_ID, ITEM_QUALITY_ORDER, MAX_BUYBACK_ITEMS } from '../gameData.js';
+import { removeExpiredGroundLoot, pickUpItems } from '../groundLoot.js';
+import { addToInventory, canPlaceItem, withoutGridPosition } from '../inventoryGrid.js';
+import { fitsSlot, getUnmetRequirements, isTwoHanded, planEquip } from '../equipRules.js';
 
 import { items as itemDefinitions } from '../lootData.js';
+import { CharacterMutationQueue, CHARACTER_CONFLICT_MESSAGE } from './characterMutationQueue.js';
 
 
 
 
 export class InventoryService {
     private characterRepository: ICharacterRepository;
+    private mutationQueue: CharacterMutationQueue;
+    // Character ID -> time (ms) when potions can be drunk again; shared by manual and automatic use
+    private potionCooldownEnds: Map<string, number> = new Map();
 
-    constructor(characterRepository: ICharacterRepository) {
+    constructor(characterRepository: ICharacterRepository, mutationQueue: CharacterMutationQueue) {
         this.characterRepository = characterRepository;
+        this.mutationQueue = mutationQueue;
     }
 
     /**
@@ -20,76 +29,92 @@ export class InventoryService {
      * @returns InventoryServiceResult indicating success/failure and the updated character.
      */
     async equipItem(characterId: string, itemId: string): Promise<InventoryServiceResult> {
-        try {
-            const character = await this.characterRepository.findById(characterId);
-            if (!character) {
-                return { success: false, message: 'Character not found' };
-            }
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
 
-            // Ensure inventory and equipment are initialized
-            const currentInventory = character.inventory || [];
-            const currentEquipment = character.equipment || {};
+                // Ensure inventory and equipment are initialized
+                const currentInventory = character.inventory;
+                const currentEquipment = character.equipment;
 
-            const itemIndex = currentInventory.findIndex(item => item.id === itemId);
-            if (itemIndex === -1) {
-                return { success: false, message: 'Item not found in inventory' };
-            }
-            const itemToEquip = currentInventory[itemIndex];
+                const itemIndex = currentInventory.findIndex(item => item.id === itemId);
+                if (itemIndex === -1) {
+                    return { success: false, message: 'Item not found in inventory' };
+                }
+                const itemToEquip = currentInventory[itemIndex];
 
-            if (!itemToEquip) {
-                // This case should ideally not happen if findIndex succeeded
-                console.error(`InventoryService: Item ${itemId} found at index ${itemIndex} but object is undefined.`);
-                return { success: false, message: 'Internal server error finding item' };
-            }
+                if (!itemToEquip) {
+                    // This case should ideally not happen if findIndex succeeded
+                    console.error(`InventoryService: Item ${itemId} found at index ${itemIndex} but object is undefined.`);
+                    return { success: false, message: 'Internal server error finding item' };
+                }
 
-            if (!itemToEquip.equipmentSlot) {
-                return { success: false, message: 'Item is not equippable' };
-            }
-            const targetSlot = itemToEquip.equipmentSlot;
+                if (!itemToEquip.equipmentSlot) {
+                    return { success: false, message: 'Item is not equippable' };
+                }
+                if (!canClassEquipItem(character.class, itemToEquip)) {
+                    const className = characterClasses.get(character.class)?.name ?? character.class;
+                    return { success: false, message: `A ${className} cannot use ${getWeaponType(itemToEquip)} weapons` };
+                }
+                const unmetRequirements = getUnmetRequirements(character, itemToEquip);
+                if (unmetRequirements.length > 0) {
+                    return { success: false, message: `Requires ${unmetRequirements.join(', ')}` };
+                }
+                const { slot: targetSlot, displaced } = planEquip(currentEquipment, { ...itemToEquip, equipmentSlot: itemToEquip.equipmentSlot });
 
-            // Prepare updates
-            const newInventory = [...currentInventory];
-            const newEquipment = { ...currentEquipment };
+                // Prepare updates
+                const newInventory = [...currentInventory];
+                const newEquipment = { ...currentEquipment };
 
-            // Remove item from inventory
-            newInventory.splice(itemIndex, 1);
+                // Remove item from inventory
+                newInventory.splice(itemIndex, 1);
 
-            // Move currently equipped item (if any) to inventory
-            const currentItemInSlot = newEquipment[targetSlot];
-            if (currentItemInSlot) {
-                newInventory.push(currentItemInSlot);
-            }
+                // Move the items it replaces (the slot's item, or both hands for a two-handed weapon) to inventory,
+                // the first one preferably into the cells just freed
+                for (const [index, displacedSlot] of displaced.entries()) {
+                    const displacedItem = newEquipment[displacedSlot]!;
+                    if (!addToInventory(newInventory, displacedItem, index === 0 ? itemToEquip.gridPosition : undefined)) {
+                        return { success: false, message: `Inventory is full (no room for ${displacedItem.name}).` };
+                    }
+                    delete newEquipment[displacedSlot];
+                }
 
-            // Place new item in equipment slot
-            newEquipment[targetSlot] = itemToEquip;
+                // Place new item in equipment slot
+                newEquipment[targetSlot] = withoutGridPosition(itemToEquip);
 
-            // Prepare update payload for the repository
-            const updates: Partial<Character> = {
-                inventory: newInventory,
-                equipment: newEquipment,
-            };
+                // Prepare update payload for the repository
+                const updates: Partial<Character> = {
+                    inventory: newInventory,
+                    equipment: newEquipment,
+                };
 
-            // Save updates using the repository
-            await this.characterRepository.update(characterId, updates);
+                // Save updates using the repository
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
 
-            // Fetch the fully updated character to recalculate stats and return
-            const updatedCharacterRaw = await this.characterRepository.findById(characterId);
-            if (!updatedCharacterRaw) {
-                 // Should not happen if update succeeded, but handle defensively
-                 console.error(`InventoryService: Failed to fetch character ${characterId} after equip update.`);
-                 return { success: false, message: 'Failed to retrieve updated character data.' };
-            }
+                // Fetch the fully updated character to recalculate stats and return
+                const updatedCharacterRaw = await this.characterRepository.findById(characterId);
+                if (!updatedCharacterRaw) {
+                     // Should not happen if update succeeded, but handle defensively
+                     console.error(`InventoryService: Failed to fetch character ${characterId} after equip update.`);
+                     return { success: false, message: 'Failed to retrieve updated character data.' };
+                }
 
-            // Recalculate stats based on the new equipment
-            const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
+                // Recalculate stats based on the new equipment
+                const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
 
-            console.log(`InventoryService: Character ${finalCharacterData.name} equipped ${itemToEquip.name} to ${targetSlot}.`);
-            return { success: true, message: 'Item equipped.', character: finalCharacterData };
+                console.log(`InventoryService: Character ${finalCharacterData.name} equipped ${itemToEquip.name} to ${targetSlot}.`);
+                return { success: true, message: 'Item equipped.', character: finalCharacterData };
 
-        } catch (error) {
-            console.error(`Error in InventoryService.equipItem for character ${characterId}, item ${itemId}:`, error);
-            return { success: false, message: 'An internal server error occurred while equipping the item.' };
-        }
+            } catch (error) {
+                console.error(`Error in InventoryService.equipItem for character ${characterId}, item ${itemId}:`, error);
+                return { success: false, message: 'An internal server error occurred while equipping the item.' };
+            }
+        });
     }
 
     /**
@@ -99,62 +124,68 @@ export class InventoryService {
      * @returns InventoryServiceResult indicating success/failure and the updated character.
      */
     async unequipItem(characterId: string, slotToUnequip: EquipmentSlot): Promise<InventoryServiceResult> {
-        // Basic validation for slot name (could be enhanced with enum check if needed)
-        const validSlots: EquipmentSlot[] = ['head', 'chest', 'waist', 'hands', 'feet', 'mainHand', 'offHand', 'amulet', 'ring1', 'ring2'];
-        if (!validSlots.includes(slotToUnequip)) {
-            return { success: false, message: 'Invalid equipment slot provided' };
-        }
-
-        try {
-            const character = await this.characterRepository.findById(characterId);
-            if (!character) {
-                return { success: false, message: 'Character not found' };
+        return this.mutationQueue.run(characterId, async () => {
+            // Basic validation for slot name (could be enhanced with enum check if needed)
+            const validSlots: EquipmentSlot[] = ['head', 'chest', 'waist', 'hands', 'feet', 'mainHand', 'offHand', 'amulet', 'ring1', 'ring2'];
+            if (!validSlots.includes(slotToUnequip)) {
+                return { success: false, message: 'Invalid equipment slot provided' };
             }
 
-            // Ensure inventory and equipment are initialized
-            const currentInventory = character.inventory || [];
-            const currentEquipment = character.equipment || {};
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
 
-            const itemToUnequip = currentEquipment[slotToUnequip];
-            if (!itemToUnequip) {
-                return { success: false, message: 'Slot is already empty' };
-            }
+                // Ensure inventory and equipment are initialized
+                const currentInventory = character.inventory;
+                const currentEquipment = character.equipment;
 
-            // Prepare updates
-            const newInventory = [...currentInventory];
-            const newEquipment = { ...currentEquipment };
-
-            // Add item to inventory
-            newInventory.push(itemToUnequip);
-            // Remove item from equipment
-            delete newEquipment[slotToUnequip];
-
-            // Prepare update payload
-            const updates: Partial<Character> = {
-                inventory: newInventory,
-                equipment: newEquipment,
-            };
-
-            // Save updates
-            await this.characterRepository.update(characterId, updates);
-
-            // Fetch updated character
-            const updatedCharacterRaw = await this.characterRepository.findById(characterId);
-             if (!updatedCharacterRaw) {
-                 console.error(`InventoryService: Failed to fetch character ${characterId} after unequip update.`);
-                 return { success: false, message: 'Failed to retrieve updated character data.' };
-            }
+                const itemToUnequip = currentEquipment[slotToUnequip];
+                if (!itemToUnequip) {
+                    return { success: false, message: 'Slot is already empty' };
+                }
 
-            // Recalculate stats
-            const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
+                // Prepare updates
+                const newInventory = [...currentInventory];
+                const newEquipment = { ...currentEquipment };
 
-            console.log(`InventoryService: Character ${finalCharacterData.name} unequipped ${itemToUnequip.name} from ${slotToUnequip}.`);
-            return { success: true, message: 'Item unequipped.', character: finalCharacterData };
+                // Add item to inventory
+                if (!addToInventory(newInventory, itemToUnequip)) {
+                    return { success: false, message: 'Inventory is full.' };
+                }
+                // Remove item from equipment
+                delete newEquipment[slotToUnequip];
+
+                // Prepare update payload
+                const updates: Partial<Character> = {
+                    inventory: newInventory,
+                    equipment: newEquipment,
+                };
+
+                // Save updates
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
 
-        } catch (error) {
-            console.error(`Error in InventoryService.unequipItem for character ${characterId}, slot ${slotToUnequip}:`, error);
-            return { success: false, message: 'An internal server error occurred while unequipping the item.' };
-        }
+                // Fetch updated character
+                const updatedCharacterRaw = await this.characterRepository.findById(characterId);
+                 if (!updatedCharacterRaw) {
+                     console.error(`InventoryService: Failed to fetch character ${characterId} after unequip update.`);
+                     return { success: false, message: 'Failed to retrieve updated character data.' };
+                }
+
+                // Recalculate stats
+                const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
+
+                console.log(`InventoryService: Character ${finalCharacterData.name} unequipped ${itemToUnequip.name} from ${slotToUnequip}.`);
+                return { success: true, message: 'Item unequipped.', character: finalCharacterData };
+
+            } catch (error) {
+                console.error(`Error in InventoryService.unequipItem for character ${characterId}, slot ${slotToUnequip}:`, error);
+                return { success: false, message: 'An internal server error occurred while unequipping the item.' };
+            }
+        });
     }
 
     /**
@@ -164,68 +195,76 @@ export class InventoryService {
      * @returns InventoryServiceResult indicating success/failure and the updated character.
      */
     async sellItem(characterId: string, itemId: string): Promise<InventoryServiceResult> {
-        try {
-            const character = await this.characterRepository.findById(characterId);
-            if (!character) {
-                return { success: false, message: 'Character not found' };
-            }
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
 
-            const currentInventory = character.inventory || [];
+                const currentInventory = character.inventory;
 
-            const itemIndex = currentInventory.findIndex(item => item.id === itemId);
-            if (itemIndex === -1) {
-                return { success: false, message: 'Item not found in inventory' };
-            }
-            const itemToSell = currentInventory[itemIndex];
+                const itemIndex = currentInventory.findIndex(item => item.id === itemId);
+                if (itemIndex === -1) {
+                    return { success: false, message: 'Item not found in inventory' };
+                }
+                const itemToSell = currentInventory[itemIndex];
 
-            if (!itemToSell) {
-                console.error(`InventoryService: Sell Error - Item ${itemId} found at index ${itemIndex} but object is undefined.`);
-                return { success: false, message: 'Internal server error finding item to sell' };
-            }
+                if (!itemToSell) {
+                    console.error(`InventoryService: Sell Error - Item ${itemId} found at index ${itemIndex} but object is undefined.`);
+                    return { success: false, message: 'Internal server error finding item to sell' };
+                }
 
-            // Prevent selling gold itself (if it were ever an item)
-            if (itemToSell.baseId === 'gold_coins') {
-                return { success: false, message: 'Cannot sell gold' };
-            }
+                // Prevent selling gold itself (if it were ever an item)
+                if (itemToSell.baseId === GOLD_BASE_ID) {
+                    return { success: false, message: 'Cannot sell gold' };
+                }
 
-            // Get sell value from static data, default to 1 if not found
-            const baseItemData = itemDefinitions.get(itemToSell.baseId);
-            // Ensure sellValue is treated as a number, default to 1 if undefined or not a number
-            const sellValue = (typeof baseItemData?.sellValue === 'number') ? baseItemData.sellValue : 1;
+                // Get sell value from static data, default to 1 if not found
+                const baseItemData = itemDefinitions.get(itemToSell.baseId);
+                // Ensure sellValue is treated as a number, default to 1 if undefined or not a number
+                const sellValue = (typeof baseItemData?.sellValue === 'number') ? baseItemData.sellValue : 1;
 
 
-            // Prepare updates
-            const newInventory = [...currentInventory];
-            newInventory.splice(itemIndex, 1); // Remove item
+                // Prepare updates
+                const newInventory = [...currentInventory];
+                newInventory.splice(itemIndex, 1); // Remove item
 
-            const currentGold = character.gold || 0;
-            const newGold = currentGold + sellValue;
+                const currentGold = character.gold || 0;
+                const newGold = currentGold + sellValue;
 
-            const updates: Partial<Character> = {
-                inventory: newInventory,
-                gold: newGold,
-            };
+                // Keep it for buying back at the same price, dropping the oldest sale beyond the limit
+                const buyback: BuybackItem[] = [{ ...withoutGridPosition(itemToSell), buybackPrice: sellValue }, ...character.buyback].slice(0, MAX_BUYBACK_ITEMS);
 
-            // Save updates
-            await this.characterRepository.update(characterId, updates);
+                const updates: Partial<Character> = {
+                    inventory: newInventory,
+                    gold: newGold,
+                    buyback,
+                };
 
-            // Fetch updated character
-            const updatedCharacterRaw = await this.characterRepository.findById(characterId);
-            if (!updatedCharacterRaw) {
-                 console.error(`InventoryService: Failed to fetch character ${characterId} after sell update.`);
-                 return { success: false, message: 'Failed to retrieve updated character data.' };
-            }
+                // Save updates
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
 
-            // Recalculate stats (might not be necessary for selling, but good practice)
-            const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
+                // Fetch updated character
+                const updatedCharacterRaw = await this.characterRepository.findById(characterId);
+                if (!updatedCharacterRaw) {
+                     console.error(`InventoryService: Failed to fetch character ${characterId} after sell update.`);
+                     return { success: false, message: 'Failed to retrieve updated character data.' };
+                }
 
-            console.log(`InventoryService: Character ${finalCharacterData.name} sold ${itemToSell.name} for ${sellValue} gold. New gold: ${finalCharacterData.gold}.`);
-            return { success: true, message: 'Item sold.', character: finalCharacterData };
+                // Recalculate stats (might not be necessary for selling, but good practice)
+                const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
 
-        } catch (error) {
-            console.error(`Error in InventoryService.sellItem for character ${characterId}, item ${itemId}:`, error);
-            return { success: false, message: 'An internal server error occurred while selling the item.' };
-        }
+                console.log(`InventoryService: Character ${finalCharacterData.name} sold ${itemToSell.name} for ${sellValue} gold. New gold: ${finalCharacterData.gold}.`);
+                return { success: true, message: 'Item sold.', character: finalCharacterData };
+
+            } catch (error) {
+                console.error(`Error in InventoryService.sellItem for character ${characterId}, item ${itemId}:`, error);
+                return { success: false, message: 'An internal server error occurred while selling the item.' };
+            }
+        });
     }
 
     /**
@@ -236,52 +275,56 @@ export class InventoryService {
      * @returns InventoryServiceResult indicating success/failure and the updated character.
      */
     async assignPotionSlot(characterId: string, slotNumber: 1 | 2, itemBaseId: string | null): Promise<InventoryServiceResult> {
-        try {
-            const character = await this.characterRepository.findById(characterId);
-            if (!character) {
-                return { success: false, message: 'Character not found' };
-            }
-
-            // If assigning an item, verify it's a potion and exists in inventory
-            if (itemBaseId) {
-                const potionDefinition = itemDefinitions.get(itemBaseId);
-                if (!potionDefinition || potionDefinition.type !== 'potion') {
-                    return { success: false, message: `Item ${itemBaseId} is not a valid potion.` };
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
                 }
-                const hasPotion = (character.inventory || []).some(item => item.baseId === itemBaseId);
-                if (!hasPotion) {
-                    return { success: false, message: `Potion ${potionDefinition.name} not found in inventory.` };
+
+                // If assigning an item, verify it's a potion and exists in inventory
+                if (itemBaseId) {
+                    const potionDefinition = itemDefinitions.get(itemBaseId);
+                    if (!potionDefinition || potionDefinition.type !== 'potion') {
+                        return { success: false, message: `Item ${itemBaseId} is not a valid potion.` };
+                    }
+                    const hasPotion = (character.inventory).some(item => item.baseId === itemBaseId);
+                    if (!hasPotion) {
+                        return { success: false, message: `Potion ${potionDefinition.name} not found in inventory.` };
+                    }
                 }
-            }
 
-            // Prepare updates
-            const updates: Partial<Character> = {};
-            if (slotNumber === 1) {
-                updates.potionSlot1 = itemBaseId ?? undefined; // Use undefined to clear field in DB if null
-            } else {
-                updates.potionSlot2 = itemBaseId ?? undefined;
-            }
+                // Prepare updates
+                const updates: Partial<Character> = {};
+                if (slotNumber === 1) {
+                    updates.potionSlot1 = itemBaseId ?? undefined; // Use undefined to clear field in DB if null
+                } else {
+                    updates.potionSlot2 = itemBaseId ?? undefined;
+                }
 
-            // Save updates
-            await this.characterRepository.update(characterId, updates);
+                // Save updates
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
 
-            // Fetch updated character
-            const updatedCharacterRaw = await this.characterRepository.findById(characterId);
-            if (!updatedCharacterRaw) {
-                 console.error(`InventoryService: Failed to fetch character ${characterId} after assign potion slot update.`);
-                 return { success: false, message: 'Failed to retrieve updated character data.' };
-            }
+                // Fetch updated character
+                const updatedCharacterRaw = await this.characterRepository.findById(characterId);
+                if (!updatedCharacterRaw) {
+                     console.error(`InventoryService: Failed to fetch character ${characterId} after assign potion slot update.`);
+                     return { success: false, message: 'Failed to retrieve updated character data.' };
+                }
 
-            // Recalculate stats (likely no change, but good practice)
-            const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
+                // Recalculate stats (likely no change, but good practice)
+                const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
 
-            console.log(`InventoryService: Character ${finalCharacterData.name} assigned ${itemBaseId ?? 'nothing'} to potion slot ${slotNumber}.`);
-            return { success: true, message: `Potion slot ${slotNumber} updated.`, character: finalCharacterData };
+                console.log(`InventoryService: Character ${finalCharacterData.name} assigned ${itemBaseId ?? 'nothing'} to potion slot ${slotNumber}.`);
+                return { success: true, message: `Potion slot ${slotNumber} updated.`, character: finalCharacterData };
 
-        } catch (error) {
-            console.error(`Error in InventoryService.assignPotionSlot for character ${characterId}, slot ${slotNumber}:`, error);
-            return { success: false, message: 'An internal server error occurred while assigning the potion slot.' };
-        }
+            } catch (error) {
+                console.error(`Error in InventoryService.assignPotionSlot for character ${characterId}, slot ${slotNumber}:`, error);
+                return { success: false, message: 'An internal server error occurred while assigning the potion slot.' };
+            }
+        });
     }
 
      /**
@@ -291,104 +334,388 @@ export class InventoryService {
      * @returns InventoryServiceResult indicating success/failure and the updated character.
      */
     async usePotionSlot(characterId: string, slotNumber: 1 | 2): Promise<InventoryServiceResult> {
-        try {
-            const character = await this.characterRepository.findById(characterId);
-            if (!character) {
-                return { success: false, message: 'Character not found' };
-            }
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
 
-            const potionBaseId = slotNumber === 1 ? character.potionSlot1 : character.potionSlot2;
-            if (!potionBaseId) {
-                return { success: false, message: `Potion slot ${slotNumber} is empty.` }; // Changed from info to error for consistency
+                const cooldownRemaining = this.getPotionCooldownRemaining(characterId);
+                if (cooldownRemaining > 0) {
+                    return { success: false, message: `Potions are on cooldown (${(cooldownRemaining / 1000).toFixed(1)}s).` };
+                }
+                return await this.drinkPotion(character, slotNumber);
+            } catch (error) {
+                console.error(`Error in InventoryService.usePotionSlot for character ${characterId}, slot ${slotNumber}:`, error);
+                return { success: false, message: 'An internal server error occurred while using the potion.' };
             }
+        });
+    }
 
-            const potionDefinition = itemDefinitions.get(potionBaseId);
-            // Check for potion effect definition - this needs refinement based on actual Item type structure
-            if (!potionDefinition || potionDefinition.type !== 'potion' /* || !potionDefinition.effect */) {
-                 console.error(`InventoryService: Potion definition or effect not found for baseId: ${potionBaseId}`);
-                 // Need to define how effects are stored on Item type in types.ts
-                 // Assuming effect structure like { health?: number; healthPercent?: number; mana?: number; manaPercent?: number }
-                 return { success: false, message: 'Invalid potion data definition.' };
-            }
-            // Assuming effect structure exists on the definition (needs type update)
-            const effect = (potionDefinition as any).effect as { health?: number; healthPercent?: number; mana?: number; manaPercent?: number } || {};
+    // --- Auto-Potion ---
 
+    /**
+     * Evaluates the character's auto-potion rules in order and drinks the potion of the first rule
+     * whose resource is below its threshold (and whose potion can be drunk). Called after monster attacks.
+     * Does nothing while the shared potion cooldown is running.
+     * @param characterId The ID of the character.
+     * @returns InventoryServiceResult with the updated character if a potion was drunk, otherwise success: false.
+     */
+    async applyAutoPotionRules(characterId: string): Promise<InventoryServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character || character.autoPotionRules.length === 0 || character.currentHp <= 0) {
+                    return { success: false, message: 'No auto-potion rule applies.' };
+                }
+                if (this.getPotionCooldownRemaining(characterId) > 0) {
+                    return { success: false, message: 'Potions are on cooldown.' };
+                }
 
-            const currentInventory = character.inventory || [];
-            const inventoryIndex = currentInventory.findIndex(item => item.baseId === potionBaseId);
-            if (inventoryIndex === -1) {
-                return { success: false, message: `No ${potionDefinition.name} found in inventory.` }; // Changed from info to error
+                const { maxHp, maxMana } = calculateCharacterStats(character);
+                for (const rule of character.autoPotionRules) {
+                    const [current, max] = rule.resource === 'hp' ? [character.currentHp, maxHp] : [character.currentMana, maxMana];
+                    if (max <= 0 || current >= max * rule.thresholdPercent / 100) {
+                        continue;
+                    }
+                    // An empty slot or a potion that restores nothing falls through to the next rule
+                    const result = await this.drinkPotion(character, rule.potionSlot);
+                    if (result.success) {
+                        const resourceName = rule.resource === 'hp' ? 'HP' : 'mana';
+                        return { ...result, message: `Auto-potion (${resourceName} below ${rule.thresholdPercent}%): ${result.message}` };
+                    }
+                }
+                return { success: false, message: 'No auto-potion rule applies.' };
+            } catch (error) {
+                console.error(`Error in InventoryService.applyAutoPotionRules for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred while applying auto-potion rules.' };
             }
+        });
+    }
+
+    /**
+     * Replaces the character's auto-potion rules.
+     * @param characterId The ID of the character.
+     * @param rules The new rules, evaluated in this order.
+     * @returns InventoryServiceResult indicating success/failure and the updated character.
+     */
+    async setAutoPotionRules(characterId: string, rules: unknown[]): Promise<InventoryServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+                if (rules.length > MAX_AUTO_POTION_RULES) {
+                    return { success: false, message: `At most ${MAX_AUTO_POTION_RULES} auto-potion rules are allowed.` };
+                }
 
-            const potionToUse = currentInventory[inventoryIndex];
-             if (!potionToUse) {
-                 console.error(`InventoryService: Use Potion Error - Item ${potionBaseId} found at index ${inventoryIndex} but object is undefined.`);
-                 return { success: false, message: 'Internal server error finding potion' };
-             }
-
-            // Calculate effect
-            let hpRestored = 0;
-            let manaRestored = 0;
-            const maxHp = character.maxHp || 0;
-            const currentHp = character.currentHp || 0;
-            const maxMana = character.maxMana || 0;
-            const currentMana = character.currentMana || 0;
-
-            if (effect.health) {
-                hpRestored = Math.min(effect.health, maxHp - currentHp);
-            } else if (effect.healthPercent) {
-                hpRestored = Math.min(Math.floor(maxHp * effect.healthPercent), maxHp - currentHp);
+                const autoPotionRules: AutoPotionRule[] = [];
+                for (const rule of rules) {
+                    const data = (typeof rule === 'object' && rule !== null ? rule : {}) as Record<string, unknown>;
+                    if (data.potionSlot !== 1 && data.potionSlot !== 2) {
+                        return { success: false, message: 'Invalid auto-potion rule: potion slot must be 1 or 2.' };
+                    }
+                    if (data.resource !== 'hp' && data.resource !== 'mana') {
+                        return { success: false, message: 'Invalid auto-potion rule: resource must be hp or mana.' };
+                    }
+                    const thresholdPercent = data.thresholdPercent;
+                    if (typeof thresholdPercent !== 'number' || !Number.isInteger(thresholdPercent) || thresholdPercent < 1 || thresholdPercent > 99) {
+                        return { success: false, message: 'Invalid auto-potion rule: threshold must be a whole percent from 1 to 99.' };
+                    }
+                    autoPotionRules.push({ potionSlot: data.potionSlot, resource: data.resource, thresholdPercent });
+                }
+
+                if (!await this.mutationQueue.commit(character, { autoPotionRules })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`InventoryService: Character ${character.name} set ${autoPotionRules.length} auto-potion rules.`);
+                return { success: true, message: 'Auto-potion rules updated.', character: calculateCharacterStats({ ...character, autoPotionRules }) };
+            } catch (error) {
+                console.error(`Error in InventoryService.setAutoPotionRules for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred while setting auto-potion rules.' };
             }
+        });
+    }
 
-            if (effect.mana) {
-                manaRestored = Math.min(effect.mana, maxMana - currentMana);
-            } else if (effect.manaPercent) {
-                manaRestored = Math.min(Math.floor(maxMana * effect.manaPercent), maxMana - currentMana);
+    /**
+     * Moves an item to another position of the inventory grid. Items left without a position
+     * (because they did not fit when the grid was introduced) can be moved onto the grid this way.
+     * @param characterId The ID of the character.
+     * @param itemId The ID of the item instance in the inventory.
+     * @param position The new top-left cell.
+     * @returns InventoryServiceResult indicating success/failure and the updated character.
+     */
+    async moveItem(characterId: string, itemId: string, position: GridPosition): Promise<InventoryServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+
+                const item = character.inventory.find(invItem => invItem.id === itemId);
+                if (!item) {
+                    return { success: false, message: 'Item not found in inventory' };
+                }
+                if (!canPlaceItem(character.inventory, item, position)) {
+                    return { success: false, message: `${item.name} does not fit there.` };
+                }
+
+                const inventory = character.inventory.map(invItem => invItem === item ? { ...item, gridPosition: { x: position.x, y: position.y } } : invItem);
+                if (!await this.mutationQueue.commit(character, { inventory })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                return { success: true, message: `Moved ${item.name}.`, character: calculateCharacterStats({ ...character, inventory }) };
+            } catch (error) {
+                console.error(`Error in InventoryService.moveItem for character ${characterId}, item ${itemId}:`, error);
+                return { success: false, message: 'An internal server error occurred while moving the item.' };
             }
+        });
+    }
 
-            hpRestored = Math.max(0, hpRestored); // Ensure non-negative
-            manaRestored = Math.max(0, manaRestored); // Ensure non-negative
+    // --- Ground Loot ---
 
-            if (hpRestored === 0 && manaRestored === 0) {
-                 return { success: false, message: `Could not use ${potionDefinition.name} (already full?).` }; // Changed from info
+    /**
+     * Picks up a single item from the ground.
+     * @param characterId The ID of the character.
+     * @param itemId The ID of the item instance on the ground.
+     * @returns InventoryServiceResult indicating success/failure and the updated character.
+     */
+    async pickUpItem(characterId: string, itemId: string): Promise<InventoryServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+
+                const groundLoot = removeExpiredGroundLoot(character.groundLoot);
+                const item = groundLoot.find(groundItem => groundItem.id === itemId);
+                if (!item) {
+                    return { success: false, message: 'Item is no longer on the ground.' };
+                }
+
+                if (pickUpItems(character, [item]).leftOver.length > 0) {
+                    return { success: false, message: `Inventory is full (no room for ${item.name}).` };
+                }
+                const updates: Partial<Character> = {
+                    inventory: character.inventory,
+                    gold: character.gold,
+                    groundLoot: groundLoot.filter(groundItem => groundItem !== item)
+                };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`InventoryService: Character ${character.name} picked up ${item.name}.`);
+                return { success: true, message: `Picked up ${item.name}.`, character: calculateCharacterStats({ ...character, ...updates }) };
+            } catch (error) {
+                console.error(`Error in InventoryService.pickUpItem for character ${characterId}, item ${itemId}:`, error);
+                return { success: false, message: 'An internal server error occurred while picking up the item.' };
             }
+        });
+    }
+
+    /**
+     * Picks up everything on the ground.
+     * @param characterId The ID of the character.
+     * @returns InventoryServiceResult indicating success/failure and the updated character.
+     */
+    async pickUpAll(characterId: string): Promise<InventoryServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
 
-            // Prepare updates
-            const updates: Partial<Character> = {};
-            const newInventory = [...currentInventory];
+                const groundLoot = removeExpiredGroundLoot(character.groundLoot);
+                if (groundLoot.length === 0) {
+                    return { success: false, message: 'Nothing on the ground.' };
+                }
 
-            if (hpRestored > 0) updates.currentHp = currentHp + hpRestored;
-            if (manaRestored > 0) updates.currentMana = currentMana + manaRestored;
+                // Whatever does not fit stays on the ground
+                const { leftOver } = pickUpItems(character, groundLoot);
+                const pickedUpCount = groundLoot.length - leftOver.length;
+                if (pickedUpCount === 0) {
+                    return { success: false, message: 'Inventory is full.' };
+                }
+                const updates: Partial<Character> = {
+                    inventory: character.inventory,
+                    gold: character.gold,
+                    groundLoot: groundLoot.filter(groundItem => leftOver.includes(groundItem))
+                };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
 
-            // Update inventory (decrement quantity or remove)
-            if (potionToUse.quantity && potionToUse.quantity > 1) {
-                // Create a new item object with decremented quantity to avoid mutating the original
-                 newInventory[inventoryIndex] = { ...potionToUse, quantity: potionToUse.quantity - 1 };
-            } else {
-                newInventory.splice(inventoryIndex, 1);
+                console.log(`InventoryService: Character ${character.name} picked up ${pickedUpCount} items from the ground (${leftOver.length} did not fit).`);
+                const message = leftOver.length > 0 ? `Picked up ${pickedUpCount} items; ${leftOver.length} did not fit.` : `Picked up ${pickedUpCount} items.`;
+                return { success: true, message, character: calculateCharacterStats({ ...character, ...updates }) };
+            } catch (error) {
+                console.error(`Error in InventoryService.pickUpAll for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred while picking up items.' };
             }
-            updates.inventory = newInventory;
+        });
+    }
 
-            // Save updates
-            await this.characterRepository.update(characterId, updates);
+    /**
+     * Replaces the character's auto-pickup filter.
+     * @param characterId The ID of the character.
+     * @param filter The new filter (checked here, as it comes straight from the client).
+     * @returns InventoryServiceResult indicating success/failure and the updated character.
+     */
+    async setAutoPickupFilter(characterId: string, filter: unknown): Promise<InventoryServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
 
-            // Fetch updated character
-            const updatedCharacterRaw = await this.characterRepository.findById(characterId);
-            if (!updatedCharacterRaw) {
-                 console.error(`InventoryService: Failed to fetch character ${characterId} after use potion update.`);
-                 return { success: false, message: 'Failed to retrieve updated character data.' };
+                const data = (typeof filter === 'object' && filter !== null ? filter : {}) as Record<string, unknown>;
+                if (typeof data.enabled !== 'boolean' || typeof data.gold !== 'boolean') {
+                    return { success: false, message: 'Invalid auto-pickup filter: enabled and gold must be true or false.' };
+                }
+                if (!ITEM_QUALITY_ORDER.includes(data.minQuality as AutoPickupFilter['minQuality'])) {
+                    return { success: false, message: `Invalid auto-pickup filter: minimum quality must be one of ${ITEM_QUALITY_ORDER.join(', ')}.` };
+                }
+                const itemTypes: Item['type'][] = ['weapon', 'armor', 'potion', 'misc'];
+                if (!Array.isArray(data.types) || !data.types.every(type => itemTypes.includes(type))) {
+                    return { success: false, message: `Invalid auto-pickup filter: types must be a list of ${itemTypes.join(', ')}.` };
+                }
+                if (!Array.isArray(data.baseIds) || !data.baseIds.every(baseId => typeof baseId === 'string' && itemDefinitions.has(baseId))) {
+                    return { success: false, message: 'Invalid auto-pickup filter: unknown item in the always-pick-up list.' };
+                }
+
+                const autoPickupFilter: AutoPickupFilter = {
+                    enabled: data.enabled,
+                    minQuality: data.minQuality as AutoPickupFilter['minQuality'],
+                    types: Array.from(new Set(data.types as Item['type'][])),
+                    baseIds: Array.from(new Set(data.baseIds as string[])),
+                    gold: data.gold
+                };
+                if (!await this.mutationQueue.commit(character, { autoPickupFilter })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`InventoryService: Character ${character.name} updated the auto-pickup filter.`);
+                return { success: true, message: 'Auto-pickup filter updated.', character: calculateCharacterStats({ ...character, autoPickupFilter }) };
+            } catch (error) {
+                console.error(`Error in InventoryService.setAutoPickupFilter for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred while setting the auto-pickup filter.' };
             }
+        });
+    }
+
+    /**
+     * Milliseconds left on the character's shared potion cooldown (0 when potions are ready).
+     */
+    private getPotionCooldownRemaining(characterId: string): number {
+        const cooldownEnd = this.potionCooldownEnds.get(characterId);
+        if (cooldownEnd === undefined) return 0;
+        const remaining = cooldownEnd - Date.now();
+        if (remaining <= 0) {
+            this.potionCooldownEnds.delete(characterId);
+            return 0;
+        }
+        return remaining;
+    }
+
+    /**
+     * Drinks the potion assigned to a quick slot and starts the shared potion cooldown.
+     * Must run inside the character's mutation queue.
+     * @param character The character as loaded in the running queue task.
+     * @param slotNumber The slot number (1 or 2) to use.
+     * @returns InventoryServiceResult indicating success/failure and the updated character.
+     */
+    private async drinkPotion(character: Character, slotNumber: 1 | 2): Promise<InventoryServiceResult> {
+        const characterId = character.id;
+        const potionBaseId = slotNumber === 1 ? character.potionSlot1 : character.potionSlot2;
+        if (!potionBaseId) {
+            return { success: false, message: `Potion slot ${slotNumber} is empty.` }; // Changed from info to error for consistency
+        }
+
+        const potionDefinition = itemDefinitions.get(potionBaseId);
+        if (!potionDefinition || potionDefinition.type !== 'potion' || !potionDefinition.effect) {
+             console.error(`InventoryService: Potion definition or effect not found for baseId: ${potionBaseId}`);
+             return { success: false, message: 'Invalid potion data definition.' };
+        }
+        const effect = potionDefinition.effect;
 
-            // Recalculate stats
-            const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
 
-            console.log(`InventoryService: Character ${finalCharacterData.name} used ${potionDefinition.name}. HP restored: ${hpRestored}, Mana restored: ${manaRestored}.`);
-            return { success: true, message: `Used ${potionDefinition.name}.`, character: finalCharacterData };
+        const currentInventory = character.inventory;
+        const inventoryIndex = currentInventory.findIndex(item => item.baseId === potionBaseId);
+        if (inventoryIndex === -1) {
+            return { success: false, message: `No ${potionDefinition.name} found in inventory.` }; // Changed from info to error
+        }
 
-        } catch (error) {
-            console.error(`Error in InventoryService.usePotionSlot for character ${characterId}, slot ${slotNumber}:`, error);
-            return { success: false, message: 'An internal server error occurred while using the potion.' };
+        const potionToUse = currentInventory[inventoryIndex];
+         if (!potionToUse) {
+             console.error(`InventoryService: Use Potion Error - Item ${potionBaseId} found at index ${inventoryIndex} but object is undefined.`);
+             return { success: false, message: 'Internal server error finding potion' };
+         }
+
+        // Calculate effect against the max HP/mana including gear
+        let hpRestored = 0;
+        let manaRestored = 0;
+        const { maxHp, maxMana } = calculateCharacterStats(character);
+        const currentHp = character.currentHp || 0;
+        const currentMana = character.currentMana || 0;
+
+        // Flat and percent restores add up (a rejuvenation potion restores a percent of both)
+        const hpRestore = (effect.health ?? 0) + Math.floor(maxHp * (effect.healthPercent ?? 0));
+        const manaRestore = (effect.mana ?? 0) + Math.floor(maxMana * (effect.manaPercent ?? 0));
+        hpRestored = Math.min(hpRestore, maxHp - currentHp);
+        manaRestored = Math.min(manaRestore, maxMana - currentMana);
+
+        hpRestored = Math.max(0, hpRestored); // Ensure non-negative
+        manaRestored = Math.max(0, manaRestored); // Ensure non-negative
+
+        if (hpRestored === 0 && manaRestored === 0) {
+             return { success: false, message: `Could not use ${potionDefinition.name} (already full?).` }; // Changed from info
         }
+
+        // Prepare updates
+        const updates: Partial<Character> = {};
+        const newInventory = [...currentInventory];
+
+        if (hpRestored > 0) updates.currentHp = currentHp + hpRestored;
+        if (manaRestored > 0) updates.currentMana = currentMana + manaRestored;
+
+        // Update inventory (decrement quantity or remove)
+        if (potionToUse.quantity && potionToUse.quantity > 1) {
+            // Create a new item object with decremented quantity to avoid mutating the original
+             newInventory[inventoryIndex] = { ...potionToUse, quantity: potionToUse.quantity - 1 };
+        } else {
+            newInventory.splice(inventoryIndex, 1);
+        }
+        updates.inventory = newInventory;
+
+        // Save updates
+        if (!await this.mutationQueue.commit(character, updates)) {
+            return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+        }
+
+        // Fetch updated character
+        const updatedCharacterRaw = await this.characterRepository.findById(characterId);
+        if (!updatedCharacterRaw) {
+             console.error(`InventoryService: Failed to fetch character ${characterId} after use potion update.`);
+             return { success: false, message: 'Failed to retrieve updated character data.' };
+        }
+
+        // Recalculate stats
+        const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
+
+        // Every potion shares one cooldown
+        this.potionCooldownEnds.set(characterId, Date.now() + POTION_COOLDOWN_MS);
+
+        console.log(`InventoryService: Character ${finalCharacterData.name} used ${potionDefinition.name}. HP restored: ${hpRestored}, Mana restored: ${manaRestored}.`);
+        return { success: true, message: `Used ${potionDefinition.name}.`, character: finalCharacterData };
     }
 
     /**
@@ -398,137 +725,154 @@ export class InventoryService {
      * @returns InventoryServiceResult indicating success/failure and the updated character.
      */
     async autoEquipBestStat(characterId: string, statKey: keyof Character['stats']): Promise<InventoryServiceResult> {
-         // Validate targetStat is a valid keyof Character['stats']
-        const validStats: (keyof Character['stats'])[] = ['strength', 'dexterity', 'vitality', 'energy'];
-        if (!validStats.includes(statKey)) {
-            return { success: false, message: `Invalid stat for auto-equip: ${statKey}` };
-        }
+        return this.mutationQueue.run(characterId, async () => {
+             // Validate targetStat is a valid keyof Character['stats']
+            const validStats: (keyof Character['stats'])[] = ['strength', 'dexterity', 'vitality', 'energy'];
+            if (!validStats.includes(statKey)) {
+                return { success: false, message: `Invalid stat for auto-equip: ${statKey}` };
+            }
 
-        console.log(`InventoryService: Character ${characterId} requested auto-equip for stat: ${statKey}`);
+            console.log(`InventoryService: Character ${characterId} requested auto-equip for stat: ${statKey}`);
 
-        try {
-            const character = await this.characterRepository.findById(characterId);
-            if (!character) {
-                return { success: false, message: 'Character not found' };
-            }
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
 
-            // --- Auto-Equip Logic ---
-            const currentEquipment = character.equipment || {};
-            const currentInventory = character.inventory || [];
-            const itemsToEquip: { item: Item; targetSlot: EquipmentSlot }[] = [];
-            const slotsToUnequip: EquipmentSlot[] = [];
-            const inventoryIndicesToRemove: number[] = []; // Track indices to remove *from the original inventory array*
-
-            const allSlots: EquipmentSlot[] = ['head', 'chest', 'waist', 'hands', 'feet', 'mainHand', 'offHand', 'amulet', 'ring1', 'ring2'];
-
-            for (const slot of allSlots) {
-                let bestItemForSlot: Item | null = null;
-                let bestStatValue = -Infinity;
-                let bestItemInventoryIndex = -1;
-
-                // Consider the currently equipped item as the baseline
-                const currentlyEquippedItem = currentEquipment[slot];
-                const currentStatValue = currentlyEquippedItem?.stats?.[statKey] ?? 0;
-                bestStatValue = currentStatValue; // Initialize best value with current item's stat
-
-                // Iterate through inventory to find a better item for this slot
-                for (let i = 0; i < currentInventory.length; i++) {
-                    const item = currentInventory[i];
-                    // Skip if item is invalid, already marked for removal for another slot, or doesn't fit this slot
-                    if (!item || inventoryIndicesToRemove.includes(i) || item.equipmentSlot !== slot) {
-                        continue;
+                // --- Auto-Equip Logic ---
+                const currentEquipment = character.equipment;
+                const currentInventory = character.inventory;
+                const itemsToEquip: { item: Item; targetSlot: EquipmentSlot }[] = [];
+                const slotsToUnequip: EquipmentSlot[] = [];
+                const inventoryIndicesToRemove: number[] = []; // Track indices to remove *from the original inventory array*
+
+                const allSlots: EquipmentSlot[] = ['head', 'chest', 'waist', 'hands', 'feet', 'mainHand', 'offHand', 'amulet', 'ring1', 'ring2'];
+
+                for (const slot of allSlots) {
+                    // Nothing goes next to a two-handed weapon (mainHand is decided before offHand)
+                    if (slot === 'offHand') {
+                        const mainHand = itemsToEquip.find(entry => entry.targetSlot === 'mainHand')?.item ?? currentEquipment.mainHand;
+                        if (mainHand && isTwoHanded(mainHand)) {
+                            if (currentEquipment.offHand) slotsToUnequip.push('offHand');
+                            continue;
+                        }
                     }
-                    const itemStatValue = item.stats?.[statKey] ?? 0;
-                    // If this item is better than the current best (which might be the equipped item or another inventory item)
-                    if (itemStatValue > bestStatValue) {
-                        bestStatValue = itemStatValue;
-                        bestItemForSlot = item;
-                        bestItemInventoryIndex = i;
+
+                    let bestItemForSlot: Item | null = null;
+                    let bestStatValue = -Infinity;
+                    let bestItemInventoryIndex = -1;
+
+                    // Consider the currently equipped item as the baseline
+                    const currentlyEquippedItem = currentEquipment[slot];
+                    const currentStatValue = currentlyEquippedItem?.stats?.[statKey] ?? 0;
+                    bestStatValue = currentStatValue; // Initialize best value with current item's stat
+
+                    // Iterate through inventory to find a better item for this slot
+                    for (let i = 0; i < currentInventory.length; i++) {
+                        const item = currentInventory[i];
+                        // Skip if item is invalid, already marked for removal for another slot, doesn't fit this slot or the character can't use it
+                        if (!item || inventoryIndicesToRemove.includes(i) || !fitsSlot(item, slot) || !canClassEquipItem(character.class, item) || getUnmetRequirements(character, item).length > 0) {
+                            continue;
+                        }
+                        const itemStatValue = item.stats?.[statKey] ?? 0;
+                        // If this item is better than the current best (which might be the equipped item or another inventory item)
+                        if (itemStatValue > bestStatValue) {
+                            bestStatValue = itemStatValue;
+                            bestItemForSlot = item;
+                            bestItemInventoryIndex = i;
+                        }
                     }
-                }
 
-                // If we found a better item in the inventory
-                if (bestItemForSlot && bestItemInventoryIndex !== -1) {
-                    console.log(`InventoryService: Found upgrade for slot ${slot}: ${bestItemForSlot.name} (${statKey}: ${bestStatValue}) replacing ${currentlyEquippedItem?.name ?? 'nothing'} (${statKey}: ${currentStatValue})`);
-                    itemsToEquip.push({ item: bestItemForSlot, targetSlot: slot });
-                    inventoryIndicesToRemove.push(bestItemInventoryIndex); // Mark this inventory index for removal
-                    // If there was an item equipped in this slot, mark it for unequipping
-                    if (currentlyEquippedItem) {
-                        slotsToUnequip.push(slot);
+                    // If we found a better item in the inventory
+                    if (bestItemForSlot && bestItemInventoryIndex !== -1) {
+                        console.log(`InventoryService: Found upgrade for slot ${slot}: ${bestItemForSlot.name} (${statKey}: ${bestStatValue}) replacing ${currentlyEquippedItem?.name ?? 'nothing'} (${statKey}: ${currentStatValue})`);
+                        itemsToEquip.push({ item: bestItemForSlot, targetSlot: slot });
+                        inventoryIndicesToRemove.push(bestItemInventoryIndex); // Mark this inventory index for removal
+                        // If there was an item equipped in this slot, mark it for unequipping
+                        if (currentlyEquippedItem) {
+                            slotsToUnequip.push(slot);
+                        }
                     }
                 }
-            }
-
-            // --- Perform the Swaps if changes were found ---
-            if (itemsToEquip.length === 0) {
-                return { success: false, message: `No upgrades found for ${statKey}.` }; // Changed from info
-            }
 
-            const finalInventory = [...currentInventory]; // Start with a copy of the original inventory
-            const finalEquipment = { ...currentEquipment }; // Start with a copy of the original equipment
-            const unequippedItems: Item[] = []; // Items that were equipped and need to go back to inventory
+                // --- Perform the Swaps if changes were found ---
+                if (itemsToEquip.length === 0) {
+                    return { success: false, message: `No upgrades found for ${statKey}.` }; // Changed from info
+                }
 
-            // 1. Identify items to unequip and remove them from finalEquipment
-            for (const slot of slotsToUnequip) {
-                 if (Object.prototype.hasOwnProperty.call(finalEquipment, slot)) {
-                    const itemToUnequip = finalEquipment[slot];
-                    if (itemToUnequip) {
-                        unequippedItems.push(itemToUnequip);
+                const finalInventory = [...currentInventory]; // Start with a copy of the original inventory
+                const finalEquipment = { ...currentEquipment }; // Start with a copy of the original equipment
+                const unequippedItems: Item[] = []; // Items that were equipped and need to go back to inventory
+
+                // 1. Identify items to unequip and remove them from finalEquipment
+                for (const slot of slotsToUnequip) {
+                     if (Object.prototype.hasOwnProperty.call(finalEquipment, slot)) {
+                        const itemToUnequip = finalEquipment[slot];
+                        if (itemToUnequip) {
+                            unequippedItems.push(itemToUnequip);
+                        }
+                        delete finalEquipment[slot]; // Clear the slot in the final equipment object
                     }
-                    delete finalEquipment[slot]; // Clear the slot in the final equipment object
                 }
-            }
 
-            // 2. Identify items being equipped (based on indices to remove)
-            const itemsBeingEquipped: Item[] = [];
-             // Sort indices descending to avoid issues when splicing
-            inventoryIndicesToRemove.sort((a, b) => b - a);
-            for (const index of inventoryIndicesToRemove) {
-                 // Splice from the *copy* (finalInventory) and get the item being equipped
-                 const removedItems = finalInventory.splice(index, 1);
-                 if (removedItems.length > 0 && removedItems[0]) {
-                     itemsBeingEquipped.push(removedItems[0]);
-                 }
-            }
+                // 2. Identify items being equipped (based on indices to remove)
+                const itemsBeingEquipped: Item[] = [];
+                 // Sort indices descending to avoid issues when splicing
+                inventoryIndicesToRemove.sort((a, b) => b - a);
+                for (const index of inventoryIndicesToRemove) {
+                     // Splice from the *copy* (finalInventory) and get the item being equipped
+                     const removedItems = finalInventory.splice(index, 1);
+                     if (removedItems.length > 0 && removedItems[0]) {
+                         itemsBeingEquipped.push(removedItems[0]);
+                     }
+                }
 
 
-            // 3. Add unequipped items back to the modified inventory
-            finalInventory.push(...unequippedItems);
-
-            // 4. Place the new best items into the final equipment object
-            for (const { item, targetSlot } of itemsToEquip) {
-                 // Find the actual item object we removed in step 2
-                 const itemToActuallyEquip = itemsBeingEquipped.find(i => i.id === item.id);
-                 if (itemToActuallyEquip) {
-                     finalEquipment[targetSlot] = itemToActuallyEquip;
-                 } else {
-                     // This indicates a logic error if an item marked for equipping wasn't found after removal
-                     console.error(`InventoryService Error: Could not find item ${item.id} in itemsBeingEquipped list during auto-equip.`);
-                     // Consider returning an error or trying to continue cautiously
-                     return { success: false, message: 'Internal error during auto-equip item swap.' };
-                 }
-            }
+                // 3. Add unequipped items back to the modified inventory
+                for (const unequippedItem of unequippedItems) {
+                    if (!addToInventory(finalInventory, unequippedItem)) {
+                        return { success: false, message: `Inventory is full (no room for ${unequippedItem.name}).` };
+                    }
+                }
 
-            // --- Update DB ---
-            const updates: Partial<Character> = { inventory: finalInventory, equipment: finalEquipment };
-            await this.characterRepository.update(characterId, updates);
+                // 4. Place the new best items into the final equipment object
+                for (const { item, targetSlot } of itemsToEquip) {
+                     // Find the actual item object we removed in step 2
+                     const itemToActuallyEquip = itemsBeingEquipped.find(i => i.id === item.id);
+                     if (itemToActuallyEquip) {
+                         finalEquipment[targetSlot] = withoutGridPosition(itemToActuallyEquip);
+                     } else {
+                         // This indicates a logic error if an item marked for equipping wasn't found after removal
+                         console.error(`InventoryService Error: Could not find item ${item.id} in itemsBeingEquipped list during auto-equip.`);
+                         // Consider returning an error or trying to continue cautiously
+                         return { success: false, message: 'Internal error during auto-equip item swap.' };
+                     }
+                }
 
-            // Fetch updated character
-            const updatedCharacterRaw = await this.characterRepository.findById(characterId);
-            if (!updatedCharacterRaw) {
-                 console.error(`InventoryService: Failed to fetch character ${characterId} after auto-equip update.`);
-                 return { success: false, message: 'Failed to retrieve updated character data.' };
-            }
+                // --- Update DB ---
+                const updates: Partial<Character> = { inventory: finalInventory, equipment: finalEquipment };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
 
-            // Recalculate stats
-            const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
+                // Fetch updated character
+                const updatedCharacterRaw = await this.characterRepository.findById(characterId);
+                if (!updatedCharacterRaw) {
+                     console.error(`InventoryService: Failed to fetch character ${characterId} after auto-equip update.`);
+                     return { success: false, message: 'Failed to retrieve updated character data.' };
+                }
 
-            console.log(`InventoryService: Character ${finalCharacterData.name} auto-equipped for stat: ${statKey}. Items changed: ${itemsToEquip.length}.`);
-            return { success: true, message: `Auto-equipped best items for ${statKey}.`, character: finalCharacterData };
+                // Recalculate stats
+                const finalCharacterData = calculateCharacterStats(updatedCharacterRaw);
 
-        } catch (error) {
-            console.error(`Error in InventoryService.autoEquipBestStat for character ${characterId}, stat ${statKey}:`, error);
-            return { success: false, message: `An internal server error occurred during auto-equip for ${statKey}.` };
-        }
+                console.log(`InventoryService: Character ${finalCharacterData.name} auto-equipped for stat: ${statKey}. Items changed: ${itemsToEquip.length}.`);
+                return { success: true, message: `Auto-equipped best items for ${statKey}.`, character: finalCharacterData };
+
+            } catch (error) {
+                console.error(`Error in InventoryService.autoEquipBestStat for character ${characterId}, stat ${statKey}:`, error);
+                return { success: false, message: `An internal server error occurred during auto-equip for ${statKey}.` };
+            }
+        });
     }
 }
@@ -0,0 +1,73 @@
+// A stored record guarded by compare-and-swap: every update bumps its version
+export interface VersionedRecord {
+    id: string;
+    version?: number;
+}
+
+// The part of a repository the queue needs to commit updates
+export interface VersionedRepository<T extends VersionedRecord> {
+    updateIfVersion(id: string, expectedVersion: number, updates: Partial<T>): Promise<boolean>;
+}
+
+/**
+ * Serializes read-modify-write operations per record ID and commits them with compare-and-swap.
+ * Tasks for the same ID run one after another in arrival order, so each one reads the result of
+ * the previous one. Writes are additionally guarded by the record's version, so a write based on
+ * a stale read (e.g. from another server process sharing the database) is rejected instead of
+ * overwriting newer data. Tasks for different IDs still run concurrently.
+ */
+export class MutationQueue<T extends VersionedRecord> {
+    private repository: VersionedRepository<T>;
+    private describe: (record: T) => string;
+    private tails: Map<string, Promise<unknown>> = new Map();
+
+    /**
+     * @param repository The repository the records are committed to.
+     * @param describe Names a record in conflict warnings, e.g. "character Hero (ID: ...)".
+     */
+    constructor(repository: VersionedRepository<T>, describe: (record: T) => string) {
+        this.repository = repository;
+        this.describe = describe;
+    }
+
+    /**
+     * Runs a task once all previously queued tasks for the ID have finished.
+     * Must not be nested for the same ID (the inner task would wait for the outer one forever).
+     * @param id The record the task reads and modifies.
+     * @param task The read-modify-write operation.
+     * @returns The task's result.
+     */
+    async run<R>(id: string, task: () => Promise<R>): Promise<R> {
+        const previous = this.tails.get(id) ?? Promise.resolve();
+        // A failed task must not block the ones queued behind it
+        const current = previous.catch(() => undefined).then(task);
+        const tail = current.catch(() => undefined);
+        this.tails.set(id, tail);
+        try {
+            return await current;
+        } finally {
+            if (this.tails.get(id) === tail) {
+                this.tails.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Writes the updates only if the record has not changed since it was read.
+     * On success the version of the given record object is advanced, so the caller
+     * can keep using it (and commit again) within the same task.
+     * @param record The record as read at the start of the task.
+     * @param updates The fields to write.
+     * @returns True if the updates were saved, false on a version conflict.
+     */
+    async commit(record: T, updates: Partial<T>): Promise<boolean> {
+        const expectedVersion = record.version ?? 0;
+        const applied = await this.repository.updateIfVersion(record.id, expectedVersion, updates);
+        if (!applied) {
+            console.warn(`${this.constructor.name}: Version conflict for ${this.describe(record)} at version ${expectedVersion}, update discarded.`);
+            return false;
+        }
+        record.version = expectedVersion + 1;
+        return true;
+    }
+}
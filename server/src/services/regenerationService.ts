@@ -0,0 +1,124 @@
+import { ICharacterRepository, RegenerationResult, RegenerationState } from '../types.js';
+import { calculateManaRegenPerSecond, calculateHpRegenPerSecond, RESTING_REGEN_MULTIPLIER } from '../gameData.js';
+import { calculateCharacterStats } from '../utils.js';
+import { CharacterMutationQueue, CHARACTER_CONFLICT_MESSAGE } from './characterMutationQueue.js';
+
+// Regenerated HP/mana below 1 point, carried over to the next tick
+interface RegenerationRemainder {
+    hp: number;
+    mana: number;
+}
+
+export class RegenerationService {
+    private characterRepository: ICharacterRepository;
+    private mutationQueue: CharacterMutationQueue;
+    // Character ID -> fractional HP/mana not yet applied
+    private remainders: Map<string, RegenerationRemainder> = new Map();
+
+    constructor(characterRepository: ICharacterRepository, mutationQueue: CharacterMutationQueue) {
+        this.characterRepository = characterRepository;
+        this.mutationQueue = mutationQueue;
+    }
+
+    /**
+     * Regenerates a character's HP and mana for the elapsed time, up to their max values (which include gear).
+     * Mana regenerates in and out of combat, HP only out of combat. Resting between encounters
+     * multiplies both rates by RESTING_REGEN_MULTIPLIER.
+     * @param characterId The ID of the character.
+     * @param elapsedMs Time since the last regeneration tick.
+     * @param state Whether the character is in an encounter or resting between encounters.
+     * @returns RegenerationResult with the new HP/mana values, or no update if nothing changed.
+     */
+    async regenerate(characterId: string, elapsedMs: number, state: RegenerationState): Promise<RegenerationResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+                // Dead characters are handled by the respawn, not by regeneration
+                if (character.currentHp <= 0) {
+                    return { success: true, message: 'Nothing to regenerate.' };
+                }
+
+                const effectiveCharacter = calculateCharacterStats(character);
+                const { maxHp, maxMana } = effectiveCharacter;
+                const currentHp = Math.min(character.currentHp, maxHp);
+                const currentMana = character.currentMana ?? 0;
+                const multiplier = state.resting && !state.inCombat ? RESTING_REGEN_MULTIPLIER : 1;
+                const remainder = this.remainders.get(characterId) ?? { hp: 0, mana: 0 };
+
+                const hpGained = state.inCombat
+                    ? 0
+                    : this.applyRegeneration(remainder, 'hp', calculateHpRegenPerSecond(maxHp, effectiveCharacter.stats.vitality) * multiplier, elapsedMs, maxHp - currentHp);
+                const manaGained = this.applyRegeneration(remainder, 'mana', calculateManaRegenPerSecond(maxMana, effectiveCharacter.stats.energy) * multiplier, elapsedMs, maxMana - currentMana);
+                this.remainders.set(characterId, remainder);
+                if (hpGained <= 0 && manaGained <= 0) {
+                    return { success: true, message: 'Nothing to regenerate.' };
+                }
+
+                const newHp = currentHp + hpGained;
+                const newMana = currentMana + manaGained;
+                if (!await this.mutationQueue.commit(character, { currentHp: newHp, currentMana: newMana })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                return {
+                    success: true,
+                    message: `Regenerated ${hpGained} HP and ${manaGained} mana.`,
+                    update: { currentHp: newHp, maxHp, currentMana: newMana, maxMana }
+                };
+            } catch (error) {
+                console.error(`Error in RegenerationService.regenerate for character ${characterId}:`, error);
+                return { success: false, message: 'An internal server error occurred during regeneration.' };
+            }
+        });
+    }
+
+    /**
+     * Checks the character's auto-rest option: hunting pauses once HP drops below the threshold
+     * and, once resting, continues only at full HP.
+     * @param characterId The ID of the character.
+     * @param alreadyResting Whether auto-rest is already holding back the next encounter.
+     * @returns true if the character should rest before the next encounter.
+     */
+    async needsRest(characterId: string, alreadyResting: boolean): Promise<boolean> {
+        try {
+            const character = await this.characterRepository.findById(characterId);
+            if (!character || !character.autoRestThresholdPercent) {
+                return false;
+            }
+            const { maxHp } = calculateCharacterStats(character);
+            if (alreadyResting) {
+                return character.currentHp < maxHp;
+            }
+            return character.currentHp < maxHp * character.autoRestThresholdPercent / 100;
+        } catch (error) {
+            console.error(`Error in RegenerationService.needsRest for character ${characterId}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Forgets the carried-over regeneration of a character whose session ended.
+     */
+    endSession(characterId: string): void {
+        this.remainders.delete(characterId);
+    }
+
+    /**
+     * Adds one tick of regeneration to the carried-over remainder and takes out the whole points.
+     * A full resource drops its remainder so it does not pile up.
+     * @returns The whole points gained, capped at what is missing.
+     */
+    private applyRegeneration(remainder: RegenerationRemainder, resource: 'hp' | 'mana', perSecond: number, elapsedMs: number, missing: number): number {
+        if (missing <= 0) {
+            remainder[resource] = 0;
+            return 0;
+        }
+        const regenerated = remainder[resource] + perSecond * elapsedMs / 1000;
+        const gained = Math.min(Math.floor(regenerated), missing);
+        remainder[resource] = regenerated - Math.floor(regenerated);
+        return gained;
+    }
+}
@@ -0,0 +1,124 @@
+import { Character, ICharacterRepository, SkillServiceResult } from '../types.js';
+import { skills, SKILL_HOTKEY_SLOTS } from '../gameData.js';
+import { calculateCharacterStats } from '../utils.js';
+import { CharacterMutationQueue, CHARACTER_CONFLICT_MESSAGE } from './characterMutationQueue.js';
+
+
+export class SkillService {
+    private characterRepository: ICharacterRepository;
+    private mutationQueue: CharacterMutationQueue;
+
+    constructor(characterRepository: ICharacterRepository, mutationQueue: CharacterMutationQueue) {
+        this.characterRepository = characterRepository;
+        this.mutationQueue = mutationQueue;
+    }
+
+    /**
+     * Spends one skill point to learn a skill or raise its rank.
+     * The skill must belong to the character's class, be below its max rank, and its level
+     * requirement and prerequisites must be met.
+     * @param characterId The ID of the character.
+     * @param skillId The skill to learn or rank up.
+     * @returns SkillServiceResult with the updated character (stats include passive bonuses).
+     */
+    async learnSkill(characterId: string, skillId: string): Promise<SkillServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+
+                const skill = skills.get(skillId);
+                if (!skill || skill.classId !== character.class) {
+                    return { success: false, message: 'Skill not available for this class' };
+                }
+                const currentRank = character.skills[skillId] ?? 0;
+                if (currentRank >= skill.maxRank) {
+                    return { success: false, message: `${skill.name} is already at max rank` };
+                }
+                if (character.level < skill.requiredLevel) {
+                    return { success: false, message: `${skill.name} requires level ${skill.requiredLevel}` };
+                }
+                const missingPrerequisite = (skill.prerequisites ?? []).find(prerequisiteId => !character.skills[prerequisiteId]);
+                if (missingPrerequisite) {
+                    return { success: false, message: `${skill.name} requires ${skills.get(missingPrerequisite)?.name ?? missingPrerequisite}` };
+                }
+                if (character.skillPoints < 1) {
+                    return { success: false, message: 'No skill points available' };
+                }
+
+                const updates: Partial<Character> = {
+                    skills: { ...character.skills, [skillId]: currentRank + 1 },
+                    skillPoints: character.skillPoints - 1
+                };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`SkillService: Character ${character.name} learned ${skill.name} rank ${currentRank + 1}.`);
+                return {
+                    success: true,
+                    message: `${skill.name} is now rank ${currentRank + 1}.`,
+                    character: calculateCharacterStats({ ...character, ...updates })
+                };
+            } catch (error) {
+                console.error(`Error in SkillService.learnSkill for character ${characterId}, skill ${skillId}:`, error);
+                return { success: false, message: 'An internal server error occurred while learning the skill.' };
+            }
+        });
+    }
+
+    /**
+     * Assigns a learned active skill to an action bar slot, or clears the slot.
+     * A skill already on another slot is moved.
+     * @param characterId The ID of the character.
+     * @param slotNumber The action bar slot (1 to SKILL_HOTKEY_SLOTS).
+     * @param skillId The skill to assign, or null to clear the slot.
+     * @returns SkillServiceResult with the updated character.
+     */
+    async setSkillHotkey(characterId: string, slotNumber: number, skillId: string | null): Promise<SkillServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                if (!Number.isInteger(slotNumber) || slotNumber < 1 || slotNumber > SKILL_HOTKEY_SLOTS) {
+                    return { success: false, message: `Invalid skill slot. Must be between 1 and ${SKILL_HOTKEY_SLOTS}.` };
+                }
+
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+
+                if (skillId !== null) {
+                    const skill = skills.get(skillId);
+                    if (!skill || !character.skills[skillId]) {
+                        return { success: false, message: 'Skill not learned' };
+                    }
+                    if (skill.type !== 'active') {
+                        return { success: false, message: 'Passive skills cannot be assigned to the action bar' };
+                    }
+                }
+
+                const hotkeys = Array.from({ length: SKILL_HOTKEY_SLOTS }, (_, index) => {
+                    const assigned = character.skillHotkeys[index] ?? null;
+                    return assigned === skillId ? null : assigned;
+                });
+                hotkeys[slotNumber - 1] = skillId;
+
+                if (!await this.mutationQueue.commit(character, { skillHotkeys: hotkeys })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`SkillService: Character ${character.name} set skill slot ${slotNumber} to ${skillId ?? 'empty'}.`);
+                return {
+                    success: true,
+                    message: skillId ? `Skill assigned to slot ${slotNumber}.` : `Skill slot ${slotNumber} cleared.`,
+                    character: calculateCharacterStats({ ...character, skillHotkeys: hotkeys })
+                };
+            } catch (error) {
+                console.error(`Error in SkillService.setSkillHotkey for character ${characterId}, slot ${slotNumber}:`, error);
+                return { success: false, message: 'An internal server error occurred while setting the skill hotkey.' };
+            }
+        });
+    }
+}
@@ -0,0 +1,302 @@
+import { Character, Item, User, ICharacterRepository, IUserRepository, Stash, StashKind, StashServiceResult, GridPosition, ItemSize } from '../types.js';
+import { calculateCharacterStats } from '../utils.js';
+import { STASH_ZONE_ID, STASH_COLUMNS, STASH_ROWS } from '../gameData.js';
+import { addToInventory, canPlaceItem } from '../inventoryGrid.js';
+import { CharacterMutationQueue, CHARACTER_CONFLICT_MESSAGE } from './characterMutationQueue.js';
+import { UserMutationQueue, USER_CONFLICT_MESSAGE } from './userMutationQueue.js';
+
+const STASH_GRID: ItemSize = { width: STASH_COLUMNS, height: STASH_ROWS };
+
+// Which side loses something in a transfer; it is written first, so a failed second write never duplicates items or gold
+type StashTransfer = 'deposit' | 'withdraw' | 'move';
+
+// Working copies of everything a stash operation may change
+interface StashDraft {
+    inventory: Item[];
+    gold: number;
+    stash: Stash;
+}
+
+export class StashService {
+    private characterRepository: ICharacterRepository;
+    private userRepository: IUserRepository;
+    private mutationQueue: CharacterMutationQueue;
+    private userMutationQueue: UserMutationQueue;
+
+    constructor(characterRepository: ICharacterRepository, userRepository: IUserRepository, mutationQueue: CharacterMutationQueue, userMutationQueue: UserMutationQueue) {
+        this.characterRepository = characterRepository;
+        this.userRepository = userRepository;
+        this.mutationQueue = mutationQueue;
+        this.userMutationQueue = userMutationQueue;
+    }
+
+    /**
+     * Reads the character (including its personal stash) and the account's shared stash.
+     * @param characterId The ID of the character.
+     * @returns StashServiceResult with the character and the shared stash.
+     */
+    async getStash(characterId: string): Promise<StashServiceResult> {
+        try {
+            const character = await this.characterRepository.findById(characterId);
+            if (!character) {
+                return { success: false, message: 'Character not found' };
+            }
+            if (character.currentZoneId !== STASH_ZONE_ID) {
+                return { success: false, message: 'The stash can only be used in town' };
+            }
+            const user = await this.userRepository.findById(character.userId);
+            if (!user) {
+                return { success: false, message: 'Account not found' };
+            }
+            return { success: true, message: 'Stash loaded.', character: calculateCharacterStats(character), sharedStash: user.sharedStash };
+        } catch (error) {
+            console.error(`Error in StashService.getStash for character ${characterId}:`, error);
+            return { success: false, message: 'An internal server error occurred while opening the stash.' };
+        }
+    }
+
+    // --- Items ---
+
+    /**
+     * Moves an item from the inventory into a stash tab.
+     * @param characterId The ID of the character.
+     * @param kind The personal or the shared stash.
+     * @param tab The index of the stash tab.
+     * @param itemId The ID of the item instance in the inventory.
+     * @param position The top-left cell in the tab; the first free one if omitted.
+     * @returns StashServiceResult with the updated character (and shared stash).
+     */
+    async depositItem(characterId: string, kind: StashKind, tab: number, itemId: string, position?: GridPosition): Promise<StashServiceResult> {
+        return this.changeStash(characterId, kind, 'deposit', draft => {
+            const tabItems = draft.stash.tabs[tab];
+            if (!tabItems) {
+                return { success: false, message: 'Invalid stash tab' };
+            }
+            const itemIndex = draft.inventory.findIndex(item => item.id === itemId);
+            const item = draft.inventory[itemIndex];
+            if (!item) {
+                return { success: false, message: 'Item not found in inventory' };
+            }
+            if (position && !canPlaceItem(tabItems, item, position, STASH_GRID)) {
+                return { success: false, message: `${item.name} does not fit there.` };
+            }
+            if (!addToInventory(tabItems, item, position, STASH_GRID)) {
+                return { success: false, message: 'This stash tab is full.' };
+            }
+            draft.inventory.splice(itemIndex, 1);
+            return { success: true, message: `Stored ${item.name}.` };
+        });
+    }
+
+    /**
+     * Moves an item from a stash tab into the inventory.
+     * @param characterId The ID of the character.
+     * @param kind The personal or the shared stash.
+     * @param tab The index of the stash tab.
+     * @param itemId The ID of the item instance in the tab.
+     * @param position The top-left cell in the inventory; the first free one if omitted.
+     * @returns StashServiceResult with the updated character (and shared stash).
+     */
+    async withdrawItem(characterId: string, kind: StashKind, tab: number, itemId: string, position?: GridPosition): Promise<StashServiceResult> {
+        return this.changeStash(characterId, kind, 'withdraw', draft => {
+            const tabItems = draft.stash.tabs[tab];
+            if (!tabItems) {
+                return { success: false, message: 'Invalid stash tab' };
+            }
+            const itemIndex = tabItems.findIndex(item => item.id === itemId);
+            const item = tabItems[itemIndex];
+            if (!item) {
+                return { success: false, message: 'Item not found in the stash' };
+            }
+            if (position && !canPlaceItem(draft.inventory, item, position)) {
+                return { success: false, message: `${item.name} does not fit there.` };
+            }
+            if (!addToInventory(draft.inventory, item, position)) {
+                return { success: false, message: 'Inventory is full.' };
+            }
+            tabItems.splice(itemIndex, 1);
+            return { success: true, message: `Took ${item.name}.` };
+        });
+    }
+
+    /**
+     * Moves an item within a stash, to another position of its tab or onto another tab.
+     * @param characterId The ID of the character.
+     * @param kind The personal or the shared stash.
+     * @param fromTab The index of the tab holding the item.
+     * @param itemId The ID of the item instance in the tab.
+     * @param toTab The index of the target tab.
+     * @param position The new top-left cell.
+     * @returns StashServiceResult with the updated character (and shared stash).
+     */
+    async moveItem(characterId: string, kind: StashKind, fromTab: number, itemId: string, toTab: number, position: GridPosition): Promise<StashServiceResult> {
+        return this.changeStash(characterId, kind, 'move', draft => {
+            const sourceItems = draft.stash.tabs[fromTab];
+            const targetItems = draft.stash.tabs[toTab];
+            if (!sourceItems || !targetItems) {
+                return { success: false, message: 'Invalid stash tab' };
+            }
+            const itemIndex = sourceItems.findIndex(item => item.id === itemId);
+            const item = sourceItems[itemIndex];
+            if (!item) {
+                return { success: false, message: 'Item not found in the stash' };
+            }
+            if (!canPlaceItem(targetItems, item, position, STASH_GRID)) {
+                return { success: false, message: `${item.name} does not fit there.` };
+            }
+            sourceItems.splice(itemIndex, 1);
+            targetItems.push({ ...item, gridPosition: { x: position.x, y: position.y } });
+            return { success: true, message: `Moved ${item.name}.` };
+        });
+    }
+
+    // --- Gold ---
+
+    /**
+     * Moves gold from the character into a stash.
+     * @param characterId The ID of the character.
+     * @param kind The personal or the shared stash.
+     * @param amount Whole gold, at least 1.
+     * @returns StashServiceResult with the updated character (and shared stash).
+     */
+    async depositGold(characterId: string, kind: StashKind, amount: number): Promise<StashServiceResult> {
+        return this.changeStash(characterId, kind, 'deposit', draft => {
+            if (!Number.isInteger(amount) || amount < 1) {
+                return { success: false, message: 'Invalid gold amount' };
+            }
+            if (draft.gold < amount) {
+                return { success: false, message: `You only have ${draft.gold} gold.` };
+            }
+            draft.gold -= amount;
+            draft.stash.gold += amount;
+            return { success: true, message: `Stored ${amount} gold.` };
+        });
+    }
+
+    /**
+     * Moves gold from a stash to the character.
+     * @param characterId The ID of the character.
+     * @param kind The personal or the shared stash.
+     * @param amount Whole gold, at least 1.
+     * @returns StashServiceResult with the updated character (and shared stash).
+     */
+    async withdrawGold(characterId: string, kind: StashKind, amount: number): Promise<StashServiceResult> {
+        return this.changeStash(characterId, kind, 'withdraw', draft => {
+            if (!Number.isInteger(amount) || amount < 1) {
+                return { success: false, message: 'Invalid gold amount' };
+            }
+            if (draft.stash.gold < amount) {
+                return { success: false, message: `The stash only holds ${draft.stash.gold} gold.` };
+            }
+            draft.stash.gold -= amount;
+            draft.gold += amount;
+            return { success: true, message: `Took ${amount} gold.` };
+        });
+    }
+
+    // --- Helpers ---
+
+    /**
+     * Runs a stash operation on working copies and saves the result.
+     * The personal stash lives on the character, so the whole operation is one compare-and-swap write.
+     * The shared stash lives on the user: the account and the character are queued (account first) and
+     * written one after another, the side giving something up first. If the second write fails, the
+     * first one is reverted, so an item or gold is never in both places.
+     * @param characterId The ID of the character.
+     * @param kind The personal or the shared stash.
+     * @param transfer The direction of the operation.
+     * @param change Applies the operation to the draft; must not modify anything when it fails.
+     * @returns StashServiceResult with the updated character (and shared stash).
+     */
+    private async changeStash(characterId: string, kind: StashKind, transfer: StashTransfer, change: (draft: StashDraft) => { success: boolean; message: string }): Promise<StashServiceResult> {
+        try {
+            if (kind === 'personal') {
+                return await this.mutationQueue.run(characterId, async () => {
+                    const character = await this.characterRepository.findById(characterId);
+                    if (!character) {
+                        return { success: false, message: 'Character not found' };
+                    }
+                    if (character.currentZoneId !== STASH_ZONE_ID) {
+                        return { success: false, message: 'The stash can only be used in town' };
+                    }
+
+                    const draft = this.createDraft(character, character.stash);
+                    const result = change(draft);
+                    if (!result.success) return result;
+
+                    const updates: Partial<Character> = { inventory: draft.inventory, gold: draft.gold, stash: draft.stash };
+                    if (!await this.mutationQueue.commit(character, updates)) {
+                        return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                    }
+                    console.log(`StashService: Character ${character.name} (${transfer}, personal stash): ${result.message}`);
+                    return { ...result, character: calculateCharacterStats({ ...character, ...updates }) };
+                });
+            }
+
+            // The owner never changes, so it can be read before queueing
+            const owner = await this.characterRepository.findById(characterId);
+            if (!owner) {
+                return { success: false, message: 'Character not found' };
+            }
+            return await this.userMutationQueue.run(owner.userId, () => this.mutationQueue.run(characterId, async () => {
+                const character = await this.characterRepository.findById(characterId);
+                const user = await this.userRepository.findById(owner.userId);
+                if (!character || !user) {
+                    return { success: false, message: 'Character not found' };
+                }
+                if (character.currentZoneId !== STASH_ZONE_ID) {
+                    return { success: false, message: 'The stash can only be used in town' };
+                }
+
+                const draft = this.createDraft(character, user.sharedStash);
+                const result = change(draft);
+                if (!result.success) return result;
+
+                const characterUpdates: Partial<Character> = { inventory: draft.inventory, gold: draft.gold };
+                const userUpdates: Partial<User> = { sharedStash: draft.stash };
+                const conflict = transfer === 'move'
+                    ? (await this.userMutationQueue.commit(user, userUpdates) ? null : USER_CONFLICT_MESSAGE)
+                    : await this.commitTransfer(character, characterUpdates, user, userUpdates, transfer);
+                if (conflict) {
+                    return { success: false, message: conflict };
+                }
+
+                console.log(`StashService: Character ${character.name} (${transfer}, shared stash of ${user.username}): ${result.message}`);
+                const updatedCharacter = transfer === 'move' ? character : { ...character, ...characterUpdates };
+                return { ...result, character: calculateCharacterStats(updatedCharacter), sharedStash: draft.stash };
+            }));
+        } catch (error) {
+            console.error(`Error in StashService (${transfer}, ${kind} stash) for character ${characterId}:`, error);
+            return { success: false, message: 'An internal server error occurred while using the stash.' };
+        }
+    }
+
+    /**
+     * Writes a transfer between a character and the account: the side giving something up first,
+     * reverting that write if the second one is rejected.
+     * @returns Null if both writes were saved, otherwise the conflict message.
+     */
+    private async commitTransfer(character: Character, characterUpdates: Partial<Character>, user: User, userUpdates: Partial<User>, transfer: 'deposit' | 'withdraw'): Promise<string | null> {
+        if (transfer === 'deposit') {
+            const previous: Partial<Character> = { inventory: character.inventory, gold: character.gold };
+            if (!await this.mutationQueue.commit(character, characterUpdates)) return CHARACTER_CONFLICT_MESSAGE;
+            if (await this.userMutationQueue.commit(user, userUpdates)) return null;
+            if (!await this.mutationQueue.commit(character, previous)) {
+                console.error(`StashService: Could not revert the deposit of character ${character.name} (ID: ${character.id}) after a shared stash conflict.`);
+            }
+            return USER_CONFLICT_MESSAGE;
+        }
+
+        const previous: Partial<User> = { sharedStash: user.sharedStash };
+        if (!await this.userMutationQueue.commit(user, userUpdates)) return USER_CONFLICT_MESSAGE;
+        if (await this.mutationQueue.commit(character, characterUpdates)) return null;
+        if (!await this.userMutationQueue.commit(user, previous)) {
+            console.error(`StashService: Could not revert the withdrawal from the shared stash of ${user.username} (ID: ${user.id}) after a character conflict.`);
+        }
+        return CHARACTER_CONFLICT_MESSAGE;
+    }
+
+    private createDraft(character: Character, stash: Stash): StashDraft {
+        return { inventory: structuredClone(character.inventory), gold: character.gold, stash: structuredClone(stash) };
+    }
+}
@@ -0,0 +1,15 @@
+import { User, IUserRepository } from '../types.js';
+import { MutationQueue } from './mutationQueue.js';
+
+export const USER_CONFLICT_MESSAGE = 'Account was modified by another action. Please try again.';
+
+/**
+ * Serializes read-modify-write operations per account and commits them with compare-and-swap.
+ * Used for account-wide data such as the shared stash, which every character of the account can change.
+ * Tasks that also change a character queue the character inside the account task, never the other way around.
+ */
+export class UserMutationQueue extends MutationQueue<User> {
+    constructor(userRepository: IUserRepository) {
+        super(userRepository, user => `user ${user.username} (ID: ${user.id})`);
+    }
+}
@@ -0,0 +1,226 @@
+import { Character, Item, ICharacterRepository, VendorDefinition, VendorStock, VendorOffer, VendorInventory, VendorServiceResult } from '../types.js';
+import { calculateCharacterStats } from '../utils.js';
+import { vendors, VENDOR_ZONE_ID, VENDOR_AFFIX_PRICE_BONUS, GOLD_BASE_ID } from '../gameData.js';
+import { items as itemDefinitions } from '../lootData.js';
+import { generateItem, generateGuaranteedLoot } from '../lootGenerator.js';
+import { addToInventory } from '../inventoryGrid.js';
+import { Rng, defaultRng } from '../rng.js';
+import { CharacterMutationQueue, CHARACTER_CONFLICT_MESSAGE } from './characterMutationQueue.js';
+
+/**
+ * The price a vendor asks for an item: the base item's sellValue times the vendor's price multiplier,
+ * plus VENDOR_AFFIX_PRICE_BONUS of that per affix, for the whole stack.
+ */
+export function calculateBuyPrice(item: Item, vendor: VendorDefinition): number {
+    const sellValue = itemDefinitions.get(item.baseId)?.sellValue ?? 1;
+    const affixCount = (item.prefixes?.length ?? 0) + (item.suffixes?.length ?? 0);
+    const price = sellValue * vendor.priceMultiplier * (1 + affixCount * VENDOR_AFFIX_PRICE_BONUS) * (item.quantity ?? 1);
+    return Math.max(1, Math.round(price));
+}
+
+export class VendorService {
+    private characterRepository: ICharacterRepository;
+    private mutationQueue: CharacterMutationQueue;
+    private rng: Rng;
+
+    constructor(characterRepository: ICharacterRepository, mutationQueue: CharacterMutationQueue, rng: Rng = defaultRng) {
+        this.characterRepository = characterRepository;
+        this.mutationQueue = mutationQueue;
+        this.rng = rng;
+    }
+
+    /**
+     * Shows a vendor's wares, restocking them first if the character's restock time has passed.
+     * @param characterId The ID of the character.
+     * @param vendorId The vendor to visit; the first vendor if omitted.
+     * @returns VendorServiceResult with the character and the vendor's inventory.
+     */
+    async getVendorInventory(characterId: string, vendorId?: string): Promise<VendorServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+                const vendor = vendorId !== undefined ? vendors.get(vendorId) : vendors.values().next().value;
+                const error = this.checkVendorAccess(character, vendor);
+                if (error || !vendor) {
+                    return { success: false, message: error ?? 'Unknown vendor' };
+                }
+
+                const { stock, restocked } = this.getCurrentStock(character, vendor);
+                if (restocked && !await this.mutationQueue.commit(character, { vendorStocks: { ...character.vendorStocks, [vendor.id]: stock } })) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                const updatedCharacter: Character = { ...character, vendorStocks: { ...character.vendorStocks, [vendor.id]: stock } };
+                return { success: true, message: `${vendor.name} opened.`, character: calculateCharacterStats(updatedCharacter), vendor: this.buildVendorInventory(vendor, stock) };
+            } catch (error) {
+                console.error(`Error in VendorService.getVendorInventory for character ${characterId}, vendor ${vendorId}:`, error);
+                return { success: false, message: 'An internal server error occurred while visiting the vendor.' };
+            }
+        });
+    }
+
+    /**
+     * Buys an item from a vendor's stock into the inventory. Items the vendor always has in stock
+     * stay for sale; rotating stock is sold out until the next restock.
+     * @param characterId The ID of the character.
+     * @param vendorId The vendor selling the item.
+     * @param itemId The ID of the offered item.
+     * @returns VendorServiceResult with the updated character and vendor inventory.
+     */
+    async buyItem(characterId: string, vendorId: string, itemId: string): Promise<VendorServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+                const vendor = vendors.get(vendorId);
+                const error = this.checkVendorAccess(character, vendor);
+                if (error || !vendor) {
+                    return { success: false, message: error ?? 'Unknown vendor' };
+                }
+
+                const { stock, restocked } = this.getCurrentStock(character, vendor);
+                const stockIndex = stock.items.findIndex(item => item.id === itemId);
+                const offeredItem = stock.items[stockIndex];
+                if (!offeredItem) {
+                    if (!restocked) {
+                        return { success: false, message: 'Item not for sale' };
+                    }
+                    // Save and show the new stock so the next purchase picks from it
+                    if (!await this.mutationQueue.commit(character, { vendorStocks: { ...character.vendorStocks, [vendor.id]: stock } })) {
+                        return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                    }
+                    return { success: false, message: `${vendor.name} has restocked. That item is no longer for sale.`, vendor: this.buildVendorInventory(vendor, stock) };
+                }
+
+                const price = calculateBuyPrice(offeredItem, vendor);
+                if (character.gold < price) {
+                    return { success: false, message: `Not enough gold (${price} needed).` };
+                }
+
+                const alwaysInStock = vendor.alwaysInStock.includes(offeredItem.baseId);
+                const boughtItem: Item = alwaysInStock ? { ...JSON.parse(JSON.stringify(offeredItem)), id: this.rng.uuid() } : offeredItem;
+                const newInventory = [...character.inventory];
+                if (!addToInventory(newInventory, boughtItem)) {
+                    return { success: false, message: 'Inventory is full.' };
+                }
+                const newStock: VendorStock = alwaysInStock ? stock : { ...stock, items: stock.items.filter((_, index) => index !== stockIndex) };
+                const vendorStocks = { ...character.vendorStocks, [vendor.id]: newStock };
+
+                const updates: Partial<Character> = { inventory: newInventory, gold: character.gold - price, vendorStocks };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`VendorService: Character ${character.name} bought ${boughtItem.name} from ${vendor.name} for ${price} gold.`);
+                return {
+                    success: true,
+                    message: `Bought ${boughtItem.name} for ${price} gold.`,
+                    character: calculateCharacterStats({ ...character, ...updates }),
+                    vendor: this.buildVendorInventory(vendor, newStock)
+                };
+            } catch (error) {
+                console.error(`Error in VendorService.buyItem for character ${characterId}, vendor ${vendorId}, item ${itemId}:`, error);
+                return { success: false, message: 'An internal server error occurred while buying the item.' };
+            }
+        });
+    }
+
+    /**
+     * Buys a recently sold item back for the gold it was sold for.
+     * @param characterId The ID of the character.
+     * @param itemId The ID of the sold item.
+     * @returns VendorServiceResult with the updated character.
+     */
+    async buybackItem(characterId: string, itemId: string): Promise<VendorServiceResult> {
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
+                if (character.currentZoneId !== VENDOR_ZONE_ID) {
+                    return { success: false, message: 'Vendors can only be visited in town' };
+                }
+
+                const soldItem = character.buyback.find(item => item.id === itemId);
+                if (!soldItem) {
+                    return { success: false, message: 'Item not found in the buyback list' };
+                }
+                if (character.gold < soldItem.buybackPrice) {
+                    return { success: false, message: `Not enough gold (${soldItem.buybackPrice} needed).` };
+                }
+
+                const { buybackPrice, ...item } = soldItem;
+                const newInventory = [...character.inventory];
+                if (!addToInventory(newInventory, item)) {
+                    return { success: false, message: 'Inventory is full.' };
+                }
+
+                const updates: Partial<Character> = {
+                    inventory: newInventory,
+                    gold: character.gold - buybackPrice,
+                    buyback: character.buyback.filter(entry => entry.id !== itemId)
+                };
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
+
+                console.log(`VendorService: Character ${character.name} bought back ${item.name} for ${buybackPrice} gold.`);
+                return { success: true, message: `Bought back ${item.name}.`, character: calculateCharacterStats({ ...character, ...updates }) };
+            } catch (error) {
+                console.error(`Error in VendorService.buybackItem for character ${characterId}, item ${itemId}:`, error);
+                return { success: false, message: 'An internal server error occurred while buying back the item.' };
+            }
+        });
+    }
+
+    // --- Helpers ---
+
+    // Returns why the character cannot trade with the vendor, or null if it can
+    private checkVendorAccess(character: Character, vendor: VendorDefinition | undefined): string | null {
+        if (character.currentZoneId !== VENDOR_ZONE_ID) {
+            return 'Vendors can only be visited in town';
+        }
+        return vendor ? null : 'Unknown vendor';
+    }
+
+    /**
+     * The character's stock of a vendor, generated anew if there is none yet or its restock time has passed.
+     * Only returns the stock; the caller saves it if restocked is true.
+     */
+    private getCurrentStock(character: Character, vendor: VendorDefinition): { stock: VendorStock; restocked: boolean } {
+        const now = Date.now();
+        const current = character.vendorStocks[vendor.id];
+        if (current && now < current.restocksAt) {
+            return { stock: current, restocked: false };
+        }
+
+        const alwaysInStock = vendor.alwaysInStock
+            .map(baseId => generateItem(baseId, this.rng))
+            .filter((item): item is Item => item !== null);
+        const rotating = vendor.lootTableId
+            ? generateGuaranteedLoot(vendor.lootTableId, vendor.stockSize, this.rng).filter(item => item.baseId !== GOLD_BASE_ID)
+            : [];
+        return {
+            stock: { items: [...alwaysInStock, ...rotating], restocksAt: now + vendor.restockMinutes * 60 * 1000 },
+            restocked: true
+        };
+    }
+
+    private buildVendorInventory(vendor: VendorDefinition, stock: VendorStock): VendorInventory {
+        const offers: VendorOffer[] = stock.items.map(item => ({ ...item, price: calculateBuyPrice(item, vendor) }));
+        return {
+            vendorId: vendor.id,
+            name: vendor.name,
+            description: vendor.description,
+            items: offers,
+            restocksAt: stock.restocksAt,
+            vendors: Array.from(vendors.values()).map(({ id, name }) => ({ id, name }))
+        };
+    }
+}
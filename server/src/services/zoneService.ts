@@ -1,13 +1,16 @@
 import { Character, Zone, ICharacterRepository, TravelResult, ZoneStatus, ZoneWithStatus } from '../types.js';
 import { zones, calculateMaxHp } from '../gameData.js';
+import { CharacterMutationQueue, CHARACTER_CONFLICT_MESSAGE } from './characterMutationQueue.js';
 
 
 
 export class ZoneService {
     private characterRepository: ICharacterRepository;
+    private mutationQueue: CharacterMutationQueue;
 
-    constructor(characterRepository: ICharacterRepository) {
+    constructor(characterRepository: ICharacterRepository, mutationQueue: CharacterMutationQueue) {
         this.characterRepository = characterRepository;
+        this.mutationQueue = mutationQueue;
     }
 
     /**
@@ -35,79 +38,83 @@ export class ZoneService {
      * @returns TravelResult indicating success/failure and relevant data.
      */
     async travel(characterId: string, targetZoneId: string): Promise<TravelResult> {
-        try {
-            const character = await this.characterRepository.findById(characterId);
-            if (!character) {
-                return { success: false, message: 'Character not found' };
-            }
+        return this.mutationQueue.run(characterId, async () => {
+            try {
+                const character = await this.characterRepository.findById(characterId);
+                if (!character) {
+                    return { success: false, message: 'Character not found' };
+                }
 
-            const currentZone = zones.get(character.currentZoneId);
-            const targetZone = zones.get(targetZoneId);
+                const currentZone = zones.get(character.currentZoneId);
+                const targetZone = zones.get(targetZoneId);
 
-            if (!currentZone || !targetZone) {
-                return { success: false, message: 'Invalid current or target zone ID' };
-            }
+                if (!currentZone || !targetZone) {
+                    return { success: false, message: 'Invalid current or target zone ID' };
+                }
 
-            // Check connectivity
-            if (!currentZone.connectedZoneIds.includes(targetZoneId)) {
-                return { success: false, message: `Cannot travel directly from ${currentZone.name} to ${targetZone.name}` };
-            }
+                // Check connectivity
+                if (!currentZone.connectedZoneIds.includes(targetZoneId)) {
+                    return { success: false, message: `Cannot travel directly from ${currentZone.name} to ${targetZone.name}` };
+                }
 
-            // Check level requirement
-            if (character.level < targetZone.requiredLevel) {
-                return { success: false, message: `Level ${targetZone.requiredLevel} required to enter ${targetZone.name}` };
-            }
+                // Check level requirement
+                if (character.level < targetZone.requiredLevel) {
+                    return { success: false, message: `Level ${targetZone.requiredLevel} required to enter ${targetZone.name}` };
+                }
 
-            // --- Prepare Updates ---
-            const updates: Partial<Character> = { currentZoneId: targetZoneId };
-            let needsCombatClear = character.currentZoneId !== targetZoneId; // Clear combat if actually moving zones
-            let startCombat = false;
-
-            // Heal if entering Town
-            if (targetZoneId === 'town') {
-                const maxHp = calculateMaxHp(character.stats);
-                if (character.currentHp < maxHp) {
-                    console.log(`ZoneService: Character ${character.name} entering town, healing to full HP (${maxHp}).`);
-                    updates.currentHp = maxHp;
+                // --- Prepare Updates ---
+                const updates: Partial<Character> = { currentZoneId: targetZoneId };
+                let needsCombatClear = character.currentZoneId !== targetZoneId; // Clear combat if actually moving zones
+                let startCombat = false;
+
+                // Heal if entering Town
+                if (targetZoneId === 'town') {
+                    const maxHp = calculateMaxHp(character.stats, character.class, character.level);
+                    if (character.currentHp < maxHp) {
+                        console.log(`ZoneService: Character ${character.name} entering town, healing to full HP (${maxHp}).`);
+                        updates.currentHp = maxHp;
+                    }
+                } else {
+                    // Entering a non-town zone, flag to start combat
+                    startCombat = true;
                 }
-            } else {
-                // Entering a non-town zone, flag to start combat
-                startCombat = true;
-            }
 
-            // --- Save Updates ---
-            await this.characterRepository.update(character.id, updates);
+                // --- Save Updates ---
+                if (!await this.mutationQueue.commit(character, updates)) {
+                    return { success: false, message: CHARACTER_CONFLICT_MESSAGE };
+                }
 
-            // --- Fetch Updated Character ---
-            // Fetch again to ensure we have the absolute latest state after updates
-            const updatedCharacter = await this.characterRepository.findById(characterId);
-            if (!updatedCharacter) {
-                 console.error(`ZoneService: Failed to fetch character ${characterId} after travel update.`);
-                 // This is critical, likely indicates a DB issue
-                 return { success: false, message: 'Failed to retrieve updated character data after travel.' };
-            }
+                // --- Fetch Updated Character ---
+                // Fetch again to ensure we have the absolute latest state after updates
+                const updatedCharacter = await this.characterRepository.findById(characterId);
+                if (!updatedCharacter) {
+                     console.error(`ZoneService: Failed to fetch character ${characterId} after travel update.`);
+                     // This is critical, likely indicates a DB issue
+                     return { success: false, message: 'Failed to retrieve updated character data after travel.' };
+                }
 
 
-            console.log(`ZoneService: Character ${updatedCharacter.name} traveled to ${targetZone.name}`);
+                console.log(`ZoneService: Character ${updatedCharacter.name} traveled to ${targetZone.name}`);
 
-            // Prepare available zones data for the new location
-            const availableZones = targetZone.connectedZoneIds
-                .map(id => zones.get(id))
-                .filter((z): z is Zone => !!z); // Type guard to filter out undefined
+                // Prepare available zones data for the new location
+                const availableZones = targetZone.connectedZoneIds
+                    .map(id => zones.get(id))
+                    .filter((z): z is Zone => !!z); // Type guard to filter out undefined
 
-            return {
-                success: true,
-                message: `Traveled to ${targetZone.name}.`,
-                character: updatedCharacter,
-                newZone: targetZone,
-                availableZones: availableZones,
-                needsCombatClear: needsCombatClear,
-                startCombat: startCombat
-            };
+                return {
+                    success: true,
+                    message: `Traveled to ${targetZone.name}.`,
+                    character: updatedCharacter,
+                    newZone: targetZone,
+                    availableZones: availableZones,
+                    needsCombatClear: needsCombatClear,
+                    startCombat: startCombat
+                };
 
-        } catch (error) {
-            console.error(`Error in ZoneService.travel for character ${characterId} to zone ${targetZoneId}:`, error);
-            return { success: false, message: 'An internal server error occurred during travel.' };
-        }
+            } catch (error) {
+                console.error(`Error in ZoneService.travel for character ${characterId} to zone ${targetZoneId}:`, error);
+                return { success: false, message: 'An internal server error occurred during travel.' };
+            }
+        });
     }
 }
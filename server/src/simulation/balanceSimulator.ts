@@ -0,0 +1,337 @@
+import { Character, EquipmentSlot, Item, ItemQuality } from '../types.js';
+import { zones, characterClasses, skills as skillDefinitions, monsterRarities, lootTables, qualityWeights, calculateMaxHp, calculateMaxMana, ATTRIBUTE_KEYS, GOLD_BASE_ID, createDefaultAutoPickupFilter, createEmptyStash, PERSONAL_STASH_TABS } from '../gameData.js';
+import { rollZoneSpawn, createMonsterPack } from '../monsterVariants.js';
+import { items as itemDefinitions } from '../lootData.js';
+import { canClassEquipItem } from '../utils.js';
+import { getItemRequirements, planEquip } from '../equipRules.js';
+import { NEXT_ENCOUNTER_DELAY_MS } from '../combatCalculator.js';
+import { Rng, createSeededRng } from '../rng.js';
+import { simulateCombat } from './combatEngine.js';
+
+// --- Simulation Types ---
+
+export type SimulationMode = 'fights' | 'kills';
+
+export interface BalanceSimulationOptions {
+    classId: string;
+    level: number;
+    gear: string[]; // Base item IDs to equip (white quality, no affixes)
+    skills?: Record<string, number>; // Skill ID -> rank; learned active skills are used whenever they are ready
+    mode: SimulationMode; // 'fights': N independent fights at full HP; 'kills': a session until N kills
+    count: number;
+    seed: number | string;
+    zoneIds?: string[]; // Defaults to every zone with monsters
+}
+
+// Encounters by the template of the spawned pack
+export interface MonsterBalanceStats {
+    monsterId: string;
+    minLevel: number; // Lowest and highest level the template spawned at
+    maxLevel: number;
+    encounters: number;
+    kills: number; // Encounters won (the whole pack defeated)
+    deaths: number;
+    avgTtkMs: number; // Average time to clear the pack (won fights only)
+}
+
+export interface QualityStats {
+    quality: ItemQuality;
+    expectedPercent: number; // From qualityWeights
+    observedCount: number;
+    observedPercent: number;
+}
+
+export interface DropRateStats {
+    lootTableId: string;
+    baseId: string;
+    configuredChance: number;
+    kills: number; // Kills of monsters using this loot table, except rarities that add their own table
+    drops: number;
+    observedRate: number;
+}
+
+export interface ZoneBalanceReport {
+    zoneId: string;
+    zoneName: string;
+    requiredLevel: number;
+    encounters: number;
+    kills: number; // Encounters won (the whole pack defeated)
+    monstersKilled: number; // Pack members defeated, including those of lost fights
+    deaths: number;
+    timeouts: number;
+    deathRate: number; // Deaths per encounter
+    avgTtkMs: number;
+    xpPerHour: number;
+    goldPerHour: number;
+    simulatedMs: number; // Fight time plus the pause between encounters
+    monsters: MonsterBalanceStats[];
+    qualityDistribution: QualityStats[];
+    dropRates: DropRateStats[];
+    warnings: string[];
+}
+
+export interface BalanceReport {
+    options: BalanceSimulationOptions;
+    zones: ZoneBalanceReport[];
+}
+
+const MAX_ATTEMPTS_PER_KILL = 10; // Stops 'kills' sessions that can never finish
+
+// --- Character Setup ---
+
+/**
+ * Builds a character for simulation: class base stats plus the class growth of every level up,
+ * with all free attribute points spent on the class's primary attribute, the given gear
+ * equipped as plain (white) items, and the given skill ranks learned.
+ * @throws Error if the class or an item ID is unknown, or an item cannot be equipped by the class, whose requirements
+ * are not met at that level, or that has no free slot (e.g. a shield next to a two-handed weapon).
+ * Also if a skill is unknown, belongs to another class, or cannot have that rank at that level.
+ */
+export function buildSimulatedCharacter(classId: string, level: number, gear: string[], rng: Rng, skillRanks: Record<string, number> = {}): Character {
+    const characterClass = characterClasses.get(classId);
+    if (!characterClass) {
+        throw new Error(`Unknown class "${classId}". Available: ${Array.from(characterClasses.keys()).join(', ')}`);
+    }
+
+    // Level ups grant the class growth and free attribute points (see applyLevelUpGrowth)
+    const levelUps = Math.max(0, level - 1);
+    const stats = { ...characterClass.baseStats };
+    for (const stat of ATTRIBUTE_KEYS) {
+        stats[stat] += (characterClass.statsPerLevel[stat] ?? 0) * levelUps;
+    }
+    const allocatedAttributes = { strength: 0, dexterity: 0, vitality: 0, energy: 0 };
+    allocatedAttributes[characterClass.primaryAttribute] = characterClass.attributePointsPerLevel * levelUps;
+    stats[characterClass.primaryAttribute] += allocatedAttributes[characterClass.primaryAttribute];
+
+    const equipment: Partial<Record<EquipmentSlot, Item>> = {};
+    for (const baseId of gear) {
+        const base = itemDefinitions.get(baseId);
+        if (!base) throw new Error(`Unknown item "${baseId}".`);
+        if (!base.equipmentSlot) throw new Error(`Item "${baseId}" cannot be equipped.`);
+        const item: Item = {
+            ...JSON.parse(JSON.stringify(base)),
+            id: rng.uuid(),
+            quality: 'White',
+            prefixes: [],
+            suffixes: []
+        };
+        if (!canClassEquipItem(classId, item)) throw new Error(`Class "${classId}" cannot use ${item.weaponType} weapons ("${baseId}").`);
+        const requirements = getItemRequirements(item);
+        if (level < requirements.level || stats.strength < requirements.strength || stats.dexterity < requirements.dexterity) {
+            throw new Error(`A level ${level} ${characterClass.name} does not meet the requirements of "${baseId}".`);
+        }
+        const { slot, displaced } = planEquip(equipment, { ...item, equipmentSlot: base.equipmentSlot });
+        if (displaced.length > 0) throw new Error(`Item "${baseId}" does not fit next to the rest of the gear (${displaced.join(', ')} taken).`);
+        equipment[slot] = item;
+    }
+
+    for (const [skillId, rank] of Object.entries(skillRanks)) {
+        const skill = skillDefinitions.get(skillId);
+        if (!skill || skill.classId !== classId) throw new Error(`Class "${classId}" has no skill "${skillId}".`);
+        if (!Number.isInteger(rank) || rank < 1 || rank > skill.maxRank) throw new Error(`Skill "${skillId}" ranks go from 1 to ${skill.maxRank} (got ${rank}).`);
+        if (level < skill.requiredLevel) throw new Error(`Skill "${skillId}" requires level ${skill.requiredLevel}.`);
+        const missing = (skill.prerequisites ?? []).filter(prerequisite => !skillRanks[prerequisite]);
+        if (missing.length > 0) throw new Error(`Skill "${skillId}" requires ${missing.join(', ')} first.`);
+    }
+
+    const maxHp = calculateMaxHp(stats, classId, level);
+    const maxMana = calculateMaxMana(stats, classId, level);
+    return {
+        id: 'simulated',
+        userId: 'simulated',
+        name: `Simulated ${characterClass.name}`,
+        class: classId,
+        level,
+        experience: 0,
+        stats,
+        currentHp: maxHp,
+        maxHp,
+        currentMana: maxMana,
+        maxMana,
+        currentZoneId: 'town',
+        inventory: [],
+        equipment,
+        groundLoot: [],
+        gold: 0,
+        skills: { ...skillRanks },
+        skillPoints: 0,
+        skillHotkeys: [],
+        availableAttributePoints: 0,
+        allocatedAttributes,
+        autoRestThresholdPercent: 0,
+        autoPotionRules: [],
+        targetPriority: 'lowest_hp',
+        statusEffects: [],
+        autoPickupFilter: createDefaultAutoPickupFilter(),
+        stash: createEmptyStash(PERSONAL_STASH_TABS),
+        vendorStocks: {},
+        buyback: []
+    };
+}
+
+// --- Zone Simulation ---
+
+/**
+ * Checks a zone's content for common tuning mistakes.
+ */
+function getZoneWarnings(zoneId: string): string[] {
+    const zone = zones.get(zoneId);
+    if (!zone) return [];
+    const warnings: string[] = [];
+    if (zone.monsterLevel && zone.monsterLevel.min < zone.requiredLevel) {
+        warnings.push(`Monster levels start at ${zone.monsterLevel.min}, below the zone's required level ${zone.requiredLevel}.`);
+    }
+    // Templates are meant to be reused across zones, but not at the same levels
+    const monsterIds = zone.monsterSpawns.map(spawn => spawn.monsterId);
+    const overlapping = Array.from(zones.values()).filter(other => other.id !== zoneId
+        && monsterIds.length > 0 && monsterIds.every(id => other.monsterSpawns.some(spawn => spawn.monsterId === id))
+        && !!zone.monsterLevel && !!other.monsterLevel
+        && zone.monsterLevel.min <= other.monsterLevel.max && other.monsterLevel.min <= zone.monsterLevel.max);
+    for (const other of overlapping) {
+        warnings.push(`All monsters in this zone also spawn in "${other.id}" at overlapping levels (${other.monsterLevel?.min}-${other.monsterLevel?.max}).`);
+    }
+    return warnings;
+}
+
+/**
+ * Simulates encounters in a single zone and aggregates the results.
+ */
+function simulateZone(zoneId: string, character: Character, options: BalanceSimulationOptions, rng: Rng): ZoneBalanceReport {
+    const zone = zones.get(zoneId);
+    if (!zone) throw new Error(`Unknown zone "${zoneId}".`);
+    if (zone.monsterSpawns.length === 0) throw new Error(`Zone "${zoneId}" has no monsters.`);
+
+    const monsterStats = new Map<string, MonsterBalanceStats & { totalTtkMs: number }>();
+    const qualityCounts = new Map<ItemQuality, number>();
+    const tableKills = new Map<string, number>();
+    const tableDrops = new Map<string, Map<string, number>>(); // lootTableId -> baseId -> count
+
+    let encounters = 0, kills = 0, monstersKilled = 0, deaths = 0, timeouts = 0;
+    let totalTtkMs = 0, simulatedMs = 0, totalXp = 0, totalGold = 0;
+    let currentHp = character.maxHp;
+    const skillRotation = Object.keys(character.skills).filter(skillId => skillDefinitions.get(skillId)?.type === 'active');
+
+    const maxEncounters = options.mode === 'fights' ? options.count : options.count * MAX_ATTEMPTS_PER_KILL;
+    while (encounters < maxEncounters && (options.mode === 'fights' || kills < options.count)) {
+        // The same packs as on the live server: the zone's pack size, with a leader that may roll a rarity
+        const monster = rollZoneSpawn(zone, rng);
+        if (!monster) throw new Error(`Zone "${zoneId}" has no valid spawns.`);
+        const monsterId = monster.id;
+        const pack = createMonsterPack(zone, monster, rng);
+
+        // In 'kills' mode HP carries over between fights (respawning at full HP after a death)
+        const fighter = options.mode === 'kills' ? { ...character, currentHp } : character;
+        const result = simulateCombat(fighter, pack, rng, { skillRotation });
+
+        encounters++;
+        simulatedMs += result.durationMs + NEXT_ENCOUNTER_DELAY_MS;
+
+        const perMonster = monsterStats.get(monsterId) ?? { monsterId, minLevel: monster.level, maxLevel: monster.level, encounters: 0, kills: 0, deaths: 0, avgTtkMs: 0, totalTtkMs: 0 };
+        perMonster.minLevel = Math.min(perMonster.minLevel, monster.level);
+        perMonster.maxLevel = Math.max(perMonster.maxLevel, monster.level);
+        perMonster.encounters++;
+        monsterStats.set(monsterId, perMonster);
+
+        // Every defeat grants its rewards, even if the player dies to the rest of the pack
+        monstersKilled += result.defeats.length;
+        totalXp += result.xpGained;
+        for (const item of result.loot) {
+            if (item.baseId === GOLD_BASE_ID) totalGold += item.quantity ?? 1;
+            if (item.type === 'weapon' || item.type === 'armor') {
+                qualityCounts.set(item.quality, (qualityCounts.get(item.quality) ?? 0) + 1);
+            }
+        }
+        // Drop rates compare a loot table with its configuration, so only loot that comes from that table alone counts
+        for (const { monster: defeated, loot } of result.defeats) {
+            if (!defeated.lootTableId || (defeated.rarity && monsterRarities.get(defeated.rarity)?.lootTableId)) continue;
+            tableKills.set(defeated.lootTableId, (tableKills.get(defeated.lootTableId) ?? 0) + 1);
+            const drops = tableDrops.get(defeated.lootTableId) ?? new Map<string, number>();
+            tableDrops.set(defeated.lootTableId, drops);
+            loot.forEach(item => drops.set(item.baseId, (drops.get(item.baseId) ?? 0) + 1));
+        }
+
+        if (result.winner === 'player') {
+            kills++;
+            perMonster.kills++;
+            perMonster.totalTtkMs += result.durationMs;
+            totalTtkMs += result.durationMs;
+            currentHp = result.playerHp;
+        } else if (result.winner === 'monster') {
+            deaths++;
+            perMonster.deaths++;
+            currentHp = character.maxHp;
+        } else {
+            timeouts++;
+            currentHp = character.maxHp;
+        }
+    }
+
+    const hours = simulatedMs / 3_600_000;
+    const totalWeight = qualityWeights.reduce((sum, entry) => sum + entry.weight, 0);
+    const totalQualityDrops = Array.from(qualityCounts.values()).reduce((sum, count) => sum + count, 0);
+
+    // Drop rates for every loot table the zone's spawns dropped from
+    const dropRates: DropRateStats[] = [];
+    for (const lootTableId of tableKills.keys()) {
+        const killsWithTable = tableKills.get(lootTableId) ?? 0;
+        for (const entry of lootTables.get(lootTableId) ?? []) {
+            const drops = tableDrops.get(lootTableId)?.get(entry.baseId) ?? 0;
+            dropRates.push({
+                lootTableId,
+                baseId: entry.baseId,
+                configuredChance: entry.chance,
+                kills: killsWithTable,
+                drops,
+                observedRate: killsWithTable > 0 ? drops / killsWithTable : 0
+            });
+        }
+    }
+
+    return {
+        zoneId,
+        zoneName: zone.name,
+        requiredLevel: zone.requiredLevel,
+        encounters,
+        kills,
+        monstersKilled,
+        deaths,
+        timeouts,
+        deathRate: encounters > 0 ? deaths / encounters : 0,
+        avgTtkMs: kills > 0 ? Math.round(totalTtkMs / kills) : 0,
+        xpPerHour: hours > 0 ? Math.round(totalXp / hours) : 0,
+        goldPerHour: hours > 0 ? Math.round(totalGold / hours) : 0,
+        simulatedMs,
+        monsters: Array.from(monsterStats.values()).map(({ totalTtkMs: monsterTtkMs, ...stats }) => ({
+            ...stats,
+            avgTtkMs: stats.kills > 0 ? Math.round(monsterTtkMs / stats.kills) : 0
+        })),
+        qualityDistribution: qualityWeights.map(entry => ({
+            quality: entry.quality,
+            expectedPercent: totalWeight > 0 ? (entry.weight / totalWeight) * 100 : 0,
+            observedCount: qualityCounts.get(entry.quality) ?? 0,
+            observedPercent: totalQualityDrops > 0 ? ((qualityCounts.get(entry.quality) ?? 0) / totalQualityDrops) * 100 : 0
+        })),
+        dropRates,
+        warnings: getZoneWarnings(zoneId)
+    };
+}
+
+/**
+ * Runs a balance simulation for a class/level/gear loadout across zones.
+ * The whole run is driven by a single seeded Rng, so the same options always produce the same report.
+ * @param options Simulation options.
+ * @returns A report per simulated zone.
+ * @throws Error for unknown classes, items or zones.
+ */
+export function runBalanceSimulation(options: BalanceSimulationOptions): BalanceReport {
+    const rng = createSeededRng(options.seed);
+    const character = buildSimulatedCharacter(options.classId, options.level, options.gear, rng, options.skills);
+    const zoneIds = options.zoneIds && options.zoneIds.length > 0
+        ? options.zoneIds
+        : Array.from(zones.values()).filter(zone => zone.monsterSpawns.length > 0).map(zone => zone.id);
+
+    return {
+        options,
+        zones: zoneIds.map(zoneId => simulateZone(zoneId, character, options, rng))
+    };
+}
@@ -0,0 +1,515 @@
+import { Character, Monster, Item, DamageBreakdown, PoisonApplication, CombatState, StatusTickOutcome, SplashHit } from '../types.js';
+import { skills } from '../gameData.js';
+import { createClassResource, calculatePlayerAttackSpeed, calculateMonsterAttackSpeed, selectTarget, POISON_TICK_MS } from '../combatCalculator.js';
+import { STATUS_TICK_MS } from '../statusEffects.js';
+import {
+    performPlayerAttackAction,
+    getSkillUseError,
+    performSkillAction,
+    performMonsterAttackAction,
+    performPoisonTickAction,
+    performStatusTickAction,
+    removeDefeatedMonsters,
+    rollDefeatRewards
+} from '../combatActions.js';
+import { calculateCharacterStats } from '../utils.js';
+import { Rng, createSeededRng } from '../rng.js';
+
+// --- Engine Types ---
+
+export type CombatEventType =
+    | 'player_attack'
+    | 'skill'
+    | 'monster_attack'
+    | 'poison_tick'
+    | 'status_tick'
+    | 'monster_defeated'
+    | 'player_defeated'
+    | 'timeout';
+
+// A single entry of the combat event log
+export interface CombatEvent {
+    timeMs: number;
+    type: CombatEventType;
+    monsterId?: string; // The pack member attacked, attacking, ticking or defeated
+    skillId?: string; // Skills only
+    target?: 'monster' | 'player'; // Poison and status ticks only
+    hit?: boolean;
+    critical?: boolean;
+    blocked?: boolean;
+    damage?: number;
+    manaAbsorbed?: number;
+    shieldAbsorbed?: number;
+    monsterHealed?: number; // Vampiric monsters only
+    healed?: number; // Skill heals and healing ticks
+    damageBreakdown?: DamageBreakdown;
+    lifeStolen?: number;
+    manaStolen?: number;
+    poisonApplied?: PoisonApplication;
+    splashHits?: SplashHit[]; // Area-of-effect skills: the other pack members
+    statusEffectsApplied?: string[]; // Effect IDs a monster's hit applied to the player
+    playerHp: number;
+    monsterHp?: number; // HP of the pack member the event is about
+}
+
+export type CombatWinner = 'player' | 'monster' | 'timeout';
+
+export interface CombatEngineOptions {
+    tickMs?: number; // Time resolution of the engine (default 100ms)
+    monsterStartDelayMs?: number; // Delay before each monster's first swing (default: rolled 100-300ms like the live server)
+    skillRotation?: string[]; // Active skills to use whenever they are ready, in order of priority
+}
+
+// A pack member defeated during the fight, with the rewards the live server would grant
+export interface MonsterDefeat {
+    timeMs: number;
+    monster: Monster;
+    xp: number;
+    loot: Item[];
+}
+
+export interface CombatSimulationResult {
+    winner: CombatWinner;
+    durationMs: number;
+    events: CombatEvent[];
+    playerHp: number;
+    playerMana: number;
+    xpGained: number; // From every defeated pack member, even if the player died later
+    loot: Item[];
+    defeats: MonsterDefeat[];
+}
+
+// Active poison on a pack member or the player
+interface ScheduledPoison extends PoisonApplication {
+    monsterId: string; // The poisoned pack member, or the one that poisoned the player
+    nextTickAt: number;
+}
+
+// A pack member's attack interval
+interface MonsterSchedule {
+    attackSpeed: number;
+    nextAttackAt: number;
+}
+
+const DEFAULT_TICK_MS = 100;
+const DEFAULT_MAX_DURATION_MS = 10 * 60 * 1000; // Safety limit for offline simulations
+
+/**
+ * Tick-based, deterministic combat between one character and a monster pack.
+ * Every action is resolved by combatActions.ts, exactly like on the live server; the engine only
+ * replaces the server's intervals and timeouts with its own clock, starting at 0.
+ * All randomness comes from the injected Rng, so the same seed always produces the same event log.
+ * The engine is advanced explicitly: offline simulations run it to completion, while a live
+ * server can drive it from a clock by calling advance() with the elapsed time.
+ * Level ups are not applied during the fight; the XP of each defeat is reported instead.
+ */
+export class CombatEngine {
+    private readonly state: CombatState;
+    private readonly rng: Rng;
+    private readonly tickMs: number;
+    private readonly skillRotation: string[];
+
+    private timeMs = 0;
+    private playerAttackSpeed: number;
+    private nextPlayerAttackAt: number;
+    private monsterSchedules: Map<string, MonsterSchedule> = new Map();
+    private monsterPoisons: Map<string, ScheduledPoison> = new Map();
+    private playerPoison: ScheduledPoison | null = null;
+    private nextStatusTickAt = STATUS_TICK_MS;
+    // Skill ID -> time (ms) at which the skill can be used again
+    private skillCooldowns: Map<string, number> = new Map();
+    private winner: CombatWinner | null = null;
+    private readonly defeatLog: MonsterDefeat[] = [];
+
+    /**
+     * @param character The character as stored. It is copied, never mutated; its status effects are
+     * not carried into the fight, since they are timed on the server's clock.
+     * @param pack The monster (template or instance) or pack to fight. It is copied, never mutated.
+     * @param rng Random source for every roll in the fight.
+     * @param options Engine timing and skill options.
+     */
+    constructor(character: Character, pack: Monster | Monster[], rng: Rng, options: CombatEngineOptions = {}) {
+        const monsters = (Array.isArray(pack) ? pack : [pack]).map(monster => ({
+            ...structuredClone(monster),
+            currentHp: monster.currentHp > 0 ? monster.currentHp : monster.maxHp,
+            statusEffects: []
+        }));
+        const fighter: Character = { ...structuredClone(character), statusEffects: [] };
+        this.state = {
+            character: fighter,
+            encounter: { monsters, targetId: selectTarget(monsters, fighter.targetPriority)?.id ?? null },
+            classResource: createClassResource(fighter)
+        };
+        this.rng = rng;
+        this.tickMs = Math.max(1, options.tickMs ?? DEFAULT_TICK_MS);
+        this.skillRotation = options.skillRotation ?? [];
+
+        this.playerAttackSpeed = calculatePlayerAttackSpeed(calculateCharacterStats(fighter, 0), 0);
+        this.nextPlayerAttackAt = this.playerAttackSpeed;
+        // Each pack member starts with its own slight delay, so the pack doesn't swing in unison
+        for (const monster of monsters) {
+            const attackSpeed = calculateMonsterAttackSpeed(monster, 0);
+            const startDelay = options.monsterStartDelayMs ?? rng.int(100, 300);
+            this.monsterSchedules.set(monster.id, { attackSpeed, nextAttackAt: startDelay + attackSpeed });
+        }
+    }
+
+    get elapsedMs(): number {
+        return this.timeMs;
+    }
+
+    get isFinished(): boolean {
+        return this.winner !== null;
+    }
+
+    get result(): CombatWinner | null {
+        return this.winner;
+    }
+
+    get currentPlayerHp(): number {
+        return this.state.character.currentHp;
+    }
+
+    get currentPlayerMana(): number {
+        return this.state.character.currentMana;
+    }
+
+    // The pack members still alive
+    get monsters(): readonly Monster[] {
+        return this.state.encounter.monsters;
+    }
+
+    get defeats(): readonly MonsterDefeat[] {
+        return this.defeatLog;
+    }
+
+    /**
+     * Advances the fight by the given time, processing every action that becomes due.
+     * @param ms Milliseconds to advance (rounded up to whole ticks).
+     * @returns The events that happened during this step.
+     */
+    advance(ms: number): CombatEvent[] {
+        const events: CombatEvent[] = [];
+        const targetTime = this.timeMs + ms;
+
+        while (!this.winner && this.timeMs < targetTime) {
+            this.timeMs += this.tickMs;
+            this.processTick(events);
+        }
+        return events;
+    }
+
+    /**
+     * Uses an active skill at the current time, like the live server's 'use_skill' message.
+     * @param skillId The skill to use.
+     * @returns The events of the skill, or the reason it could not be used.
+     */
+    useSkill(skillId: string): { events: CombatEvent[]; error?: string } {
+        const events: CombatEvent[] = [];
+        if (this.winner) {
+            return { events, error: 'Encounter already ended.' };
+        }
+        const skill = skills.get(skillId);
+        const error = getSkillUseError(this.state.character, skill, this.skillCooldowns.get(skillId) ?? 0, this.timeMs);
+        if (error || !skill) {
+            return { events, error: error ?? 'Skill not learned.' };
+        }
+
+        const action = performSkillAction(this.state, skill, this.rng, this.timeMs);
+        if (action.skipped === 'no_target') return { events, error: 'Encounter already ended.' };
+        if (action.skipped === 'stunned') return { events, error: 'You are stunned.' };
+
+        this.skillCooldowns.set(skillId, this.timeMs + (skill.cooldownMs ?? 0));
+        events.push(this.event('skill', action.target, {
+            skillId,
+            hit: action.outcome.hit,
+            critical: action.outcome.critical,
+            damage: action.outcome.damage,
+            healed: action.healed || undefined,
+            damageBreakdown: action.outcome.damageBreakdown,
+            poisonApplied: action.outcome.poison,
+            splashHits: action.splashHits.length > 0 ? action.splashHits : undefined
+        }));
+        if (action.outcome.poison && action.target.currentHp > 0) {
+            this.startPoison(action.target.id, 'monster', action.outcome.poison);
+        }
+        this.updateAttackSpeeds(action.selfEffects.length > 0, action.debuffedMonsters);
+        this.handleDefeats(events, action.defeated);
+        return { events };
+    }
+
+    /**
+     * Ends the fight without a winner (used when a simulation exceeds its time limit).
+     */
+    timeout(): CombatEvent {
+        this.winner = 'timeout';
+        return this.event('timeout');
+    }
+
+    // --- Tick Processing ---
+
+    /**
+     * Runs all actions due at the current tick, in a fixed order so results are deterministic:
+     * skills, player attack, monster attacks in pack order, poison on the pack, poison on the player, status effects.
+     */
+    private processTick(events: CombatEvent[]): void {
+        const readySkill = this.skillRotation.find(skillId =>
+            getSkillUseError(this.state.character, skills.get(skillId), this.skillCooldowns.get(skillId) ?? 0, this.timeMs) === null);
+        if (readySkill) {
+            events.push(...this.useSkill(readySkill).events);
+            if (this.winner) return;
+        }
+
+        if (this.timeMs >= this.nextPlayerAttackAt) {
+            this.nextPlayerAttackAt += this.playerAttackSpeed;
+            this.playerAttack(events);
+            if (this.winner) return;
+        }
+
+        for (const monster of [...this.state.encounter.monsters]) {
+            const schedule = this.monsterSchedules.get(monster.id);
+            if (schedule && this.timeMs >= schedule.nextAttackAt) {
+                schedule.nextAttackAt += schedule.attackSpeed;
+                this.monsterAttack(events, monster.id, schedule);
+                if (this.winner) return;
+            }
+        }
+
+        for (const poison of [...this.monsterPoisons.values()]) {
+            if (this.timeMs >= poison.nextTickAt) {
+                this.poisonTick(events, 'monster', poison);
+                if (this.winner) return;
+            }
+        }
+
+        if (this.playerPoison && this.timeMs >= this.playerPoison.nextTickAt) {
+            this.poisonTick(events, 'player', this.playerPoison);
+            if (this.winner) return;
+        }
+
+        if (this.timeMs >= this.nextStatusTickAt) {
+            this.nextStatusTickAt += STATUS_TICK_MS;
+            this.statusTick(events);
+        }
+    }
+
+    private playerAttack(events: CombatEvent[]): void {
+        const action = performPlayerAttackAction(this.state, this.rng, this.timeMs);
+        if (action.skipped) return;
+
+        const { target, outcome } = action;
+        events.push(this.event('player_attack', target, {
+            hit: outcome.hit,
+            critical: outcome.critical,
+            damage: outcome.damage,
+            damageBreakdown: outcome.damageBreakdown,
+            lifeStolen: action.lifeStolen || undefined,
+            manaStolen: action.manaStolen || undefined,
+            poisonApplied: outcome.poison
+        }));
+
+        if (target.currentHp <= 0) {
+            this.handleDefeats(events, [target]);
+            return;
+        }
+        if (outcome.poison) {
+            this.startPoison(target.id, 'monster', outcome.poison);
+        }
+    }
+
+    private monsterAttack(events: CombatEvent[], monsterId: string, schedule: MonsterSchedule): void {
+        const action = performMonsterAttackAction(this.state, monsterId, this.rng, this.timeMs);
+        if (action.skipped) return;
+
+        const { attacker, outcome } = action;
+        events.push(this.event('monster_attack', attacker, {
+            hit: outcome.hit,
+            blocked: outcome.blocked,
+            damage: action.damage,
+            manaAbsorbed: action.manaAbsorbed || undefined,
+            shieldAbsorbed: action.shieldAbsorbed || undefined,
+            monsterHealed: action.monsterHealed || undefined,
+            damageBreakdown: outcome.damageBreakdown,
+            poisonApplied: outcome.poison,
+            statusEffectsApplied: action.onHitEffects.length > 0 ? action.onHitEffects : undefined
+        }));
+
+        if (action.playerDefeated) {
+            this.handlePlayerDeath(events);
+            return;
+        }
+        // Faster hit recovery pushes back the monster's next swing
+        schedule.nextAttackAt += action.hitRecoveryDelay;
+        if (outcome.poison) {
+            this.startPoison(attacker.id, 'player', outcome.poison);
+        }
+        if (action.shieldAbsorbed > 0 || action.onHitEffects.length > 0) {
+            this.updateAttackSpeeds(true, []);
+        }
+    }
+
+    private poisonTick(events: CombatEvent[], target: 'monster' | 'player', poison: ScheduledPoison): void {
+        poison.ticks--;
+        poison.nextTickAt += POISON_TICK_MS;
+        if (poison.ticks <= 0) {
+            this.stopPoison(target, poison.monsterId);
+        }
+
+        const action = performPoisonTickAction(this.state, target, poison.damagePerTick, poison.monsterId);
+        if (action.skipped) return;
+        events.push(this.event('poison_tick', target === 'monster' ? action.monster : undefined, {
+            target,
+            monsterId: poison.monsterId,
+            hit: true,
+            damage: poison.damagePerTick,
+            damageBreakdown: action.damageBreakdown
+        }));
+
+        if (!action.defeated) return;
+        if (target === 'player') {
+            this.handlePlayerDeath(events);
+        } else if (action.monster) {
+            this.handleDefeats(events, [action.monster]);
+        }
+    }
+
+    private statusTick(events: CombatEvent[]): void {
+        const action = performStatusTickAction(this.state, this.timeMs);
+        if (action.playerTick) {
+            events.push(this.tickEvent('player', undefined, action.playerTick));
+        }
+        if (action.playerDefeated) {
+            this.handlePlayerDeath(events);
+            return;
+        }
+        for (const monster of action.changedMonsters) {
+            const tick = action.monsterTicks.get(monster.id);
+            if (tick) events.push(this.tickEvent('monster', monster, tick));
+        }
+        if (action.playerChanged || action.changedMonsters.length > 0) {
+            this.updateAttackSpeeds(action.playerChanged, action.changedMonsters);
+        }
+        this.handleDefeats(events, action.defeated);
+    }
+
+    // --- Fight State ---
+
+    /**
+     * Restarts the attack intervals whose speed changed with the bearer's status effects, like the live server:
+     * the player's next swing comes one new interval from now, a monster's swing in progress still lands when
+     * it was due, but no later than the new attack speed from now.
+     */
+    private updateAttackSpeeds(player: boolean, monsters: Monster[]): void {
+        if (player) {
+            const attackSpeed = calculatePlayerAttackSpeed(calculateCharacterStats(this.state.character, this.timeMs), this.timeMs);
+            if (attackSpeed !== this.playerAttackSpeed) {
+                this.playerAttackSpeed = attackSpeed;
+                this.nextPlayerAttackAt = this.timeMs + attackSpeed;
+            }
+        }
+        for (const monster of monsters) {
+            const schedule = this.monsterSchedules.get(monster.id);
+            const attackSpeed = calculateMonsterAttackSpeed(monster, this.timeMs);
+            if (schedule && monster.currentHp > 0 && attackSpeed !== schedule.attackSpeed) {
+                schedule.nextAttackAt = this.timeMs + Math.min(Math.max(0, schedule.nextAttackAt - this.timeMs), attackSpeed);
+                schedule.attackSpeed = attackSpeed;
+            }
+        }
+    }
+
+    // A new application replaces any poison already ticking on the same target
+    private startPoison(monsterId: string, target: 'monster' | 'player', poison: PoisonApplication): void {
+        const scheduled: ScheduledPoison = { ...poison, monsterId, nextTickAt: this.timeMs + POISON_TICK_MS };
+        if (target === 'monster') {
+            this.monsterPoisons.set(monsterId, scheduled);
+        } else {
+            this.playerPoison = scheduled;
+        }
+    }
+
+    private stopPoison(target: 'monster' | 'player', monsterId: string): void {
+        if (target === 'monster') {
+            this.monsterPoisons.delete(monsterId);
+        } else {
+            this.playerPoison = null;
+        }
+    }
+
+    /**
+     * Grants the rewards of defeated pack members and removes them; clearing the pack wins the fight.
+     */
+    private handleDefeats(events: CombatEvent[], defeated: Monster[]): void {
+        if (defeated.length === 0) return;
+        for (const monster of defeated) {
+            const { xp, loot } = rollDefeatRewards([monster], this.state.character.level, this.rng);
+            this.defeatLog.push({ timeMs: this.timeMs, monster, xp, loot });
+            this.monsterSchedules.delete(monster.id);
+            this.monsterPoisons.delete(monster.id);
+            events.push(this.event('monster_defeated', monster));
+        }
+        if (removeDefeatedMonsters(this.state.encounter, this.state.character, defeated)) {
+            this.winner = 'player';
+            this.monsterPoisons.clear();
+            this.playerPoison = null;
+        }
+    }
+
+    private handlePlayerDeath(events: CombatEvent[]): void {
+        this.winner = 'monster';
+        this.monsterPoisons.clear();
+        this.playerPoison = null;
+        events.push(this.event('player_defeated'));
+    }
+
+    private tickEvent(target: 'monster' | 'player', monster: Monster | undefined, tick: StatusTickOutcome): CombatEvent {
+        return this.event('status_tick', monster, { target, hit: true, damage: tick.damage, healed: tick.healed || undefined });
+    }
+
+    private event(type: CombatEventType, monster?: Monster, details: Partial<CombatEvent> = {}): CombatEvent {
+        return {
+            timeMs: this.timeMs,
+            type,
+            monsterId: monster?.id,
+            monsterHp: monster && Math.max(0, monster.currentHp),
+            ...details,
+            playerHp: Math.max(0, this.state.character.currentHp)
+        };
+    }
+}
+
+/**
+ * Simulates a full fight offline and returns the complete event log.
+ * The same character, pack and seed always produce the same result, including loot.
+ * @param character The character as stored (equipment bonuses are applied by the engine).
+ * @param pack The monster (template or instance) or pack to fight.
+ * @param seed Seed (or an existing Rng) for every roll in the fight and the loot.
+ * @param options Engine timing and skill options plus the maximum fight duration.
+ * @returns The outcome, rewards and event log of the fight.
+ */
+export function simulateCombat(
+    character: Character,
+    pack: Monster | Monster[],
+    seed: number | string | Rng,
+    options: CombatEngineOptions & { maxDurationMs?: number } = {}
+): CombatSimulationResult {
+    const rng = typeof seed === 'object' ? seed : createSeededRng(seed);
+    const engine = new CombatEngine(character, pack, rng, options);
+    const maxDurationMs = options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS;
+
+    const events = engine.advance(maxDurationMs);
+    if (!engine.isFinished) {
+        events.push(engine.timeout());
+    }
+
+    const defeats = [...engine.defeats];
+    return {
+        winner: engine.result ?? 'timeout',
+        durationMs: engine.elapsedMs,
+        events,
+        playerHp: Math.max(0, engine.currentPlayerHp),
+        playerMana: engine.currentPlayerMana,
+        xpGained: defeats.reduce((sum, defeat) => sum + defeat.xp, 0),
+        loot: defeats.flatMap(defeat => defeat.loot),
+        defeats
+    };
+}
@@ -0,0 +1,172 @@
+import { ActiveStatusEffect, StatusEffectApplication, StatusEffectModifiers, StatusTickOutcome, ItemStats, Resistances, DamageType } from './types.js';
+import { statusEffects } from './gameData.js';
+import { Rng, defaultRng } from './rng.js';
+
+export const STATUS_TICK_MS = 250; // How often the combat handler checks for due ticks and expired effects
+
+// Resistance that applies to tick damage of each type (physical damage over time is not resisted)
+const TICK_RESISTANCES: Partial<Record<DamageType, keyof Resistances>> = {
+    fire: 'fireRes',
+    cold: 'coldRes',
+    lightning: 'lightningRes',
+    poison: 'poisonRes'
+};
+
+// --- Applying ---
+
+/**
+ * Rolls the chance of each application.
+ * @param applications The possible applications (e.g. of a skill or a monster's on-hit effects).
+ * @param target Only applications aimed at this side are rolled.
+ * @param rng Random source for the chances.
+ * @returns The IDs of the effects that apply.
+ */
+export function rollStatusEffects(applications: StatusEffectApplication[] | undefined, target: StatusEffectApplication['target'], rng: Rng = defaultRng): string[] {
+    return (applications ?? [])
+        .filter(application => application.target === target)
+        .filter(application => application.chance === undefined || application.chance >= 1 || rng.next() < application.chance)
+        .map(application => application.effectId);
+}
+
+/**
+ * Applies an effect to a list of active effects, following the effect's stacking rule.
+ * Expired effects are dropped first, so a reapplication after expiry starts fresh.
+ * @param effects The bearer's active effects (mutated).
+ * @param effectId The effect to apply.
+ * @param now Current time in epoch milliseconds.
+ * @param sourceId The monster instance applying it, if any.
+ * @returns The active effect, or undefined if the effect does not exist.
+ */
+export function applyStatusEffect(effects: ActiveStatusEffect[], effectId: string, now: number = Date.now(), sourceId?: string): ActiveStatusEffect | undefined {
+    const definition = statusEffects.get(effectId);
+    if (!definition) {
+        console.warn(`StatusEffects: Unknown status effect "${effectId}".`);
+        return undefined;
+    }
+    removeExpiredStatusEffects(effects, now);
+
+    const existing = effects.find(effect => effect.effectId === effectId);
+    if (!existing) {
+        const effect: ActiveStatusEffect = {
+            effectId,
+            name: definition.name,
+            kind: definition.kind,
+            stacks: 1,
+            expiresAt: now + definition.durationMs,
+            nextTickAt: definition.tickMs ? now + definition.tickMs : undefined,
+            absorbRemaining: definition.absorb,
+            sourceId
+        };
+        effects.push(effect);
+        return effect;
+    }
+
+    if (definition.stacking === 'extend') {
+        existing.expiresAt += definition.durationMs;
+    } else {
+        existing.expiresAt = now + definition.durationMs;
+    }
+    if (definition.stacking === 'stack') {
+        existing.stacks = Math.min(definition.maxStacks ?? 1, existing.stacks + 1);
+    }
+    if (definition.absorb !== undefined) {
+        existing.absorbRemaining = definition.absorb * existing.stacks;
+    }
+    existing.sourceId = sourceId ?? existing.sourceId;
+    return existing;
+}
+
+/**
+ * Removes expired effects (and depleted shields) from a list of active effects.
+ * @param effects The bearer's active effects (mutated).
+ * @param now Current time in epoch milliseconds.
+ * @returns The removed effects.
+ */
+export function removeExpiredStatusEffects(effects: ActiveStatusEffect[], now: number = Date.now()): ActiveStatusEffect[] {
+    const expired = effects.filter(effect => effect.expiresAt <= now || effect.absorbRemaining === 0);
+    if (expired.length > 0) {
+        effects.splice(0, effects.length, ...effects.filter(effect => !expired.includes(effect)));
+    }
+    return expired;
+}
+
+// --- Effects ---
+
+/**
+ * Combines the active effects into the modifiers they apply. Stat modifiers add up per stack;
+ * attack speed multipliers compound per stack.
+ * @param effects The bearer's effects (expired ones are ignored).
+ * @param now Current time in epoch milliseconds.
+ */
+export function getStatusEffectModifiers(effects: ActiveStatusEffect[] | undefined, now: number = Date.now()): StatusEffectModifiers {
+    const modifiers: StatusEffectModifiers = { stats: {}, attackSpeedMultiplier: 1, preventsAttacks: false };
+    for (const effect of effects ?? []) {
+        const definition = statusEffects.get(effect.effectId);
+        if (!definition || effect.expiresAt <= now) continue;
+
+        for (const [statKey, value] of Object.entries(definition.statModifiers ?? {}) as [keyof ItemStats, number][]) {
+            modifiers.stats[statKey] = (modifiers.stats[statKey] ?? 0) + value * effect.stacks;
+        }
+        modifiers.attackSpeedMultiplier *= Math.pow(definition.attackSpeedMultiplier ?? 1, effect.stacks);
+        modifiers.preventsAttacks = modifiers.preventsAttacks || definition.preventsAttacks === true;
+    }
+    return modifiers;
+}
+
+/**
+ * Lets the active shields absorb incoming damage, oldest first. Depleted shields stay in the list
+ * with absorbRemaining 0 until removeExpiredStatusEffects drops them.
+ * @param effects The bearer's active effects (mutated).
+ * @param damage The incoming damage.
+ * @param now Current time in epoch milliseconds.
+ * @returns The damage absorbed.
+ */
+export function absorbDamageWithStatusEffects(effects: ActiveStatusEffect[] | undefined, damage: number, now: number = Date.now()): number {
+    let absorbed = 0;
+    for (const effect of effects ?? []) {
+        if (absorbed >= damage) break;
+        if (!effect.absorbRemaining || effect.expiresAt <= now) continue;
+        const amount = Math.min(effect.absorbRemaining, damage - absorbed);
+        effect.absorbRemaining -= amount;
+        absorbed += amount;
+    }
+    return absorbed;
+}
+
+/**
+ * Applies every tick that has come due: damage (reduced by resistances) and healing, per stack.
+ * An effect ticks at most once per call, so ticks missed while no fight was running are not caught up.
+ * @param effects The bearer's active effects (mutated: the next tick times advance).
+ * @param resistances The bearer's resistances.
+ * @param maxResistance Cap of the bearer's resistances.
+ * @param now Current time in epoch milliseconds.
+ * @returns The tick totals, or undefined if nothing ticked.
+ */
+export function collectStatusEffectTicks(effects: ActiveStatusEffect[] | undefined, resistances: Resistances, maxResistance: number, now: number = Date.now()): StatusTickOutcome | undefined {
+    let outcome: StatusTickOutcome | undefined;
+    for (const effect of effects ?? []) {
+        const definition = statusEffects.get(effect.effectId);
+        if (!definition?.tickMs || effect.nextTickAt === undefined || effect.nextTickAt > now || effect.expiresAt < effect.nextTickAt) continue;
+        effect.nextTickAt = now + definition.tickMs;
+
+        outcome ??= { damage: 0, damageBreakdown: { physical: 0, fire: 0, cold: 0, lightning: 0, poison: 0 }, healed: 0 };
+        if (definition.tickDamage) {
+            const resistanceKey = TICK_RESISTANCES[definition.tickDamage.type];
+            const resistance = resistanceKey ? Math.min(maxResistance, resistances[resistanceKey] ?? 0) : 0;
+            const damage = Math.max(0, Math.round(definition.tickDamage.amount * effect.stacks * (1 - resistance / 100)));
+            outcome.damageBreakdown[definition.tickDamage.type] += damage;
+            outcome.damage += damage;
+        }
+        outcome.healed += (definition.tickHeal ?? 0) * effect.stacks;
+    }
+    return outcome;
+}
+
+/**
+ * Drops the debuffs from a list of effects, keeping the buffs (used when an encounter ends).
+ * @param effects The bearer's active effects.
+ * @returns The remaining effects.
+ */
+export function withoutDebuffs(effects: ActiveStatusEffect[] | undefined): ActiveStatusEffect[] {
+    return (effects ?? []).filter(effect => effect.kind !== 'debuff');
+}
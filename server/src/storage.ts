@@ -0,0 +1,75 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { connectToDatabase } from './db.js';
+import { CharacterRepository } from './repositories/characterRepository.js';
+import { UserRepository } from './repositories/userRepository.js';
+import { createInMemoryCharacterRepository, createInMemoryUserRepository } from './repositories/memoryRepositories.js';
+import { createJsonFileCharacterRepository, createJsonFileUserRepository } from './repositories/jsonFileRepositories.js';
+import { StorageBackend, StorageBackendType } from './types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const STORAGE_BACKEND_TYPES: StorageBackendType[] = ['mongo', 'json', 'memory'];
+
+/**
+ * Reads the configured backend from STORAGE_BACKEND.
+ * Without it, Mongo is used when MONGODB_URI is set and the JSON files otherwise.
+ * @throws Error if STORAGE_BACKEND has an unknown value.
+ */
+export function getStorageBackendType(): StorageBackendType {
+    const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+    if (!configured) {
+        return process.env.MONGODB_URI ? 'mongo' : 'json';
+    }
+    if (!STORAGE_BACKEND_TYPES.includes(configured as StorageBackendType)) {
+        throw new Error(`Unknown STORAGE_BACKEND "${configured}". Use one of: ${STORAGE_BACKEND_TYPES.join(', ')}.`);
+    }
+    return configured as StorageBackendType;
+}
+
+/**
+ * Directory of the JSON-file backend. Defaults to server/data/local, which git ignores (the files
+ * directly in server/data are tracked). Overridable with JSON_DATA_DIR.
+ */
+function getJsonDataDirectory(): string {
+    return process.env.JSON_DATA_DIR ? path.resolve(process.env.JSON_DATA_DIR) : path.resolve(__dirname, '../data/local');
+}
+
+/**
+ * Creates the repositories for a persistence backend. All backends implement the same
+ * ICharacterRepository/IUserRepository interfaces, so services do not depend on the choice.
+ * - mongo: MongoDB collections (requires MONGODB_URI)
+ * - json: users.json / characters.json in the data directory, written atomically
+ * - memory: nothing is persisted (local testing)
+ * @param type The backend to use.
+ * @returns The backend's repositories and its connect step.
+ */
+export function createStorageBackend(type: StorageBackendType = getStorageBackendType()): StorageBackend {
+    console.log(`Storage: Using '${type}' backend.`);
+    switch (type) {
+        case 'mongo':
+            return {
+                type,
+                characterRepository: CharacterRepository,
+                userRepository: UserRepository,
+                connect: connectToDatabase
+            };
+        case 'json': {
+            const dataDirectory = getJsonDataDirectory();
+            return {
+                type,
+                characterRepository: createJsonFileCharacterRepository(path.join(dataDirectory, 'characters.json')),
+                userRepository: createJsonFileUserRepository(path.join(dataDirectory, 'users.json')),
+                connect: async () => {}
+            };
+        }
+        case 'memory':
+            return {
+                type,
+                characterRepository: createInMemoryCharacterRepository(),
+                userRepository: createInMemoryUserRepository(),
+                connect: async () => {}
+            };
+    }
+}
@@ -0,0 +1,129 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import WebSocket from 'ws';
+import { Character, Monster, Item, CombatState, AttackResult } from '../types.js';
+import { monsters } from '../gameData.js';
+import { calculateCombatStats, selectTarget } from '../combatCalculator.js';
+import { performPlayerAttackAction } from '../combatActions.js';
+import { applyStatusEffect } from '../statusEffects.js';
+import { calculateCharacterStats } from '../utils.js';
+import { createSeededRng } from '../rng.js';
+import { simulateCombat } from '../simulation/combatEngine.js';
+import { buildSimulatedCharacter } from '../simulation/balanceSimulator.js';
+import { createInMemoryCharacterRepository } from '../repositories/memoryRepositories.js';
+import { CharacterMutationQueue } from '../services/characterMutationQueue.js';
+import { CombatService } from '../services/combatService.js';
+import { setupTestContent } from './helpers.js';
+
+before(setupTestContent);
+
+function createWarrior(): Character {
+    return buildSimulatedCharacter('warrior', 3, ['short_sword'], createSeededRng('gear'));
+}
+
+// A fresh copy of a monster template, at full HP
+function createMonster(monsterId: string): Monster {
+    const template = monsters.get(monsterId);
+    if (!template) throw new Error(`Unknown monster "${monsterId}".`);
+    return { ...structuredClone(template), currentHp: template.maxHp, statusEffects: [] };
+}
+
+function createCombatState(character: Character, monster: Monster): CombatState {
+    return { character, encounter: { monsters: [monster], targetId: monster.id } };
+}
+
+test('the same seed produces the same event log', () => {
+    const character = createWarrior();
+    const pack = [createMonster('goblin1'), { ...createMonster('rat1'), id: 'rat1-b' }];
+
+    const first = simulateCombat(character, pack, 'determinism');
+    const second = simulateCombat(character, pack, 'determinism');
+
+    assert.ok(first.events.length > 0);
+    assert.deepEqual(second, first);
+});
+
+test('a stunned character skips its swing without rolling', () => {
+    const now = 1_000_000;
+    const character = createWarrior();
+    applyStatusEffect(character.statusEffects, 'stun', now);
+    const monster = createMonster('rat1');
+    let rolls = 0;
+    const seeded = createSeededRng('stun');
+    const rng = { ...seeded, next: () => { rolls++; return seeded.next(); } };
+
+    const action = performPlayerAttackAction(createCombatState(character, monster), rng, now);
+
+    assert.deepEqual(action, { skipped: 'stunned' });
+    assert.equal(monster.currentHp, monster.maxHp);
+    assert.equal(rolls, 0);
+});
+
+test('life and mana steal only count physical damage', () => {
+    const character = createWarrior();
+    const weapon = character.equipment.mainHand;
+    assert.ok(weapon);
+    weapon.suffixes = [{
+        id: 'test_leech', name: 'of Leeching', type: 'suffix',
+        lifeStealPercent: 0.5, manaStealPercent: 0.25,
+        addedDamage: { fire: { min: 20, max: 20 } }
+    }];
+    const combatStats = calculateCombatStats(calculateCharacterStats(character, 0), 0);
+    const rng = createSeededRng('steal');
+
+    let hits = 0;
+    for (let swing = 0; swing < 50 && hits < 5; swing++) {
+        character.currentHp = 1;
+        character.currentMana = 0;
+        const monster = createMonster('goblin1');
+        const action = performPlayerAttackAction(createCombatState(character, monster), rng, 0);
+        if (action.skipped || !action.outcome.hit) continue;
+        hits++;
+
+        const { physical, fire } = action.outcome.damageBreakdown;
+        assert.ok(fire > 0, 'the fire damage lands');
+        assert.equal(action.lifeStolen, Math.round(physical * combatStats.lifeStealPercent));
+        assert.equal(action.manaStolen, Math.round(physical * combatStats.manaStealPercent));
+        assert.equal(character.currentHp, 1 + action.lifeStolen);
+        assert.equal(character.currentMana, action.manaStolen);
+    }
+    assert.ok(hits > 0, 'at least one swing hits');
+});
+
+test('the live CombatService and the engine resolve the same fight with the same rng', async () => {
+    const character = { ...createWarrior(), id: 'live-vs-engine', version: 0 };
+    const pack = [createMonster('goblin1'), { ...createMonster('rat1'), id: 'rat1-b' }];
+    const simulated = simulateCombat(character, pack, 'replay', { monsterStartDelayMs: 200 });
+    assert.equal(simulated.winner, 'player');
+
+    // Replay the engine's actions in the same order through the live service, sharing the seed
+    const characterRepository = createInMemoryCharacterRepository(new Map([[character.id, structuredClone(character)]]));
+    const activeEncounters = new Map();
+    const ws = Object.create(WebSocket.prototype) as WebSocket; // Only used as the connection key
+    const service = new CombatService(characterRepository, new CharacterMutationQueue(characterRepository),
+        activeEncounters, new Map(), new Map(), new Map(), new Map(), createSeededRng('replay'));
+    activeEncounters.set(ws, { monsters: structuredClone(pack), targetId: selectTarget(pack, character.targetPriority)?.id ?? null });
+
+    let last: AttackResult | undefined;
+    const loot: Item[] = [];
+    for (const event of simulated.events) {
+        if (event.type === 'player_attack') {
+            last = await service.performPlayerAttack(ws, character.id);
+            assert.equal(last.playerUpdate?.playerDamageDealt, event.damage);
+            assert.equal(last.playerUpdate?.hit, event.hit);
+            loot.push(...last.loot ?? []);
+        } else if (event.type === 'monster_attack') {
+            last = await service.performMonsterAttack(ws, character.id, event.monsterId ?? '');
+            assert.equal(last.monsterUpdate?.monsterDamageTaken, event.damage);
+            assert.equal(last.monsterUpdate?.characterUpdate?.currentHp, event.playerHp);
+        } else {
+            assert.equal(event.type, 'monster_defeated', `unexpected ${event.type} event`);
+        }
+        assert.equal(last?.success, true);
+    }
+
+    assert.equal(last?.encounterEnded, true);
+    assert.deepEqual(loot, simulated.loot);
+    const stored = await characterRepository.findById(character.id);
+    assert.equal((stored?.experience ?? 0) - character.experience, simulated.xpGained);
+});
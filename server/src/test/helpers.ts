@@ -0,0 +1,46 @@
+import { Character, Item } from '../types.js';
+import { loadGameContent } from '../contentLoader.js';
+import { items as itemDefinitions } from '../lootData.js';
+import { buildSimulatedCharacter } from '../simulation/balanceSimulator.js';
+import { createSeededRng } from '../rng.js';
+
+// --- Shared Test Setup ---
+
+let contentLoaded = false;
+
+/**
+ * Loads the game content from server/content once per test file and silences the server's progress
+ * logging, so test output only shows the results. Warnings and errors are still printed.
+ * @throws Error if the content does not load.
+ */
+export function setupTestContent(): void {
+    console.log = () => {};
+    if (contentLoaded) return;
+    const result = loadGameContent();
+    if (!result.success) {
+        throw new Error(`${result.message}\n${(result.errors ?? []).join('\n')}`);
+    }
+    contentLoaded = true;
+}
+
+/**
+ * A level 1 warrior without gear, ready to be stored. Like characters saved before compare-and-swap
+ * was introduced, it has no version field.
+ * @param id The character ID.
+ */
+export function createTestCharacter(id: string): Character {
+    return { ...buildSimulatedCharacter('warrior', 1, [], createSeededRng(id)), id, name: `Tester ${id}` };
+}
+
+/**
+ * A plain (white) item instance of a base item.
+ * @param baseId The base item ID.
+ * @param id The instance ID.
+ * @param quantity Stack size for potions, gold and other stackable items.
+ * @throws Error if the base item does not exist.
+ */
+export function createTestItem(baseId: string, id: string, quantity?: number): Item {
+    const base = itemDefinitions.get(baseId);
+    if (!base) throw new Error(`Unknown item "${baseId}".`);
+    return { ...structuredClone(base), id, quality: 'White', prefixes: [], suffixes: [], quantity: quantity ?? base.quantity };
+}
@@ -0,0 +1,99 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Character } from '../types.js';
+import { createJsonFileCharacterRepository, createJsonFileUserRepository } from '../repositories/jsonFileRepositories.js';
+import { createStorageBackend } from '../storage.js';
+import { setupTestContent, createTestCharacter } from './helpers.js';
+
+let directory = '';
+
+before(() => {
+    setupTestContent();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'json-store-test-'));
+});
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+function readStoredCharacters(filePath: string): Character[] {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+test('characters and users survive a restart', async () => {
+    const charactersPath = path.join(directory, 'restart', 'characters.json');
+    const usersPath = path.join(directory, 'restart', 'users.json');
+    const characters = createJsonFileCharacterRepository(charactersPath);
+    const users = createJsonFileUserRepository(usersPath);
+
+    const character = createTestCharacter('round-trip');
+    await characters.save(character);
+    assert.equal(await characters.updateIfVersion(character.id, 0, { gold: 42 }), true);
+    const user = await users.create({ username: 'round-trip', passwordHash: 'hash', characterIds: [], sharedStash: character.stash });
+    assert.ok(user);
+    await users.updateCharacterList(user.id, character.id, 'add');
+
+    const reloadedCharacters = createJsonFileCharacterRepository(charactersPath);
+    const reloadedUsers = createJsonFileUserRepository(usersPath);
+    assert.deepEqual(await reloadedCharacters.findById(character.id), { ...character, gold: 42, version: 1 });
+    assert.deepEqual((await reloadedUsers.findByUsername('round-trip'))?.characterIds, [character.id]);
+});
+
+test('writes go through a temporary file that is renamed into place', async () => {
+    const filePath = path.join(directory, 'atomic', 'characters.json');
+    const characters = createJsonFileCharacterRepository(filePath);
+    const renames: [string, string][] = [];
+    const rename = fs.promises.rename;
+    fs.promises.rename = async (from, to) => {
+        renames.push([String(from), String(to)]);
+        return rename(from, to);
+    };
+    try {
+        await characters.save(createTestCharacter('atomic'));
+    } finally {
+        fs.promises.rename = rename;
+    }
+
+    assert.equal(renames.length, 1);
+    assert.equal(renames[0]?.[1], filePath);
+    assert.match(renames[0]?.[0] ?? '', /characters\.json\.\d+\.tmp$/);
+    assert.deepEqual(fs.readdirSync(path.dirname(filePath)), ['characters.json']);
+});
+
+test('concurrent writes are serialized and the file ends with the latest state', async () => {
+    const filePath = path.join(directory, 'concurrent', 'characters.json');
+    const characters = createJsonFileCharacterRepository(filePath);
+    const ids = Array.from({ length: 20 }, (_, index) => `concurrent-${index}`);
+
+    await Promise.all(ids.map(id => characters.save(createTestCharacter(id))));
+    await Promise.all(ids.map(id => characters.updateIfVersion(id, 0, { gold: 7 })));
+
+    const stored = readStoredCharacters(filePath);
+    assert.deepEqual(stored.map(character => character.id).sort(), [...ids].sort());
+    assert.ok(stored.every(character => character.gold === 7 && character.version === 1));
+    assert.deepEqual(fs.readdirSync(path.dirname(filePath)), ['characters.json']);
+});
+
+test('a missing file starts an empty collection, a malformed one is refused', async () => {
+    const missing = createJsonFileCharacterRepository(path.join(directory, 'missing', 'characters.json'));
+    assert.deepEqual(await missing.findAll(), []);
+
+    const malformedPath = path.join(directory, 'malformed.json');
+    fs.writeFileSync(malformedPath, '{"id": "not-an-array"}');
+    assert.throws(() => createJsonFileCharacterRepository(malformedPath), /must contain a JSON array/);
+});
+
+test('the json backend stores its files in JSON_DATA_DIR', async () => {
+    const dataDirectory = path.join(directory, 'data');
+    const previous = process.env.JSON_DATA_DIR;
+    process.env.JSON_DATA_DIR = dataDirectory;
+    try {
+        const storage = createStorageBackend('json');
+        await storage.characterRepository.save(createTestCharacter('configured'));
+    } finally {
+        if (previous === undefined) delete process.env.JSON_DATA_DIR;
+        else process.env.JSON_DATA_DIR = previous;
+    }
+
+    assert.deepEqual(readStoredCharacters(path.join(dataDirectory, 'characters.json')).map(character => character.id), ['configured']);
+});
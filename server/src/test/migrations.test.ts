@@ -0,0 +1,107 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { Character, User, StorageBackend } from '../types.js';
+import { createInMemoryCharacterRepository, createInMemoryUserRepository } from '../repositories/memoryRepositories.js';
+import { runMigrations, migrateDocument, assertStepOrder, MigrationStep } from '../migrations/migrationRunner.js';
+import { characterMigrations, CHARACTER_SCHEMA_VERSION } from '../migrations/characterMigrations.js';
+import { userMigrations, USER_SCHEMA_VERSION } from '../migrations/userMigrations.js';
+import { setupTestContent } from './helpers.js';
+
+before(setupTestContent);
+
+// A character and a user as saved by the first versions of the game, before schemaVersion existed
+function createLegacyStorage(): StorageBackend {
+    const character = {
+        id: 'legacy-character',
+        userId: 'legacy-user',
+        name: 'Oldtimer',
+        class: 'warrior',
+        level: 3,
+        stats: { strength: 12, dexterity: 8, vitality: 10 },
+        currentHp: 40,
+        maxHp: 40,
+        currentZoneId: 'town',
+        inventory: [{ id: 'sword', baseId: 'short_sword', name: 'Short Sword', type: 'weapon', description: '', quality: 'White', prefixes: [], suffixes: [] }]
+    } as unknown as Character;
+    const user = { id: 'legacy-user', username: 'oldtimer', passwordHash: 'hash' } as unknown as User;
+    return {
+        type: 'memory',
+        characterRepository: createInMemoryCharacterRepository(new Map([[character.id, character]])),
+        userRepository: createInMemoryUserRepository(new Map([[user.id, user]])),
+        connect: async () => {}
+    };
+}
+
+test('documents without a schema version are upgraded to the latest one', async () => {
+    const storage = createLegacyStorage();
+
+    const report = await runMigrations(storage);
+
+    assert.deepEqual(report.collections.map(collection => [collection.collection, collection.migrated, collection.failed]), [['characters', 1, 0], ['users', 1, 0]]);
+    const character = await storage.characterRepository.findById('legacy-character');
+    assert.equal(character?.schemaVersion, CHARACTER_SCHEMA_VERSION);
+    assert.equal(character?.version, 1);
+    assert.equal(character?.stats.energy, 0);
+    assert.equal(character?.skillPoints, 2);
+    assert.deepEqual(character?.inventory[0]?.gridPosition, { x: 0, y: 0 });
+    assert.deepEqual(character?.buyback, []);
+    const user = await storage.userRepository.findById('legacy-user');
+    assert.equal(user?.schemaVersion, USER_SCHEMA_VERSION);
+    assert.deepEqual(user?.characterIds, []);
+    assert.ok(user?.sharedStash);
+});
+
+test('running the migrations again changes nothing', async () => {
+    const storage = createLegacyStorage();
+    await runMigrations(storage);
+    const character = await storage.characterRepository.findById('legacy-character');
+    const user = await storage.userRepository.findById('legacy-user');
+
+    const report = await runMigrations(storage);
+
+    for (const collection of report.collections) {
+        assert.equal(collection.upToDate, collection.scanned);
+        assert.equal(collection.migrated, 0);
+        assert.deepEqual(collection.documents, []);
+    }
+    assert.deepEqual(await storage.characterRepository.findById('legacy-character'), character);
+    assert.deepEqual(await storage.userRepository.findById('legacy-user'), user);
+});
+
+test('a dry run reports the changes without writing them', async () => {
+    const storage = createLegacyStorage();
+    const character = await storage.characterRepository.findById('legacy-character');
+    const user = await storage.userRepository.findById('legacy-user');
+
+    const report = await runMigrations(storage, { dryRun: true });
+
+    assert.equal(report.dryRun, true);
+    assert.deepEqual(report.collections.map(collection => collection.migrated), [1, 1]);
+    assert.ok(report.collections[0]?.documents[0]?.changedFields.includes('schemaVersion'));
+    assert.deepEqual(await storage.characterRepository.findById('legacy-character'), character);
+    assert.deepEqual(await storage.userRepository.findById('legacy-user'), user);
+});
+
+test('a document from a newer schema is reported as failed and left alone', async () => {
+    const storage = createLegacyStorage();
+    const future = { ...await storage.characterRepository.findById('legacy-character'), schemaVersion: CHARACTER_SCHEMA_VERSION + 1 } as Character;
+    await storage.characterRepository.save(future);
+
+    const report = await runMigrations(storage);
+
+    const characters = report.collections[0];
+    assert.equal(characters?.failed, 1);
+    assert.equal(characters?.migrated, 0);
+    assert.match(characters?.documents[0]?.error ?? '', /newer than the latest known version/);
+    assert.deepEqual(await storage.characterRepository.findById('legacy-character'), future);
+    assert.throws(() => migrateDocument(future, characterMigrations), /newer than the latest known version/);
+});
+
+test('migration steps must be numbered without gaps', () => {
+    const step = (version: number): MigrationStep<User> => ({ version, description: `Step ${version}`, up: user => user });
+
+    assert.doesNotThrow(() => assertStepOrder('Character', characterMigrations));
+    assert.doesNotThrow(() => assertStepOrder('User', userMigrations));
+    assert.throws(() => assertStepOrder('User', [step(1), step(3)]), /migration #2 \("Step 3"\) has version 3, expected 2/);
+    assert.throws(() => assertStepOrder('User', [step(0)]), /expected 1/);
+});
@@ -0,0 +1,53 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { Character } from '../types.js';
+import { dropOnGround } from '../groundLoot.js';
+import { createInMemoryCharacterRepository } from '../repositories/memoryRepositories.js';
+import { CharacterMutationQueue } from '../services/characterMutationQueue.js';
+import { InventoryService } from '../services/inventoryService.js';
+import { setupTestContent, createTestCharacter, createTestItem } from './helpers.js';
+
+before(setupTestContent);
+
+test('a potion drunk while loot is picked up loses neither items nor gold', async () => {
+    const character: Character = {
+        ...createTestCharacter('racer'),
+        currentHp: 1,
+        gold: 10,
+        potionSlot1: 'minor_health_potion',
+        inventory: [createTestItem('minor_health_potion', 'potions', 3)]
+    };
+    character.groundLoot = dropOnGround([], [createTestItem('gold_coins', 'coins', 25), createTestItem('key', 'key')]);
+    const characterRepository = createInMemoryCharacterRepository(new Map([[character.id, structuredClone(character)]]));
+    const inventoryService = new InventoryService(characterRepository, new CharacterMutationQueue(characterRepository));
+
+    const [potion, loot] = await Promise.all([
+        inventoryService.usePotionSlot(character.id, 1),
+        inventoryService.pickUpAll(character.id)
+    ]);
+
+    assert.equal(potion.success, true, potion.message);
+    assert.equal(loot.success, true, loot.message);
+    const stored = await characterRepository.findById(character.id);
+    assert.ok(stored);
+    assert.equal(stored.version, 2);
+    assert.ok(stored.currentHp > 1);
+    assert.equal(stored.gold, 35);
+    assert.deepEqual(stored.groundLoot, []);
+    assert.equal(stored.inventory.find(item => item.id === 'potions')?.quantity, 2);
+    assert.ok(stored.inventory.some(item => item.id === 'key'));
+});
+
+test('a commit based on a stale read is rejected', async () => {
+    const character = createTestCharacter('stale');
+    const characterRepository = createInMemoryCharacterRepository(new Map([[character.id, structuredClone(character)]]));
+    const mutationQueue = new CharacterMutationQueue(characterRepository);
+    const first = await characterRepository.findById(character.id);
+    const second = await characterRepository.findById(character.id);
+    assert.ok(first && second);
+
+    assert.equal(await mutationQueue.commit(first, { gold: 100 }), true);
+    assert.equal(first.version, 1);
+    assert.equal(await mutationQueue.commit(second, { gold: 5 }), false);
+    assert.equal((await characterRepository.findById(character.id))?.gold, 100);
+});
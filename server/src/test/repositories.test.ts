@@ -0,0 +1,114 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ICharacterRepository, IUserRepository, User } from '../types.js';
+import { createEmptyStash, SHARED_STASH_TABS } from '../gameData.js';
+import { VersionedRecord } from '../services/mutationQueue.js';
+import { createInMemoryCharacterRepository, createInMemoryUserRepository } from '../repositories/memoryRepositories.js';
+import { connectToDatabase, closeDatabase, charactersCollection, usersCollection, ObjectId } from '../db.js';
+import { CharacterRepository } from '../repositories/characterRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { createJsonFileCharacterRepository, createJsonFileUserRepository } from '../repositories/jsonFileRepositories.js';
+import { setupTestContent, createTestCharacter } from './helpers.js';
+
+before(setupTestContent);
+
+// The repository methods the compare-and-swap checks use; shared by characters and users
+interface VersionedStore<T extends VersionedRecord> {
+    save(record: T): Promise<void>;
+    findById(id: string): Promise<T | null>;
+    updateIfVersion(id: string, expectedVersion: number, updates: Partial<T>): Promise<boolean>;
+}
+
+interface Backend {
+    characters: ICharacterRepository;
+    users: IUserRepository;
+    createUserId(): string; // Mongo stores users under an ObjectId
+    cleanup(characterId: string, userId: string): Promise<void>;
+}
+
+function createTestUser(id: string): User {
+    return { id, username: `tester-${id}`, passwordHash: 'hash', characterIds: [], sharedStash: createEmptyStash(SHARED_STASH_TABS) };
+}
+
+/**
+ * Stores a record without a version field and checks that only updates based on the stored version are applied.
+ */
+async function assertCompareAndSwap<T extends VersionedRecord>(store: VersionedStore<T>, record: T, change: Partial<T>, staleChange: Partial<T>): Promise<void> {
+    assert.equal(record.version, undefined);
+    await store.save(record);
+
+    // Records saved before compare-and-swap have no version, which counts as 0
+    assert.equal(await store.updateIfVersion(record.id, 0, change), true);
+    const updated = await store.findById(record.id);
+    assert.equal(updated?.version, 1);
+    for (const [field, value] of Object.entries(change)) {
+        assert.deepEqual(updated?.[field as keyof T], value);
+    }
+
+    assert.equal(await store.updateIfVersion(record.id, 0, staleChange), false);
+    assert.equal(await store.updateIfVersion(record.id, 2, staleChange), false);
+    assert.deepEqual(await store.findById(record.id), updated);
+
+    assert.equal(await store.updateIfVersion(record.id, 1, staleChange), true);
+    assert.equal((await store.findById(record.id))?.version, 2);
+}
+
+function describeBackend(name: string, createBackend: () => Promise<Backend>, options: { skip?: string | false } = {}): void {
+    describe(`${name} repositories`, options, () => {
+        let backend: Backend;
+        const characterId = `cas-${name}`;
+        let userId = '';
+
+        before(async () => {
+            backend = await createBackend();
+            userId = backend.createUserId();
+        });
+        after(() => backend?.cleanup(characterId, userId));
+
+        test('character updates with a stale version are rejected', () =>
+            assertCompareAndSwap(backend.characters, createTestCharacter(characterId), { gold: 50 }, { gold: 1 }));
+
+        test('user updates with a stale version are rejected', () =>
+            assertCompareAndSwap(backend.users, createTestUser(userId), { characterIds: ['a'] }, { characterIds: [] }));
+
+        test('updates of unknown records are rejected', async () => {
+            assert.equal(await backend.characters.updateIfVersion(`${characterId}-missing`, 0, { gold: 1 }), false);
+            assert.equal(await backend.users.updateIfVersion(backend.createUserId(), 0, { characterIds: [] }), false);
+        });
+    });
+}
+
+describeBackend('memory', async () => ({
+    characters: createInMemoryCharacterRepository(),
+    users: createInMemoryUserRepository(),
+    createUserId: () => `user-${Math.random()}`,
+    cleanup: async () => {}
+}));
+
+describeBackend('json', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'repositories-test-'));
+    return {
+        characters: createJsonFileCharacterRepository(path.join(directory, 'characters.json')),
+        users: createJsonFileUserRepository(path.join(directory, 'users.json')),
+        createUserId: () => `user-${Math.random()}`,
+        cleanup: async () => fs.rmSync(directory, { recursive: true, force: true })
+    };
+});
+
+// Runs against the database configured by MONGODB_URI and DB_NAME; the test records are deleted afterwards
+describeBackend('mongo', async () => {
+    await connectToDatabase();
+    return {
+        characters: CharacterRepository,
+        users: UserRepository,
+        createUserId: () => new ObjectId().toHexString(),
+        cleanup: async (characterId, userId) => {
+            await charactersCollection.deleteOne({ id: characterId });
+            await usersCollection.deleteOne({ _id: new ObjectId(userId) });
+            await closeDatabase();
+        }
+    };
+}, { skip: !process.env.MONGODB_URI && 'MONGODB_URI is not set' });
@@ -0,0 +1,162 @@
+import { parseArgs } from 'util';
+import { writeFileSync } from 'fs';
+import { loadGameContent } from '../contentLoader.js';
+import { runBalanceSimulation, BalanceReport, BalanceSimulationOptions } from '../simulation/balanceSimulator.js';
+
+// --- Balance Simulation CLI ---
+// Usage (from server/):
+//   npm run simulate -- --class warrior --level 5 --gear short_sword,buckler --kills 500 --format csv --out report.csv
+// Options:
+//   --class <id>        Character class (default: warrior)
+//   --level <n>         Character level (default: 1)
+//   --gear <ids>        Comma-separated base item IDs to equip
+//   --skills <list>     Comma-separated skill:rank pairs to learn; active skills are used whenever ready
+//   --fights <n>        Simulate N independent fights per zone at full HP
+//   --kills <n>         Simulate a session per zone until N kills (HP carries over). Default: --fights 100
+//   --zone <ids>        Comma-separated zone IDs (default: every zone with monsters)
+//   --seed <seed>       RNG seed, same seed = same report (default: 1)
+//   --format json|csv   Output format (default: json)
+//   --out <file>        Write the report to a file instead of stdout
+
+const USAGE = 'Usage: balanceSim [--class <id>] [--level <n>] [--gear <ids>] [--skills <id:rank,...>] [--fights <n> | --kills <n>] [--zone <ids>] [--seed <seed>] [--format json|csv] [--out <file>]';
+
+function parseList(value: string | undefined): string[] {
+    return value ? value.split(',').map(part => part.trim()).filter(part => part.length > 0) : [];
+}
+
+function parsePositiveInt(name: string, value: string | undefined, fallback: number): number {
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new Error(`--${name} must be a positive integer (got "${value}").`);
+    }
+    return parsed;
+}
+
+// Parses "bash:3,cleave:1" into skill ranks
+function parseSkillRanks(value: string | undefined): Record<string, number> {
+    const ranks: Record<string, number> = {};
+    for (const entry of parseList(value)) {
+        const [skillId = '', rank] = entry.split(':').map(part => part.trim());
+        ranks[skillId] = parsePositiveInt('skills', rank ?? '1', 1);
+    }
+    return ranks;
+}
+
+// Escapes a value for CSV output
+function csvValue(value: string | number): string {
+    const text = typeof value === 'number' ? (Number.isInteger(value) ? `${value}` : value.toFixed(4)) : value;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flattens the report into long-format CSV rows: section, zone, key, metric, value.
+ * Designers can pivot this in a spreadsheet.
+ */
+function toCsv(report: BalanceReport): string {
+    const rows: (string | number)[][] = [['section', 'zone', 'key', 'metric', 'value']];
+    for (const zone of report.zones) {
+        const summary: [string, number][] = [
+            ['requiredLevel', zone.requiredLevel],
+            ['encounters', zone.encounters],
+            ['kills', zone.kills],
+            ['monstersKilled', zone.monstersKilled],
+            ['deaths', zone.deaths],
+            ['timeouts', zone.timeouts],
+            ['deathRate', zone.deathRate],
+            ['avgTtkMs', zone.avgTtkMs],
+            ['xpPerHour', zone.xpPerHour],
+            ['goldPerHour', zone.goldPerHour],
+            ['simulatedMs', zone.simulatedMs]
+        ];
+        summary.forEach(([metric, value]) => rows.push(['summary', zone.zoneId, '', metric, value]));
+
+        for (const monster of zone.monsters) {
+            rows.push(['monster', zone.zoneId, monster.monsterId, 'minLevel', monster.minLevel]);
+            rows.push(['monster', zone.zoneId, monster.monsterId, 'maxLevel', monster.maxLevel]);
+            rows.push(['monster', zone.zoneId, monster.monsterId, 'encounters', monster.encounters]);
+            rows.push(['monster', zone.zoneId, monster.monsterId, 'kills', monster.kills]);
+            rows.push(['monster', zone.zoneId, monster.monsterId, 'deaths', monster.deaths]);
+            rows.push(['monster', zone.zoneId, monster.monsterId, 'avgTtkMs', monster.avgTtkMs]);
+        }
+        for (const quality of zone.qualityDistribution) {
+            rows.push(['quality', zone.zoneId, quality.quality, 'expectedPercent', quality.expectedPercent]);
+            rows.push(['quality', zone.zoneId, quality.quality, 'observedCount', quality.observedCount]);
+            rows.push(['quality', zone.zoneId, quality.quality, 'observedPercent', quality.observedPercent]);
+        }
+        for (const drop of zone.dropRates) {
+            const key = `${drop.lootTableId}:${drop.baseId}`;
+            rows.push(['drop', zone.zoneId, key, 'configuredChance', drop.configuredChance]);
+            rows.push(['drop', zone.zoneId, key, 'drops', drop.drops]);
+            rows.push(['drop', zone.zoneId, key, 'observedRate', drop.observedRate]);
+        }
+        zone.warnings.forEach((warning, index) => rows.push(['warning', zone.zoneId, `${index + 1}`, 'message', warning]));
+    }
+    return rows.map(row => row.map(csvValue).join(',')).join('\n') + '\n';
+}
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            class: { type: 'string', default: 'warrior' },
+            level: { type: 'string' },
+            gear: { type: 'string' },
+            skills: { type: 'string' },
+            fights: { type: 'string' },
+            kills: { type: 'string' },
+            zone: { type: 'string' },
+            seed: { type: 'string', default: '1' },
+            format: { type: 'string', default: 'json' },
+            out: { type: 'string' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+    if (values.fights !== undefined && values.kills !== undefined) {
+        throw new Error('Use either --fights or --kills, not both.');
+    }
+    if (values.format !== 'json' && values.format !== 'csv') {
+        throw new Error(`--format must be "json" or "csv" (got "${values.format}").`);
+    }
+
+    // Content loading logs its progress; keep stdout for the report itself
+    console.log = console.error;
+    const contentResult = loadGameContent();
+    if (!contentResult.success) {
+        throw new Error(contentResult.message);
+    }
+
+    const seed = values.seed ?? '1';
+    const options: BalanceSimulationOptions = {
+        classId: values.class ?? 'warrior',
+        level: parsePositiveInt('level', values.level, 1),
+        gear: parseList(values.gear),
+        skills: parseSkillRanks(values.skills),
+        mode: values.kills !== undefined ? 'kills' : 'fights',
+        count: values.kills !== undefined ? parsePositiveInt('kills', values.kills, 100) : parsePositiveInt('fights', values.fights, 100),
+        seed: /^\d+$/.test(seed) ? Number(seed) : seed,
+        zoneIds: parseList(values.zone)
+    };
+
+    const report = runBalanceSimulation(options);
+    const output = values.format === 'csv' ? toCsv(report) : JSON.stringify(report, null, 2) + '\n';
+
+    if (values.out) {
+        writeFileSync(values.out, output);
+        console.error(`Balance report written to ${values.out}`);
+    } else {
+        process.stdout.write(output);
+    }
+}
+
+try {
+    main();
+} catch (error) {
+    console.error(`balanceSim: ${error instanceof Error ? error.message : error}`);
+    console.error(USAGE);
+    process.exit(1);
+}
@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import { createStorageBackend } from '../storage.js';
+import { runMigrations, summarizeMigrationReport } from '../migrations/migrationRunner.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+// --- Data Migration CLI ---
+// Usage (from server/):
+//   npm run migrate -- --dry-run --report
+// Uses the same storage settings as the server (STORAGE_BACKEND, MONGODB_URI, JSON_DATA_DIR).
+// Options:
+//   --dry-run   Show what would be migrated without writing anything
+//   --report    Print the full JSON report (every migrated document and its changed fields) to stdout
+// Exits with 1 if any document failed to migrate.
+
+const USAGE = 'Usage: migrate [--dry-run] [--report]';
+
+async function main(): Promise<number> {
+    const { values } = parseArgs({
+        options: {
+            'dry-run': { type: 'boolean', default: false },
+            report: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    // Storage logs its progress; keep stdout for the report itself
+    console.log = console.error;
+    const storage = createStorageBackend();
+    await storage.connect();
+
+    const report = await runMigrations(storage, { dryRun: values['dry-run'] });
+    summarizeMigrationReport(report).forEach(line => console.error(line));
+    if (values.report) {
+        process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+    }
+    return report.collections.some(collection => collection.failed > 0) ? 1 : 0;
+}
+
+main()
+    .then(exitCode => process.exit(exitCode)) // Also closes the MongoDB connection
+    .catch(error => {
+        console.error(`migrate: ${error instanceof Error ? error.message : error}`);
+        console.error(USAGE);
+        process.exit(1);
+    });
@@ -25,6 +25,9 @@ export interface User {
     username: string;
     passwordHash: string;
     characterIds: string[];
+    sharedStash: Stash; // Shared by all characters of the account
+    schemaVersion?: number; // Stored data layout, upgraded by the migrations in src/migrations
+    version?: number; // Incremented by every compare-and-swap update; missing on old records means 0
 }
 
 // Summary structure sent to client for character selection
@@ -44,6 +47,38 @@ export interface CharacterClass {
         vitality: number;
         energy: number;
     };
+    statsPerLevel: Partial<Character['stats']>; // Automatic attribute growth on every level up
+    attributePointsPerLevel: number; // Free attribute points granted on every level up
+    primaryAttribute: keyof Character['stats']; // Scales weapon damage (strength for most classes)
+    allowedWeaponTypes: WeaponType[]; // Weapon types the class can equip (unarmed is always allowed)
+    weaponMastery?: Partial<Record<WeaponType, number>>; // Increased weapon damage with these types (0.25 = +25%)
+    hpPerLevel: number; // Max HP gained on every level up, on top of vitality
+    manaPerLevel: number; // Max mana gained on every level up, on top of energy
+    mechanic: ClassMechanic;
+}
+
+// --- Class Mechanics ---
+// Each class has one unique resource or passive, resolved by the combat calculator
+export type ClassMechanic =
+    // Gains a stack whenever a monster damages the player; each stack increases weapon damage. Lost when the fight ends.
+    | { type: 'rage'; name: string; description: string; maxStacks: number; damagePerStack: number }
+    // Gains a stack with every hit and loses all on a miss; each stack increases weapon damage of the next hit
+    | { type: 'combo'; name: string; description: string; maxStacks: number; damagePerStack: number }
+    // Weapon hits can be critical; the chance grows with dexterity
+    | { type: 'critical'; name: string; description: string; critChancePerDexterity: number; critMultiplier: number }
+    // Part of the damage taken is paid with mana instead of HP
+    | { type: 'manaShield'; name: string; description: string; absorbPercent: number }
+    // Physical damage taken is reduced
+    | { type: 'fortitude'; name: string; description: string; physicalReductionPercent: number };
+
+export type ClassMechanicType = ClassMechanic['type'];
+
+// Current stacks of a stacking class mechanic (rage, combo) during a fight
+export interface ClassResourceState {
+    type: ClassMechanicType;
+    name: string;
+    stacks: number;
+    maxStacks: number;
 }
 
 export interface Character {
@@ -66,10 +101,132 @@ export interface Character {
     currentZoneId: string;
     inventory: Item[];
     equipment: EquipmentSlots;
-    groundLoot: Item[];
+    groundLoot: GroundLootItem[]; // Drops left by the auto-pickup filter, until picked up or expired
     gold: number;
     potionSlot1?: string;
     potionSlot2?: string;
+    skills: Record<string, number>; // Learned skill ID -> rank
+    skillPoints: number; // Unspent skill points (one per level up)
+    skillHotkeys: (string | null)[]; // Skill ID per action bar slot
+    availableAttributePoints: number; // Unspent attribute points from level ups
+    allocatedAttributes: Character['stats']; // Points spent per attribute (refunded by a respec)
+    autoRestThresholdPercent: number; // Stop hunting below this percent of max HP and rest until full (0 = off)
+    autoPotionRules: AutoPotionRule[]; // Checked in order after every monster attack
+    targetPriority: TargetPriority; // How a new target is picked from a pack when the current one dies
+    statusEffects: ActiveStatusEffect[]; // Timed buffs and debuffs; expired entries are ignored until removed
+    autoPickupFilter: AutoPickupFilter; // Which drops go straight into the inventory
+    stash: Stash; // Personal stash, only reachable in town
+    vendorStocks: Record<string, VendorStock>; // Rotating stock per vendor ID, generated when first opened and after each restock time
+    buyback: BuybackItem[]; // Recently sold items that can be bought back, newest first
+    schemaVersion?: number; // Stored data layout, upgraded by the migrations in src/migrations
+    version?: number; // Incremented by every compare-and-swap update; missing on old records means 0
+    derivedStats?: DerivedStats; // Computed by calculateCharacterStats, not persisted
+    inactiveEquipmentSlots?: EquipmentSlot[]; // Equipped items that give no stats; computed by calculateCharacterStats, not persisted
+}
+
+// --- Auto-Potion ---
+export type AutoPotionResource = 'hp' | 'mana';
+
+// Drinks the potion in a quick slot when a resource falls below a percent of its max during combat
+export interface AutoPotionRule {
+    potionSlot: 1 | 2;
+    resource: AutoPotionResource;
+    thresholdPercent: number; // Whole percent of max HP/mana (1-99)
+}
+
+// --- Ground Loot ---
+// A dropped item waiting on the ground
+export interface GroundLootItem extends Item {
+    expiresAt: number; // Epoch milliseconds; the item vanishes afterwards
+}
+
+// Decides which drops are picked up automatically; everything else stays on the ground
+export interface AutoPickupFilter {
+    enabled: boolean; // Off = every drop stays on the ground
+    minQuality: ItemQuality; // Weapons and armor below this quality stay on the ground
+    types: Item['type'][]; // Item types picked up
+    baseIds: string[]; // Always picked up, whatever their type and quality
+    gold: boolean; // Pick up gold coins
+}
+
+export interface PickUpOutcome {
+    gold: number; // Gold coins added to the character's gold
+    leftOver: Item[]; // Items that did not fit into the inventory
+}
+
+// --- Stash ---
+export type StashKind = 'personal' | 'shared';
+
+// Storage in town: a personal stash per character and a shared one per account
+export interface Stash {
+    tabs: Item[][]; // Each tab is a grid of STASH_COLUMNS x STASH_ROWS; items carry their gridPosition
+    gold: number;
+}
+
+// --- Vendors ---
+// A town NPC that sells items (loaded from vendors.json)
+export interface VendorDefinition {
+    id: string;
+    name: string;
+    description: string;
+    lootTableId?: string; // Rotating stock is drawn from this loot table
+    stockSize: number; // Rotating items per restock
+    alwaysInStock: string[]; // Base item IDs that never sell out (e.g. potions)
+    restockMinutes: number; // Each character's rotating stock is replaced after this long
+    priceMultiplier: number; // Buy price = base sellValue * this (affixes add more, see calculateBuyPrice)
+}
+
+export interface VendorStock {
+    items: Item[]; // Rotating stock left for sale; bought items are removed
+    restocksAt: number; // Epoch milliseconds when the stock is generated anew
+}
+
+// An item for sale with its price
+export type VendorOffer = Item & { price: number };
+
+// What the client is shown when a vendor is opened
+export interface VendorInventory {
+    vendorId: string;
+    name: string;
+    description: string;
+    items: VendorOffer[]; // The never-selling-out items first, then the rotating stock
+    restocksAt: number;
+    vendors: Pick<VendorDefinition, 'id' | 'name'>[]; // Every vendor in town, to switch between them
+}
+
+// A sold item, bought back for exactly the gold it was sold for
+export interface BuybackItem extends Item {
+    buybackPrice: number;
+}
+
+// --- Skills ---
+export type SkillType = 'active' | 'passive';
+
+// What an active skill does when used. Values are for rank 1 and grow with SkillDefinition.rankScaling.
+export interface SkillEffect {
+    weaponDamagePercent?: number; // Weapon strike: multiplier of normal attack damage (1.5 = 150%); rolls to hit
+    addedDamage?: AddedDamage; // Elemental damage; without a weapon strike it is a spell that always hits and scales with energy
+    healPercent?: number; // Restores this share of max HP (0.2 = 20%)
+    areaOfEffect?: boolean; // Hits every monster in the pack instead of only the target
+    statusEffects?: StatusEffectApplication[]; // Applied to the character ('self') or to every monster hit ('enemy')
+}
+
+export interface SkillDefinition {
+    id: string;
+    name: string;
+    description: string;
+    classId: string; // Only characters of this class can learn it
+    type: SkillType;
+    maxRank: number;
+    requiredLevel: number; // Character level required for the first rank
+    prerequisites?: string[]; // Skills that need at least one rank first
+    rankScaling?: number; // Each rank after the first adds this share of the rank 1 effect (0.2 = +20%)
+    // Active skills
+    manaCost?: number;
+    cooldownMs?: number;
+    effect?: SkillEffect;
+    // Passive skills: bonuses per rank, added to the character's stats like equipment bonuses
+    bonusesPerRank?: Partial<ItemStats>;
 }
 
 // Explicit type for stats that can appear on items
@@ -87,6 +244,10 @@ export interface ItemStats {
     attackSpeed?: number; // Base attack speed (ms), primarily for weapons
 }
 
+// Full derived-stat sheet of a character: final values after base stats and all equipment bonuses
+// (item stats and affix bonuses). Resistances are capped.
+export type DerivedStats = Required<Omit<ItemStats, 'strength' | 'dexterity' | 'vitality' | 'energy' | 'attackSpeed' | 'defenseBonusPercent'>>;
+
 
 // --- Equipment ---
 export type EquipmentSlot = 'head' | 'chest' | 'waist' | 'hands' | 'feet' | 'mainHand' | 'offHand' | 'ring1' | 'ring2' | 'amulet';
@@ -101,13 +262,26 @@ export interface Zone {
     description: string;
     requiredLevel: number;
     connectedZoneIds: string[];
-    monsterIds: string[];
+    monsterLevel?: LevelRange; // Level every spawn in the zone is rolled within (required when the zone has spawns)
+    monsterSpawns: ZoneMonsterSpawn[]; // Empty for safe zones like the town
+    packSize?: { min: number; max: number }; // Monsters per encounter (default: 1)
+}
+
+export interface LevelRange {
+    min: number;
+    max: number;
+}
+
+// One entry of a zone's weighted spawn table; the template is scaled to the rolled zone level
+export interface ZoneMonsterSpawn {
+    monsterId: string;
+    weight: number;
 }
 
 export interface Monster {
     id: string;
     name: string;
-    level: number;
+    level: number; // Template level; spawned instances carry the level they were scaled to
     stats: {
         strength: number;
         dexterity: number;
@@ -118,8 +292,53 @@ export interface Monster {
     baseDamage: number;
     attackSpeed: number; // Time in milliseconds between attacks
     lootTableId?: string; // Optional: ID linking to a loot table in gameData
+    elementalDamage?: AddedDamage; // Optional elemental component added to each attack
+    resistances?: Resistances; // Percent resistances, e.g., { fireRes: 25 }
+    // Set on spawned instances by the variant roll (templates are plain normal monsters)
+    rarity?: MonsterRarity;
+    modifiers?: MonsterModifierInfo[];
+    xpMultiplier?: number; // Multiplies the XP reward
+    physicalDamageReduction?: number; // Share of physical damage taken that is ignored (0.3 = 30%)
+    lifeStealPercent?: number; // Share of the damage it deals that heals the monster
+    onHitStatusEffects?: StatusEffectApplication[]; // Applied to the player by hits that are not blocked ('enemy' only)
+    statusEffects?: ActiveStatusEffect[]; // Timed effects on a spawned instance
+}
+
+// --- Monster Variants ---
+export type MonsterRarity = 'normal' | 'champion' | 'elite' | 'boss';
+
+// How a rarity scales a spawned monster. Loaded from content (monsterVariants.json).
+export interface MonsterRarityDefinition {
+    id: MonsterRarity;
+    name: string;
+    weight: number; // Relative spawn chance
+    hpMultiplier: number;
+    damageMultiplier: number;
+    xpMultiplier: number;
+    modifierCount: number; // Random modifiers rolled for a monster of this rarity
+    lootTableId?: string; // Extra loot table for a kill, on top of the monster's own
+    guaranteedDrops?: number; // Entries of lootTableId that always drop (rolled normally when missing)
+}
+
+// A random monster modifier such as Extra Fast or Fire Enchanted. Loaded from content (monsterVariants.json).
+export interface MonsterModifierDefinition {
+    id: string;
+    name: string;
+    description: string;
+    hpMultiplier?: number;
+    damageMultiplier?: number;
+    attackSpeedMultiplier?: number; // Below 1 attacks faster
+    xpMultiplier?: number;
+    resistances?: Resistances; // Added to the monster's resistances
+    elementalDamage?: AddedDamage; // Added to each attack
+    physicalDamageReduction?: number; // Share of physical damage taken that is ignored
+    lifeStealPercent?: number; // Share of the damage dealt that heals the monster
+    onHitStatusEffects?: StatusEffectApplication[]; // Added to the monster's on-hit effects
 }
 
+// What the client is told about a modifier
+export type MonsterModifierInfo = Pick<MonsterModifierDefinition, 'id' | 'name' | 'description'>;
+
 // --- Item System (Basic) ---
 export interface Item {
     id: string; // Unique instance ID for this specific item
@@ -134,8 +353,37 @@ export interface Item {
     prefixes: Affix[];
     suffixes: Affix[];
     rarity?: 'common' | 'magic' | 'rare' | 'unique' | 'legendary';
+    // Base combat properties, copied from the item definition when the instance is generated
+    damage?: { min: number; max: number };
+    defense?: number;
+    blockChance?: number;
+    attackSpeed?: number; // Time in milliseconds between attacks (weapons only)
+    twoHanded?: boolean;
+    weaponType?: WeaponType; // Weapons only; decides which classes can equip it
+    requirements?: ItemRequirements; // Copied from the item definition; affixes can raise the level further
+    gridPosition?: GridPosition; // Top-left inventory cell; missing on equipped items and on items that did not fit when the grid was introduced
+}
+
+// What a character needs to use an item; checked against level and base attributes (without gear)
+export interface ItemRequirements {
+    level?: number;
+    strength?: number;
+    dexterity?: number;
+}
+
+// --- Inventory Grid ---
+export interface GridPosition {
+    x: number; // Column, 0-based
+    y: number; // Row, 0-based
 }
 
+export interface ItemSize {
+    width: number; // In inventory cells
+    height: number;
+}
+
+export type WeaponType = 'dagger' | 'sword' | 'axe' | 'mace' | 'bow' | 'staff' | 'wand' | 'scepter' | 'polearm';
+
 // --- Item Quality ---
 export type ItemQuality = 'Gray' | 'White' | 'Green' | 'Blue' | 'Purple' | 'Red';
 
@@ -144,7 +392,17 @@ export interface Affix {
     id: string; // Unique ID for the affix definition (e.g., 'str_1', 'fire_res_t1')
     name: string; // Display name (e.g., "of Strength", "Fiery")
     type: 'prefix' | 'suffix';
+    levelReq?: number;
     statModifiers?: Partial<ItemStats>;
+    // Bonuses below live outside statModifiers and are not merged into item.stats
+    increasedAttackSpeed?: number; // e.g., 0.05 for 5% IAS
+    fasterHitRecovery?: number; // e.g., 0.05 for 5% FHR
+    magicFind?: number; // Percent
+    goldFind?: number; // Percent
+    lifeStealPercent?: number; // e.g., 0.03 for 3% of damage dealt
+    manaStealPercent?: number;
+    defenseBonusPercent?: number; // e.g., 0.10 for +10% defense on the item
+    addedDamage?: AddedDamage;
 }
 
 // Type for the value stored in the activeConnections map
@@ -157,12 +415,29 @@ export interface ConnectionData {
 // Type for the map storing active WebSocket connections and their associated user/character info
 export type ActiveConnectionsMap = Map<WebSocket, ConnectionData>;
 
+// --- Encounter Types ---
+// 'lowest_hp' finishes off wounded monsters first, 'highest_threat' the ones dealing the most damage
+export type TargetPriority = 'lowest_hp' | 'highest_threat';
+
+// A fight against a pack of monsters. Defeated monsters are removed; the encounter ends when the pack is empty.
+export interface Encounter {
+    monsters: Monster[];
+    targetId: string | null; // Instance ID of the monster the player attacks (set manually or by the target priority)
+}
+
 // Type for the map storing active combat encounters
-export type ActiveEncountersMap = Map<WebSocket, Monster>;
+export type ActiveEncountersMap = Map<WebSocket, Encounter>;
 
-// Types for the maps storing separate combat loop intervals
+// Types for the maps storing separate combat loop intervals (every pack member attacks on its own timer)
 export type PlayerAttackIntervalsMap = Map<WebSocket, NodeJS.Timeout>;
-export type MonsterAttackIntervalsMap = Map<WebSocket, NodeJS.Timeout>;
+export type MonsterAttackIntervalsMap = Map<WebSocket, Map<string, NodeJS.Timeout>>; // Monster instance ID -> interval
+
+// Types for the maps storing active poison effects (on the player / per poisoned pack member)
+export type PoisonEffectsMap = Map<WebSocket, PoisonEffect>;
+export type MonsterPoisonEffectsMap = Map<WebSocket, Map<string, PoisonEffect>>; // Monster instance ID -> poison
+
+// Type for the map storing connections resting between encounters (-> pending find of the next monster)
+export type RestingConnectionsMap = Map<WebSocket, NodeJS.Timeout>;
 
 // --- Rate Limiting Type ---
 export interface RateLimitInfo {
@@ -170,15 +445,240 @@ export interface RateLimitInfo {
     windowStart: number;
 }
 
+// --- Combat Types ---
+export type ElementalDamageType = 'fire' | 'cold' | 'lightning' | 'poison';
+export type DamageType = 'physical' | ElementalDamageType;
+
+// Elemental damage added to an attack. Poison deals `damage` in total spread over `duration` seconds.
+export interface AddedDamage {
+    fire?: { min: number; max: number };
+    cold?: { min: number; max: number };
+    lightning?: { min: number; max: number };
+    poison?: { damage: number; duration: number };
+}
+
+export type Resistances = Pick<ItemStats, 'fireRes' | 'coldRes' | 'lightningRes' | 'poisonRes'>;
+
+// Damage dealt by a single attack or tick, split by type (after resistances)
+export type DamageBreakdown = Record<DamageType, number>;
+
+// A poison damage-over-time applied by an attack
+export interface PoisonApplication {
+    damagePerTick: number;
+    ticks: number;
+}
+
+// Active poison effect, ticking next to the attack intervals
+export interface PoisonEffect extends PoisonApplication {
+    intervalId: NodeJS.Timeout;
+    monsterId: string; // The poisoned pack member, or the one that poisoned the player
+}
+
+// --- Status Effects ---
+export type StatusEffectKind = 'buff' | 'debuff';
+
+// What happens when an effect is applied while it is already active:
+// 'refresh' restarts the duration, 'stack' adds a stack (up to maxStacks) and restarts the duration,
+// 'extend' adds the duration to the remaining time
+export type StatusEffectStacking = 'refresh' | 'stack' | 'extend';
+
+// A timed effect such as stun, chill, burn or a stat buff. Loaded from content (statusEffects.json).
+// Amounts are per stack.
+export interface StatusEffectDefinition {
+    id: string;
+    name: string;
+    description: string;
+    kind: StatusEffectKind; // Debuffs on the character end with the encounter, buffs last their full duration
+    durationMs: number;
+    stacking: StatusEffectStacking;
+    maxStacks?: number; // 'stack' only (default: 1)
+    tickMs?: number; // How often tickDamage/tickHeal apply (ticks only run during combat)
+    tickDamage?: { type: DamageType; amount: number }; // Reduced by resistances like an attack of that type
+    tickHeal?: number;
+    statModifiers?: Partial<ItemStats>; // Characters only; added like equipment bonuses
+    attackSpeedMultiplier?: number; // Time between attacks is multiplied by this per stack (above 1 is slower)
+    preventsAttacks?: boolean; // Stun: no attacks or skills while active
+    absorb?: number; // Shield: damage absorbed before HP (characters only)
+}
+
+// A chance to apply an effect, e.g. from a skill or a monster modifier
+export interface StatusEffectApplication {
+    effectId: string;
+    target: 'self' | 'enemy';
+    chance?: number; // 0-1 (default: 1)
+}
+
+// An effect active on a character or monster instance. Name and kind are copied for the client.
+export interface ActiveStatusEffect {
+    effectId: string;
+    name: string;
+    kind: StatusEffectKind;
+    stacks: number;
+    expiresAt: number; // Epoch milliseconds
+    nextTickAt?: number; // Effects with a tick only
+    absorbRemaining?: number; // Shields only
+    sourceId?: string; // Monster instance that applied it, for death messages
+}
+
+// Damage and healing from the ticks that came due
+export interface StatusTickOutcome {
+    damage: number;
+    damageBreakdown: DamageBreakdown;
+    healed: number;
+}
+
+// Combined effect of the active status effects on their bearer
+export interface StatusEffectModifiers {
+    stats: Partial<ItemStats>;
+    attackSpeedMultiplier: number;
+    preventsAttacks: boolean;
+}
+
+// Derived offensive/defensive values for a character, computed from stats and equipment
+export interface CombatStats {
+    minDamage: number;
+    maxDamage: number;
+    attackRating: number;
+    defense: number;
+    blockChance: number; // 0-1
+    attackSpeed: number; // Time in milliseconds between attacks
+    addedDamage: AddedDamage; // Elemental damage summed from equipment
+    resistances: Required<Resistances>; // Capped percent resistances
+    lifeStealPercent: number;
+    manaStealPercent: number;
+    fasterHitRecovery: number;
+    // Class mechanics
+    weaponDamageBonus: number; // Increased weapon damage from the class's mastery of the main hand weapon type
+    critChance: number; // 0-1
+    critMultiplier: number;
+    physicalDamageReduction: number; // 0-1, applied to physical damage taken after defense
+    manaShieldPercent: number; // 0-1, share of attack damage taken that is paid with mana
+}
+
+export interface PlayerAttackOutcome {
+    hit: boolean;
+    critical?: boolean;
+    damage: number; // Total immediate damage (physical + elemental)
+    damageBreakdown: DamageBreakdown;
+    poison?: PoisonApplication;
+}
+
+export interface MonsterAttackOutcome {
+    hit: boolean;
+    blocked: boolean;
+    damage: number; // Total damage after defense and resistance mitigation
+    damageBreakdown: DamageBreakdown;
+    poison?: PoisonApplication;
+}
+
+// --- Combat Actions ---
+// The live server (CombatService) and the simulation engine resolve every fight action with combatActions.ts.
+
+// A running fight as the combat actions see it. The actions change it in place.
+export interface CombatState {
+    character: Character; // As stored (without equipment bonuses); HP, mana and status effects change
+    encounter: Encounter; // The living pack members and the player's target
+    classResource?: ClassResourceState;
+}
+
+// Why the player's action did not happen
+export type SkippedPlayerAction = { skipped: 'no_target' } | { skipped: 'stunned' };
+
+export type PlayerAttackAction = SkippedPlayerAction | {
+    skipped?: undefined;
+    target: Monster;
+    outcome: PlayerAttackOutcome;
+    lifeStolen: number;
+    manaStolen: number;
+};
+
+export type SkillAction = SkippedPlayerAction | {
+    skipped?: undefined;
+    target: Monster;
+    outcome: PlayerAttackOutcome;
+    splashHits: SplashHit[]; // Area-of-effect skills: the other pack members
+    healed: number;
+    selfEffects: string[]; // Buffs applied to the character
+    debuffedMonsters: Monster[]; // Pack members the skill applied debuffs to
+    defeated: Monster[];
+};
+
+export type MonsterAttackAction =
+    | { skipped: 'defeated' }
+    | { skipped: 'stunned'; attacker: Monster }
+    | {
+        skipped?: undefined;
+        attacker: Monster;
+        outcome: MonsterAttackOutcome;
+        damage: number; // Taken from HP, after shields and mana shield
+        shieldAbsorbed: number;
+        manaAbsorbed: number;
+        onHitEffects: string[]; // Debuffs applied to the character
+        monsterHealed: number;
+        hitRecoveryDelay: number; // Milliseconds to push back the attacker's next swing
+        playerDefeated: boolean;
+    };
+
+export type PoisonTickAction = { skipped: 'defeated' } | {
+    skipped?: undefined;
+    monster?: Monster; // The poisoned pack member, or the one that poisoned the player (if still alive)
+    damageBreakdown: DamageBreakdown;
+    defeated: boolean; // The poisoned side died
+};
+
+export interface StatusTickAction {
+    playerChanged: boolean; // The character's effects expired or ticked
+    playerTick?: StatusTickOutcome;
+    playerDefeated: boolean;
+    killerName?: string; // Source of the killing effect, if the player died
+    changedMonsters: Monster[];
+    monsterTicks: Map<string, StatusTickOutcome>; // By monster instance ID
+    defeated: Monster[];
+}
+
+export interface DefeatRewards {
+    xp: number;
+    loot: Item[];
+}
+
 // --- WebSocket Message Types (Examples for Combat) ---
+// Damage an area-of-effect skill dealt to a pack member besides the target
+export interface SplashHit {
+    monsterId: string;
+    damage: number;
+    hit: boolean;
+    currentHp: number;
+}
+
 export interface PlayerAttackUpdatePayload {
+    monsterId: string; // The monster hit (the target, or the poisoned monster for poison ticks)
     playerDamageDealt: number;
+    skill?: { skillId: string; name: string; cooldownMs: number; healed?: number }; // Present when the attack was a skill
+    hit: boolean;
+    critical?: boolean;
+    classResource?: ClassResourceState; // Stacks after this attack, for classes with a stacking resource
+    damageBreakdown: DamageBreakdown;
+    isPoisonTick?: boolean; // True when the damage comes from a poison tick rather than an attack
+    lifeStolen?: number;
+    manaStolen?: number;
+    characterUpdate?: { currentHp: number; currentMana: number }; // Present when life/mana steal healed the player or a skill spent mana
     monsterUpdate: { currentHp: number };
+    splashHits?: SplashHit[]; // Area-of-effect skills: the other pack members hit
 }
 
 export interface MonsterAttackUpdatePayload {
+    monsterId: string; // The attacking monster (or the one whose poison ticked)
     monsterDamageTaken: number;
-    characterUpdate: { currentHp: number };
+    hit: boolean;
+    blocked: boolean;
+    damageBreakdown: DamageBreakdown;
+    isPoisonTick?: boolean;
+    manaAbsorbed?: number; // Damage paid with mana by a mana shield (not included in monsterDamageTaken)
+    shieldAbsorbed?: number; // Damage absorbed by shield effects (not included in monsterDamageTaken)
+    classResource?: ClassResourceState; // Stacks after this attack, for classes with a stacking resource
+    monsterHealed?: number; // Life stolen by a vampiric monster
+    monsterUpdate?: { currentHp: number }; // Present when the monster healed
+    characterUpdate: { currentHp: number; currentMana?: number };
 }
 
 // --- Validation Types ---
@@ -197,24 +697,42 @@ export interface ValidationSchema {
 export interface ICharacterRepository {
     findById(id: string): Promise<Character | null>;
     findByUserId(userId: string): Promise<Character[]>;
+    findAll(): Promise<Character[]>; // Used by maintenance jobs such as migrations, not per request
     save(character: Character): Promise<void>;
     update(id: string, updates: Partial<Character>): Promise<void>;
+    // Applies the updates and bumps the version only if the stored version still equals expectedVersion
+    updateIfVersion(id: string, expectedVersion: number, updates: Partial<Character>): Promise<boolean>;
     deleteById(id: string): Promise<boolean>;
 }
 
 export interface IUserRepository {
     findById(id: string): Promise<User | null>;
     findByUsername(username: string): Promise<User | null>;
+    findAll(): Promise<User[]>; // Used by maintenance jobs such as migrations, not per request
     create(userData: Omit<User, 'id'>): Promise<User | null>;
     save(user: User): Promise<void>;
+    // Applies the updates and bumps the version only if the stored version still equals expectedVersion
+    updateIfVersion(id: string, expectedVersion: number, updates: Partial<User>): Promise<boolean>;
     updateCharacterList(userId: string, characterId: string, action: 'add' | 'remove'): Promise<boolean>;
 }
 
+// --- Storage Types ---
+export type StorageBackendType = 'mongo' | 'json' | 'memory';
+
+// The repositories of one persistence backend, plus its startup step
+export interface StorageBackend {
+    type: StorageBackendType;
+    characterRepository: ICharacterRepository;
+    userRepository: IUserRepository;
+    connect(): Promise<void>; // Connects (Mongo) or does nothing; called once before serving clients
+}
+
 // --- Service Result Types ---
 export interface SelectCharacterResult {
     characterData: Character;
     currentZoneData: Zone | undefined;
     zoneStatuses: ZoneWithStatus[]; // Depends on ZoneWithStatus
+    skillTree: SkillDefinition[]; // Skills of the character's class
 }
 
 export interface AuthServiceResult {
@@ -226,8 +744,13 @@ export interface AuthServiceResult {
 export interface FindMonsterResult {
     success: boolean;
     message: string;
-    monster?: Monster;
+    monsters?: Monster[]; // The pack
+    targetId?: string; // The first target
     playerAttackSpeed?: number;
+    playerHitChance?: number; // Percentage, for display
+    monsterHitChance?: number; // Percentage, for display
+    combatStats?: CombatStats;
+    classResource?: ClassResourceState; // Starting stacks, for classes with a stacking resource
 }
 
 export interface AttackResult {
@@ -240,6 +763,34 @@ export interface AttackResult {
     characterUpdate?: any; // Consider defining a more specific type
     loot?: Item[];
     respawn?: boolean;
+    poisonApplied?: { target: 'monster' | 'player'; monsterId: string; poison: PoisonApplication };
+    attackerId?: string; // The pack member that attacked (monster attacks)
+    hitRecoveryDelay?: number; // Milliseconds to push back the attacker's next swing (faster hit recovery)
+    defeatedMonsterIds?: string[]; // Pack members killed by this action
+    targetId?: string | null; // The target after this action, when a kill made the player switch targets
+    statusEffectUpdate?: StatusEffectUpdatePayload; // Present when status effects were applied, expired or ticked
+}
+
+// Status effects of the character and pack members whose effects changed, sent as 'status_effects_update'.
+// attackSpeed is the resulting attack speed; the handler reschedules the attack interval when it differs.
+export interface StatusEffectUpdatePayload {
+    player?: StatusEffectBearerUpdate;
+    monsters?: (StatusEffectBearerUpdate & { monsterId: string })[];
+}
+
+export interface StatusEffectBearerUpdate {
+    effects: ActiveStatusEffect[];
+    attackSpeed: number;
+    tick?: StatusTickOutcome; // Present when damage or healing ticked
+    currentHp?: number; // Present with a tick
+}
+
+export interface SetTargetResult {
+    success: boolean;
+    message: string;
+    targetId?: string;
+    playerHitChance?: number; // Percentage against the new target, for display
+    monsterHitChance?: number;
 }
 
 export interface TravelResult {
@@ -258,6 +809,60 @@ export interface InventoryServiceResult {
     character?: Character;
 }
 
+export interface StashServiceResult {
+    success: boolean;
+    message: string;
+    character?: Character;
+    sharedStash?: Stash; // Included whenever the account's shared stash was read or changed
+}
+
+export interface VendorServiceResult {
+    success: boolean;
+    message: string;
+    character?: Character;
+    vendor?: VendorInventory; // Included whenever a vendor's stock was read or changed
+}
+
+export interface CharacterServiceResult {
+    success: boolean;
+    message: string;
+    character?: Character;
+}
+
+// Current and max HP/mana after a regeneration tick, sent to the client as 'resource_update'
+export interface ResourceUpdatePayload {
+    currentHp: number;
+    maxHp: number;
+    currentMana: number;
+    maxMana: number;
+}
+
+// What a character is doing when the regeneration tick runs
+export interface RegenerationState {
+    inCombat: boolean; // No HP regeneration during an encounter
+    resting: boolean; // Between encounters: HP and mana regenerate faster
+}
+
+export interface RegenerationResult {
+    success: boolean;
+    message: string;
+    update?: ResourceUpdatePayload; // Only present when something was regenerated
+}
+
+export interface SkillServiceResult {
+    success: boolean;
+    message: string;
+    character?: Character;
+}
+
+export interface ContentReloadResult {
+    success: boolean;
+    message: string;
+    errors?: string[]; // Content validation errors, prefixed with their path
+    counts?: Record<string, number>; // Entries per content collection
+    liveEncounters?: number; // Encounters that keep running on their existing monster instances
+}
+
 // --- Zone Status Types ---
 export type ZoneStatus = 'unlocked' | 'locked';
 
@@ -28,38 +28,115 @@ export function randomInt(min: number, max: number): number {
 }
 
 // --- Character Stat Calculation ---
-// Import necessary types, getting ItemStats from Character
-import { Character, Item, EquipmentSlot } from './types.js';
-type ItemStats = Character['stats']; // Use the stats type from Character
+import { Character, Item, EquipmentSlot, ItemStats, DerivedStats, WeaponType } from './types.js';
+import { calculateMaxHp, calculateMaxMana, MAX_PLAYER_RESISTANCE, skills, characterClasses } from './gameData.js';
+import { items as itemDefinitions } from './lootData.js';
+import { getStatusEffectModifiers } from './statusEffects.js';
+import { getActiveEquipment, getInactiveEquipmentSlots } from './equipRules.js';
+type BaseStats = Character['stats'];
+type EquipmentBonusKey = Exclude<keyof ItemStats, 'attackSpeed' | 'defenseBonusPercent'>;
+export type EquipmentBonuses = Record<EquipmentBonusKey, number>;
+
+// Affix bonuses defined outside statModifiers; these are not merged into item.stats on generation
+const TOP_LEVEL_AFFIX_BONUSES = ['increasedAttackSpeed', 'fasterHitRecovery', 'magicFind', 'goldFind', 'lifeStealPercent', 'manaStealPercent'] as const;
+
+function emptyBonuses(): EquipmentBonuses {
+    return {
+        strength: 0, dexterity: 0, vitality: 0, energy: 0,
+        fireRes: 0, coldRes: 0, lightningRes: 0, poisonRes: 0,
+        maxHp: 0, maxMana: 0, attackRating: 0,
+        increasedAttackSpeed: 0, fasterHitRecovery: 0, magicFind: 0, goldFind: 0,
+        lifeStealPercent: 0, manaStealPercent: 0
+    };
+}
 
 /**
- * Calculates the character's final stats including equipment bonuses.
- * Also recalculates derived stats like max HP.
- * @param character The character object with base stats and equipment.
- * @returns A new character object with updated stats and derived values.
+ * Sums every stat bonus from a character's equipment: item stats (which include affix statModifiers)
+ * plus the affix bonuses that live outside statModifiers. Items whose requirements are not met give nothing.
+ * @param character The character with equipment.
+ * @returns The total bonus per stat (0 when no item provides it).
  */
-export function calculateCharacterStats(character: Character): Character {
-    // Start with base stats defined on the character document
-    const baseStats = { ...character.stats };
-    const finalStats: ItemStats = { ...baseStats }; // Initialize final stats with base
-
-    // Add stats from equipment
-    for (const slotKey in character.equipment) {
-        const slot = slotKey as EquipmentSlot;
-        const item = character.equipment[slot];
-        if (item?.stats) {
-            for (const statKey in item.stats) {
-                // Ensure statKey is treated as a key of ItemStats
-                const stat = statKey as keyof ItemStats;
-                if (stat in finalStats) { // Check if the stat exists on finalStats
-                    finalStats[stat] = (finalStats[stat] || 0) + (item.stats[stat] || 0);
-                }
+export function aggregateEquipmentBonuses(character: Character): EquipmentBonuses {
+    const bonuses = emptyBonuses();
+    const activeEquipment = getActiveEquipment(character);
+
+    for (const slotKey in activeEquipment) {
+        const item: Item | undefined = activeEquipment[slotKey as EquipmentSlot];
+        if (!item) continue;
+
+        for (const [statKey, value] of Object.entries(item.stats ?? {})) {
+            if (statKey in bonuses && typeof value === 'number') {
+                bonuses[statKey as EquipmentBonusKey] += value;
             }
         }
+        for (const affix of [...(item.prefixes ?? []), ...(item.suffixes ?? [])]) {
+            for (const key of TOP_LEVEL_AFFIX_BONUSES) {
+                bonuses[key] += affix[key] ?? 0;
+            }
+        }
+    }
+    return bonuses;
+}
+
+/**
+ * Sums the bonuses of a character's learned passive skills (bonus per rank times rank).
+ * Skills that no longer exist in the content are ignored.
+ * @param character The character with learned skills.
+ * @returns The total bonus per stat, in the same shape as the equipment bonuses.
+ */
+export function aggregateSkillBonuses(character: Character): EquipmentBonuses {
+    const bonuses = emptyBonuses();
+    for (const [skillId, rank] of Object.entries(character.skills)) {
+        const skill = skills.get(skillId);
+        if (!skill || skill.type !== 'passive' || !skill.bonusesPerRank) continue;
+        for (const [statKey, value] of Object.entries(skill.bonusesPerRank)) {
+            if (statKey in bonuses && typeof value === 'number') {
+                bonuses[statKey as EquipmentBonusKey] += value * rank;
+            }
+        }
+    }
+    return bonuses;
+}
+
+/**
+ * Sums the stat modifiers of a character's active status effects (buffs and debuffs).
+ * @param character The character with status effects.
+ * @param now Current time in epoch milliseconds.
+ * @returns The total bonus per stat, in the same shape as the equipment bonuses.
+ */
+export function aggregateStatusEffectBonuses(character: Character, now: number = Date.now()): EquipmentBonuses {
+    const bonuses = emptyBonuses();
+    for (const [statKey, value] of Object.entries(getStatusEffectModifiers(character.statusEffects, now).stats)) {
+        if (statKey in bonuses && typeof value === 'number') {
+            bonuses[statKey as EquipmentBonusKey] += value;
+        }
     }
+    return bonuses;
+}
+
+/**
+ * Calculates the character's final stats including equipment, passive skill and status effect bonuses.
+ * Also recalculates derived stats like max HP/mana and builds the full derived-stat sheet.
+ * @param character The character object with base stats and equipment.
+ * @param now Current time in epoch milliseconds (for the status effects).
+ * @returns A new character object with updated stats and derived values.
+ */
+export function calculateCharacterStats(character: Character, now: number = Date.now()): Character {
+    // Decided on the stored attributes, before any gear bonus is added
+    const inactiveEquipmentSlots = getInactiveEquipmentSlots({ ...character, inactiveEquipmentSlots: undefined });
+    const bonuses = aggregateEquipmentBonuses({ ...character, inactiveEquipmentSlots });
+    const skillBonuses = aggregateSkillBonuses(character);
+    const statusBonuses = aggregateStatusEffectBonuses(character, now);
+    (Object.keys(bonuses) as EquipmentBonusKey[]).forEach(key => { bonuses[key] += skillBonuses[key] + statusBonuses[key]; });
+
+    // Start with base stats defined on the character document, then add equipment, skill and status effect bonuses
+    const finalStats: BaseStats = { ...character.stats };
+    (Object.keys(finalStats) as Array<keyof BaseStats>).forEach(statKey => {
+        finalStats[statKey] = (finalStats[statKey] || 0) + bonuses[statKey];
+    });
 
     // --- Sanity Check Stats (Ensure non-negative) ---
-    (Object.keys(finalStats) as Array<keyof ItemStats>).forEach(statKey => {
+    (Object.keys(finalStats) as Array<keyof BaseStats>).forEach(statKey => {
         if (finalStats[statKey] < 0) {
             console.warn(`Character ${character.id}: Calculated stat ${statKey} was negative (${finalStats[statKey]}). Clamping to 0.`);
             finalStats[statKey] = 0;
@@ -67,16 +144,35 @@ export function calculateCharacterStats(character: Character): Character {
     });
 
     // --- Calculate Derived Stats ---
-    let calculatedMaxHp = 50 + (finalStats.vitality || 0) * 5; // Example formula
+    let calculatedMaxHp = calculateMaxHp(finalStats, character.class, character.level) + bonuses.maxHp;
+    let calculatedMaxMana = calculateMaxMana(finalStats, character.class, character.level) + bonuses.maxMana;
 
     // --- Sanity Check Derived Stats ---
     if (calculatedMaxHp < 1) {
         console.warn(`Character ${character.id}: Calculated maxHp was less than 1 (${calculatedMaxHp}). Clamping to 1.`);
         calculatedMaxHp = 1;
     }
+    calculatedMaxMana = Math.max(0, calculatedMaxMana);
 
-    // Ensure currentHp is valid and doesn't exceed new maxHp
+    // Ensure current values are valid and don't exceed the new maximums
     const finalCurrentHp = Math.max(0, Math.min(character.currentHp, calculatedMaxHp));
+    const finalCurrentMana = Math.max(0, Math.min(character.currentMana ?? calculatedMaxMana, calculatedMaxMana));
+
+    const derivedStats: DerivedStats = {
+        maxHp: calculatedMaxHp,
+        maxMana: calculatedMaxMana,
+        attackRating: finalStats.dexterity * 5 + bonuses.attackRating,
+        fireRes: Math.min(MAX_PLAYER_RESISTANCE, bonuses.fireRes),
+        coldRes: Math.min(MAX_PLAYER_RESISTANCE, bonuses.coldRes),
+        lightningRes: Math.min(MAX_PLAYER_RESISTANCE, bonuses.lightningRes),
+        poisonRes: Math.min(MAX_PLAYER_RESISTANCE, bonuses.poisonRes),
+        increasedAttackSpeed: bonuses.increasedAttackSpeed,
+        fasterHitRecovery: bonuses.fasterHitRecovery,
+        magicFind: bonuses.magicFind,
+        goldFind: bonuses.goldFind,
+        lifeStealPercent: bonuses.lifeStealPercent,
+        manaStealPercent: bonuses.manaStealPercent
+    };
 
     // Return a *new* character object with the calculated final stats and derived stats
     // Ensure all original character properties are preserved
@@ -85,7 +181,32 @@ export function calculateCharacterStats(character: Character): Character {
         stats: finalStats, // Overwrite with calculated final stats
         maxHp: calculatedMaxHp, // Overwrite with calculated max HP
         currentHp: finalCurrentHp, // Overwrite with validated current HP
+        maxMana: calculatedMaxMana,
+        currentMana: finalCurrentMana,
+        derivedStats,
+        inactiveEquipmentSlots
     };
 
     return updatedCharacter;
 }
+
+// --- Class Weapon Restrictions ---
+
+/**
+ * Returns the weapon type of an item, falling back to its base definition
+ * (weapons generated before weapon types existed lack it). Non-weapons have none.
+ */
+export function getWeaponType(item: Item): WeaponType | undefined {
+    if (item.type !== 'weapon') return undefined;
+    return item.weaponType ?? itemDefinitions.get(item.baseId)?.weaponType;
+}
+
+/**
+ * Checks whether a class may equip an item. Only weapons are restricted, by the class's allowed
+ * weapon types; weapons without a type and unknown classes are not restricted.
+ */
+export function canClassEquipItem(classId: string, item: Item): boolean {
+    const weaponType = getWeaponType(item);
+    const characterClass = characterClasses.get(classId);
+    return !weaponType || !characterClass || characterClass.allowedWeaponTypes.includes(weaponType);
+}
@@ -1,169 +1,585 @@
-import { zones, monsters, characterClasses, lootTables } from './gameData.js';
-import { items, prefixes, suffixes } from './lootData.js';
-import { Zone, Monster, Item, CharacterClass, ValidationRule, ValidationSchema } from './types.js';
+import { GameContent } from './contentLoader.js';
+import { ValidationRule, ValidationSchema } from './types.js';
+
+// --- Game Content Validation ---
+// Every error is prefixed with the path of the offending value, e.g. "zones.icy_flats.connectedZoneIds[1]: ..."
+
+const STAT_KEYS = ['strength', 'dexterity', 'vitality', 'energy'] as const;
+const RESISTANCE_KEYS = ['fireRes', 'coldRes', 'lightningRes', 'poisonRes'] as const;
+const ELEMENT_RANGE_KEYS = ['fire', 'cold', 'lightning'] as const;
+const ITEM_TYPES = ['weapon', 'armor', 'potion', 'misc'];
+const EQUIPMENT_SLOTS = ['head', 'chest', 'waist', 'hands', 'feet', 'mainHand', 'offHand', 'ring1', 'ring2', 'amulet'];
+const ITEM_QUALITIES = ['Gray', 'White', 'Green', 'Blue', 'Purple', 'Red'];
+const AFFIX_NUMERIC_BONUSES = ['increasedAttackSpeed', 'fasterHitRecovery', 'magicFind', 'goldFind', 'lifeStealPercent', 'manaStealPercent', 'defenseBonusPercent'] as const;
+const SKILL_TYPES = ['active', 'passive'];
+const WEAPON_TYPES = ['dagger', 'sword', 'axe', 'mace', 'bow', 'staff', 'wand', 'scepter', 'polearm'];
+const ITEM_REQUIREMENT_KEYS = ['level', 'strength', 'dexterity'];
+// Numeric fields each class mechanic type requires
+const CLASS_MECHANIC_FIELDS: Record<string, string[]> = {
+    rage: ['maxStacks', 'damagePerStack'],
+    combo: ['maxStacks', 'damagePerStack'],
+    critical: ['critChancePerDexterity', 'critMultiplier'],
+    manaShield: ['absorbPercent'],
+    fortitude: ['physicalReductionPercent']
+};
+// Stats a passive skill may raise (the same ones equipment can raise on the character sheet)
+const SKILL_BONUS_KEYS = [...STAT_KEYS, ...RESISTANCE_KEYS, 'maxHp', 'maxMana', 'attackRating', 'increasedAttackSpeed', 'fasterHitRecovery', 'magicFind', 'goldFind', 'lifeStealPercent', 'manaStealPercent'];
+const MONSTER_RARITIES = ['normal', 'champion', 'elite', 'boss'];
+const MONSTER_MODIFIER_MULTIPLIERS = ['hpMultiplier', 'damageMultiplier', 'attackSpeedMultiplier', 'xpMultiplier'] as const;
+const REQUIRED_ZONE_ID = 'town'; // Characters are created and respawn here
+const STATUS_EFFECT_KINDS = ['buff', 'debuff'];
+const STATUS_EFFECT_STACKING = ['refresh', 'stack', 'extend'];
+const STATUS_EFFECT_TARGETS = ['self', 'enemy'];
+const DAMAGE_TYPES = ['physical', 'fire', 'cold', 'lightning', 'poison'];
 
 // Basic validation function to check if a value is a non-negative number
 function isNonNegativeNumber(value: any): boolean {
     return typeof value === 'number' && !isNaN(value) && value >= 0;
 }
 
+function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: any): boolean {
+    return typeof value === 'string' && value.trim() !== '';
+}
+
+// Checks a { min, max } range
+function validateRange(range: any, path: string, errors: string[]): void {
+    if (!isObject(range)) {
+        errors.push(`${path}: Must be an object with min and max.`);
+    } else if (!isNonNegativeNumber(range.min) || !isNonNegativeNumber(range.max) || range.min > range.max) {
+        errors.push(`${path}: Invalid range ${range.min}-${range.max}. Requires 0 <= min <= max.`);
+    }
+}
+
+// Checks added elemental damage (fire/cold/lightning ranges plus poison damage over time)
+function validateAddedDamage(addedDamage: any, path: string, errors: string[]): void {
+    if (!isObject(addedDamage)) {
+        errors.push(`${path}: Must be an object.`);
+        return;
+    }
+    for (const element of ELEMENT_RANGE_KEYS) {
+        if (addedDamage[element] !== undefined) validateRange(addedDamage[element], `${path}.${element}`, errors);
+    }
+    const poison = addedDamage.poison;
+    if (poison !== undefined && (!isObject(poison) || !isNonNegativeNumber(poison.damage) || !isNonNegativeNumber(poison.duration) || poison.duration <= 0)) {
+        errors.push(`${path}.poison: Invalid poison. Requires damage >= 0 and duration > 0.`);
+    }
+}
+
+// Checks that every value of a stat object is a number
+function validateNumericObject(value: any, path: string, errors: string[]): void {
+    if (!isObject(value)) {
+        errors.push(`${path}: Must be an object.`);
+        return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+        if (typeof entry !== 'number' || isNaN(entry)) errors.push(`${path}.${key}: Invalid value "${entry}". Must be a number.`);
+    }
+}
+
+// Checks a list of status effect applications; monsters can only apply effects to the player ('enemy')
+function validateStatusEffectApplications(applications: any, path: string, content: GameContent, errors: string[], allowedTargets: string[] = STATUS_EFFECT_TARGETS): void {
+    if (!Array.isArray(applications)) {
+        errors.push(`${path}: Must be an array.`);
+        return;
+    }
+    applications.forEach((application, index) => {
+        const entryPath = `${path}[${index}]`;
+        if (!isObject(application)) {
+            errors.push(`${entryPath}: Must be an object.`);
+            return;
+        }
+        if (!content.statusEffects.has(application.effectId)) errors.push(`${entryPath}.effectId: Status effect "${application.effectId}" does not exist.`);
+        if (!allowedTargets.includes(application.target)) errors.push(`${entryPath}.target: Invalid target "${application.target}". Must be one of ${allowedTargets.join(', ')}.`);
+        if (application.chance !== undefined && (!isNonNegativeNumber(application.chance) || application.chance > 1)) errors.push(`${entryPath}.chance: Invalid chance "${application.chance}". Must be between 0 and 1.`);
+    });
+}
+
 // Validate Zone data
-function validateZones(): string[] {
+function validateZones(content: GameContent): string[] {
     const errors: string[] = [];
-    console.log(`Validating ${zones.size} zones...`);
-    for (const [id, zone] of zones.entries()) {
-        if (!zone) {
-            errors.push(`Zone ID "${id}" maps to an undefined value.`);
+    console.log(`Validating ${content.zones.size} zones...`);
+    if (!content.zones.has(REQUIRED_ZONE_ID)) errors.push(`zones.${REQUIRED_ZONE_ID}: Required zone is missing.`);
+
+    for (const [id, zone] of content.zones.entries()) {
+        const path = `zones.${id}`;
+        if (!isObject(zone)) {
+            errors.push(`${path}: Must be an object.`);
             continue;
         }
-        if (typeof zone.id !== 'string' || zone.id !== id) errors.push(`Zone "${id}": Mismatched id property "${zone.id}".`);
-        if (typeof zone.name !== 'string' || zone.name.trim() === '') errors.push(`Zone "${id}": Invalid or missing name.`);
-        if (typeof zone.description !== 'string') errors.push(`Zone "${id}": Missing description.`);
-        if (!isNonNegativeNumber(zone.requiredLevel)) errors.push(`Zone "${id}": Invalid requiredLevel "${zone.requiredLevel}".`);
-        if (!Array.isArray(zone.connectedZoneIds)) errors.push(`Zone "${id}": Missing or invalid connectedZoneIds.`);
+        if (zone.id !== id) errors.push(`${path}.id: Mismatched id "${zone.id}". Must match the key.`);
+        if (!isNonEmptyString(zone.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (typeof zone.description !== 'string') errors.push(`${path}.description: Missing description.`);
+        if (!isNonNegativeNumber(zone.requiredLevel)) errors.push(`${path}.requiredLevel: Invalid requiredLevel "${zone.requiredLevel}".`);
+        if (!Array.isArray(zone.connectedZoneIds)) errors.push(`${path}.connectedZoneIds: Missing or not an array.`);
         else {
-            zone.connectedZoneIds.forEach(connId => {
-                if (!zones.has(connId)) errors.push(`Zone "${id}": Connected zone "${connId}" does not exist.`);
+            zone.connectedZoneIds.forEach((connId, index) => {
+                if (!content.zones.has(connId)) errors.push(`${path}.connectedZoneIds[${index}]: Zone "${connId}" does not exist.`);
+                else if (connId === id) errors.push(`${path}.connectedZoneIds[${index}]: Zone cannot connect to itself.`);
             });
         }
-        if (!Array.isArray(zone.monsterIds)) errors.push(`Zone "${id}": Missing or invalid monsterIds.`);
+        if (!Array.isArray(zone.monsterSpawns)) errors.push(`${path}.monsterSpawns: Missing or not an array.`);
         else {
-             zone.monsterIds.forEach(monsterId => {
-                 if (!monsters.has(monsterId)) errors.push(`Zone "${id}": Monster ID "${monsterId}" does not exist in monsters map.`);
-             });
+            zone.monsterSpawns.forEach((spawn, index) => {
+                const spawnPath = `${path}.monsterSpawns[${index}]`;
+                if (!isObject(spawn)) {
+                    errors.push(`${spawnPath}: Must be an object.`);
+                    return;
+                }
+                if (!content.monsters.has(spawn.monsterId)) errors.push(`${spawnPath}.monsterId: Monster "${spawn.monsterId}" does not exist.`);
+                if (!isNonNegativeNumber(spawn.weight) || spawn.weight <= 0) errors.push(`${spawnPath}.weight: Invalid weight "${spawn.weight}". Must be > 0.`);
+            });
+            if (zone.monsterSpawns.length > 0 && zone.monsterLevel === undefined) {
+                errors.push(`${path}.monsterLevel: Required when the zone has monster spawns.`);
+            }
+        }
+        if (zone.packSize !== undefined) {
+            const size = zone.packSize;
+            if (!isObject(size) || !Number.isInteger(size.min) || !Number.isInteger(size.max) || size.min < 1 || size.min > size.max) {
+                errors.push(`${path}.packSize: Invalid pack size. Needs integer min >= 1 and max >= min.`);
+            }
+        }
+        if (zone.monsterLevel !== undefined) {
+            const range = zone.monsterLevel;
+            if (!isObject(range) || !Number.isInteger(range.min) || !Number.isInteger(range.max) || range.min < 1 || range.min > range.max) {
+                errors.push(`${path}.monsterLevel: Invalid level range. Needs integer min >= 1 and max >= min.`);
+            }
         }
     }
     return errors;
 }
 
 // Validate Monster data
-function validateMonsters(): string[] {
+function validateMonsters(content: GameContent): string[] {
     const errors: string[] = [];
-    console.log(`Validating ${monsters.size} monsters...`);
-    for (const [id, monster] of monsters.entries()) {
-         if (!monster) {
-            errors.push(`Monster ID "${id}" maps to an undefined value.`);
+    console.log(`Validating ${content.monsters.size} monsters...`);
+    for (const [id, monster] of content.monsters.entries()) {
+        const path = `monsters.${id}`;
+        if (!isObject(monster)) {
+            errors.push(`${path}: Must be an object.`);
             continue;
         }
-        if (typeof monster.id !== 'string' || monster.id !== id) errors.push(`Monster "${id}": Mismatched id property "${monster.id}".`);
-        if (typeof monster.name !== 'string' || monster.name.trim() === '') errors.push(`Monster "${id}": Invalid or missing name.`);
-        if (!isNonNegativeNumber(monster.level) || monster.level < 1) errors.push(`Monster "${id}": Invalid level "${monster.level}". Must be >= 1.`);
-        if (typeof monster.stats !== 'object' || monster.stats === null) errors.push(`Monster "${id}": Missing stats object.`);
+        if (monster.id !== id) errors.push(`${path}.id: Mismatched id "${monster.id}". Must match the key.`);
+        if (!isNonEmptyString(monster.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (!isNonNegativeNumber(monster.level) || monster.level < 1) errors.push(`${path}.level: Invalid level "${monster.level}". Must be >= 1.`);
+        if (!isObject(monster.stats)) errors.push(`${path}.stats: Missing stats object.`);
         else {
-            if (!isNonNegativeNumber(monster.stats.strength)) errors.push(`Monster "${id}": Invalid stats.strength "${monster.stats.strength}".`);
-            if (!isNonNegativeNumber(monster.stats.dexterity)) errors.push(`Monster "${id}": Invalid stats.dexterity "${monster.stats.dexterity}".`);
-            if (!isNonNegativeNumber(monster.stats.vitality)) errors.push(`Monster "${id}": Invalid stats.vitality "${monster.stats.vitality}".`);
+            for (const stat of ['strength', 'dexterity', 'vitality'] as const) {
+                if (!isNonNegativeNumber(monster.stats[stat])) errors.push(`${path}.stats.${stat}: Invalid value "${monster.stats[stat]}".`);
+            }
         }
-        if (!isNonNegativeNumber(monster.maxHp) || monster.maxHp <= 0) errors.push(`Monster "${id}": Invalid maxHp "${monster.maxHp}". Must be > 0.`);
-        // currentHp is initialized at runtime, no need to validate here
-        if (!isNonNegativeNumber(monster.baseDamage)) errors.push(`Monster "${id}": Invalid baseDamage "${monster.baseDamage}".`);
-        if (!isNonNegativeNumber(monster.attackSpeed) || monster.attackSpeed <= 0) errors.push(`Monster "${id}": Invalid attackSpeed "${monster.attackSpeed}". Must be > 0.`);
-        if (monster.lootTableId && (typeof monster.lootTableId !== 'string' || !lootTables.has(monster.lootTableId))) {
-             errors.push(`Monster "${id}": Invalid or non-existent lootTableId "${monster.lootTableId}".`);
+        if (!isNonNegativeNumber(monster.maxHp) || monster.maxHp <= 0) errors.push(`${path}.maxHp: Invalid maxHp "${monster.maxHp}". Must be > 0.`);
+        if (!isNonNegativeNumber(monster.baseDamage)) errors.push(`${path}.baseDamage: Invalid baseDamage "${monster.baseDamage}".`);
+        if (!isNonNegativeNumber(monster.attackSpeed) || monster.attackSpeed <= 0) errors.push(`${path}.attackSpeed: Invalid attackSpeed "${monster.attackSpeed}". Must be > 0.`);
+        if (monster.lootTableId !== undefined && (typeof monster.lootTableId !== 'string' || !content.lootTables.has(monster.lootTableId))) {
+            errors.push(`${path}.lootTableId: Loot table "${monster.lootTableId}" does not exist.`);
         }
+        if (monster.elementalDamage !== undefined) validateAddedDamage(monster.elementalDamage, `${path}.elementalDamage`, errors);
+        if (monster.resistances !== undefined) validateResistances(monster.resistances, `${path}.resistances`, errors);
+        if (monster.onHitStatusEffects !== undefined) validateStatusEffectApplications(monster.onHitStatusEffects, `${path}.onHitStatusEffects`, content, errors, ['enemy']);
+    }
+    return errors;
+}
+
+// Checks percent resistances (known keys, at most 100)
+function validateResistances(resistances: any, path: string, errors: string[]): void {
+    if (!isObject(resistances)) {
+        errors.push(`${path}: Must be an object.`);
+        return;
+    }
+    for (const [resKey, value] of Object.entries(resistances)) {
+        if (!(RESISTANCE_KEYS as readonly string[]).includes(resKey)) errors.push(`${path}.${resKey}: Unknown resistance.`);
+        else if (typeof value !== 'number' || value > 100) errors.push(`${path}.${resKey}: Invalid value "${value}". Must be a number <= 100.`);
+    }
+}
+
+// Validate monster rarities and modifiers
+function validateMonsterVariants(content: GameContent): string[] {
+    const errors: string[] = [];
+    console.log(`Validating ${content.monsterRarities.size} monster rarities and ${content.monsterModifiers.size} modifiers...`);
+    if (!content.monsterRarities.has('normal')) errors.push('monsterRarities.normal: Required rarity is missing.');
+
+    for (const [id, rarity] of content.monsterRarities.entries()) {
+        const path = `monsterRarities.${id}`;
+        if (!isObject(rarity)) {
+            errors.push(`${path}: Must be an object.`);
+            continue;
+        }
+        if (rarity.id !== id) errors.push(`${path}.id: Mismatched id "${rarity.id}". Must match the key.`);
+        if (!MONSTER_RARITIES.includes(id)) errors.push(`${path}: Unknown rarity. Must be one of ${MONSTER_RARITIES.join(', ')}.`);
+        if (!isNonEmptyString(rarity.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (!isNonNegativeNumber(rarity.weight)) errors.push(`${path}.weight: Invalid weight "${rarity.weight}".`);
+        for (const key of ['hpMultiplier', 'damageMultiplier', 'xpMultiplier'] as const) {
+            if (!isNonNegativeNumber(rarity[key]) || rarity[key] <= 0) errors.push(`${path}.${key}: Invalid value "${rarity[key]}". Must be > 0.`);
+        }
+        if (!Number.isInteger(rarity.modifierCount) || rarity.modifierCount < 0) errors.push(`${path}.modifierCount: Invalid modifierCount "${rarity.modifierCount}". Must be integer >= 0.`);
+        if (rarity.lootTableId !== undefined && (typeof rarity.lootTableId !== 'string' || !content.lootTables.has(rarity.lootTableId))) {
+            errors.push(`${path}.lootTableId: Loot table "${rarity.lootTableId}" does not exist.`);
+        }
+        if (rarity.guaranteedDrops !== undefined) {
+            if (!Number.isInteger(rarity.guaranteedDrops) || rarity.guaranteedDrops < 1) errors.push(`${path}.guaranteedDrops: Invalid guaranteedDrops "${rarity.guaranteedDrops}". Must be integer >= 1.`);
+            if (rarity.lootTableId === undefined) errors.push(`${path}.guaranteedDrops: Requires a lootTableId.`);
+        }
+    }
+    if (![...content.monsterRarities.values()].some(rarity => isObject(rarity) && rarity.weight > 0)) {
+        errors.push('monsterRarities: At least one rarity needs a weight > 0.');
+    }
+
+    for (const [id, modifier] of content.monsterModifiers.entries()) {
+        const path = `monsterModifiers.${id}`;
+        if (!isObject(modifier)) {
+            errors.push(`${path}: Must be an object.`);
+            continue;
+        }
+        if (modifier.id !== id) errors.push(`${path}.id: Mismatched id "${modifier.id}". Must match the key.`);
+        if (!isNonEmptyString(modifier.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (typeof modifier.description !== 'string') errors.push(`${path}.description: Missing description.`);
+        for (const key of MONSTER_MODIFIER_MULTIPLIERS) {
+            if (modifier[key] !== undefined && (!isNonNegativeNumber(modifier[key]) || modifier[key] <= 0)) errors.push(`${path}.${key}: Invalid value "${modifier[key]}". Must be > 0.`);
+        }
+        for (const key of ['physicalDamageReduction', 'lifeStealPercent'] as const) {
+            if (modifier[key] !== undefined && (!isNonNegativeNumber(modifier[key]) || modifier[key] >= 1)) errors.push(`${path}.${key}: Invalid value "${modifier[key]}". Must be between 0 and 1.`);
+        }
+        if (modifier.resistances !== undefined) validateResistances(modifier.resistances, `${path}.resistances`, errors);
+        if (modifier.elementalDamage !== undefined) validateAddedDamage(modifier.elementalDamage, `${path}.elementalDamage`, errors);
+        if (modifier.onHitStatusEffects !== undefined) validateStatusEffectApplications(modifier.onHitStatusEffects, `${path}.onHitStatusEffects`, content, errors, ['enemy']);
+    }
+    return errors;
+}
+
+// Validate status effect data
+function validateStatusEffects(content: GameContent): string[] {
+    const errors: string[] = [];
+    console.log(`Validating ${content.statusEffects.size} status effects...`);
+    for (const [id, effect] of content.statusEffects.entries()) {
+        const path = `statusEffects.${id}`;
+        if (!isObject(effect)) {
+            errors.push(`${path}: Must be an object.`);
+            continue;
+        }
+        if (effect.id !== id) errors.push(`${path}.id: Mismatched id "${effect.id}". Must match the key.`);
+        if (!isNonEmptyString(effect.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (typeof effect.description !== 'string') errors.push(`${path}.description: Missing description.`);
+        if (!STATUS_EFFECT_KINDS.includes(effect.kind)) errors.push(`${path}.kind: Invalid kind "${effect.kind}". Must be one of ${STATUS_EFFECT_KINDS.join(', ')}.`);
+        if (!isNonNegativeNumber(effect.durationMs) || effect.durationMs <= 0) errors.push(`${path}.durationMs: Invalid durationMs "${effect.durationMs}". Must be > 0.`);
+        if (!STATUS_EFFECT_STACKING.includes(effect.stacking)) errors.push(`${path}.stacking: Invalid stacking "${effect.stacking}". Must be one of ${STATUS_EFFECT_STACKING.join(', ')}.`);
+        if (effect.maxStacks !== undefined && (!Number.isInteger(effect.maxStacks) || effect.maxStacks < 1)) errors.push(`${path}.maxStacks: Invalid maxStacks "${effect.maxStacks}". Must be an integer >= 1.`);
+        if (effect.tickMs !== undefined && (!isNonNegativeNumber(effect.tickMs) || effect.tickMs <= 0)) errors.push(`${path}.tickMs: Invalid tickMs "${effect.tickMs}". Must be > 0.`);
+        if ((effect.tickDamage !== undefined || effect.tickHeal !== undefined) && effect.tickMs === undefined) errors.push(`${path}.tickMs: Required with tickDamage or tickHeal.`);
+        if (effect.tickDamage !== undefined && (!isObject(effect.tickDamage) || !DAMAGE_TYPES.includes(effect.tickDamage.type) || !isNonNegativeNumber(effect.tickDamage.amount))) {
+            errors.push(`${path}.tickDamage: Invalid tick damage. Requires a type (${DAMAGE_TYPES.join(', ')}) and amount >= 0.`);
+        }
+        if (effect.tickHeal !== undefined && !isNonNegativeNumber(effect.tickHeal)) errors.push(`${path}.tickHeal: Invalid tickHeal "${effect.tickHeal}".`);
+        if (effect.statModifiers !== undefined) {
+            validateNumericObject(effect.statModifiers, `${path}.statModifiers`, errors);
+            for (const key of Object.keys(effect.statModifiers ?? {})) {
+                if (!SKILL_BONUS_KEYS.includes(key)) errors.push(`${path}.statModifiers.${key}: Unknown stat "${key}".`);
+            }
+        }
+        if (effect.attackSpeedMultiplier !== undefined && (!isNonNegativeNumber(effect.attackSpeedMultiplier) || effect.attackSpeedMultiplier <= 0)) errors.push(`${path}.attackSpeedMultiplier: Invalid value "${effect.attackSpeedMultiplier}". Must be > 0.`);
+        if (effect.preventsAttacks !== undefined && typeof effect.preventsAttacks !== 'boolean') errors.push(`${path}.preventsAttacks: Must be true or false.`);
+        if (effect.absorb !== undefined && (!isNonNegativeNumber(effect.absorb) || effect.absorb <= 0)) errors.push(`${path}.absorb: Invalid absorb "${effect.absorb}". Must be > 0.`);
     }
     return errors;
 }
 
 // Validate Character Class data
-function validateCharacterClasses(): string[] {
+function validateCharacterClasses(content: GameContent): string[] {
     const errors: string[] = [];
-    console.log(`Validating ${characterClasses.size} character classes...`);
-    for (const [id, charClass] of characterClasses.entries()) {
-        if (!charClass) {
-            errors.push(`Class ID "${id}" maps to an undefined value.`);
+    console.log(`Validating ${content.characterClasses.size} character classes...`);
+    for (const [id, charClass] of content.characterClasses.entries()) {
+        const path = `characterClasses.${id}`;
+        if (!isObject(charClass)) {
+            errors.push(`${path}: Must be an object.`);
             continue;
         }
-        if (typeof charClass.name !== 'string' || charClass.name.trim() === '') errors.push(`Class "${id}": Invalid or missing name.`);
-        if (typeof charClass.description !== 'string') errors.push(`Class "${id}": Missing description.`);
-        if (typeof charClass.baseStats !== 'object' || charClass.baseStats === null) errors.push(`Class "${id}": Missing baseStats object.`);
+        if (!isNonEmptyString(charClass.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (typeof charClass.description !== 'string') errors.push(`${path}.description: Missing description.`);
+        if (!isObject(charClass.baseStats)) errors.push(`${path}.baseStats: Missing baseStats object.`);
+        else {
+            for (const stat of STAT_KEYS) {
+                if (!isNonNegativeNumber(charClass.baseStats[stat])) errors.push(`${path}.baseStats.${stat}: Invalid value "${charClass.baseStats[stat]}".`);
+            }
+        }
+        if (!isObject(charClass.statsPerLevel)) errors.push(`${path}.statsPerLevel: Missing statsPerLevel object.`);
+        else {
+            for (const [stat, value] of Object.entries(charClass.statsPerLevel)) {
+                if (!(STAT_KEYS as readonly string[]).includes(stat)) errors.push(`${path}.statsPerLevel.${stat}: Unknown attribute "${stat}".`);
+                else if (!Number.isInteger(value) || (value as number) < 0) errors.push(`${path}.statsPerLevel.${stat}: Invalid value "${value}". Must be an integer >= 0.`);
+            }
+        }
+        if (!Number.isInteger(charClass.attributePointsPerLevel) || charClass.attributePointsPerLevel < 0) {
+            errors.push(`${path}.attributePointsPerLevel: Invalid value "${charClass.attributePointsPerLevel}". Must be an integer >= 0.`);
+        }
+        if (!(STAT_KEYS as readonly string[]).includes(charClass.primaryAttribute)) errors.push(`${path}.primaryAttribute: Unknown attribute "${charClass.primaryAttribute}".`);
+        if (!Array.isArray(charClass.allowedWeaponTypes)) errors.push(`${path}.allowedWeaponTypes: Must be an array.`);
+        else {
+            charClass.allowedWeaponTypes.forEach((weaponType, index) => {
+                if (!WEAPON_TYPES.includes(weaponType)) errors.push(`${path}.allowedWeaponTypes[${index}]: Unknown weapon type "${weaponType}".`);
+            });
+        }
+        if (charClass.weaponMastery !== undefined) {
+            validateNumericObject(charClass.weaponMastery, `${path}.weaponMastery`, errors);
+            for (const weaponType of Object.keys(charClass.weaponMastery ?? {})) {
+                if (!WEAPON_TYPES.includes(weaponType)) errors.push(`${path}.weaponMastery.${weaponType}: Unknown weapon type "${weaponType}".`);
+            }
+        }
+        if (!isNonNegativeNumber(charClass.hpPerLevel)) errors.push(`${path}.hpPerLevel: Invalid value "${charClass.hpPerLevel}".`);
+        if (!isNonNegativeNumber(charClass.manaPerLevel)) errors.push(`${path}.manaPerLevel: Invalid value "${charClass.manaPerLevel}".`);
+
+        const mechanic = charClass.mechanic as Record<string, any> | undefined;
+        if (!mechanic || !isObject(mechanic)) errors.push(`${path}.mechanic: Missing mechanic object.`);
         else {
-            if (!isNonNegativeNumber(charClass.baseStats.strength)) errors.push(`Class "${id}": Invalid baseStats.strength "${charClass.baseStats.strength}".`);
-            if (!isNonNegativeNumber(charClass.baseStats.dexterity)) errors.push(`Class "${id}": Invalid baseStats.dexterity "${charClass.baseStats.dexterity}".`);
-            if (!isNonNegativeNumber(charClass.baseStats.vitality)) errors.push(`Class "${id}": Invalid baseStats.vitality "${charClass.baseStats.vitality}".`);
-            if (!isNonNegativeNumber(charClass.baseStats.energy)) errors.push(`Class "${id}": Invalid baseStats.energy "${charClass.baseStats.energy}".`);
+            const requiredFields = CLASS_MECHANIC_FIELDS[mechanic.type];
+            if (!requiredFields) errors.push(`${path}.mechanic.type: Invalid type "${mechanic.type}". Must be one of ${Object.keys(CLASS_MECHANIC_FIELDS).join(', ')}.`);
+            if (!isNonEmptyString(mechanic.name)) errors.push(`${path}.mechanic.name: Invalid or missing name.`);
+            if (typeof mechanic.description !== 'string') errors.push(`${path}.mechanic.description: Missing description.`);
+            for (const field of requiredFields ?? []) {
+                if (!isNonNegativeNumber(mechanic[field])) errors.push(`${path}.mechanic.${field}: Invalid value "${mechanic[field]}".`);
+            }
+            if (mechanic.maxStacks !== undefined && (!Number.isInteger(mechanic.maxStacks) || mechanic.maxStacks < 1)) errors.push(`${path}.mechanic.maxStacks: Invalid value "${mechanic.maxStacks}". Must be an integer >= 1.`);
+            for (const field of ['absorbPercent', 'physicalReductionPercent']) {
+                if (mechanic[field] !== undefined && mechanic[field] > 1) errors.push(`${path}.mechanic.${field}: Invalid value "${mechanic[field]}". Must be between 0 and 1.`);
+            }
         }
     }
-    return errors; // Added missing return statement
+    return errors;
 }
 
-// Validate Item data (Basic checks)
-function validateItems(): string[] {
+// Validate class skill trees
+function validateSkills(content: GameContent): string[] {
     const errors: string[] = [];
-    const validTypes = ['weapon', 'armor', 'potion', 'misc'];
-    const validSlots: (string | undefined)[] = ['head', 'chest', 'waist', 'hands', 'feet', 'mainHand', 'offHand', 'ring1', 'ring2', 'amulet', undefined]; // undefined for non-equippable
+    console.log(`Validating ${content.skills.size} skills...`);
+    for (const [id, skill] of content.skills.entries()) {
+        const path = `skills.${id}`;
+        if (!isObject(skill)) {
+            errors.push(`${path}: Must be an object.`);
+            continue;
+        }
+        if (skill.id !== id) errors.push(`${path}.id: Mismatched id "${skill.id}". Must match the key.`);
+        if (!isNonEmptyString(skill.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (typeof skill.description !== 'string') errors.push(`${path}.description: Missing description.`);
+        if (!content.characterClasses.has(skill.classId)) errors.push(`${path}.classId: Class "${skill.classId}" does not exist.`);
+        if (!SKILL_TYPES.includes(skill.type)) errors.push(`${path}.type: Invalid type "${skill.type}". Must be one of ${SKILL_TYPES.join(', ')}.`);
+        if (!Number.isInteger(skill.maxRank) || skill.maxRank < 1) errors.push(`${path}.maxRank: Invalid maxRank "${skill.maxRank}". Must be an integer >= 1.`);
+        if (!Number.isInteger(skill.requiredLevel) || skill.requiredLevel < 1) errors.push(`${path}.requiredLevel: Invalid requiredLevel "${skill.requiredLevel}". Must be an integer >= 1.`);
+        if (skill.rankScaling !== undefined && !isNonNegativeNumber(skill.rankScaling)) errors.push(`${path}.rankScaling: Invalid rankScaling "${skill.rankScaling}".`);
+
+        if (skill.prerequisites !== undefined) {
+            if (!Array.isArray(skill.prerequisites)) errors.push(`${path}.prerequisites: Must be an array.`);
+            else {
+                skill.prerequisites.forEach((prerequisiteId, index) => {
+                    const prerequisite = content.skills.get(prerequisiteId);
+                    if (!prerequisite) errors.push(`${path}.prerequisites[${index}]: Skill "${prerequisiteId}" does not exist.`);
+                    else if (prerequisiteId === id) errors.push(`${path}.prerequisites[${index}]: Skill cannot require itself.`);
+                    else if (prerequisite.classId !== skill.classId) errors.push(`${path}.prerequisites[${index}]: Skill "${prerequisiteId}" belongs to another class.`);
+                });
+            }
+        }
+
+        if (skill.type === 'active') {
+            if (!isNonNegativeNumber(skill.manaCost)) errors.push(`${path}.manaCost: Invalid manaCost "${skill.manaCost}".`);
+            if (!isNonNegativeNumber(skill.cooldownMs)) errors.push(`${path}.cooldownMs: Invalid cooldownMs "${skill.cooldownMs}".`);
+            const effect = skill.effect;
+            if (!effect || !isObject(effect)) errors.push(`${path}.effect: Active skills need an effect object.`);
+            else {
+                if (effect.weaponDamagePercent === undefined && effect.addedDamage === undefined && effect.healPercent === undefined && effect.statusEffects === undefined) {
+                    errors.push(`${path}.effect: Needs at least one of weaponDamagePercent, addedDamage, healPercent or statusEffects.`);
+                }
+                if (effect.weaponDamagePercent !== undefined && !isNonNegativeNumber(effect.weaponDamagePercent)) errors.push(`${path}.effect.weaponDamagePercent: Invalid value "${effect.weaponDamagePercent}".`);
+                if (effect.addedDamage !== undefined) validateAddedDamage(effect.addedDamage, `${path}.effect.addedDamage`, errors);
+                if (effect.healPercent !== undefined && (!isNonNegativeNumber(effect.healPercent) || effect.healPercent > 1)) errors.push(`${path}.effect.healPercent: Invalid value "${effect.healPercent}". Must be between 0 and 1.`);
+                if (effect.areaOfEffect !== undefined && typeof effect.areaOfEffect !== 'boolean') errors.push(`${path}.effect.areaOfEffect: Must be true or false.`);
+                if (effect.statusEffects !== undefined) validateStatusEffectApplications(effect.statusEffects, `${path}.effect.statusEffects`, content, errors);
+            }
+        } else if (skill.type === 'passive') {
+            const bonusesPerRank = skill.bonusesPerRank;
+            if (!bonusesPerRank || !isObject(bonusesPerRank)) errors.push(`${path}.bonusesPerRank: Passive skills need a bonusesPerRank object.`);
+            else {
+                validateNumericObject(bonusesPerRank, `${path}.bonusesPerRank`, errors);
+                for (const key of Object.keys(bonusesPerRank)) {
+                    if (!SKILL_BONUS_KEYS.includes(key)) errors.push(`${path}.bonusesPerRank.${key}: Unknown stat "${key}".`);
+                }
+            }
+        }
+    }
+    return errors;
+}
 
-    console.log(`Validating ${items.size} base items...`);
-    for (const [id, item] of items.entries()) {
-        if (!item) {
-            errors.push(`Item Base ID "${id}" maps to an undefined value.`);
+// Validate base item data
+function validateItems(content: GameContent): string[] {
+    const errors: string[] = [];
+    console.log(`Validating ${content.items.size} base items...`);
+    for (const [id, item] of content.items.entries()) {
+        const path = `items.${id}`;
+        if (!isObject(item)) {
+            errors.push(`${path}: Must be an object.`);
             continue;
         }
-        // Validate that the item's baseId property matches the map key
-        if (typeof item.baseId !== 'string' || item.baseId !== id) errors.push(`Item "${id}": Mismatched baseId property "${item.baseId}". Should match map key.`);
-        if (typeof item.name !== 'string' || item.name.trim() === '') errors.push(`Item "${id}": Invalid or missing name.`);
-        if (typeof item.description !== 'string') errors.push(`Item "${id}": Missing description.`);
-        if (!validTypes.includes(item.type)) errors.push(`Item "${id}": Invalid type "${item.type}".`);
-        if (!validSlots.includes(item.equipmentSlot)) errors.push(`Item "${id}": Invalid equipmentSlot "${item.equipmentSlot}".`);
-        if (item.equipmentSlot && item.type !== 'weapon' && item.type !== 'armor') errors.push(`Item "${id}": Non-equipment type "${item.type}" has equipmentSlot "${item.equipmentSlot}".`);
-        // Check attackSpeed within the stats object, only if stats and attackSpeed exist
-        if (item.stats && (item.stats as any).attackSpeed !== undefined) {
-            const attackSpeedValue = (item.stats as any).attackSpeed;
-            // Only validate if attackSpeed is present in stats
-            if (!isNonNegativeNumber(attackSpeedValue)) {
-                errors.push(`Item "${id}": Invalid stats.attackSpeed "${attackSpeedValue}".`);
+        // The item's baseId property must match the key
+        if (item.baseId !== id) errors.push(`${path}.baseId: Mismatched baseId "${item.baseId}". Must match the key.`);
+        if (!isNonEmptyString(item.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (typeof item.description !== 'string') errors.push(`${path}.description: Missing description.`);
+        if (!ITEM_TYPES.includes(item.type)) errors.push(`${path}.type: Invalid type "${item.type}".`);
+        if (item.equipmentSlot !== undefined) {
+            if (!EQUIPMENT_SLOTS.includes(item.equipmentSlot)) errors.push(`${path}.equipmentSlot: Invalid equipmentSlot "${item.equipmentSlot}".`);
+            else if (item.type !== 'weapon' && item.type !== 'armor') errors.push(`${path}.equipmentSlot: Non-equipment type "${item.type}" cannot have an equipmentSlot.`);
+        }
+        if (item.stats !== undefined) validateNumericObject(item.stats, `${path}.stats`, errors);
+        if (item.damage !== undefined) validateRange(item.damage, `${path}.damage`, errors);
+        if (item.defense !== undefined && !isNonNegativeNumber(item.defense)) errors.push(`${path}.defense: Invalid defense "${item.defense}".`);
+        if (item.blockChance !== undefined && (!isNonNegativeNumber(item.blockChance) || item.blockChance > 1)) errors.push(`${path}.blockChance: Invalid blockChance "${item.blockChance}". Must be between 0 and 1.`);
+        if (item.attackSpeed !== undefined && (!isNonNegativeNumber(item.attackSpeed) || item.attackSpeed <= 0)) errors.push(`${path}.attackSpeed: Invalid attackSpeed "${item.attackSpeed}". Must be > 0.`);
+        if (item.twoHanded !== undefined && typeof item.twoHanded !== 'boolean') errors.push(`${path}.twoHanded: Must be true or false.`);
+        if (item.weaponType !== undefined) {
+            if (!WEAPON_TYPES.includes(item.weaponType)) errors.push(`${path}.weaponType: Invalid weaponType "${item.weaponType}".`);
+            else if (item.type !== 'weapon') errors.push(`${path}.weaponType: Only weapons can have a weaponType.`);
+        }
+        if (item.requirements !== undefined) {
+            if (item.type !== 'weapon' && item.type !== 'armor') errors.push(`${path}.requirements: Only equipment can have requirements.`);
+            else if (!isObject(item.requirements)) errors.push(`${path}.requirements: Must be an object.`);
+            else {
+                for (const [key, value] of Object.entries(item.requirements)) {
+                    if (!ITEM_REQUIREMENT_KEYS.includes(key)) errors.push(`${path}.requirements.${key}: Unknown requirement "${key}".`);
+                    else if (!Number.isInteger(value) || (value as number) < 0) errors.push(`${path}.requirements.${key}: Invalid value "${value}". Must be an integer >= 0.`);
+                }
             }
         }
-        if (item.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 1)) errors.push(`Item "${id}": Invalid quantity "${item.quantity}". Must be integer >= 1.`);
-        if (item.stats && typeof item.stats !== 'object') errors.push(`Item "${id}": Invalid stats definition (must be object or undefined).`);
+        if (item.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 1)) errors.push(`${path}.quantity: Invalid quantity "${item.quantity}". Must be integer >= 1.`);
+        if (item.sellValue !== undefined && !isNonNegativeNumber(item.sellValue)) errors.push(`${path}.sellValue: Invalid sellValue "${item.sellValue}".`);
+        if (item.effect !== undefined) validateNumericObject(item.effect, `${path}.effect`, errors);
+        if (item.type === 'potion' && item.effect === undefined) errors.push(`${path}.effect: Potions require an effect.`);
     }
-    console.log(`Validating ${prefixes.size} prefixes...`);
-    console.log(`Validating ${suffixes.size} suffixes...`);
-    // Basic check: ensure they are Maps
-    if (!(prefixes instanceof Map)) errors.push("Prefix data is not a Map.");
-    if (!(suffixes instanceof Map)) errors.push("Suffix data is not a Map.");
+    return errors;
+}
 
+// Validate prefix and suffix data
+function validateAffixes(content: GameContent): string[] {
+    const errors: string[] = [];
+    for (const [collection, type] of [['prefixes', 'prefix'], ['suffixes', 'suffix']] as const) {
+        console.log(`Validating ${content[collection].size} ${collection}...`);
+        for (const [id, affix] of content[collection].entries()) {
+            const path = `${collection}.${id}`;
+            if (!isObject(affix)) {
+                errors.push(`${path}: Must be an object.`);
+                continue;
+            }
+            if (affix.id !== id) errors.push(`${path}.id: Mismatched id "${affix.id}". Must match the key.`);
+            if (!isNonEmptyString(affix.name)) errors.push(`${path}.name: Invalid or missing name.`);
+            if (affix.type !== type) errors.push(`${path}.type: Invalid type "${affix.type}". Must be "${type}".`);
+            if (affix.levelReq !== undefined && !isNonNegativeNumber(affix.levelReq)) errors.push(`${path}.levelReq: Invalid levelReq "${affix.levelReq}".`);
+            if (affix.statModifiers !== undefined) validateNumericObject(affix.statModifiers, `${path}.statModifiers`, errors);
+            for (const bonus of AFFIX_NUMERIC_BONUSES) {
+                if (affix[bonus] !== undefined && !isNonNegativeNumber(affix[bonus])) errors.push(`${path}.${bonus}: Invalid value "${affix[bonus]}".`);
+            }
+            if (affix.addedDamage !== undefined) validateAddedDamage(affix.addedDamage, `${path}.addedDamage`, errors);
+        }
+    }
     return errors;
 }
 
 // Validate Loot Table data
-function validateLootTables(): string[] {
+function validateLootTables(content: GameContent): string[] {
     const errors: string[] = [];
-    console.log(`Validating ${lootTables.size} loot tables...`);
-    for (const [id, entries] of lootTables.entries()) {
-        if (!entries) {
-            errors.push(`Loot Table ID "${id}" maps to an undefined value.`);
-            continue;
-        }
+    console.log(`Validating ${content.lootTables.size} loot tables...`);
+    for (const [id, entries] of content.lootTables.entries()) {
+        const path = `lootTables.${id}`;
         if (!Array.isArray(entries)) {
-            errors.push(`Loot Table "${id}" is not an array.`);
+            errors.push(`${path}: Must be an array.`);
             continue;
         }
         entries.forEach((entry, index) => {
-            if (typeof entry !== 'object' || entry === null) {
-                errors.push(`Loot Table "${id}", entry ${index}: Invalid format (not an object).`);
+            const entryPath = `${path}[${index}]`;
+            if (!isObject(entry)) {
+                errors.push(`${entryPath}: Must be an object.`);
                 return; // Skip further checks for this entry
             }
-            if (typeof entry.baseId !== 'string' || !items.has(entry.baseId)) {
-                errors.push(`Loot Table "${id}", entry ${index}: Invalid or non-existent item baseId "${entry.baseId}".`);
+            if (typeof entry.baseId !== 'string' || !content.items.has(entry.baseId)) {
+                errors.push(`${entryPath}.baseId: Item "${entry.baseId}" does not exist.`);
             }
             if (typeof entry.chance !== 'number' || entry.chance < 0 || entry.chance > 1) {
-                errors.push(`Loot Table "${id}", entry ${index} (item "${entry.baseId}"): Invalid chance "${entry.chance}". Must be between 0 and 1.`);
+                errors.push(`${entryPath}.chance: Invalid chance "${entry.chance}". Must be between 0 and 1.`);
             }
             if (entry.minQuantity !== undefined && (!Number.isInteger(entry.minQuantity) || entry.minQuantity < 1)) {
-                 errors.push(`Loot Table "${id}", entry ${index} (item "${entry.baseId}"): Invalid minQuantity "${entry.minQuantity}". Must be integer >= 1.`);
+                errors.push(`${entryPath}.minQuantity: Invalid minQuantity "${entry.minQuantity}". Must be integer >= 1.`);
             }
             if (entry.maxQuantity !== undefined && (!Number.isInteger(entry.maxQuantity) || entry.maxQuantity < 1)) {
-                 errors.push(`Loot Table "${id}", entry ${index} (item "${entry.baseId}"): Invalid maxQuantity "${entry.maxQuantity}". Must be integer >= 1.`);
+                errors.push(`${entryPath}.maxQuantity: Invalid maxQuantity "${entry.maxQuantity}". Must be integer >= 1.`);
             }
-             if (entry.minQuantity !== undefined && entry.maxQuantity !== undefined && entry.minQuantity > entry.maxQuantity) {
-                 errors.push(`Loot Table "${id}", entry ${index} (item "${entry.baseId}"): minQuantity (${entry.minQuantity}) cannot be greater than maxQuantity (${entry.maxQuantity}).`);
+            if (entry.minQuantity !== undefined && entry.maxQuantity !== undefined && entry.minQuantity > entry.maxQuantity) {
+                errors.push(`${entryPath}.minQuantity: minQuantity (${entry.minQuantity}) cannot be greater than maxQuantity (${entry.maxQuantity}).`);
             }
         });
     }
     return errors;
 }
 
+// Validate the item quality distribution
+function validateQualityWeights(content: GameContent): string[] {
+    const errors: string[] = [];
+    content.qualityWeights.forEach((entry, index) => {
+        const path = `qualityWeights[${index}]`;
+        if (!isObject(entry)) {
+            errors.push(`${path}: Must be an object.`);
+            return;
+        }
+        if (!ITEM_QUALITIES.includes(entry.quality)) errors.push(`${path}.quality: Invalid quality "${entry.quality}".`);
+        if (!isNonNegativeNumber(entry.weight)) errors.push(`${path}.weight: Invalid weight "${entry.weight}".`);
+    });
+    if (!content.qualityWeights.some(entry => isObject(entry) && entry.weight > 0)) {
+        errors.push('qualityWeights: At least one quality needs a weight > 0.');
+    }
+    return errors;
+}
+
+// Validate the loot table used at each monster level
+function validateLevelLootTables(content: GameContent): string[] {
+    const errors: string[] = [];
+    let previousMinLevel = 0;
+    content.levelLootTables.forEach((band, index) => {
+        const path = `levelLootTables[${index}]`;
+        if (!isObject(band)) {
+            errors.push(`${path}: Must be an object.`);
+            return;
+        }
+        if (!Number.isInteger(band.minLevel) || band.minLevel < 1) errors.push(`${path}.minLevel: Invalid minLevel "${band.minLevel}". Must be integer >= 1.`);
+        else if (band.minLevel <= previousMinLevel) errors.push(`${path}.minLevel: Bands must be sorted by ascending minLevel.`);
+        else previousMinLevel = band.minLevel;
+        if (!content.lootTables.has(band.lootTableId)) errors.push(`${path}.lootTableId: Loot table "${band.lootTableId}" does not exist.`);
+    });
+    return errors;
+}
+
+// Validate the town vendors
+function validateVendors(content: GameContent): string[] {
+    const errors: string[] = [];
+    console.log(`Validating ${content.vendors.size} vendors...`);
+    for (const [id, vendor] of content.vendors.entries()) {
+        const path = `vendors.${id}`;
+        if (!isObject(vendor)) {
+            errors.push(`${path}: Must be an object.`);
+            continue;
+        }
+        if (vendor.id !== id) errors.push(`${path}.id: Mismatched ID "${vendor.id}". Must match the key.`);
+        if (!isNonEmptyString(vendor.name)) errors.push(`${path}.name: Invalid or missing name.`);
+        if (typeof vendor.description !== 'string') errors.push(`${path}.description: Missing description.`);
+        if (vendor.lootTableId !== undefined && !content.lootTables.has(vendor.lootTableId)) errors.push(`${path}.lootTableId: Loot table "${vendor.lootTableId}" does not exist.`);
+        if (!Number.isInteger(vendor.stockSize) || vendor.stockSize < 0) errors.push(`${path}.stockSize: Invalid stockSize "${vendor.stockSize}". Must be integer >= 0.`);
+        else if (vendor.stockSize > 0 && vendor.lootTableId === undefined) errors.push(`${path}.stockSize: A rotating stock needs a lootTableId.`);
+        if (!Array.isArray(vendor.alwaysInStock)) errors.push(`${path}.alwaysInStock: Must be an array.`);
+        else {
+            vendor.alwaysInStock.forEach((baseId, index) => {
+                if (!content.items.has(baseId)) errors.push(`${path}.alwaysInStock[${index}]: Item "${baseId}" does not exist.`);
+            });
+        }
+        if (!isNonNegativeNumber(vendor.restockMinutes) || vendor.restockMinutes <= 0) errors.push(`${path}.restockMinutes: Invalid restockMinutes "${vendor.restockMinutes}". Must be > 0.`);
+        if (!isNonNegativeNumber(vendor.priceMultiplier) || vendor.priceMultiplier <= 0) errors.push(`${path}.priceMultiplier: Invalid priceMultiplier "${vendor.priceMultiplier}". Must be > 0.`);
+    }
+    return errors;
+}
 
 // --- Runtime Payload Validation ---
 
@@ -204,11 +620,71 @@ export const AutoEquipPayloadSchema: ValidationSchema = {
     stat: { type: 'string', required: true, minLength: 1 } // Assuming stat names are non-empty strings
 };
 
+export const SetAutoPotionRulesPayloadSchema: ValidationSchema = {
+    rules: { type: 'array', required: true } // Each rule is checked in the service
+};
+
+export const MoveItemPayloadSchema: ValidationSchema = {
+    itemId: { type: 'string', required: true, minLength: 1 },
+    x: { type: 'number', required: true }, // Grid bounds are checked in the service
+    y: { type: 'number', required: true }
+};
+
+export const PickUpItemPayloadSchema: ValidationSchema = {
+    itemId: { type: 'string', required: true, minLength: 1 } // Instance ID of an item on the ground
+};
+
+export const PickUpAllPayloadSchema: ValidationSchema = {}; // No payload needed
+
+export const SetAutoPickupFilterPayloadSchema: ValidationSchema = {
+    filter: { type: 'object', required: true } // Fields are checked in the service
+};
+
+// Schemas for Stash Payloads
+export const GetStashPayloadSchema: ValidationSchema = {}; // No payload needed
+
+// Either an item (from the inventory or the given tab) or an amount of gold
+export const StashTransferPayloadSchema: ValidationSchema = {
+    stash: { type: 'string', required: true }, // 'personal' or 'shared', checked in the handler
+    tab: { type: 'number', required: false }, // Required with itemId; range is checked in the service
+    itemId: { type: 'string', required: false, minLength: 1 },
+    gold: { type: 'number', required: false },
+    x: { type: 'number', required: false }, // Optional target cell; the first free one if omitted
+    y: { type: 'number', required: false }
+};
+
+export const StashMovePayloadSchema: ValidationSchema = {
+    stash: { type: 'string', required: true },
+    itemId: { type: 'string', required: true, minLength: 1 },
+    fromTab: { type: 'number', required: true },
+    toTab: { type: 'number', required: true },
+    x: { type: 'number', required: true },
+    y: { type: 'number', required: true }
+};
+
+// Schemas for Vendor Payloads
+export const GetVendorInventoryPayloadSchema: ValidationSchema = {
+    vendorId: { type: 'string', required: false, minLength: 1 } // The first vendor if omitted
+};
+
+export const BuyItemPayloadSchema: ValidationSchema = {
+    vendorId: { type: 'string', required: true, minLength: 1 },
+    itemId: { type: 'string', required: true, minLength: 1 }
+};
+
+export const BuybackItemPayloadSchema: ValidationSchema = {
+    itemId: { type: 'string', required: true, minLength: 1 }
+};
+
 // Schema for Combat Payloads
 export const FindMonsterPayloadSchema: ValidationSchema = {
     // No properties currently needed, but schema exists for structure
 };
 
+export const SetTargetPayloadSchema: ValidationSchema = {
+    monsterId: { type: 'string', required: true, minLength: 1 } // Instance ID of a pack member
+};
+
 // Schema for Zone Payloads
 export const TravelPayloadSchema: ValidationSchema = {
     targetZoneId: { type: 'string', required: true, minLength: 1 } // Assuming zone IDs are non-empty strings
@@ -230,6 +706,38 @@ export const DeleteCharacterPayloadSchema: ValidationSchema = {
     characterId: { type: 'string', required: true, minLength: 1 }
 };
 
+export const AllocateAttributesPayloadSchema: ValidationSchema = {
+    // Points to add per attribute; whole numbers and the total are checked in the service
+    strength: { type: 'number', required: false },
+    dexterity: { type: 'number', required: false },
+    vitality: { type: 'number', required: false },
+    energy: { type: 'number', required: false }
+};
+
+export const RespecAttributesPayloadSchema: ValidationSchema = {}; // No payload needed
+
+export const SetAutoRestThresholdPayloadSchema: ValidationSchema = {
+    thresholdPercent: { type: 'number', required: true } // Range is checked in the service
+};
+
+export const SetTargetPriorityPayloadSchema: ValidationSchema = {
+    priority: { type: 'string', required: true } // Checked against TARGET_PRIORITIES in the service
+};
+
+// Schemas for Skill Payloads
+export const LearnSkillPayloadSchema: ValidationSchema = {
+    skillId: { type: 'string', required: true, minLength: 1 }
+};
+
+export const UseSkillPayloadSchema: ValidationSchema = {
+    skillId: { type: 'string', required: true, minLength: 1 }
+};
+
+export const SetSkillHotkeyPayloadSchema: ValidationSchema = {
+    slotNumber: { type: 'number', required: true }, // Range is checked in the service
+    skillId: { type: 'string', required: false } // null clears the slot
+};
+
 
 // Generic payload validation function
 export function validatePayload(payload: unknown, schema: ValidationSchema): boolean {
@@ -294,23 +802,34 @@ export function validatePayload(payload: unknown, schema: ValidationSchema): boo
 }
 
 
-// Main validation function to be called on startup
-export function validateGameData(): void {
+/**
+ * Main game content validation, run on startup and before every hot reload.
+ * Checks a complete set of content, including references between collections.
+ * @param content The content to check (it does not need to be active yet).
+ * @returns Every problem found, each prefixed with its content path. Empty if the content is valid.
+ */
+export function validateGameData(content: GameContent): string[] {
     console.log("--- Starting Game Data Validation ---");
-    let allErrors: string[] = [];
-
-    allErrors = allErrors.concat(validateZones());
-    allErrors = allErrors.concat(validateMonsters());
-    allErrors = allErrors.concat(validateCharacterClasses());
-    allErrors = allErrors.concat(validateItems());
-    allErrors = allErrors.concat(validateLootTables());
+    const allErrors = [
+        ...validateZones(content),
+        ...validateMonsters(content),
+        ...validateMonsterVariants(content),
+        ...validateStatusEffects(content),
+        ...validateCharacterClasses(content),
+        ...validateSkills(content),
+        ...validateItems(content),
+        ...validateAffixes(content),
+        ...validateLootTables(content),
+        ...validateQualityWeights(content),
+        ...validateLevelLootTables(content),
+        ...validateVendors(content)
+    ];
 
     if (allErrors.length > 0) {
         console.error("--- Game Data Validation Failed ---");
         allErrors.forEach(error => console.error(`ERROR: ${error}`));
-        // Optional: Throw an error to prevent server startup with invalid data
-        throw new Error("Invalid game data detected. Server startup aborted.");
     } else {
         console.log("--- Game Data Validation Successful ---");
     }
+    return allErrors;
 }